@@ -205,8 +205,10 @@ exports.Prisma.ShopeeIntegrationScalarFieldEnum = {
   accessToken: 'accessToken',
   refreshToken: 'refreshToken',
   expiresAt: 'expiresAt',
+  refreshExpiresAt: 'refreshExpiresAt',
   shopeeShopId: 'shopeeShopId',
   status: 'status',
+  statusReason: 'statusReason',
   lastSyncAt: 'lastSyncAt',
   failureCount: 'failureCount',
   createdAt: 'createdAt',
@@ -214,6 +216,25 @@ exports.Prisma.ShopeeIntegrationScalarFieldEnum = {
   deletedAt: 'deletedAt'
 };
 
+exports.Prisma.ReconciliationRunScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  status: 'status',
+  windowStart: 'windowStart',
+  windowEnd: 'windowEnd',
+  ordersChecked: 'ordersChecked',
+  ordersMissing: 'ordersMissing',
+  ordersMismatched: 'ordersMismatched',
+  ordersFixed: 'ordersFixed',
+  productsChecked: 'productsChecked',
+  productsMissing: 'productsMissing',
+  stockMismatches: 'stockMismatches',
+  productsFixed: 'productsFixed',
+  error: 'error',
+  startedAt: 'startedAt',
+  completedAt: 'completedAt'
+};
+
 exports.Prisma.ProductScalarFieldEnum = {
   id: 'id',
   shopId: 'shopId',
@@ -224,10 +245,61 @@ exports.Prisma.ProductScalarFieldEnum = {
   stock: 'stock',
   price: 'price',
   imageUrl: 'imageUrl',
+  platformUpdatedAt: 'platformUpdatedAt',
+  stockSyncStatus: 'stockSyncStatus',
+  stockSyncError: 'stockSyncError',
+  stockSyncedAt: 'stockSyncedAt',
+  masterSkuId: 'masterSkuId',
+  masterSkuLinkedAt: 'masterSkuLinkedAt',
+  taxClassification: 'taxClassification',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.ProductVariantScalarFieldEnum = {
+  id: 'id',
+  productId: 'productId',
+  shopeeModelId: 'shopeeModelId',
+  name: 'name',
+  sku: 'sku',
+  stock: 'stock',
+  price: 'price',
+  platformUpdatedAt: 'platformUpdatedAt',
+  stockSyncStatus: 'stockSyncStatus',
+  stockSyncError: 'stockSyncError',
+  stockSyncedAt: 'stockSyncedAt',
+  masterSkuId: 'masterSkuId',
+  masterSkuLinkedAt: 'masterSkuLinkedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.MasterSkuScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  sku: 'sku',
+  name: 'name',
+  stock: 'stock',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.StockMovementScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  productId: 'productId',
+  variantId: 'variantId',
+  masterSkuId: 'masterSkuId',
+  source: 'source',
+  quantityBefore: 'quantityBefore',
+  quantityAfter: 'quantityAfter',
+  change: 'change',
+  reason: 'reason',
+  reference: 'reference',
+  actorId: 'actorId',
+  createdAt: 'createdAt'
+};
+
 exports.Prisma.OrderScalarFieldEnum = {
   id: 'id',
   shopId: 'shopId',
@@ -240,12 +312,29 @@ exports.Prisma.OrderScalarFieldEnum = {
   customerPhone: 'customerPhone',
   shippingAddress: 'shippingAddress',
   orderDate: 'orderDate',
-  items: 'items',
   status: 'status',
+  platformUpdatedAt: 'platformUpdatedAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.OrderItemScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  productId: 'productId',
+  position: 'position',
+  platformItemId: 'platformItemId',
+  platformModelId: 'platformModelId',
+  name: 'name',
+  sku: 'sku',
+  quantity: 'quantity',
+  unitPrice: 'unitPrice',
+  discount: 'discount',
+  amount: 'amount',
+  taxClassification: 'taxClassification',
+  createdAt: 'createdAt'
+};
+
 exports.Prisma.WebhookPayloadScalarFieldEnum = {
   id: 'id',
   shopId: 'shopId',
@@ -253,6 +342,9 @@ exports.Prisma.WebhookPayloadScalarFieldEnum = {
   eventType: 'eventType',
   rawPayload: 'rawPayload',
   signature: 'signature',
+  dedupKey: 'dedupKey',
+  duplicateCount: 'duplicateCount',
+  lastDuplicateAt: 'lastDuplicateAt',
   status: 'status',
   processedAt: 'processedAt',
   errorMessage: 'errorMessage',
@@ -261,6 +353,170 @@ exports.Prisma.WebhookPayloadScalarFieldEnum = {
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.WebhookReplayScalarFieldEnum = {
+  id: 'id',
+  webhookId: 'webhookId',
+  triggeredById: 'triggeredById',
+  previousStatus: 'previousStatus',
+  previousError: 'previousError',
+  bulk: 'bulk',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.ShopTaxProfileScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  taxType: 'taxType',
+  rdoCode: 'rdoCode',
+  registrationDate: 'registrationDate',
+  isVatExempt: 'isVatExempt',
+  isZeroRated: 'isZeroRated',
+  eisEnabled: 'eisEnabled',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.ReceiptSeriesScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  atpNumber: 'atpNumber',
+  prefix: 'prefix',
+  startSerial: 'startSerial',
+  endSerial: 'endSerial',
+  nextSerial: 'nextSerial',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.ReceiptScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  seriesId: 'seriesId',
+  orderId: 'orderId',
+  serialNumber: 'serialNumber',
+  receiptNumber: 'receiptNumber',
+  buyerName: 'buyerName',
+  buyerTin: 'buyerTin',
+  buyerAddress: 'buyerAddress',
+  totalAmount: 'totalAmount',
+  taxType: 'taxType',
+  vatableSales: 'vatableSales',
+  vatAmount: 'vatAmount',
+  vatExemptSales: 'vatExemptSales',
+  zeroRatedSales: 'zeroRatedSales',
+  issuedById: 'issuedById',
+  issuedAt: 'issuedAt',
+  pdfKey: 'pdfKey',
+  pdfGeneratedAt: 'pdfGeneratedAt',
+  status: 'status',
+  voidReason: 'voidReason',
+  voidedById: 'voidedById',
+  voidedAt: 'voidedAt',
+  eisStatus: 'eisStatus',
+  eisBatchId: 'eisBatchId',
+  eisTransmittedAt: 'eisTransmittedAt',
+  eisError: 'eisError',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.ReceiptLineScalarFieldEnum = {
+  id: 'id',
+  receiptId: 'receiptId',
+  position: 'position',
+  name: 'name',
+  sku: 'sku',
+  quantity: 'quantity',
+  unitPrice: 'unitPrice',
+  discount: 'discount',
+  amount: 'amount',
+  taxClassification: 'taxClassification'
+};
+
+exports.Prisma.EisBatchScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  status: 'status',
+  receiptCount: 'receiptCount',
+  payloadDigest: 'payloadDigest',
+  submissionId: 'submissionId',
+  responseCode: 'responseCode',
+  error: 'error',
+  submittedAt: 'submittedAt',
+  completedAt: 'completedAt'
+};
+
+exports.Prisma.ReceiptEventScalarFieldEnum = {
+  id: 'id',
+  receiptId: 'receiptId',
+  type: 'type',
+  actorId: 'actorId',
+  reason: 'reason',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.ExpenseScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  expenseDate: 'expenseDate',
+  supplierName: 'supplierName',
+  supplierTin: 'supplierTin',
+  supplierAddress: 'supplierAddress',
+  description: 'description',
+  category: 'category',
+  amount: 'amount',
+  inputVat: 'inputVat',
+  recordedById: 'recordedById',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.CreditableWithholdingScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  kind: 'kind',
+  agentName: 'agentName',
+  agentTin: 'agentTin',
+  atcCode: 'atcCode',
+  paymentDate: 'paymentDate',
+  incomeAmount: 'incomeAmount',
+  taxWithheld: 'taxWithheld',
+  platform: 'platform',
+  certificateKey: 'certificateKey',
+  certificateFileName: 'certificateFileName',
+  recordedById: 'recordedById',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.MarketplacePayoutScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  platform: 'platform',
+  payoutReference: 'payoutReference',
+  payoutDate: 'payoutDate',
+  grossRemittance: 'grossRemittance',
+  taxWithheld: 'taxWithheld',
+  recordedById: 'recordedById',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.AccountingBookScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  type: 'type',
+  year: 'year',
+  month: 'month',
+  fileKey: 'fileKey',
+  fileName: 'fileName',
+  pageCount: 'pageCount',
+  entryCount: 'entryCount',
+  generatedById: 'generatedById',
+  generatedAt: 'generatedAt'
+};
+
 exports.Prisma.SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -298,19 +554,98 @@ exports.IntegrationStatus = exports.$Enums.IntegrationStatus = {
   DISCONNECTED: 'DISCONNECTED'
 };
 
+exports.ReconciliationStatus = exports.$Enums.ReconciliationStatus = {
+  RUNNING: 'RUNNING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED'
+};
+
 exports.Platform = exports.$Enums.Platform = {
   SHOPEE: 'SHOPEE',
   LAZADA: 'LAZADA',
   TIKTOK: 'TIKTOK'
 };
 
+exports.StockSyncStatus = exports.$Enums.StockSyncStatus = {
+  SYNCED: 'SYNCED',
+  PENDING: 'PENDING',
+  FAILED: 'FAILED'
+};
+
+exports.LineTaxClassification = exports.$Enums.LineTaxClassification = {
+  VATABLE: 'VATABLE',
+  VAT_EXEMPT: 'VAT_EXEMPT',
+  ZERO_RATED: 'ZERO_RATED'
+};
+
+exports.StockMovementSource = exports.$Enums.StockMovementSource = {
+  OPENING_BALANCE: 'OPENING_BALANCE',
+  SHOPEE_WEBHOOK: 'SHOPEE_WEBHOOK',
+  SHOPEE_IMPORT: 'SHOPEE_IMPORT',
+  RECONCILIATION: 'RECONCILIATION',
+  MANUAL_ADJUSTMENT: 'MANUAL_ADJUSTMENT',
+  SALE: 'SALE',
+  RETURN: 'RETURN',
+  STOCK_TAKE: 'STOCK_TAKE',
+  MASTER_SKU: 'MASTER_SKU',
+  REMOVED: 'REMOVED'
+};
+
 exports.WebhookStatus = exports.$Enums.WebhookStatus = {
   PENDING: 'PENDING',
   PROCESSING: 'PROCESSING',
   COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED',
+  UNHANDLED: 'UNHANDLED',
+  STALE: 'STALE'
+};
+
+exports.TaxType = exports.$Enums.TaxType = {
+  VAT: 'VAT',
+  PERCENTAGE_TAX: 'PERCENTAGE_TAX',
+  EIGHT_PERCENT: 'EIGHT_PERCENT'
+};
+
+exports.ReceiptStatus = exports.$Enums.ReceiptStatus = {
+  ISSUED: 'ISSUED',
+  VOID_REVIEW: 'VOID_REVIEW',
+  VOIDED: 'VOIDED'
+};
+
+exports.EisStatus = exports.$Enums.EisStatus = {
+  PENDING: 'PENDING',
+  SUBMITTED: 'SUBMITTED',
+  ACCEPTED: 'ACCEPTED',
+  REJECTED: 'REJECTED',
   FAILED: 'FAILED'
 };
 
+exports.EisBatchStatus = exports.$Enums.EisBatchStatus = {
+  SUBMITTING: 'SUBMITTING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED'
+};
+
+exports.ReceiptEventType = exports.$Enums.ReceiptEventType = {
+  ISSUED: 'ISSUED',
+  VOID_REVIEW_REQUESTED: 'VOID_REVIEW_REQUESTED',
+  VOID_REVIEW_DISMISSED: 'VOID_REVIEW_DISMISSED',
+  VOIDED: 'VOIDED'
+};
+
+exports.WithholdingTaxKind = exports.$Enums.WithholdingTaxKind = {
+  INCOME_TAX: 'INCOME_TAX',
+  VAT: 'VAT',
+  PERCENTAGE_TAX: 'PERCENTAGE_TAX'
+};
+
+exports.AccountingBookType = exports.$Enums.AccountingBookType = {
+  SALES_JOURNAL: 'SALES_JOURNAL',
+  PURCHASE_JOURNAL: 'PURCHASE_JOURNAL',
+  CASH_RECEIPTS: 'CASH_RECEIPTS',
+  CASH_DISBURSEMENTS: 'CASH_DISBURSEMENTS'
+};
+
 exports.Prisma.ModelName = {
   Account: 'Account',
   Session: 'Session',
@@ -321,9 +656,25 @@ exports.Prisma.ModelName = {
   PasswordResetToken: 'PasswordResetToken',
   Invitation: 'Invitation',
   ShopeeIntegration: 'ShopeeIntegration',
+  ReconciliationRun: 'ReconciliationRun',
   Product: 'Product',
+  ProductVariant: 'ProductVariant',
+  MasterSku: 'MasterSku',
+  StockMovement: 'StockMovement',
   Order: 'Order',
-  WebhookPayload: 'WebhookPayload'
+  OrderItem: 'OrderItem',
+  WebhookPayload: 'WebhookPayload',
+  WebhookReplay: 'WebhookReplay',
+  ShopTaxProfile: 'ShopTaxProfile',
+  ReceiptSeries: 'ReceiptSeries',
+  Receipt: 'Receipt',
+  ReceiptLine: 'ReceiptLine',
+  EisBatch: 'EisBatch',
+  ReceiptEvent: 'ReceiptEvent',
+  Expense: 'Expense',
+  CreditableWithholding: 'CreditableWithholding',
+  MarketplacePayout: 'MarketplacePayout',
+  AccountingBook: 'AccountingBook'
 };
 
 /**
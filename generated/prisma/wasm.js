@@ -177,8 +177,10 @@ exports.Prisma.ShopeeIntegrationScalarFieldEnum = {
   accessToken: 'accessToken',
   refreshToken: 'refreshToken',
   expiresAt: 'expiresAt',
+  refreshExpiresAt: 'refreshExpiresAt',
   shopeeShopId: 'shopeeShopId',
   status: 'status',
+  statusReason: 'statusReason',
   lastSyncAt: 'lastSyncAt',
   failureCount: 'failureCount',
   createdAt: 'createdAt',
@@ -186,6 +188,25 @@ exports.Prisma.ShopeeIntegrationScalarFieldEnum = {
   deletedAt: 'deletedAt'
 };
 
+exports.Prisma.ReconciliationRunScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  status: 'status',
+  windowStart: 'windowStart',
+  windowEnd: 'windowEnd',
+  ordersChecked: 'ordersChecked',
+  ordersMissing: 'ordersMissing',
+  ordersMismatched: 'ordersMismatched',
+  ordersFixed: 'ordersFixed',
+  productsChecked: 'productsChecked',
+  productsMissing: 'productsMissing',
+  stockMismatches: 'stockMismatches',
+  productsFixed: 'productsFixed',
+  error: 'error',
+  startedAt: 'startedAt',
+  completedAt: 'completedAt'
+};
+
 exports.Prisma.ProductScalarFieldEnum = {
   id: 'id',
   shopId: 'shopId',
@@ -196,10 +217,61 @@ exports.Prisma.ProductScalarFieldEnum = {
   stock: 'stock',
   price: 'price',
   imageUrl: 'imageUrl',
+  platformUpdatedAt: 'platformUpdatedAt',
+  stockSyncStatus: 'stockSyncStatus',
+  stockSyncError: 'stockSyncError',
+  stockSyncedAt: 'stockSyncedAt',
+  masterSkuId: 'masterSkuId',
+  masterSkuLinkedAt: 'masterSkuLinkedAt',
+  taxClassification: 'taxClassification',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.ProductVariantScalarFieldEnum = {
+  id: 'id',
+  productId: 'productId',
+  shopeeModelId: 'shopeeModelId',
+  name: 'name',
+  sku: 'sku',
+  stock: 'stock',
+  price: 'price',
+  platformUpdatedAt: 'platformUpdatedAt',
+  stockSyncStatus: 'stockSyncStatus',
+  stockSyncError: 'stockSyncError',
+  stockSyncedAt: 'stockSyncedAt',
+  masterSkuId: 'masterSkuId',
+  masterSkuLinkedAt: 'masterSkuLinkedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.MasterSkuScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  sku: 'sku',
+  name: 'name',
+  stock: 'stock',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.StockMovementScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  productId: 'productId',
+  variantId: 'variantId',
+  masterSkuId: 'masterSkuId',
+  source: 'source',
+  quantityBefore: 'quantityBefore',
+  quantityAfter: 'quantityAfter',
+  change: 'change',
+  reason: 'reason',
+  reference: 'reference',
+  actorId: 'actorId',
+  createdAt: 'createdAt'
+};
+
 exports.Prisma.OrderScalarFieldEnum = {
   id: 'id',
   shopId: 'shopId',
@@ -212,12 +284,29 @@ exports.Prisma.OrderScalarFieldEnum = {
   customerPhone: 'customerPhone',
   shippingAddress: 'shippingAddress',
   orderDate: 'orderDate',
-  items: 'items',
   status: 'status',
+  platformUpdatedAt: 'platformUpdatedAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.OrderItemScalarFieldEnum = {
+  id: 'id',
+  orderId: 'orderId',
+  productId: 'productId',
+  position: 'position',
+  platformItemId: 'platformItemId',
+  platformModelId: 'platformModelId',
+  name: 'name',
+  sku: 'sku',
+  quantity: 'quantity',
+  unitPrice: 'unitPrice',
+  discount: 'discount',
+  amount: 'amount',
+  taxClassification: 'taxClassification',
+  createdAt: 'createdAt'
+};
+
 exports.Prisma.WebhookPayloadScalarFieldEnum = {
   id: 'id',
   shopId: 'shopId',
@@ -225,6 +314,9 @@ exports.Prisma.WebhookPayloadScalarFieldEnum = {
   eventType: 'eventType',
   rawPayload: 'rawPayload',
   signature: 'signature',
+  dedupKey: 'dedupKey',
+  duplicateCount: 'duplicateCount',
+  lastDuplicateAt: 'lastDuplicateAt',
   status: 'status',
   processedAt: 'processedAt',
   errorMessage: 'errorMessage',
@@ -233,6 +325,170 @@ exports.Prisma.WebhookPayloadScalarFieldEnum = {
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.WebhookReplayScalarFieldEnum = {
+  id: 'id',
+  webhookId: 'webhookId',
+  triggeredById: 'triggeredById',
+  previousStatus: 'previousStatus',
+  previousError: 'previousError',
+  bulk: 'bulk',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.ShopTaxProfileScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  taxType: 'taxType',
+  rdoCode: 'rdoCode',
+  registrationDate: 'registrationDate',
+  isVatExempt: 'isVatExempt',
+  isZeroRated: 'isZeroRated',
+  eisEnabled: 'eisEnabled',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.ReceiptSeriesScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  atpNumber: 'atpNumber',
+  prefix: 'prefix',
+  startSerial: 'startSerial',
+  endSerial: 'endSerial',
+  nextSerial: 'nextSerial',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.ReceiptScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  seriesId: 'seriesId',
+  orderId: 'orderId',
+  serialNumber: 'serialNumber',
+  receiptNumber: 'receiptNumber',
+  buyerName: 'buyerName',
+  buyerTin: 'buyerTin',
+  buyerAddress: 'buyerAddress',
+  totalAmount: 'totalAmount',
+  taxType: 'taxType',
+  vatableSales: 'vatableSales',
+  vatAmount: 'vatAmount',
+  vatExemptSales: 'vatExemptSales',
+  zeroRatedSales: 'zeroRatedSales',
+  issuedById: 'issuedById',
+  issuedAt: 'issuedAt',
+  pdfKey: 'pdfKey',
+  pdfGeneratedAt: 'pdfGeneratedAt',
+  status: 'status',
+  voidReason: 'voidReason',
+  voidedById: 'voidedById',
+  voidedAt: 'voidedAt',
+  eisStatus: 'eisStatus',
+  eisBatchId: 'eisBatchId',
+  eisTransmittedAt: 'eisTransmittedAt',
+  eisError: 'eisError',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.ReceiptLineScalarFieldEnum = {
+  id: 'id',
+  receiptId: 'receiptId',
+  position: 'position',
+  name: 'name',
+  sku: 'sku',
+  quantity: 'quantity',
+  unitPrice: 'unitPrice',
+  discount: 'discount',
+  amount: 'amount',
+  taxClassification: 'taxClassification'
+};
+
+exports.Prisma.EisBatchScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  status: 'status',
+  receiptCount: 'receiptCount',
+  payloadDigest: 'payloadDigest',
+  submissionId: 'submissionId',
+  responseCode: 'responseCode',
+  error: 'error',
+  submittedAt: 'submittedAt',
+  completedAt: 'completedAt'
+};
+
+exports.Prisma.ReceiptEventScalarFieldEnum = {
+  id: 'id',
+  receiptId: 'receiptId',
+  type: 'type',
+  actorId: 'actorId',
+  reason: 'reason',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.ExpenseScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  expenseDate: 'expenseDate',
+  supplierName: 'supplierName',
+  supplierTin: 'supplierTin',
+  supplierAddress: 'supplierAddress',
+  description: 'description',
+  category: 'category',
+  amount: 'amount',
+  inputVat: 'inputVat',
+  recordedById: 'recordedById',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.CreditableWithholdingScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  kind: 'kind',
+  agentName: 'agentName',
+  agentTin: 'agentTin',
+  atcCode: 'atcCode',
+  paymentDate: 'paymentDate',
+  incomeAmount: 'incomeAmount',
+  taxWithheld: 'taxWithheld',
+  platform: 'platform',
+  certificateKey: 'certificateKey',
+  certificateFileName: 'certificateFileName',
+  recordedById: 'recordedById',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.MarketplacePayoutScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  platform: 'platform',
+  payoutReference: 'payoutReference',
+  payoutDate: 'payoutDate',
+  grossRemittance: 'grossRemittance',
+  taxWithheld: 'taxWithheld',
+  recordedById: 'recordedById',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.AccountingBookScalarFieldEnum = {
+  id: 'id',
+  shopId: 'shopId',
+  type: 'type',
+  year: 'year',
+  month: 'month',
+  fileKey: 'fileKey',
+  fileName: 'fileName',
+  pageCount: 'pageCount',
+  entryCount: 'entryCount',
+  generatedById: 'generatedById',
+  generatedAt: 'generatedAt'
+};
+
 exports.Prisma.SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -280,9 +536,88 @@ exports.WebhookStatus = exports.$Enums.WebhookStatus = {
   PENDING: 'PENDING',
   PROCESSING: 'PROCESSING',
   COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED',
+  UNHANDLED: 'UNHANDLED',
+  STALE: 'STALE'
+};
+
+exports.ReconciliationStatus = exports.$Enums.ReconciliationStatus = {
+  RUNNING: 'RUNNING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED'
+};
+
+exports.StockSyncStatus = exports.$Enums.StockSyncStatus = {
+  SYNCED: 'SYNCED',
+  PENDING: 'PENDING',
   FAILED: 'FAILED'
 };
 
+exports.StockMovementSource = exports.$Enums.StockMovementSource = {
+  OPENING_BALANCE: 'OPENING_BALANCE',
+  SHOPEE_WEBHOOK: 'SHOPEE_WEBHOOK',
+  SHOPEE_IMPORT: 'SHOPEE_IMPORT',
+  RECONCILIATION: 'RECONCILIATION',
+  MANUAL_ADJUSTMENT: 'MANUAL_ADJUSTMENT',
+  SALE: 'SALE',
+  RETURN: 'RETURN',
+  STOCK_TAKE: 'STOCK_TAKE',
+  MASTER_SKU: 'MASTER_SKU',
+  REMOVED: 'REMOVED'
+};
+
+exports.LineTaxClassification = exports.$Enums.LineTaxClassification = {
+  VATABLE: 'VATABLE',
+  VAT_EXEMPT: 'VAT_EXEMPT',
+  ZERO_RATED: 'ZERO_RATED'
+};
+
+exports.TaxType = exports.$Enums.TaxType = {
+  VAT: 'VAT',
+  PERCENTAGE_TAX: 'PERCENTAGE_TAX',
+  EIGHT_PERCENT: 'EIGHT_PERCENT'
+};
+
+exports.ReceiptStatus = exports.$Enums.ReceiptStatus = {
+  ISSUED: 'ISSUED',
+  VOID_REVIEW: 'VOID_REVIEW',
+  VOIDED: 'VOIDED'
+};
+
+exports.ReceiptEventType = exports.$Enums.ReceiptEventType = {
+  ISSUED: 'ISSUED',
+  VOID_REVIEW_REQUESTED: 'VOID_REVIEW_REQUESTED',
+  VOID_REVIEW_DISMISSED: 'VOID_REVIEW_DISMISSED',
+  VOIDED: 'VOIDED'
+};
+
+exports.EisStatus = exports.$Enums.EisStatus = {
+  PENDING: 'PENDING',
+  SUBMITTED: 'SUBMITTED',
+  ACCEPTED: 'ACCEPTED',
+  REJECTED: 'REJECTED',
+  FAILED: 'FAILED'
+};
+
+exports.EisBatchStatus = exports.$Enums.EisBatchStatus = {
+  SUBMITTING: 'SUBMITTING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED'
+};
+
+exports.WithholdingTaxKind = exports.$Enums.WithholdingTaxKind = {
+  INCOME_TAX: 'INCOME_TAX',
+  VAT: 'VAT',
+  PERCENTAGE_TAX: 'PERCENTAGE_TAX'
+};
+
+exports.AccountingBookType = exports.$Enums.AccountingBookType = {
+  SALES_JOURNAL: 'SALES_JOURNAL',
+  PURCHASE_JOURNAL: 'PURCHASE_JOURNAL',
+  CASH_RECEIPTS: 'CASH_RECEIPTS',
+  CASH_DISBURSEMENTS: 'CASH_DISBURSEMENTS'
+};
+
 exports.Prisma.ModelName = {
   Account: 'Account',
   Session: 'Session',
@@ -293,9 +628,25 @@ exports.Prisma.ModelName = {
   PasswordResetToken: 'PasswordResetToken',
   Invitation: 'Invitation',
   ShopeeIntegration: 'ShopeeIntegration',
+  ReconciliationRun: 'ReconciliationRun',
   Product: 'Product',
+  ProductVariant: 'ProductVariant',
+  MasterSku: 'MasterSku',
+  StockMovement: 'StockMovement',
   Order: 'Order',
-  WebhookPayload: 'WebhookPayload'
+  OrderItem: 'OrderItem',
+  WebhookPayload: 'WebhookPayload',
+  WebhookReplay: 'WebhookReplay',
+  ShopTaxProfile: 'ShopTaxProfile',
+  ReceiptSeries: 'ReceiptSeries',
+  Receipt: 'Receipt',
+  ReceiptLine: 'ReceiptLine',
+  EisBatch: 'EisBatch',
+  ReceiptEvent: 'ReceiptEvent',
+  Expense: 'Expense',
+  CreditableWithholding: 'CreditableWithholding',
+  MarketplacePayout: 'MarketplacePayout',
+  AccountingBook: 'AccountingBook'
 };
 /**
  * Create the Client
@@ -345,13 +696,13 @@ const config = {
       }
     }
   },
-  "inlineSchema": "// This is your Prisma schema file,\n// learn more about it in the docs: https://pris.ly/d/prisma-schema\n\ngenerator client {\n  provider = \"prisma-client-js\"\n  output   = \"../generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n  // NOTE: When using mysql or sqlserver, uncomment the @db.Text annotations in model Account below\n  // Further reading:\n  // https://next-auth.js.org/adapters/prisma#create-the-prisma-schema\n  // https://www.prisma.io/docs/reference/api-reference/prisma-schema-reference#string\n  url      = env(\"DATABASE_URL\")\n}\n\n// User Roles Enum\nenum UserRole {\n  OWNER\n  ACCOUNTANT\n  PACKER\n  ADMIN\n}\n\n// NextAuth.js Account model (OAuth providers)\nmodel Account {\n  id                       String  @id @default(cuid())\n  userId                   String\n  type                     String\n  provider                 String\n  providerAccountId        String\n  refresh_token            String? // @db.Text\n  access_token             String? // @db.Text\n  expires_at               Int?\n  token_type               String?\n  scope                    String?\n  id_token                 String? // @db.Text\n  session_state            String?\n  user                     User    @relation(fields: [userId], references: [id], onDelete: Cascade)\n  refresh_token_expires_in Int?\n\n  @@unique([provider, providerAccountId])\n}\n\n// NextAuth.js Session model\nmodel Session {\n  id           String   @id @default(cuid())\n  sessionToken String   @unique\n  userId       String\n  expires      DateTime\n  user         User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n}\n\n// User model (NextAuth.js v5 compatible + password for email/password auth)\nmodel User {\n  id            String    @id @default(cuid())\n  name          String?\n  email         String    @unique\n  emailVerified DateTime?\n  image         String?\n  password      String // Hashed password for email/password authentication\n  createdAt     DateTime  @default(now())\n  updatedAt     DateTime  @updatedAt\n\n  // NextAuth.js relations\n  accounts Account[]\n  sessions Session[]\n\n  // Multi-tenant relations\n  shopsOwned      Shop[]     @relation(\"ShopOwner\")\n  shopMemberships ShopUser[]\n\n  // Password reset\n  passwordResetTokens PasswordResetToken[]\n\n  // Team invitations\n  invitationsSent Invitation[] @relation(\"InvitationsSent\")\n}\n\n// Shop model (tenant entity for multi-tenancy)\nmodel Shop {\n  id              String   @id @default(cuid())\n  name            String\n  tinNumber       String // BIR Tax Identification Number\n  businessAddress String\n  ownerId         String\n  createdAt       DateTime @default(now())\n  updatedAt       DateTime @updatedAt\n\n  // Relations\n  owner       User         @relation(\"ShopOwner\", fields: [ownerId], references: [id], onDelete: Cascade)\n  members     ShopUser[]\n  invitations Invitation[]\n\n  // Epic 4: Shopee Integration relations\n  shopeeIntegration ShopeeIntegration?\n  products          Product[]\n  orders            Order[]\n  webhookPayloads   WebhookPayload[]\n\n  @@index([ownerId])\n}\n\n// ShopUser junction model (many-to-many User-Shop with role)\nmodel ShopUser {\n  id       String   @id @default(cuid())\n  userId   String\n  shopId   String\n  role     UserRole\n  joinedAt DateTime @default(now())\n\n  // Relations\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n  shop Shop @relation(fields: [shopId], references: [id], onDelete: Cascade)\n\n  @@unique([userId, shopId])\n  @@index([userId])\n  @@index([shopId])\n}\n\n// NextAuth.js VerificationToken model\nmodel VerificationToken {\n  identifier String\n  token      String   @unique\n  expires    DateTime\n\n  @@unique([identifier, token])\n}\n\n// Password Reset Token model\nmodel PasswordResetToken {\n  id        String   @id @default(cuid())\n  userId    String\n  token     String   @unique\n  expiresAt DateTime\n  createdAt DateTime @default(now())\n\n  // Relations\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId])\n  @@index([token])\n}\n\n// Invitation model (team member invitations)\nmodel Invitation {\n  id          String    @id @default(cuid())\n  email       String\n  shopId      String\n  role        UserRole\n  token       String    @unique\n  invitedById String\n  expiresAt   DateTime\n  acceptedAt  DateTime?\n  createdAt   DateTime  @default(now())\n\n  // Relations\n  shop      Shop @relation(fields: [shopId], references: [id], onDelete: Cascade)\n  invitedBy User @relation(\"InvitationsSent\", fields: [invitedById], references: [id], onDelete: Cascade)\n\n  @@index([shopId])\n  @@index([token])\n  @@index([email])\n}\n\n// Platform enum for multi-platform support\nenum Platform {\n  SHOPEE\n  LAZADA\n  TIKTOK\n}\n\n// Integration health status\nenum IntegrationStatus {\n  HEALTHY\n  UNHEALTHY\n  DISCONNECTED\n}\n\n// Webhook processing status\nenum WebhookStatus {\n  PENDING\n  PROCESSING\n  COMPLETED\n  FAILED\n}\n\n// Shopee Integration model (OAuth tokens and connection status)\nmodel ShopeeIntegration {\n  id           String            @id @default(cuid())\n  shopId       String            @unique\n  accessToken  String // Encrypted access token\n  refreshToken String // Encrypted refresh token\n  expiresAt    DateTime\n  shopeeShopId String // Shopee shop ID from OAuth\n  status       IntegrationStatus @default(HEALTHY)\n  lastSyncAt   DateTime?\n  failureCount Int               @default(0)\n  createdAt    DateTime          @default(now())\n  updatedAt    DateTime          @updatedAt\n  deletedAt    DateTime? // Soft delete for disconnection\n\n  // Relations\n  shop Shop @relation(fields: [shopId], references: [id], onDelete: Cascade)\n\n  @@index([shopId])\n  @@index([status])\n}\n\n// Product model (synced from Shopee)\nmodel Product {\n  id              String   @id @default(cuid())\n  shopId          String\n  platform        Platform\n  shopeeProductId String? // Shopee product ID\n  name            String\n  sku             String?\n  stock           Int      @default(0)\n  price           Decimal  @db.Decimal(10, 2)\n  imageUrl        String?\n  createdAt       DateTime @default(now())\n  updatedAt       DateTime @updatedAt\n\n  // Relations\n  shop Shop @relation(fields: [shopId], references: [id], onDelete: Cascade)\n\n  @@unique([shopId, shopeeProductId])\n  @@index([shopId])\n  @@index([platform])\n  @@index([shopeeProductId])\n}\n\n// Order model (from Shopee webhooks)\nmodel Order {\n  id              String   @id @default(cuid())\n  shopId          String\n  platform        Platform\n  shopeeOrderId   String // Shopee order ID\n  orderNumber     String\n  totalAmount     Decimal  @db.Decimal(10, 2)\n  customerName    String\n  customerEmail   String?\n  customerPhone   String?\n  shippingAddress String?\n  orderDate       DateTime\n  items           Json // Array of order items\n  status          String // e.g., \"completed\", \"cancelled\", \"pending\"\n  createdAt       DateTime @default(now())\n  updatedAt       DateTime @updatedAt\n\n  // Relations\n  shop Shop @relation(fields: [shopId], references: [id], onDelete: Cascade)\n\n  @@unique([shopId, shopeeOrderId])\n  @@index([shopId])\n  @@index([platform])\n  @@index([shopeeOrderId])\n  @@index([orderDate])\n}\n\n// Webhook Payload model (raw webhook storage)\nmodel WebhookPayload {\n  id           String        @id @default(cuid())\n  shopId       String\n  platform     Platform\n  eventType    String // e.g., \"order.created\", \"inventory.updated\"\n  rawPayload   Json // Full webhook payload\n  signature    String? // HMAC signature for verification\n  status       WebhookStatus @default(PENDING)\n  processedAt  DateTime?\n  errorMessage String?\n  retryCount   Int           @default(0)\n  createdAt    DateTime      @default(now())\n  updatedAt    DateTime      @updatedAt\n\n  // Relations\n  shop Shop @relation(fields: [shopId], references: [id], onDelete: Cascade)\n\n  @@index([shopId])\n  @@index([platform])\n  @@index([status])\n  @@index([eventType])\n  @@index([createdAt])\n}\n",
-  "inlineSchemaHash": "c245d3aee42734df28b0272f2e4fc35b49c3d4c435993a64b3546ffcb87ae9f3",
+  "inlineSchema": "// This is your Prisma schema file,\n// learn more about it in the docs: https://pris.ly/d/prisma-schema\n\ngenerator client {\n  provider = \"prisma-client-js\"\n  output   = \"../generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n  // NOTE: When using mysql or sqlserver, uncomment the @db.Text annotations in model Account below\n  // Further reading:\n  // https://next-auth.js.org/adapters/prisma#create-the-prisma-schema\n  // https://www.prisma.io/docs/reference/api-reference/prisma-schema-reference#string\n  url      = env(\"DATABASE_URL\")\n}\n\n// User Roles Enum\nenum UserRole {\n  OWNER\n  ACCOUNTANT\n  PACKER\n  ADMIN\n}\n\n// NextAuth.js Account model (OAuth providers)\nmodel Account {\n  id                       String  @id @default(cuid())\n  userId                   String\n  type                     String\n  provider                 String\n  providerAccountId        String\n  refresh_token            String? // @db.Text\n  access_token             String? // @db.Text\n  expires_at               Int?\n  token_type               String?\n  scope                    String?\n  id_token                 String? // @db.Text\n  session_state            String?\n  user                     User    @relation(fields: [userId], references: [id], onDelete: Cascade)\n  refresh_token_expires_in Int?\n\n  @@unique([provider, providerAccountId])\n}\n\n// NextAuth.js Session model\nmodel Session {\n  id           String   @id @default(cuid())\n  sessionToken String   @unique\n  userId       String\n  expires      DateTime\n  user         User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n}\n\n// User model (NextAuth.js v5 compatible + password for email/password auth)\nmodel User {\n  id            String    @id @default(cuid())\n  name          String?\n  email         String    @unique\n  emailVerified DateTime?\n  image         String?\n  password      String // Hashed password for email/password authentication\n  createdAt     DateTime  @default(now())\n  updatedAt     DateTime  @updatedAt\n\n  // NextAuth.js relations\n  accounts Account[]\n  sessions Session[]\n\n  // Multi-tenant relations\n  shopsOwned      Shop[]     @relation(\"ShopOwner\")\n  shopMemberships ShopUser[]\n\n  // Password reset\n  passwordResetTokens PasswordResetToken[]\n\n  // Team invitations\n  invitationsSent Invitation[] @relation(\"InvitationsSent\")\n\n  // Epic 5: Receipts issued by this user\n  receiptsIssued Receipt[]      @relation(\"ReceiptsIssued\")\n  receiptsVoided Receipt[]      @relation(\"ReceiptsVoided\")\n  receiptEvents  ReceiptEvent[]\n\n  // Epic 7: Expenses and withholding certificates recorded by this user\n  expensesRecorded     Expense[]               @relation(\"ExpensesRecorded\")\n  withholdingsRecorded CreditableWithholding[] @relation(\"WithholdingsRecorded\")\n  payoutsRecorded      MarketplacePayout[]     @relation(\"PayoutsRecorded\")\n  booksGenerated       AccountingBook[]        @relation(\"BooksGenerated\")\n\n  // Webhook replays triggered from the dead-letter console\n  webhookReplays WebhookReplay[] @relation(\"WebhookReplays\")\n\n  // Manual stock adjustments and stock takes\n  stockMovements StockMovement[] @relation(\"StockMovements\")\n}\n\n// Shop model (tenant entity for multi-tenancy)\nmodel Shop {\n  id              String   @id @default(cuid())\n  name            String\n  tinNumber       String // BIR Tax Identification Number\n  businessAddress String\n  ownerId         String\n  createdAt       DateTime @default(now())\n  updatedAt       DateTime @updatedAt\n\n  // Relations\n  owner       User         @relation(\"ShopOwner\", fields: [ownerId], references: [id], onDelete: Cascade)\n  members     ShopUser[]\n  invitations Invitation[]\n\n  // Epic 4: Shopee Integration relations\n  shopeeIntegration  ShopeeIntegration?\n  products           Product[]\n  orders             Order[]\n  webhookPayloads    WebhookPayload[]\n  reconciliationRuns ReconciliationRun[]\n  stockMovements     StockMovement[]\n  masterSkus         MasterSku[]\n\n  // Epic 5: BIR Receipts relations\n  receiptSeries ReceiptSeries[]\n  receipts      Receipt[]\n  taxProfile    ShopTaxProfile?\n  eisBatches    EisBatch[]\n\n  // Epic 7: Expenses and tax credits\n  expenses     Expense[]\n  withholdings CreditableWithholding[]\n  payouts      MarketplacePayout[]\n  books        AccountingBook[]\n\n  @@index([ownerId])\n}\n\n// ShopUser junction model (many-to-many User-Shop with role)\nmodel ShopUser {\n  id       String   @id @default(cuid())\n  userId   String\n  shopId   String\n  role     UserRole\n  joinedAt DateTime @default(now())\n\n  // Relations\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n  shop Shop @relation(fields: [shopId], references: [id], onDelete: Cascade)\n\n  @@unique([userId, shopId])\n  @@index([userId])\n  @@index([shopId])\n}\n\n// NextAuth.js VerificationToken model\nmodel VerificationToken {\n  identifier String\n  token      String   @unique\n  expires    DateTime\n\n  @@unique([identifier, token])\n}\n\n// Password Reset Token model\nmodel PasswordResetToken {\n  id        String   @id @default(cuid())\n  userId    String\n  token     String   @unique\n  expiresAt DateTime\n  createdAt DateTime @default(now())\n\n  // Relations\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId])\n  @@index([token])\n}\n\n// Invitation model (team member invitations)\nmodel Invitation {\n  id          String    @id @default(cuid())\n  email       String\n  shopId      String\n  role        UserRole\n  token       String    @unique\n  invitedById String\n  expiresAt   DateTime\n  acceptedAt  DateTime?\n  createdAt   DateTime  @default(now())\n\n  // Relations\n  shop      Shop @relation(fields: [shopId], references: [id], onDelete: Cascade)\n  invitedBy User @relation(\"InvitationsSent\", fields: [invitedById], references: [id], onDelete: Cascade)\n\n  @@index([shopId])\n  @@index([token])\n  @@index([email])\n}\n\n// Platform enum for multi-platform support\nenum Platform {\n  SHOPEE\n  LAZADA\n  TIKTOK\n}\n\n// Integration health status\nenum IntegrationStatus {\n  HEALTHY\n  UNHEALTHY\n  DISCONNECTED\n}\n\n// Webhook processing status\nenum WebhookStatus {\n  PENDING\n  PROCESSING\n  COMPLETED\n  FAILED\n  UNHANDLED // No handler registered for the event type\n  STALE // Older than the entity's last applied update_time\n}\n\n// Shopee Integration model (OAuth tokens and connection status)\nmodel ShopeeIntegration {\n  id               String            @id @default(cuid())\n  shopId           String            @unique\n  accessToken      String // Encrypted access token\n  refreshToken     String // Encrypted refresh token\n  expiresAt        DateTime\n  refreshExpiresAt DateTime? // Refresh token expiry, renewed on every refresh\n  shopeeShopId     String // Shopee shop ID from OAuth\n  status           IntegrationStatus @default(HEALTHY)\n  statusReason     String? // Why the integration is UNHEALTHY\n  lastSyncAt       DateTime?\n  failureCount     Int               @default(0)\n  createdAt        DateTime          @default(now())\n  updatedAt        DateTime          @updatedAt\n  deletedAt        DateTime? // Soft delete for disconnection\n\n  // Relations\n  shop Shop @relation(fields: [shopId], references: [id], onDelete: Cascade)\n\n  @@index([shopId])\n  @@index([status])\n  @@index([expiresAt])\n}\n\nenum ReconciliationStatus {\n  RUNNING\n  COMPLETED\n  FAILED\n}\n\n// Report of one scheduled comparison of Shopee data against our tables\nmodel ReconciliationRun {\n  id               String               @id @default(cuid())\n  shopId           String\n  status           ReconciliationStatus @default(RUNNING)\n  windowStart      DateTime // Orders updated on Shopee since this time were compared\n  windowEnd        DateTime\n  ordersChecked    Int                  @default(0)\n  ordersMissing    Int                  @default(0) // Not in our Order table\n  ordersMismatched Int                  @default(0) // Status or total differed\n  ordersFixed      Int                  @default(0)\n  productsChecked  Int                  @default(0)\n  productsMissing  Int                  @default(0)\n  stockMismatches  Int                  @default(0)\n  productsFixed    Int                  @default(0)\n  error            String?\n  startedAt        DateTime             @default(now())\n  completedAt      DateTime?\n\n  // Relations\n  shop Shop @relation(fields: [shopId], references: [id], onDelete: Cascade)\n\n  @@index([shopId, startedAt])\n}\n\n// Product model (synced from Shopee)\nmodel Product {\n  id                String                 @id @default(cuid())\n  shopId            String\n  platform          Platform\n  shopeeProductId   String? // Shopee product ID\n  name              String\n  sku               String?\n  stock             Int                    @default(0)\n  price             Decimal                @db.Decimal(10, 2)\n  imageUrl          String?\n  platformUpdatedAt DateTime? // Shopee update_time of the last applied webhook\n  stockSyncStatus   StockSyncStatus        @default(SYNCED) // Local stock changes pushed to Shopee\n  stockSyncError    String?\n  stockSyncedAt     DateTime?\n  masterSkuId       String? // Stock set from this master SKU (products without variants)\n  masterSkuLinkedAt DateTime? // Orders placed before this don't draw on the master SKU\n  taxClassification LineTaxClassification? // Overrides the shop tax profile on its order lines\n  createdAt         DateTime               @default(now())\n  updatedAt         DateTime               @updatedAt\n\n  // Relations\n  shop           Shop             @relation(fields: [shopId], references: [id], onDelete: Cascade)\n  masterSku      MasterSku?       @relation(fields: [masterSkuId], references: [id], onDelete: SetNull)\n  orderItems     OrderItem[]\n  variants       ProductVariant[]\n  stockMovements StockMovement[]\n\n  @@unique([shopId, shopeeProductId])\n  @@index([shopId])\n  @@index([shopId, stockSyncStatus])\n  @@index([masterSkuId])\n  @@index([platform])\n  @@index([shopeeProductId])\n}\n\n// Product variant (Shopee model, e.g. a size/color combination)\n// A product with variants has its stock and price rolled up from them:\n// stock is the sum of variant stock, price the lowest variant price\nmodel ProductVariant {\n  id                String          @id @default(cuid())\n  productId         String\n  shopeeModelId     String // Shopee model ID\n  name              String // Tier variation options, e.g. \"Red, XL\"\n  sku               String? // Shopee model_sku\n  stock             Int             @default(0)\n  price             Decimal         @db.Decimal(10, 2)\n  platformUpdatedAt DateTime? // Shopee update_time of the last applied webhook\n  stockSyncStatus   StockSyncStatus @default(SYNCED) // Local stock changes pushed to Shopee\n  stockSyncError    String?\n  stockSyncedAt     DateTime?\n  masterSkuId       String? // Stock set from this master SKU\n  masterSkuLinkedAt DateTime? // Orders placed before this don't draw on the master SKU\n  createdAt         DateTime        @default(now())\n  updatedAt         DateTime        @updatedAt\n\n  // Relations\n  product        Product         @relation(fields: [productId], references: [id], onDelete: Cascade)\n  masterSku      MasterSku?      @relation(fields: [masterSkuId], references: [id], onDelete: SetNull)\n  stockMovements StockMovement[]\n\n  @@unique([productId, shopeeModelId])\n  @@index([productId])\n  @@index([sku])\n  @@index([stockSyncStatus])\n  @@index([masterSkuId])\n}\n\n// Master SKU (a physical item, owning the stock shared by its channel listings)\n// A listing is a product without variants or a variant, on any platform; its\n// stock is derived from the master SKU and pushed to the channel, and orders\n// for it on any channel are taken from the master SKU's stock\nmodel MasterSku {\n  id        String   @id @default(cuid())\n  shopId    String\n  sku       String\n  name      String\n  stock     Int      @default(0) // Negative when oversold\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  // Relations\n  shop           Shop             @relation(fields: [shopId], references: [id], onDelete: Cascade)\n  products       Product[]\n  variants       ProductVariant[]\n  stockMovements StockMovement[]\n\n  @@unique([shopId, sku])\n  @@index([shopId])\n}\n\nenum StockSyncStatus {\n  SYNCED // Shopee has our stock (or the change came from Shopee)\n  PENDING // Changed locally, waiting to be pushed\n  FAILED // Shopee rejected the update (see stockSyncError)\n}\n\nenum StockMovementSource {\n  OPENING_BALANCE // Stock on hand when tracking started (ledger introduced, master SKU created)\n  SHOPEE_WEBHOOK\n  SHOPEE_IMPORT\n  RECONCILIATION\n  MANUAL_ADJUSTMENT\n  SALE\n  RETURN\n  STOCK_TAKE\n  MASTER_SKU // Listing stock derived from its master SKU\n  REMOVED // Closing balance of a deleted master SKU, product or variant\n}\n\n// Stock movement (immutable ledger of every stock change)\n// Rows with a masterSkuId track that master SKU's stock; rows with a variantId\n// track that variant's stock; other rows track the product's own stock (for\n// products with variants, the rolled-up total).\n// MasterSku.stock / Product.stock / ProductVariant.stock always equal the sum\n// of their changes. Movements outlive a deleted holder with its link cleared,\n// after a REMOVED movement has closed its balance.\nmodel StockMovement {\n  id             String              @id @default(cuid())\n  shopId         String\n  productId      String?\n  variantId      String?\n  masterSkuId    String?\n  source         StockMovementSource\n  quantityBefore Int\n  quantityAfter  Int\n  change         Int // quantityAfter - quantityBefore\n  reason         String?\n  reference      String? // Webhook, order, master SKU or reconciliation run behind the change\n  actorId        String? // User who adjusted or counted stock\n  createdAt      DateTime            @default(now())\n\n  // Relations\n  shop      Shop            @relation(fields: [shopId], references: [id], onDelete: Cascade)\n  product   Product?        @relation(fields: [productId], references: [id], onDelete: SetNull)\n  variant   ProductVariant? @relation(fields: [variantId], references: [id], onDelete: SetNull)\n  masterSku MasterSku?      @relation(fields: [masterSkuId], references: [id], onDelete: SetNull)\n  actor     User?           @relation(\"StockMovements\", fields: [actorId], references: [id], onDelete: NoAction)\n\n  @@index([productId, createdAt])\n  @@index([variantId])\n  @@index([masterSkuId, createdAt])\n  @@index([shopId, createdAt])\n}\n\n// Order model (from Shopee webhooks)\nmodel Order {\n  id                String    @id @default(cuid())\n  shopId            String\n  platform          Platform\n  shopeeOrderId     String // Shopee order ID\n  orderNumber       String\n  totalAmount       Decimal   @db.Decimal(10, 2)\n  customerName      String\n  customerEmail     String?\n  customerPhone     String?\n  shippingAddress   String?\n  orderDate         DateTime\n  status            String // e.g., \"completed\", \"cancelled\", \"pending\"\n  platformUpdatedAt DateTime? // Shopee update_time of the last applied webhook\n  createdAt         DateTime  @default(now())\n  updatedAt         DateTime  @updatedAt\n\n  // Relations\n  shop     Shop        @relation(fields: [shopId], references: [id], onDelete: Cascade)\n  items    OrderItem[]\n  receipts Receipt[] // At most one not VOIDED (partial unique index in the migrations)\n\n  @@unique([shopId, shopeeOrderId])\n  @@index([shopId])\n  @@index([platform])\n  @@index([shopeeOrderId])\n  @@index([orderDate])\n}\n\n// Order line (replaced wholesale whenever the order is upserted from Shopee)\nmodel OrderItem {\n  id                String                 @id @default(cuid())\n  orderId           String\n  productId         String? // Matched by Shopee item ID when the product is imported\n  position          Int // Line order within the order\n  platformItemId    String? // Shopee item ID\n  platformModelId   String? // Shopee model ID, for items with variants\n  name              String\n  sku               String?\n  quantity          Int\n  unitPrice         Decimal                @db.Decimal(10, 2) // Price before discount\n  discount          Decimal                @default(0) @db.Decimal(10, 2) // Total discount on the line\n  amount            Decimal                @db.Decimal(10, 2) // quantity x unitPrice - discount\n  taxClassification LineTaxClassification? // From the product; null follows the shop tax profile\n  createdAt         DateTime               @default(now())\n\n  // Relations\n  order   Order    @relation(fields: [orderId], references: [id], onDelete: Cascade)\n  product Product? @relation(fields: [productId], references: [id], onDelete: SetNull)\n\n  @@index([orderId])\n  @@index([productId])\n  @@index([sku])\n}\n\n// Webhook Payload model (raw webhook storage)\nmodel WebhookPayload {\n  id              String        @id @default(cuid())\n  shopId          String\n  platform        Platform\n  eventType       String // e.g., \"order.created\", \"inventory.updated\"\n  rawPayload      Json // Full webhook payload\n  signature       String? // HMAC signature for verification\n  dedupKey        String?       @unique // eventType:shopId:entityId:update_time (see buildWebhookDedupKey)\n  duplicateCount  Int           @default(0) // Redeliveries of the same event, not reprocessed\n  lastDuplicateAt DateTime?\n  status          WebhookStatus @default(PENDING)\n  processedAt     DateTime?\n  errorMessage    String?\n  retryCount      Int           @default(0)\n  createdAt       DateTime      @default(now())\n  updatedAt       DateTime      @updatedAt\n\n  // Relations\n  shop    Shop            @relation(fields: [shopId], references: [id], onDelete: Cascade)\n  replays WebhookReplay[]\n\n  @@index([shopId])\n  @@index([platform])\n  @@index([status])\n  @@index([eventType])\n  @@index([createdAt])\n}\n\n// Manual re-queue of a webhook from the dead-letter console (audit trail)\nmodel WebhookReplay {\n  id             String        @id @default(cuid())\n  webhookId      String\n  triggeredById  String\n  previousStatus WebhookStatus\n  previousError  String?\n  bulk           Boolean       @default(false) // Part of a \"replay all failed since\" action\n  createdAt      DateTime      @default(now())\n\n  // Relations\n  webhook     WebhookPayload @relation(fields: [webhookId], references: [id], onDelete: Cascade)\n  triggeredBy User           @relation(\"WebhookReplays\", fields: [triggeredById], references: [id], onDelete: NoAction)\n\n  @@index([webhookId])\n}\n\n// BIR tax registration type\n// Tax treatment of a product sold by a VAT-registered shop, when it differs\n// from the shop's tax profile (e.g. VAT-exempt books)\nenum LineTaxClassification {\n  VATABLE\n  VAT_EXEMPT\n  ZERO_RATED\n}\n\nenum TaxType {\n  VAT // VAT-registered (12% output VAT)\n  PERCENTAGE_TAX // Non-VAT, 3% percentage tax (2551Q)\n  EIGHT_PERCENT // Non-VAT, 8% income tax option in lieu of percentage tax\n}\n\n// Shop Tax Profile model (BIR registration details)\nmodel ShopTaxProfile {\n  id               String    @id @default(cuid())\n  shopId           String    @unique\n  taxType          TaxType   @default(VAT)\n  rdoCode          String? // Revenue District Office code, e.g. \"050\"\n  registrationDate DateTime? // BIR Certificate of Registration date\n  isVatExempt      Boolean   @default(false) // Sales are VAT-exempt (e.g. agricultural goods)\n  isZeroRated      Boolean   @default(false) // Sales are zero-rated (e.g. export sales)\n  eisEnabled       Boolean   @default(false) // Transmit issued receipts to BIR's Electronic Invoicing System\n  createdAt        DateTime  @default(now())\n  updatedAt        DateTime  @updatedAt\n\n  // Relations\n  shop Shop @relation(fields: [shopId], references: [id], onDelete: Cascade)\n}\n\n// Receipt Series model (BIR Authority to Print serial range)\nmodel ReceiptSeries {\n  id          String   @id @default(cuid())\n  shopId      String\n  atpNumber   String // BIR Authority to Print (ATP) number\n  prefix      String? // Optional printed prefix, e.g. \"OR-\"\n  startSerial Int // First serial approved by the ATP\n  endSerial   Int // Last serial approved by the ATP\n  nextSerial  Int // Next serial to issue (endSerial + 1 when exhausted)\n  isActive    Boolean  @default(true)\n  createdAt   DateTime @default(now())\n  updatedAt   DateTime @updatedAt\n\n  // Relations\n  shop     Shop      @relation(fields: [shopId], references: [id], onDelete: Cascade)\n  receipts Receipt[]\n\n  @@unique([shopId, atpNumber])\n  @@index([shopId])\n  @@index([isActive])\n}\n\n// Receipt model (BIR official receipt / sales invoice issued against an order)\nmodel Receipt {\n  id               String        @id @default(cuid())\n  shopId           String\n  seriesId         String\n  orderId          String // Reissued after voiding, so one order can have several\n  serialNumber     Int // Sequential serial within the shop's ATP range\n  receiptNumber    String // Printed number (prefix + zero-padded serial)\n  buyerName        String\n  buyerTin         String?\n  buyerAddress     String?\n  totalAmount      Decimal       @db.Decimal(10, 2)\n  // Tax breakdown computed at issue time (shared with reports)\n  taxType          TaxType       @default(VAT)\n  vatableSales     Decimal       @default(0) @db.Decimal(10, 2)\n  vatAmount        Decimal       @default(0) @db.Decimal(10, 2)\n  vatExemptSales   Decimal       @default(0) @db.Decimal(10, 2)\n  zeroRatedSales   Decimal       @default(0) @db.Decimal(10, 2)\n  issuedById       String\n  issuedAt         DateTime      @default(now())\n  pdfKey           String? // FileStorage key of the rendered PDF\n  pdfGeneratedAt   DateTime?\n  // Voiding keeps the row (and its serial) and stamps the PDF VOID\n  status           ReceiptStatus @default(ISSUED)\n  voidReason       String?\n  voidedById       String?\n  voidedAt         DateTime?\n  // EIS transmission (null when the shop is not enrolled)\n  eisStatus        EisStatus?\n  eisBatchId       String?\n  eisTransmittedAt DateTime?\n  eisError         String?\n  createdAt        DateTime      @default(now())\n  updatedAt        DateTime      @updatedAt\n\n  // Relations\n  shop     Shop           @relation(fields: [shopId], references: [id], onDelete: Cascade)\n  series   ReceiptSeries  @relation(fields: [seriesId], references: [id], onDelete: NoAction)\n  order    Order          @relation(fields: [orderId], references: [id], onDelete: NoAction)\n  issuedBy User           @relation(\"ReceiptsIssued\", fields: [issuedById], references: [id], onDelete: NoAction)\n  voidedBy User?          @relation(\"ReceiptsVoided\", fields: [voidedById], references: [id], onDelete: NoAction)\n  eisBatch EisBatch?      @relation(fields: [eisBatchId], references: [id], onDelete: SetNull)\n  events   ReceiptEvent[]\n  lines    ReceiptLine[]\n\n  @@unique([shopId, serialNumber])\n  @@index([shopId])\n  @@index([orderId])\n  @@index([status])\n  @@index([seriesId])\n  @@index([issuedAt])\n  @@index([shopId, eisStatus])\n}\n\n// Order line as issued on a receipt, copied from OrderItem at issue time so\n// later order updates don't change what the receipt prints or transmits\nmodel ReceiptLine {\n  id                String                 @id @default(cuid())\n  receiptId         String\n  position          Int // Line order within the receipt\n  name              String\n  sku               String?\n  quantity          Int\n  unitPrice         Decimal                @db.Decimal(10, 2) // Price before discount\n  discount          Decimal                @default(0) @db.Decimal(10, 2) // Total discount on the line\n  amount            Decimal                @db.Decimal(10, 2) // quantity x unitPrice - discount\n  taxClassification LineTaxClassification?\n\n  // Relations\n  receipt Receipt @relation(fields: [receiptId], references: [id], onDelete: Cascade)\n\n  @@index([receiptId])\n}\n\nenum ReceiptStatus {\n  ISSUED\n  VOID_REVIEW // Flagged for voiding (e.g. order cancelled on Shopee)\n  VOIDED\n}\n\nenum ReceiptEventType {\n  ISSUED\n  VOID_REVIEW_REQUESTED\n  VOID_REVIEW_DISMISSED\n  VOIDED\n}\n\nenum EisStatus {\n  PENDING // Waiting to be batched\n  SUBMITTED // Sent in a batch, no answer yet\n  ACCEPTED\n  REJECTED // EIS refused the invoice (see eisError)\n  FAILED // Transmission error; retried with the next batch\n}\n\nenum EisBatchStatus {\n  SUBMITTING\n  COMPLETED\n  FAILED\n}\n\n// Signed batch of receipts transmitted to BIR's Electronic Invoicing System\nmodel EisBatch {\n  id            String         @id @default(cuid())\n  shopId        String\n  status        EisBatchStatus @default(SUBMITTING)\n  receiptCount  Int\n  payloadDigest String // SHA-256 of the signed payload\n  submissionId  String? // Reference returned by EIS\n  responseCode  Int?\n  error         String?\n  submittedAt   DateTime       @default(now())\n  completedAt   DateTime?\n\n  // Relations\n  shop     Shop      @relation(fields: [shopId], references: [id], onDelete: Cascade)\n  receipts Receipt[]\n\n  @@index([shopId])\n  @@index([status])\n}\n\n// Receipt audit trail (append-only)\nmodel ReceiptEvent {\n  id        String           @id @default(cuid())\n  receiptId String\n  type      ReceiptEventType\n  actorId   String? // Null when raised by the system (e.g. webhook)\n  reason    String?\n  createdAt DateTime         @default(now())\n\n  // Relations\n  receipt Receipt @relation(fields: [receiptId], references: [id], onDelete: Cascade)\n  actor   User?   @relation(fields: [actorId], references: [id], onDelete: SetNull)\n\n  @@index([receiptId])\n  @@index([createdAt])\n}\n\n// Purchases and expenses (source of input VAT)\nmodel Expense {\n  id              String   @id @default(cuid())\n  shopId          String\n  expenseDate     DateTime\n  supplierName    String\n  supplierTin     String?\n  supplierAddress String?\n  description     String\n  category        String?\n  amount          Decimal  @db.Decimal(10, 2) // Gross amount paid (VAT-inclusive)\n  inputVat        Decimal  @default(0) @db.Decimal(10, 2) // VAT shown on the supplier's invoice\n  recordedById    String\n  createdAt       DateTime @default(now())\n  updatedAt       DateTime @updatedAt\n\n  // Relations\n  shop       Shop @relation(fields: [shopId], references: [id], onDelete: Cascade)\n  recordedBy User @relation(\"ExpensesRecorded\", fields: [recordedById], references: [id], onDelete: NoAction)\n\n  @@index([shopId])\n  @@index([expenseDate])\n}\n\nenum WithholdingTaxKind {\n  INCOME_TAX // Credited on the income tax return (1701Q/1702Q)\n  VAT // Credited on 2550Q\n  PERCENTAGE_TAX // Credited on 2551Q\n}\n\n// Tax withheld by customers/platforms, certified on BIR Form 2307\nmodel CreditableWithholding {\n  id                  String             @id @default(cuid())\n  shopId              String\n  kind                WithholdingTaxKind @default(INCOME_TAX)\n  agentName           String // Withholding agent (payor)\n  agentTin            String\n  atcCode             String? // Alphanumeric tax code, e.g. WI760\n  paymentDate         DateTime // Date of the income payment\n  incomeAmount        Decimal            @db.Decimal(10, 2)\n  taxWithheld         Decimal            @db.Decimal(10, 2)\n  platform            Platform? // Set when the agent is a marketplace (RR 16-2023)\n  certificateKey      String? // FileStorage key of the 2307 PDF\n  certificateFileName String?\n  recordedById        String\n  createdAt           DateTime           @default(now())\n  updatedAt           DateTime           @updatedAt\n\n  // Relations\n  shop       Shop @relation(fields: [shopId], references: [id], onDelete: Cascade)\n  recordedBy User @relation(\"WithholdingsRecorded\", fields: [recordedById], references: [id], onDelete: NoAction)\n\n  @@index([shopId])\n  @@index([paymentDate])\n}\n\n// Marketplace payout with the creditable income tax withheld from it\n// (RR 16-2023: 1% of one-half of the gross remittance)\nmodel MarketplacePayout {\n  id              String   @id @default(cuid())\n  shopId          String\n  platform        Platform\n  payoutReference String // Payout/transaction ID from the seller center\n  payoutDate      DateTime\n  grossRemittance Decimal  @db.Decimal(12, 2)\n  taxWithheld     Decimal  @db.Decimal(10, 2)\n  recordedById    String\n  createdAt       DateTime @default(now())\n  updatedAt       DateTime @updatedAt\n\n  // Relations\n  shop       Shop @relation(fields: [shopId], references: [id], onDelete: Cascade)\n  recordedBy User @relation(\"PayoutsRecorded\", fields: [recordedById], references: [id], onDelete: NoAction)\n\n  @@unique([shopId, platform, payoutReference])\n  @@index([shopId])\n  @@index([payoutDate])\n}\n\nenum AccountingBookType {\n  SALES_JOURNAL\n  PURCHASE_JOURNAL\n  CASH_RECEIPTS\n  CASH_DISBURSEMENTS\n}\n\n// Monthly loose-leaf book of accounts rendered to PDF (regenerating replaces the file)\nmodel AccountingBook {\n  id            String             @id @default(cuid())\n  shopId        String\n  type          AccountingBookType\n  year          Int\n  month         Int // 1-12\n  fileKey       String // FileStorage key of the rendered PDF\n  fileName      String\n  pageCount     Int\n  entryCount    Int\n  generatedById String\n  generatedAt   DateTime           @default(now())\n\n  // Relations\n  shop        Shop @relation(fields: [shopId], references: [id], onDelete: Cascade)\n  generatedBy User @relation(\"BooksGenerated\", fields: [generatedById], references: [id], onDelete: NoAction)\n\n  @@unique([shopId, type, year, month])\n  @@index([shopId])\n}\n",
+  "inlineSchemaHash": "b41dee698c922c7e2ba7f225b5bf896f233a94e6dab3a2711db484539f1a8b35",
   "copyEngine": true
 }
 config.dirname = '/'
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"Account\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"providerAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refresh_token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"access_token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expires_at\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"token_type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"scope\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"id_token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"session_state\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AccountToUser\"},{\"name\":\"refresh_token_expires_in\",\"kind\":\"scalar\",\"type\":\"Int\"}],\"dbName\":null},\"Session\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sessionToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expires\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SessionToUser\"}],\"dbName\":null},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailVerified\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"image\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"accounts\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"AccountToUser\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"SessionToUser\"},{\"name\":\"shopsOwned\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ShopOwner\"},{\"name\":\"shopMemberships\",\"kind\":\"object\",\"type\":\"ShopUser\",\"relationName\":\"ShopUserToUser\"},{\"name\":\"passwordResetTokens\",\"kind\":\"object\",\"type\":\"PasswordResetToken\",\"relationName\":\"PasswordResetTokenToUser\"},{\"name\":\"invitationsSent\",\"kind\":\"object\",\"type\":\"Invitation\",\"relationName\":\"InvitationsSent\"}],\"dbName\":null},\"Shop\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tinNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"businessAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"owner\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ShopOwner\"},{\"name\":\"members\",\"kind\":\"object\",\"type\":\"ShopUser\",\"relationName\":\"ShopToShopUser\"},{\"name\":\"invitations\",\"kind\":\"object\",\"type\":\"Invitation\",\"relationName\":\"InvitationToShop\"},{\"name\":\"shopeeIntegration\",\"kind\":\"object\",\"type\":\"ShopeeIntegration\",\"relationName\":\"ShopToShopeeIntegration\"},{\"name\":\"products\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToShop\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToShop\"},{\"name\":\"webhookPayloads\",\"kind\":\"object\",\"type\":\"WebhookPayload\",\"relationName\":\"ShopToWebhookPayload\"}],\"dbName\":null},\"ShopUser\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"joinedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ShopUserToUser\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ShopToShopUser\"}],\"dbName\":null},\"VerificationToken\":{\"fields\":[{\"name\":\"identifier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expires\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"PasswordResetToken\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PasswordResetTokenToUser\"}],\"dbName\":null},\"Invitation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"invitedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"acceptedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"InvitationToShop\"},{\"name\":\"invitedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"InvitationsSent\"}],\"dbName\":null},\"ShopeeIntegration\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accessToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refreshToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shopeeShopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"IntegrationStatus\"},{\"name\":\"lastSyncAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"failureCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ShopToShopeeIntegration\"}],\"dbName\":null},\"Product\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"platform\",\"kind\":\"enum\",\"type\":\"Platform\"},{\"name\":\"shopeeProductId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sku\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stock\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ProductToShop\"}],\"dbName\":null},\"Order\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"platform\",\"kind\":\"enum\",\"type\":\"Platform\"},{\"name\":\"shopeeOrderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"totalAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"customerName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customerEmail\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customerPhone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shippingAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"items\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"OrderToShop\"}],\"dbName\":null},\"WebhookPayload\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"platform\",\"kind\":\"enum\",\"type\":\"Platform\"},{\"name\":\"eventType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rawPayload\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"signature\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"WebhookStatus\"},{\"name\":\"processedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"retryCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ShopToWebhookPayload\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"Account\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"providerAccountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refresh_token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"access_token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expires_at\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"token_type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"scope\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"id_token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"session_state\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AccountToUser\"},{\"name\":\"refresh_token_expires_in\",\"kind\":\"scalar\",\"type\":\"Int\"}],\"dbName\":null},\"Session\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sessionToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expires\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SessionToUser\"}],\"dbName\":null},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailVerified\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"image\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"accounts\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"AccountToUser\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"SessionToUser\"},{\"name\":\"shopsOwned\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ShopOwner\"},{\"name\":\"shopMemberships\",\"kind\":\"object\",\"type\":\"ShopUser\",\"relationName\":\"ShopUserToUser\"},{\"name\":\"passwordResetTokens\",\"kind\":\"object\",\"type\":\"PasswordResetToken\",\"relationName\":\"PasswordResetTokenToUser\"},{\"name\":\"invitationsSent\",\"kind\":\"object\",\"type\":\"Invitation\",\"relationName\":\"InvitationsSent\"},{\"name\":\"receiptsIssued\",\"kind\":\"object\",\"type\":\"Receipt\",\"relationName\":\"ReceiptsIssued\"},{\"name\":\"receiptsVoided\",\"kind\":\"object\",\"type\":\"Receipt\",\"relationName\":\"ReceiptsVoided\"},{\"name\":\"receiptEvents\",\"kind\":\"object\",\"type\":\"ReceiptEvent\",\"relationName\":\"ReceiptEventToUser\"},{\"name\":\"expensesRecorded\",\"kind\":\"object\",\"type\":\"Expense\",\"relationName\":\"ExpensesRecorded\"},{\"name\":\"withholdingsRecorded\",\"kind\":\"object\",\"type\":\"CreditableWithholding\",\"relationName\":\"WithholdingsRecorded\"},{\"name\":\"payoutsRecorded\",\"kind\":\"object\",\"type\":\"MarketplacePayout\",\"relationName\":\"PayoutsRecorded\"},{\"name\":\"booksGenerated\",\"kind\":\"object\",\"type\":\"AccountingBook\",\"relationName\":\"BooksGenerated\"},{\"name\":\"webhookReplays\",\"kind\":\"object\",\"type\":\"WebhookReplay\",\"relationName\":\"WebhookReplays\"},{\"name\":\"stockMovements\",\"kind\":\"object\",\"type\":\"StockMovement\",\"relationName\":\"StockMovements\"}],\"dbName\":null},\"Shop\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tinNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"businessAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"owner\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ShopOwner\"},{\"name\":\"members\",\"kind\":\"object\",\"type\":\"ShopUser\",\"relationName\":\"ShopToShopUser\"},{\"name\":\"invitations\",\"kind\":\"object\",\"type\":\"Invitation\",\"relationName\":\"InvitationToShop\"},{\"name\":\"shopeeIntegration\",\"kind\":\"object\",\"type\":\"ShopeeIntegration\",\"relationName\":\"ShopToShopeeIntegration\"},{\"name\":\"products\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToShop\"},{\"name\":\"orders\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToShop\"},{\"name\":\"webhookPayloads\",\"kind\":\"object\",\"type\":\"WebhookPayload\",\"relationName\":\"ShopToWebhookPayload\"},{\"name\":\"reconciliationRuns\",\"kind\":\"object\",\"type\":\"ReconciliationRun\",\"relationName\":\"ReconciliationRunToShop\"},{\"name\":\"stockMovements\",\"kind\":\"object\",\"type\":\"StockMovement\",\"relationName\":\"ShopToStockMovement\"},{\"name\":\"masterSkus\",\"kind\":\"object\",\"type\":\"MasterSku\",\"relationName\":\"MasterSkuToShop\"},{\"name\":\"receiptSeries\",\"kind\":\"object\",\"type\":\"ReceiptSeries\",\"relationName\":\"ReceiptSeriesToShop\"},{\"name\":\"receipts\",\"kind\":\"object\",\"type\":\"Receipt\",\"relationName\":\"ReceiptToShop\"},{\"name\":\"taxProfile\",\"kind\":\"object\",\"type\":\"ShopTaxProfile\",\"relationName\":\"ShopToShopTaxProfile\"},{\"name\":\"eisBatches\",\"kind\":\"object\",\"type\":\"EisBatch\",\"relationName\":\"EisBatchToShop\"},{\"name\":\"expenses\",\"kind\":\"object\",\"type\":\"Expense\",\"relationName\":\"ExpenseToShop\"},{\"name\":\"withholdings\",\"kind\":\"object\",\"type\":\"CreditableWithholding\",\"relationName\":\"CreditableWithholdingToShop\"},{\"name\":\"payouts\",\"kind\":\"object\",\"type\":\"MarketplacePayout\",\"relationName\":\"MarketplacePayoutToShop\"},{\"name\":\"books\",\"kind\":\"object\",\"type\":\"AccountingBook\",\"relationName\":\"AccountingBookToShop\"}],\"dbName\":null},\"ShopUser\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"joinedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ShopUserToUser\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ShopToShopUser\"}],\"dbName\":null},\"VerificationToken\":{\"fields\":[{\"name\":\"identifier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expires\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"PasswordResetToken\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PasswordResetTokenToUser\"}],\"dbName\":null},\"Invitation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"invitedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"acceptedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"InvitationToShop\"},{\"name\":\"invitedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"InvitationsSent\"}],\"dbName\":null},\"ShopeeIntegration\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accessToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refreshToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"refreshExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shopeeShopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"IntegrationStatus\"},{\"name\":\"statusReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastSyncAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"failureCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ShopToShopeeIntegration\"}],\"dbName\":null},\"ReconciliationRun\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ReconciliationStatus\"},{\"name\":\"windowStart\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"windowEnd\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ordersChecked\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"ordersMissing\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"ordersMismatched\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"ordersFixed\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"productsChecked\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"productsMissing\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"stockMismatches\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"productsFixed\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ReconciliationRunToShop\"}],\"dbName\":null},\"Product\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"platform\",\"kind\":\"enum\",\"type\":\"Platform\"},{\"name\":\"shopeeProductId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sku\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stock\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"platformUpdatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"stockSyncStatus\",\"kind\":\"enum\",\"type\":\"StockSyncStatus\"},{\"name\":\"stockSyncError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stockSyncedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"masterSkuId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"masterSkuLinkedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"taxClassification\",\"kind\":\"enum\",\"type\":\"LineTaxClassification\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ProductToShop\"},{\"name\":\"masterSku\",\"kind\":\"object\",\"type\":\"MasterSku\",\"relationName\":\"MasterSkuToProduct\"},{\"name\":\"orderItems\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderItemToProduct\"},{\"name\":\"variants\",\"kind\":\"object\",\"type\":\"ProductVariant\",\"relationName\":\"ProductToProductVariant\"},{\"name\":\"stockMovements\",\"kind\":\"object\",\"type\":\"StockMovement\",\"relationName\":\"ProductToStockMovement\"}],\"dbName\":null},\"ProductVariant\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopeeModelId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sku\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stock\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"price\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"platformUpdatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"stockSyncStatus\",\"kind\":\"enum\",\"type\":\"StockSyncStatus\"},{\"name\":\"stockSyncError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stockSyncedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"masterSkuId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"masterSkuLinkedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToProductVariant\"},{\"name\":\"masterSku\",\"kind\":\"object\",\"type\":\"MasterSku\",\"relationName\":\"MasterSkuToProductVariant\"},{\"name\":\"stockMovements\",\"kind\":\"object\",\"type\":\"StockMovement\",\"relationName\":\"ProductVariantToStockMovement\"}],\"dbName\":null},\"MasterSku\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sku\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stock\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"MasterSkuToShop\"},{\"name\":\"products\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"MasterSkuToProduct\"},{\"name\":\"variants\",\"kind\":\"object\",\"type\":\"ProductVariant\",\"relationName\":\"MasterSkuToProductVariant\"},{\"name\":\"stockMovements\",\"kind\":\"object\",\"type\":\"StockMovement\",\"relationName\":\"MasterSkuToStockMovement\"}],\"dbName\":null},\"StockMovement\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"variantId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"masterSkuId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"source\",\"kind\":\"enum\",\"type\":\"StockMovementSource\"},{\"name\":\"quantityBefore\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"quantityAfter\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"change\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reference\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ShopToStockMovement\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToStockMovement\"},{\"name\":\"variant\",\"kind\":\"object\",\"type\":\"ProductVariant\",\"relationName\":\"ProductVariantToStockMovement\"},{\"name\":\"masterSku\",\"kind\":\"object\",\"type\":\"MasterSku\",\"relationName\":\"MasterSkuToStockMovement\"},{\"name\":\"actor\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"StockMovements\"}],\"dbName\":null},\"Order\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"platform\",\"kind\":\"enum\",\"type\":\"Platform\"},{\"name\":\"shopeeOrderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"totalAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"customerName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customerEmail\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customerPhone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shippingAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"platformUpdatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"OrderToShop\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"OrderItem\",\"relationName\":\"OrderToOrderItem\"},{\"name\":\"receipts\",\"kind\":\"object\",\"type\":\"Receipt\",\"relationName\":\"OrderToReceipt\"}],\"dbName\":null},\"OrderItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"position\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"platformItemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"platformModelId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sku\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"unitPrice\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"discount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"taxClassification\",\"kind\":\"enum\",\"type\":\"LineTaxClassification\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToOrderItem\"},{\"name\":\"product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"OrderItemToProduct\"}],\"dbName\":null},\"WebhookPayload\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"platform\",\"kind\":\"enum\",\"type\":\"Platform\"},{\"name\":\"eventType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rawPayload\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"signature\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dedupKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"duplicateCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastDuplicateAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"WebhookStatus\"},{\"name\":\"processedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"retryCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ShopToWebhookPayload\"},{\"name\":\"replays\",\"kind\":\"object\",\"type\":\"WebhookReplay\",\"relationName\":\"WebhookPayloadToWebhookReplay\"}],\"dbName\":null},\"WebhookReplay\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"webhookId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"triggeredById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"previousStatus\",\"kind\":\"enum\",\"type\":\"WebhookStatus\"},{\"name\":\"previousError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bulk\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"webhook\",\"kind\":\"object\",\"type\":\"WebhookPayload\",\"relationName\":\"WebhookPayloadToWebhookReplay\"},{\"name\":\"triggeredBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"WebhookReplays\"}],\"dbName\":null},\"ShopTaxProfile\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"taxType\",\"kind\":\"enum\",\"type\":\"TaxType\"},{\"name\":\"rdoCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"registrationDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isVatExempt\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"isZeroRated\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"eisEnabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ShopToShopTaxProfile\"}],\"dbName\":null},\"ReceiptSeries\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"atpNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"prefix\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startSerial\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"endSerial\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"nextSerial\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ReceiptSeriesToShop\"},{\"name\":\"receipts\",\"kind\":\"object\",\"type\":\"Receipt\",\"relationName\":\"ReceiptToReceiptSeries\"}],\"dbName\":null},\"Receipt\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"seriesId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"serialNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"receiptNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"buyerName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"buyerTin\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"buyerAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"totalAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"taxType\",\"kind\":\"enum\",\"type\":\"TaxType\"},{\"name\":\"vatableSales\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"vatAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"vatExemptSales\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"zeroRatedSales\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"issuedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"issuedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"pdfKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pdfGeneratedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ReceiptStatus\"},{\"name\":\"voidReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"voidedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"voidedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"eisStatus\",\"kind\":\"enum\",\"type\":\"EisStatus\"},{\"name\":\"eisBatchId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"eisTransmittedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"eisError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ReceiptToShop\"},{\"name\":\"series\",\"kind\":\"object\",\"type\":\"ReceiptSeries\",\"relationName\":\"ReceiptToReceiptSeries\"},{\"name\":\"order\",\"kind\":\"object\",\"type\":\"Order\",\"relationName\":\"OrderToReceipt\"},{\"name\":\"issuedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ReceiptsIssued\"},{\"name\":\"voidedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ReceiptsVoided\"},{\"name\":\"eisBatch\",\"kind\":\"object\",\"type\":\"EisBatch\",\"relationName\":\"EisBatchToReceipt\"},{\"name\":\"events\",\"kind\":\"object\",\"type\":\"ReceiptEvent\",\"relationName\":\"ReceiptToReceiptEvent\"},{\"name\":\"lines\",\"kind\":\"object\",\"type\":\"ReceiptLine\",\"relationName\":\"ReceiptToReceiptLine\"}],\"dbName\":null},\"ReceiptLine\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"receiptId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"position\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sku\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"unitPrice\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"discount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"taxClassification\",\"kind\":\"enum\",\"type\":\"LineTaxClassification\"},{\"name\":\"receipt\",\"kind\":\"object\",\"type\":\"Receipt\",\"relationName\":\"ReceiptToReceiptLine\"}],\"dbName\":null},\"EisBatch\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"EisBatchStatus\"},{\"name\":\"receiptCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"payloadDigest\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"submissionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"responseCode\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"submittedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"EisBatchToShop\"},{\"name\":\"receipts\",\"kind\":\"object\",\"type\":\"Receipt\",\"relationName\":\"EisBatchToReceipt\"}],\"dbName\":null},\"ReceiptEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"receiptId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"ReceiptEventType\"},{\"name\":\"actorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"receipt\",\"kind\":\"object\",\"type\":\"Receipt\",\"relationName\":\"ReceiptToReceiptEvent\"},{\"name\":\"actor\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ReceiptEventToUser\"}],\"dbName\":null},\"Expense\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expenseDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"supplierName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"supplierTin\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"supplierAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"inputVat\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"recordedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"ExpenseToShop\"},{\"name\":\"recordedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ExpensesRecorded\"}],\"dbName\":null},\"CreditableWithholding\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"kind\",\"kind\":\"enum\",\"type\":\"WithholdingTaxKind\"},{\"name\":\"agentName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"agentTin\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"atcCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paymentDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"incomeAmount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"taxWithheld\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"platform\",\"kind\":\"enum\",\"type\":\"Platform\"},{\"name\":\"certificateKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"certificateFileName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"recordedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"CreditableWithholdingToShop\"},{\"name\":\"recordedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"WithholdingsRecorded\"}],\"dbName\":null},\"MarketplacePayout\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"platform\",\"kind\":\"enum\",\"type\":\"Platform\"},{\"name\":\"payoutReference\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"payoutDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"grossRemittance\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"taxWithheld\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"recordedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"MarketplacePayoutToShop\"},{\"name\":\"recordedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PayoutsRecorded\"}],\"dbName\":null},\"AccountingBook\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shopId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"AccountingBookType\"},{\"name\":\"year\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"month\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"fileKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fileName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pageCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"entryCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"generatedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"generatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"shop\",\"kind\":\"object\",\"type\":\"Shop\",\"relationName\":\"AccountingBookToShop\"},{\"name\":\"generatedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"BooksGenerated\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
 defineDmmfProperty(exports.Prisma, config.runtimeDataModel)
 config.engineWasm = {
   getRuntime: async () => require('./query_engine_bg.js'),
@@ -0,0 +1,74 @@
+-- CreateTable
+CREATE TABLE "ReceiptSeries" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "atpNumber" TEXT NOT NULL,
+    "prefix" TEXT,
+    "startSerial" INTEGER NOT NULL,
+    "endSerial" INTEGER NOT NULL,
+    "nextSerial" INTEGER NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReceiptSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Receipt" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "seriesId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "serialNumber" INTEGER NOT NULL,
+    "receiptNumber" TEXT NOT NULL,
+    "buyerName" TEXT NOT NULL,
+    "buyerTin" TEXT,
+    "buyerAddress" TEXT,
+    "totalAmount" DECIMAL(10,2) NOT NULL,
+    "issuedById" TEXT NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Receipt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReceiptSeries_shopId_idx" ON "ReceiptSeries"("shopId");
+
+-- CreateIndex
+CREATE INDEX "ReceiptSeries_isActive_idx" ON "ReceiptSeries"("isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReceiptSeries_shopId_atpNumber_key" ON "ReceiptSeries"("shopId", "atpNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Receipt_orderId_key" ON "Receipt"("orderId");
+
+-- CreateIndex
+CREATE INDEX "Receipt_shopId_idx" ON "Receipt"("shopId");
+
+-- CreateIndex
+CREATE INDEX "Receipt_seriesId_idx" ON "Receipt"("seriesId");
+
+-- CreateIndex
+CREATE INDEX "Receipt_issuedAt_idx" ON "Receipt"("issuedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Receipt_shopId_serialNumber_key" ON "Receipt"("shopId", "serialNumber");
+
+-- AddForeignKey
+ALTER TABLE "ReceiptSeries" ADD CONSTRAINT "ReceiptSeries_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Receipt" ADD CONSTRAINT "Receipt_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Receipt" ADD CONSTRAINT "Receipt_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "ReceiptSeries"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Receipt" ADD CONSTRAINT "Receipt_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Receipt" ADD CONSTRAINT "Receipt_issuedById_fkey" FOREIGN KEY ("issuedById") REFERENCES "User"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "pdfGeneratedAt" TIMESTAMP(3),
+ADD COLUMN     "pdfKey" TEXT;
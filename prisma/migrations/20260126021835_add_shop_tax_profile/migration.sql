@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "TaxType" AS ENUM ('VAT', 'PERCENTAGE_TAX', 'EIGHT_PERCENT');
+
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "taxType" "TaxType" NOT NULL DEFAULT 'VAT',
+ADD COLUMN     "vatAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "vatExemptSales" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "vatableSales" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "zeroRatedSales" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ShopTaxProfile" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "taxType" "TaxType" NOT NULL DEFAULT 'VAT',
+    "rdoCode" TEXT,
+    "registrationDate" TIMESTAMP(3),
+    "isVatExempt" BOOLEAN NOT NULL DEFAULT false,
+    "isZeroRated" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShopTaxProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShopTaxProfile_shopId_key" ON "ShopTaxProfile"("shopId");
+
+-- AddForeignKey
+ALTER TABLE "ShopTaxProfile" ADD CONSTRAINT "ShopTaxProfile_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "ReceiptStatus" AS ENUM ('ISSUED', 'VOID_REVIEW', 'VOIDED');
+
+-- CreateEnum
+CREATE TYPE "ReceiptEventType" AS ENUM ('ISSUED', 'VOID_REVIEW_REQUESTED', 'VOID_REVIEW_DISMISSED', 'VOIDED');
+
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "status" "ReceiptStatus" NOT NULL DEFAULT 'ISSUED',
+ADD COLUMN     "voidReason" TEXT,
+ADD COLUMN     "voidedAt" TIMESTAMP(3),
+ADD COLUMN     "voidedById" TEXT;
+
+-- CreateTable
+CREATE TABLE "ReceiptEvent" (
+    "id" TEXT NOT NULL,
+    "receiptId" TEXT NOT NULL,
+    "type" "ReceiptEventType" NOT NULL,
+    "actorId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReceiptEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Receipt_status_idx" ON "Receipt"("status");
+
+-- CreateIndex
+CREATE INDEX "ReceiptEvent_receiptId_idx" ON "ReceiptEvent"("receiptId");
+
+-- CreateIndex
+CREATE INDEX "ReceiptEvent_createdAt_idx" ON "ReceiptEvent"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Receipt" ADD CONSTRAINT "Receipt_voidedById_fkey" FOREIGN KEY ("voidedById") REFERENCES "User"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReceiptEvent" ADD CONSTRAINT "ReceiptEvent_receiptId_fkey" FOREIGN KEY ("receiptId") REFERENCES "Receipt"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReceiptEvent" ADD CONSTRAINT "ReceiptEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,63 @@
+-- CreateEnum
+CREATE TYPE "WithholdingTaxKind" AS ENUM ('INCOME_TAX', 'VAT', 'PERCENTAGE_TAX');
+
+-- CreateTable
+CREATE TABLE "Expense" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "expenseDate" TIMESTAMP(3) NOT NULL,
+    "supplierName" TEXT NOT NULL,
+    "supplierTin" TEXT,
+    "supplierAddress" TEXT,
+    "description" TEXT NOT NULL,
+    "category" TEXT,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "inputVat" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "recordedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Expense_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CreditableWithholding" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "kind" "WithholdingTaxKind" NOT NULL DEFAULT 'INCOME_TAX',
+    "agentName" TEXT NOT NULL,
+    "agentTin" TEXT NOT NULL,
+    "atcCode" TEXT,
+    "paymentDate" TIMESTAMP(3) NOT NULL,
+    "incomeAmount" DECIMAL(10,2) NOT NULL,
+    "taxWithheld" DECIMAL(10,2) NOT NULL,
+    "recordedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CreditableWithholding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Expense_shopId_idx" ON "Expense"("shopId");
+
+-- CreateIndex
+CREATE INDEX "Expense_expenseDate_idx" ON "Expense"("expenseDate");
+
+-- CreateIndex
+CREATE INDEX "CreditableWithholding_shopId_idx" ON "CreditableWithholding"("shopId");
+
+-- CreateIndex
+CREATE INDEX "CreditableWithholding_paymentDate_idx" ON "CreditableWithholding"("paymentDate");
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditableWithholding" ADD CONSTRAINT "CreditableWithholding_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditableWithholding" ADD CONSTRAINT "CreditableWithholding_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
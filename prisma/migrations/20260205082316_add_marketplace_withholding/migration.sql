@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "CreditableWithholding" ADD COLUMN     "certificateFileName" TEXT,
+ADD COLUMN     "certificateKey" TEXT,
+ADD COLUMN     "platform" "Platform";
+
+-- CreateTable
+CREATE TABLE "MarketplacePayout" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "platform" "Platform" NOT NULL,
+    "payoutReference" TEXT NOT NULL,
+    "payoutDate" TIMESTAMP(3) NOT NULL,
+    "grossRemittance" DECIMAL(12,2) NOT NULL,
+    "taxWithheld" DECIMAL(10,2) NOT NULL,
+    "recordedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MarketplacePayout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MarketplacePayout_shopId_idx" ON "MarketplacePayout"("shopId");
+
+-- CreateIndex
+CREATE INDEX "MarketplacePayout_payoutDate_idx" ON "MarketplacePayout"("payoutDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MarketplacePayout_shopId_platform_payoutReference_key" ON "MarketplacePayout"("shopId", "platform", "payoutReference");
+
+-- AddForeignKey
+ALTER TABLE "MarketplacePayout" ADD CONSTRAINT "MarketplacePayout_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketplacePayout" ADD CONSTRAINT "MarketplacePayout_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
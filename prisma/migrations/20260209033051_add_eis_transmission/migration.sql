@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "EisStatus" AS ENUM ('PENDING', 'SUBMITTED', 'ACCEPTED', 'REJECTED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "EisBatchStatus" AS ENUM ('SUBMITTING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "ShopTaxProfile" ADD COLUMN     "eisEnabled" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "eisBatchId" TEXT,
+ADD COLUMN     "eisError" TEXT,
+ADD COLUMN     "eisStatus" "EisStatus",
+ADD COLUMN     "eisTransmittedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "EisBatch" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "status" "EisBatchStatus" NOT NULL DEFAULT 'SUBMITTING',
+    "receiptCount" INTEGER NOT NULL,
+    "payloadDigest" TEXT NOT NULL,
+    "submissionId" TEXT,
+    "responseCode" INTEGER,
+    "error" TEXT,
+    "submittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "EisBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EisBatch_shopId_idx" ON "EisBatch"("shopId");
+
+-- CreateIndex
+CREATE INDEX "EisBatch_status_idx" ON "EisBatch"("status");
+
+-- CreateIndex
+CREATE INDEX "Receipt_shopId_eisStatus_idx" ON "Receipt"("shopId", "eisStatus");
+
+-- AddForeignKey
+ALTER TABLE "Receipt" ADD CONSTRAINT "Receipt_eisBatchId_fkey" FOREIGN KEY ("eisBatchId") REFERENCES "EisBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EisBatch" ADD CONSTRAINT "EisBatch_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
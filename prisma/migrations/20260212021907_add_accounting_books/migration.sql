@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "AccountingBookType" AS ENUM ('SALES_JOURNAL', 'PURCHASE_JOURNAL', 'CASH_RECEIPTS', 'CASH_DISBURSEMENTS');
+
+-- CreateTable
+CREATE TABLE "AccountingBook" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "type" "AccountingBookType" NOT NULL,
+    "year" INTEGER NOT NULL,
+    "month" INTEGER NOT NULL,
+    "fileKey" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "pageCount" INTEGER NOT NULL,
+    "entryCount" INTEGER NOT NULL,
+    "generatedById" TEXT NOT NULL,
+    "generatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AccountingBook_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AccountingBook_shopId_idx" ON "AccountingBook"("shopId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccountingBook_shopId_type_year_month_key" ON "AccountingBook"("shopId", "type", "year", "month");
+
+-- AddForeignKey
+ALTER TABLE "AccountingBook" ADD CONSTRAINT "AccountingBook_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AccountingBook" ADD CONSTRAINT "AccountingBook_generatedById_fkey" FOREIGN KEY ("generatedById") REFERENCES "User"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "OrderItem" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "productId" TEXT,
+    "position" INTEGER NOT NULL,
+    "platformItemId" TEXT,
+    "name" TEXT NOT NULL,
+    "sku" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "unitPrice" DECIMAL(10,2) NOT NULL,
+    "discount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderItem_orderId_idx" ON "OrderItem"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderItem_productId_idx" ON "OrderItem"("productId");
+
+-- CreateIndex
+CREATE INDEX "OrderItem_sku_idx" ON "OrderItem"("sku");
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill from the Order.items JSON (Shopee webhook item array, prices in 5 decimal places)
+INSERT INTO "OrderItem" ("id", "orderId", "productId", "position", "platformItemId", "name", "sku", "quantity", "unitPrice", "discount", "amount")
+SELECT
+    gen_random_uuid()::text,
+    o."id",
+    p."id",
+    (e.ordinality - 1)::integer,
+    e.item->>'item_id',
+    COALESCE(e.item->>'item_name', TRIM('Item ' || COALESCE(e.item->>'item_id', ''))),
+    e.item->>'model_sku',
+    COALESCE((e.item->>'quantity')::integer, 1),
+    ROUND(COALESCE((e.item->>'item_price')::numeric, 0) / 100000, 2),
+    0,
+    ROUND(COALESCE((e.item->>'item_price')::numeric, 0) / 100000 * COALESCE((e.item->>'quantity')::integer, 1), 2)
+FROM "Order" o
+CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(o."items") = 'array' THEN o."items" ELSE '[]'::jsonb END
+) WITH ORDINALITY AS e(item, ordinality)
+LEFT JOIN "Product" p
+    ON p."shopId" = o."shopId" AND p."shopeeProductId" = e.item->>'item_id';
+
+-- AlterTable
+ALTER TABLE "Order" DROP COLUMN "items";
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "WebhookStatus" ADD VALUE 'UNHANDLED';
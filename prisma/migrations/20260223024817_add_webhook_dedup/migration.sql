@@ -0,0 +1,16 @@
+-- AlterEnum
+ALTER TYPE "WebhookStatus" ADD VALUE 'STALE';
+
+-- AlterTable
+ALTER TABLE "WebhookPayload" ADD COLUMN     "dedupKey" TEXT,
+ADD COLUMN     "duplicateCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastDuplicateAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "platformUpdatedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "platformUpdatedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebhookPayload_dedupKey_key" ON "WebhookPayload"("dedupKey");
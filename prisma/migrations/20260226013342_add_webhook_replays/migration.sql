@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "WebhookReplay" (
+    "id" TEXT NOT NULL,
+    "webhookId" TEXT NOT NULL,
+    "triggeredById" TEXT NOT NULL,
+    "previousStatus" "WebhookStatus" NOT NULL,
+    "previousError" TEXT,
+    "bulk" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WebhookReplay_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WebhookReplay_webhookId_idx" ON "WebhookReplay"("webhookId");
+
+-- AddForeignKey
+ALTER TABLE "WebhookReplay" ADD CONSTRAINT "WebhookReplay_webhookId_fkey" FOREIGN KEY ("webhookId") REFERENCES "WebhookPayload"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WebhookReplay" ADD CONSTRAINT "WebhookReplay_triggeredById_fkey" FOREIGN KEY ("triggeredById") REFERENCES "User"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
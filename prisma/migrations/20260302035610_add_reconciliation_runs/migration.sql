@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "ReconciliationStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "ShopeeIntegration" ADD COLUMN     "statusReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "ReconciliationRun" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "status" "ReconciliationStatus" NOT NULL DEFAULT 'RUNNING',
+    "windowStart" TIMESTAMP(3) NOT NULL,
+    "windowEnd" TIMESTAMP(3) NOT NULL,
+    "ordersChecked" INTEGER NOT NULL DEFAULT 0,
+    "ordersMissing" INTEGER NOT NULL DEFAULT 0,
+    "ordersMismatched" INTEGER NOT NULL DEFAULT 0,
+    "ordersFixed" INTEGER NOT NULL DEFAULT 0,
+    "productsChecked" INTEGER NOT NULL DEFAULT 0,
+    "productsMissing" INTEGER NOT NULL DEFAULT 0,
+    "stockMismatches" INTEGER NOT NULL DEFAULT 0,
+    "productsFixed" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ReconciliationRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReconciliationRun_shopId_startedAt_idx" ON "ReconciliationRun"("shopId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "ReconciliationRun" ADD CONSTRAINT "ReconciliationRun_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
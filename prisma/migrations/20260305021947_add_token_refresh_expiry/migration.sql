@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ShopeeIntegration" ADD COLUMN     "refreshExpiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "ShopeeIntegration_expiresAt_idx" ON "ShopeeIntegration"("expiresAt");
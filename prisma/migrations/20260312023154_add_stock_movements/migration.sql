@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "StockMovementSource" AS ENUM ('OPENING_BALANCE', 'SHOPEE_WEBHOOK', 'SHOPEE_IMPORT', 'RECONCILIATION', 'MANUAL_ADJUSTMENT', 'SALE', 'RETURN', 'STOCK_TAKE');
+
+-- CreateTable
+CREATE TABLE "StockMovement" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "source" "StockMovementSource" NOT NULL,
+    "quantityBefore" INTEGER NOT NULL,
+    "quantityAfter" INTEGER NOT NULL,
+    "change" INTEGER NOT NULL,
+    "reason" TEXT,
+    "reference" TEXT,
+    "actorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StockMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StockMovement_productId_createdAt_idx" ON "StockMovement"("productId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_variantId_idx" ON "StockMovement"("variantId");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_shopId_createdAt_idx" ON "StockMovement"("shopId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+-- Opening balances, so existing stock equals the sum of its movements
+INSERT INTO "StockMovement" ("id", "shopId", "productId", "source", "quantityBefore", "quantityAfter", "change")
+SELECT gen_random_uuid()::text, "shopId", "id", 'OPENING_BALANCE', 0, "stock", "stock"
+FROM "Product"
+WHERE "stock" <> 0;
+
+INSERT INTO "StockMovement" ("id", "shopId", "productId", "variantId", "source", "quantityBefore", "quantityAfter", "change")
+SELECT gen_random_uuid()::text, p."shopId", v."productId", v."id", 'OPENING_BALANCE', 0, v."stock", v."stock"
+FROM "ProductVariant" v
+JOIN "Product" p ON p."id" = v."productId"
+WHERE v."stock" <> 0;
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "StockSyncStatus" AS ENUM ('SYNCED', 'PENDING', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "stockSyncError" TEXT,
+ADD COLUMN     "stockSyncStatus" "StockSyncStatus" NOT NULL DEFAULT 'SYNCED',
+ADD COLUMN     "stockSyncedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "ProductVariant" ADD COLUMN     "stockSyncError" TEXT,
+ADD COLUMN     "stockSyncStatus" "StockSyncStatus" NOT NULL DEFAULT 'SYNCED',
+ADD COLUMN     "stockSyncedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Product_shopId_stockSyncStatus_idx" ON "Product"("shopId", "stockSyncStatus");
+
+-- CreateIndex
+CREATE INDEX "ProductVariant_stockSyncStatus_idx" ON "ProductVariant"("stockSyncStatus");
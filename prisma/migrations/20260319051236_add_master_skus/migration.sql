@@ -0,0 +1,57 @@
+-- AlterEnum
+ALTER TYPE "StockMovementSource" ADD VALUE 'MASTER_SKU';
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "platformModelId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "masterSkuId" TEXT,
+ADD COLUMN     "masterSkuLinkedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "ProductVariant" ADD COLUMN     "masterSkuId" TEXT,
+ADD COLUMN     "masterSkuLinkedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "StockMovement" ADD COLUMN     "masterSkuId" TEXT,
+ALTER COLUMN "productId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "MasterSku" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "sku" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "stock" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MasterSku_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MasterSku_shopId_idx" ON "MasterSku"("shopId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MasterSku_shopId_sku_key" ON "MasterSku"("shopId", "sku");
+
+-- CreateIndex
+CREATE INDEX "Product_masterSkuId_idx" ON "Product"("masterSkuId");
+
+-- CreateIndex
+CREATE INDEX "ProductVariant_masterSkuId_idx" ON "ProductVariant"("masterSkuId");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_masterSkuId_createdAt_idx" ON "StockMovement"("masterSkuId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Product" ADD CONSTRAINT "Product_masterSkuId_fkey" FOREIGN KEY ("masterSkuId") REFERENCES "MasterSku"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductVariant" ADD CONSTRAINT "ProductVariant_masterSkuId_fkey" FOREIGN KEY ("masterSkuId") REFERENCES "MasterSku"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MasterSku" ADD CONSTRAINT "MasterSku_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_masterSkuId_fkey" FOREIGN KEY ("masterSkuId") REFERENCES "MasterSku"("id") ON DELETE CASCADE ON UPDATE CASCADE;
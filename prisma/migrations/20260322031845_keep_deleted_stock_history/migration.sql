@@ -0,0 +1,20 @@
+-- AlterEnum
+ALTER TYPE "StockMovementSource" ADD VALUE 'REMOVED';
+
+-- DropForeignKey
+ALTER TABLE "StockMovement" DROP CONSTRAINT "StockMovement_productId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "StockMovement" DROP CONSTRAINT "StockMovement_variantId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "StockMovement" DROP CONSTRAINT "StockMovement_masterSkuId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_masterSkuId_fkey" FOREIGN KEY ("masterSkuId") REFERENCES "MasterSku"("id") ON DELETE SET NULL ON UPDATE CASCADE;
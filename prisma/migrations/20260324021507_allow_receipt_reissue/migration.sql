@@ -0,0 +1,9 @@
+-- DropIndex
+DROP INDEX "Receipt_orderId_key";
+
+-- CreateIndex
+CREATE INDEX "Receipt_orderId_idx" ON "Receipt"("orderId");
+
+-- An order can be receipted again once its receipt is voided, but never has
+-- two valid receipts (not expressible in the Prisma schema)
+CREATE UNIQUE INDEX "Receipt_orderId_active_key" ON "Receipt"("orderId") WHERE "status" <> 'VOIDED';
@@ -0,0 +1,40 @@
+-- Correct the 20260216045522_add_order_items backfill, which priced lines at item_price
+-- with no discount. As in parseShopeeOrderItems, unitPrice is the list price
+-- (original_price) and discount the difference. Order.items is gone, so the prices are
+-- read from the latest stored order webhook, for lines still exactly as backfilled.
+WITH "latest" AS (
+    SELECT DISTINCT ON (o."id")
+        o."id" AS "orderId",
+        w."rawPayload"->'items' AS "items"
+    FROM "Order" o
+    JOIN "WebhookPayload" w
+        ON w."shopId" = o."shopId"
+        AND w."eventType" LIKE 'order.%'
+        AND w."rawPayload"->>'order_id' = o."shopeeOrderId"
+        AND jsonb_typeof(w."rawPayload"->'items') = 'array'
+    ORDER BY o."id", w."createdAt" DESC
+),
+"lines" AS (
+    SELECT
+        l."orderId",
+        (e.ordinality - 1)::integer AS "position",
+        e.item->>'item_id' AS "itemId",
+        COALESCE((e.item->>'quantity')::integer, 1) AS "quantity",
+        COALESCE((e.item->>'item_price')::numeric, 0) / 100000 AS "sellingPrice",
+        COALESCE((e.item->>'original_price')::numeric, 0) / 100000 AS "listPrice"
+    FROM "latest" l
+    CROSS JOIN LATERAL jsonb_array_elements(l."items") WITH ORDINALITY AS e(item, ordinality)
+)
+UPDATE "OrderItem" oi
+SET
+    "unitPrice" = ROUND(li."listPrice", 2),
+    "discount" = ROUND((li."listPrice" - li."sellingPrice") * li."quantity", 2)
+FROM "lines" li
+WHERE oi."orderId" = li."orderId"
+    AND oi."position" = li."position"
+    AND oi."platformItemId" IS NOT DISTINCT FROM li."itemId"
+    AND oi."quantity" = li."quantity"
+    AND oi."discount" = 0
+    AND oi."unitPrice" = ROUND(li."sellingPrice", 2)
+    AND oi."amount" = ROUND(li."sellingPrice" * li."quantity", 2)
+    AND li."listPrice" > li."sellingPrice";
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "ReceiptLine" (
+    "id" TEXT NOT NULL,
+    "receiptId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "sku" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "unitPrice" DECIMAL(10,2) NOT NULL,
+    "discount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "amount" DECIMAL(10,2) NOT NULL,
+
+    CONSTRAINT "ReceiptLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReceiptLine_receiptId_idx" ON "ReceiptLine"("receiptId");
+
+-- AddForeignKey
+ALTER TABLE "ReceiptLine" ADD CONSTRAINT "ReceiptLine_receiptId_fkey" FOREIGN KEY ("receiptId") REFERENCES "Receipt"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill issued receipts from their order's current lines (the closest record we have)
+INSERT INTO "ReceiptLine" ("id", "receiptId", "position", "name", "sku", "quantity", "unitPrice", "discount", "amount")
+SELECT
+    gen_random_uuid()::text,
+    r."id",
+    oi."position",
+    oi."name",
+    oi."sku",
+    oi."quantity",
+    oi."unitPrice",
+    oi."discount",
+    oi."amount"
+FROM "Receipt" r
+JOIN "OrderItem" oi ON oi."orderId" = r."orderId";
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "LineTaxClassification" AS ENUM ('VATABLE', 'VAT_EXEMPT', 'ZERO_RATED');
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "taxClassification" "LineTaxClassification";
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN "taxClassification" "LineTaxClassification";
+
+-- AlterTable
+ALTER TABLE "ReceiptLine" ADD COLUMN "taxClassification" "LineTaxClassification";
@@ -219,12 +219,21 @@ export default function DashboardPage({ params }: DashboardPageProps) {
             <p className="mb-4 text-sm text-gray-600">
               Create official receipts for your sales transactions
             </p>
-            <button
-              disabled
-              className="w-full rounded-lg bg-gray-200 px-4 py-2 font-semibold text-gray-500 transition disabled:cursor-not-allowed"
-            >
-              Coming in Epic 5
-            </button>
+            {currentShop.role === "OWNER" || currentShop.role === "ACCOUNTANT" ? (
+              <Link
+                href={`/${shopId}/receipts`}
+                className="block w-full rounded-lg bg-emerald-500 px-4 py-2 text-center font-semibold text-white transition hover:bg-emerald-600"
+              >
+                Go to Receipts
+              </Link>
+            ) : (
+              <button
+                disabled
+                className="w-full rounded-lg bg-gray-200 px-4 py-2 font-semibold text-gray-500 transition disabled:cursor-not-allowed"
+              >
+                Owners and accountants only
+              </button>
+            )}
           </div>
 
           {/* Inventory Card */}
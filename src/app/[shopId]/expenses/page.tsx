@@ -0,0 +1,328 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession, signOut } from "next-auth/react";
+import { useParams, useRouter } from "next/navigation";
+import { api } from "~/trpc/react";
+import DashboardNav from "~/components/DashboardNav";
+
+function formatPeso(amount: number): string {
+  return `₱${amount.toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export default function ExpensesPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { data: session, status } = useSession({
+    required: true,
+    onUnauthenticated() {
+      router.push(`/auth/login?callbackUrl=${encodeURIComponent(typeof window !== 'undefined' ? window.location.pathname : '')}`);
+    },
+  });
+
+  const rawShopId = params.shopId;
+  const shopId = typeof rawShopId === 'string' ? rawShopId : Array.isArray(rawShopId) ? rawShopId[0] : undefined;
+
+  const [mounted, setMounted] = useState(false);
+  const [showLogoutModal, setShowLogoutModal] = useState(false);
+  const [error, setError] = useState("");
+  const [expenseDate, setExpenseDate] = useState("");
+  const [supplierName, setSupplierName] = useState("");
+  const [supplierTin, setSupplierTin] = useState("");
+  const [supplierAddress, setSupplierAddress] = useState("");
+  const [description, setDescription] = useState("");
+  const [category, setCategory] = useState("");
+  const [amount, setAmount] = useState("");
+  const [inputVat, setInputVat] = useState("");
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const { data: userShops, isLoading: isLoadingShops } = api.shop.getUserShops.useQuery(
+    undefined,
+    { enabled: mounted }
+  );
+  const currentShop = userShops?.find((s) => s.shopId === shopId);
+  const canManageExpenses = currentShop?.role === "OWNER" || currentShop?.role === "ACCOUNTANT";
+
+  const { data: expensesData, refetch: refetchExpenses } = api.expense.getExpenses.useQuery(
+    { shopId: shopId! },
+    { enabled: mounted && !!shopId && canManageExpenses }
+  );
+
+  const createMutation = api.expense.createExpense.useMutation({
+    onSuccess: () => {
+      setExpenseDate("");
+      setSupplierName("");
+      setSupplierTin("");
+      setSupplierAddress("");
+      setDescription("");
+      setCategory("");
+      setAmount("");
+      setInputVat("");
+      setError("");
+      void refetchExpenses();
+    },
+    onError: (err) => {
+      setError(err.message);
+    },
+  });
+
+  const deleteMutation = api.expense.deleteExpense.useMutation({
+    onSuccess: () => {
+      setError("");
+      void refetchExpenses();
+    },
+    onError: (err) => {
+      setError(err.message);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!shopId) return;
+
+    const parsedAmount = parseFloat(amount);
+    if (!expenseDate || !supplierName || !description || isNaN(parsedAmount)) {
+      setError("Date, supplier, description and amount are required");
+      return;
+    }
+
+    createMutation.mutate({
+      shopId,
+      expenseDate: new Date(expenseDate),
+      supplierName,
+      supplierTin: supplierTin.replace(/\D/g, "") || undefined,
+      supplierAddress: supplierAddress || undefined,
+      description,
+      category: category || undefined,
+      amount: parsedAmount,
+      inputVat: inputVat ? parseFloat(inputVat) : 0,
+    });
+  };
+
+  if (status === "loading" || isLoadingShops || !shopId || !mounted) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white">
+        <div className="text-gray-600">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!currentShop) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white p-6">
+        <div className="max-w-md rounded-lg border-2 border-gray-200 bg-gray-50 p-8 text-center">
+          <h1 className="mb-4 text-2xl font-bold text-gray-900">
+            Access Denied
+          </h1>
+          <p className="mb-6 text-gray-600">
+            You do not have access to this shop.
+          </p>
+          <button
+            onClick={() => router.push("/")}
+            className="w-full rounded-lg bg-emerald-500 px-6 py-3 font-semibold text-white hover:bg-emerald-600"
+          >
+            Go to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen bg-white">
+      <DashboardNav
+        shopId={shopId}
+        currentShop={currentShop}
+        userEmail={session?.user.email}
+        onSignOut={() => setShowLogoutModal(true)}
+      />
+
+      <main className="flex-1">
+        <div className="border-b-2 border-gray-200 bg-gray-50 p-4 lg:hidden">
+          <button
+            onClick={() => {
+              const nav = document.querySelector('[data-mobile-nav]');
+              if (nav) {
+                const event = new CustomEvent('toggleNav');
+                nav.dispatchEvent(event);
+              }
+            }}
+            className="rounded-lg p-2 text-gray-700 hover:bg-gray-100"
+            aria-label="Toggle menu"
+          >
+            <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6">
+          <div className="mx-auto max-w-4xl">
+            <h1 className="mb-6 text-3xl font-bold text-gray-900">Expenses</h1>
+
+            {!canManageExpenses ? (
+              <div className="rounded-lg border-2 border-gray-200 bg-gray-50 p-6 text-center">
+                <p className="text-gray-600">
+                  You must be a shop owner or accountant to manage expenses.
+                </p>
+              </div>
+            ) : (
+              <>
+                {error && (
+                  <div className="mb-6 rounded-lg border-2 border-red-200 bg-red-50 p-4 text-red-700">
+                    {error}
+                  </div>
+                )}
+
+                {/* New expense */}
+                <form onSubmit={handleSubmit} className="mb-8 grid gap-4 rounded-lg border-2 border-gray-200 bg-gray-50 p-6 md:grid-cols-2">
+                  <h2 className="text-xl font-semibold text-gray-900 md:col-span-2">
+                    Record Expense
+                  </h2>
+                  <input
+                    type="date"
+                    value={expenseDate}
+                    onChange={(e) => setExpenseDate(e.target.value)}
+                    className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                  />
+                  <input
+                    type="text"
+                    value={supplierName}
+                    onChange={(e) => setSupplierName(e.target.value)}
+                    placeholder="Supplier name"
+                    className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                  />
+                  <input
+                    type="text"
+                    value={supplierTin}
+                    onChange={(e) => setSupplierTin(e.target.value)}
+                    placeholder="Supplier TIN (required to claim input VAT)"
+                    className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                  />
+                  <input
+                    type="text"
+                    value={supplierAddress}
+                    onChange={(e) => setSupplierAddress(e.target.value)}
+                    placeholder="Supplier address (optional)"
+                    className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                  />
+                  <input
+                    type="text"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    placeholder="Description"
+                    className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                  />
+                  <input
+                    type="text"
+                    value={category}
+                    onChange={(e) => setCategory(e.target.value)}
+                    placeholder="Category (optional)"
+                    className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                  />
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    placeholder="Amount paid (VAT-inclusive)"
+                    className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                  />
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={inputVat}
+                    onChange={(e) => setInputVat(e.target.value)}
+                    placeholder="Input VAT on invoice"
+                    className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                  />
+                  <button
+                    type="submit"
+                    disabled={createMutation.isPending}
+                    className="rounded-lg bg-emerald-500 px-6 py-2 font-semibold text-white hover:bg-emerald-600 disabled:opacity-50 md:col-span-2"
+                  >
+                    {createMutation.isPending ? "Saving..." : "Record Expense"}
+                  </button>
+                </form>
+
+                {/* Expense list */}
+                <h2 className="mb-4 text-xl font-semibold text-gray-900">
+                  Recorded Expenses
+                </h2>
+                {!expensesData || expensesData.expenses.length === 0 ? (
+                  <p className="text-sm text-gray-600">No expenses recorded yet.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {expensesData.expenses.map((expense) => (
+                      <div
+                        key={expense.id}
+                        className="flex items-center justify-between rounded-lg border-2 border-gray-200 bg-white p-4"
+                      >
+                        <div>
+                          <p className="font-medium text-gray-900">{expense.description}</p>
+                          <p className="text-sm text-gray-600">
+                            {expense.supplierName}
+                            {expense.category ? ` · ${expense.category}` : ""} ·{" "}
+                            {new Date(expense.expenseDate).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-4">
+                          <div className="text-right text-sm text-gray-600">
+                            <p className="font-semibold text-gray-900">{formatPeso(Number(expense.amount))}</p>
+                            <p>Input VAT {formatPeso(Number(expense.inputVat))}</p>
+                          </div>
+                          <button
+                            onClick={() => deleteMutation.mutate({ shopId, expenseId: expense.id })}
+                            disabled={deleteMutation.isPending}
+                            className="rounded-lg border-2 border-gray-200 bg-white px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </main>
+
+      {/* Logout Confirmation Modal */}
+      {showLogoutModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+          <div className="w-full max-w-md rounded-lg border-2 border-gray-200 bg-white p-6 shadow-xl">
+            <h2 className="mb-4 text-xl font-bold text-gray-900">
+              Sign Out
+            </h2>
+            <p className="mb-6 text-gray-600">
+              Are you sure you want to sign out?
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  void signOut({ callbackUrl: "/auth/login?logout=success" });
+                }}
+                className="flex-1 rounded-lg bg-red-500 px-4 py-2 font-semibold text-white hover:bg-red-600"
+              >
+                Yes, Sign Out
+              </button>
+              <button
+                onClick={() => setShowLogoutModal(false)}
+                className="flex-1 rounded-lg border-2 border-gray-200 bg-white px-4 py-2 font-semibold text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
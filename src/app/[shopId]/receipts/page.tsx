@@ -0,0 +1,634 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession, signOut } from "next-auth/react";
+import { useParams, useRouter } from "next/navigation";
+import { api } from "~/trpc/react";
+import DashboardNav from "~/components/DashboardNav";
+
+export default function ReceiptsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { data: session, status } = useSession({
+    required: true,
+    onUnauthenticated() {
+      router.push(`/auth/login?callbackUrl=${encodeURIComponent(typeof window !== 'undefined' ? window.location.pathname : '')}`);
+    },
+  });
+
+  const rawShopId = params.shopId;
+  const shopId = typeof rawShopId === 'string' ? rawShopId : Array.isArray(rawShopId) ? rawShopId[0] : undefined;
+
+  const [mounted, setMounted] = useState(false);
+  const [showLogoutModal, setShowLogoutModal] = useState(false);
+  const [error, setError] = useState("");
+  const [atpNumber, setAtpNumber] = useState("");
+  const [prefix, setPrefix] = useState("");
+  const [startSerial, setStartSerial] = useState("");
+  const [endSerial, setEndSerial] = useState("");
+  const [voidTarget, setVoidTarget] = useState<{ id: string; receiptNumber: string } | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+  const [issueTarget, setIssueTarget] = useState<{ id: string; orderNumber: string } | null>(null);
+  const [buyerName, setBuyerName] = useState("");
+  const [buyerTin, setBuyerTin] = useState("");
+  const [buyerAddress, setBuyerAddress] = useState("");
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const { data: userShops, isLoading: isLoadingShops } = api.shop.getUserShops.useQuery(
+    undefined,
+    { enabled: mounted }
+  );
+  const currentShop = userShops?.find((s) => s.shopId === shopId);
+  const isOwner = currentShop?.role === "OWNER";
+  const canManageReceipts = isOwner || currentShop?.role === "ACCOUNTANT";
+
+  const { data: series, refetch: refetchSeries } = api.receipt.getSeries.useQuery(
+    { shopId: shopId! },
+    { enabled: mounted && !!shopId && canManageReceipts }
+  );
+
+  const { data: receiptsData, refetch: refetchReceipts } = api.receipt.getReceipts.useQuery(
+    { shopId: shopId! },
+    { enabled: mounted && !!shopId && canManageReceipts }
+  );
+
+  const { data: ordersData, refetch: refetchOrders } = api.shopee.getOrders.useQuery(
+    { shopId: shopId! },
+    { enabled: mounted && !!shopId && canManageReceipts }
+  );
+
+  const { data: eisStatus, refetch: refetchEisStatus } = api.receipt.getEisStatus.useQuery(
+    { shopId: shopId! },
+    { enabled: mounted && !!shopId && canManageReceipts }
+  );
+
+  const utils = api.useUtils();
+
+  const handleDownload = async (receiptId: string) => {
+    if (!shopId) return;
+    setError("");
+    try {
+      const { url } = await utils.receipt.getDownloadUrl.fetch({ shopId, receiptId });
+      window.open(url, "_blank");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to download receipt");
+    }
+  };
+
+  const createSeriesMutation = api.receipt.createSeries.useMutation({
+    onSuccess: () => {
+      setAtpNumber("");
+      setPrefix("");
+      setStartSerial("");
+      setEndSerial("");
+      setError("");
+      void refetchSeries();
+    },
+    onError: (err) => {
+      setError(err.message);
+    },
+  });
+
+  const issueMutation = api.receipt.issueReceipt.useMutation({
+    onSuccess: () => {
+      setIssueTarget(null);
+      setError("");
+      void refetchSeries();
+      void refetchReceipts();
+      void refetchOrders();
+      void refetchEisStatus();
+    },
+    onError: (err) => {
+      setError(err.message);
+    },
+  });
+
+  const voidMutation = api.receipt.voidReceipt.useMutation({
+    onSuccess: () => {
+      setVoidTarget(null);
+      setVoidReason("");
+      setError("");
+      void refetchReceipts();
+    },
+    onError: (err) => {
+      setError(err.message);
+    },
+  });
+
+  const dismissReviewMutation = api.receipt.dismissVoidReview.useMutation({
+    onSuccess: () => {
+      setError("");
+      void refetchReceipts();
+    },
+    onError: (err) => {
+      setError(err.message);
+    },
+  });
+
+  const transmitEisMutation = api.receipt.transmitToEis.useMutation({
+    onSuccess: () => {
+      setError("");
+      void refetchEisStatus();
+    },
+    onError: (err) => {
+      setError(err.message);
+    },
+  });
+
+  const handleVoid = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shopId || !voidTarget) return;
+    voidMutation.mutate({ shopId, receiptId: voidTarget.id, reason: voidReason });
+  };
+
+  const handleCreateSeries = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!shopId) return;
+
+    const start = parseInt(startSerial);
+    const end = parseInt(endSerial);
+    if (!atpNumber || isNaN(start) || isNaN(end)) {
+      setError("ATP number and serial range are required");
+      return;
+    }
+
+    createSeriesMutation.mutate({
+      shopId,
+      atpNumber,
+      prefix: prefix || undefined,
+      startSerial: start,
+      endSerial: end,
+    });
+  };
+
+  const openIssueForm = (order: {
+    id: string;
+    orderNumber: string;
+    customerName: string;
+    shippingAddress: string | null;
+  }) => {
+    setIssueTarget({ id: order.id, orderNumber: order.orderNumber });
+    setBuyerName(order.customerName);
+    setBuyerTin("");
+    setBuyerAddress(order.shippingAddress ?? "");
+  };
+
+  const handleIssue = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shopId || !issueTarget) return;
+    issueMutation.mutate({
+      shopId,
+      orderId: issueTarget.id,
+      buyerName: buyerName.trim() || undefined,
+      buyerTin: buyerTin.replace(/\D/g, "") || undefined,
+      buyerAddress: buyerAddress.trim() || undefined,
+    });
+  };
+
+  if (status === "loading" || isLoadingShops || !shopId || !mounted) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white">
+        <div className="text-gray-600">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!currentShop) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white p-6">
+        <div className="max-w-md rounded-lg border-2 border-gray-200 bg-gray-50 p-8 text-center">
+          <h1 className="mb-4 text-2xl font-bold text-gray-900">
+            Access Denied
+          </h1>
+          <p className="mb-6 text-gray-600">
+            You do not have access to this shop.
+          </p>
+          <button
+            onClick={() => router.push("/")}
+            className="w-full rounded-lg bg-emerald-500 px-6 py-3 font-semibold text-white hover:bg-emerald-600"
+          >
+            Go to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const activeSeries = series?.find((s) => s.isActive);
+  // order.receipt is the order's valid receipt; orders whose receipt was voided need a new one
+  const pendingOrders =
+    ordersData?.orders.filter(
+      (order) => !order.receipt && order.status.toUpperCase() !== "CANCELLED",
+    ) ?? [];
+  const reviewCount =
+    receiptsData?.receipts.filter((receipt) => receipt.status === "VOID_REVIEW").length ?? 0;
+
+  return (
+    <div className="flex min-h-screen bg-white">
+      <DashboardNav
+        shopId={shopId}
+        currentShop={currentShop}
+        userEmail={session?.user.email}
+        onSignOut={() => setShowLogoutModal(true)}
+      />
+
+      <main className="flex-1">
+        <div className="border-b-2 border-gray-200 bg-gray-50 p-4 lg:hidden">
+          <button
+            onClick={() => {
+              const nav = document.querySelector('[data-mobile-nav]');
+              if (nav) {
+                const event = new CustomEvent('toggleNav');
+                nav.dispatchEvent(event);
+              }
+            }}
+            className="rounded-lg p-2 text-gray-700 hover:bg-gray-100"
+            aria-label="Toggle menu"
+          >
+            <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6">
+          <div className="mx-auto max-w-4xl">
+            <h1 className="mb-6 text-3xl font-bold text-gray-900">Receipts</h1>
+
+            {!canManageReceipts ? (
+              <div className="rounded-lg border-2 border-gray-200 bg-gray-50 p-6 text-center">
+                <p className="text-gray-600">
+                  You must be a shop owner or accountant to manage receipts.
+                </p>
+              </div>
+            ) : (
+              <>
+                {error && (
+                  <div className="mb-6 rounded-lg border-2 border-red-200 bg-red-50 p-4 text-red-700">
+                    {error}
+                  </div>
+                )}
+
+                {reviewCount > 0 && (
+                  <div className="mb-6 rounded-lg border-2 border-amber-200 bg-amber-50 p-4 text-amber-800">
+                    {reviewCount} receipt{reviewCount === 1 ? "" : "s"} flagged for voiding review
+                    because the Shopee order was cancelled.
+                  </div>
+                )}
+
+                {/* ATP Serial Range */}
+                <div className="mb-8 rounded-lg border-2 border-gray-200 bg-gray-50 p-6">
+                  <h2 className="mb-4 text-xl font-semibold text-gray-900">
+                    ATP Serial Range
+                  </h2>
+                  {activeSeries ? (
+                    <p className="text-sm text-gray-700">
+                      ATP <span className="font-semibold">{activeSeries.atpNumber}</span>: serials{" "}
+                      {activeSeries.startSerial}–{activeSeries.endSerial}, next{" "}
+                      <span className="font-semibold">{activeSeries.nextSerial}</span>{" "}
+                      ({activeSeries.remaining} remaining)
+                    </p>
+                  ) : (
+                    <p className="text-sm text-gray-600">
+                      No active ATP serial range. Receipts cannot be issued until one is registered.
+                    </p>
+                  )}
+
+                  {isOwner && (
+                    <form onSubmit={handleCreateSeries} className="mt-4 grid gap-4 md:grid-cols-4">
+                      <input
+                        type="text"
+                        value={atpNumber}
+                        onChange={(e) => setAtpNumber(e.target.value)}
+                        placeholder="ATP number"
+                        className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                      />
+                      <input
+                        type="text"
+                        value={prefix}
+                        onChange={(e) => setPrefix(e.target.value)}
+                        placeholder="Prefix (optional)"
+                        className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                      />
+                      <input
+                        type="number"
+                        value={startSerial}
+                        onChange={(e) => setStartSerial(e.target.value)}
+                        placeholder="Start serial"
+                        className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                      />
+                      <input
+                        type="number"
+                        value={endSerial}
+                        onChange={(e) => setEndSerial(e.target.value)}
+                        placeholder="End serial"
+                        className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                      />
+                      <button
+                        type="submit"
+                        disabled={createSeriesMutation.isPending}
+                        className="rounded-lg bg-emerald-500 px-6 py-2 font-semibold text-white hover:bg-emerald-600 disabled:opacity-50 md:col-span-4"
+                      >
+                        {createSeriesMutation.isPending ? "Saving..." : "Register ATP Range"}
+                      </button>
+                    </form>
+                  )}
+                </div>
+
+                {/* EIS transmission */}
+                {eisStatus?.enabled && (
+                  <div className="mb-8 rounded-lg border-2 border-gray-200 bg-gray-50 p-6">
+                    <div className="mb-4 flex items-center justify-between">
+                      <h2 className="text-xl font-semibold text-gray-900">
+                        EIS Transmission
+                      </h2>
+                      <button
+                        onClick={() => transmitEisMutation.mutate({ shopId })}
+                        disabled={transmitEisMutation.isPending}
+                        className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-white hover:bg-emerald-600 disabled:opacity-50"
+                      >
+                        {transmitEisMutation.isPending ? "Queuing..." : "Transmit Now"}
+                      </button>
+                    </div>
+                    <p className="text-sm text-gray-700">
+                      {eisStatus.accepted} accepted · {eisStatus.pending + eisStatus.submitted} in progress ·{" "}
+                      <span className={eisStatus.failed > 0 ? "font-semibold text-red-700" : ""}>
+                        {eisStatus.failed} failed
+                      </span>{" "}
+                      ·{" "}
+                      <span className={eisStatus.rejected > 0 ? "font-semibold text-red-700" : ""}>
+                        {eisStatus.rejected} rejected
+                      </span>
+                    </p>
+                    {transmitEisMutation.data && (
+                      <p className="mt-2 text-sm text-gray-600">{transmitEisMutation.data.message}</p>
+                    )}
+                    {eisStatus.batches[0] && (
+                      <p className="mt-2 text-sm text-gray-600">
+                        Last batch {new Date(eisStatus.batches[0].submittedAt).toLocaleString()}:{" "}
+                        {eisStatus.batches[0].receiptCount} receipt(s), {eisStatus.batches[0].status.toLowerCase()}
+                        {eisStatus.batches[0].error && ` (${eisStatus.batches[0].error})`}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {/* Orders awaiting receipts */}
+                <div className="mb-8">
+                  <h2 className="mb-4 text-xl font-semibold text-gray-900">
+                    Orders Without Receipts
+                  </h2>
+                  {pendingOrders.length === 0 ? (
+                    <p className="text-sm text-gray-600">All synced orders have receipts.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {pendingOrders.map((order) => (
+                        <div
+                          key={order.id}
+                          className="flex items-center justify-between rounded-lg border-2 border-gray-200 bg-white p-4"
+                        >
+                          <div>
+                            <p className="font-medium text-gray-900">{order.orderNumber}</p>
+                            <p className="text-sm text-gray-600">
+                              {order.customerName} · ₱{order.totalAmount.toString()} ·{" "}
+                              {new Date(order.orderDate).toLocaleDateString()}
+                            </p>
+                          </div>
+                          <button
+                            onClick={() => openIssueForm(order)}
+                            disabled={issueMutation.isPending || !activeSeries}
+                            className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-white hover:bg-emerald-600 disabled:opacity-50"
+                          >
+                            Issue Receipt
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Issued receipts */}
+                <div>
+                  <h2 className="mb-4 text-xl font-semibold text-gray-900">
+                    Issued Receipts
+                  </h2>
+                  {!receiptsData || receiptsData.receipts.length === 0 ? (
+                    <p className="text-sm text-gray-600">No receipts issued yet.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {receiptsData.receipts.map((receipt) => (
+                        <div
+                          key={receipt.id}
+                          className="flex items-center justify-between rounded-lg border-2 border-gray-200 bg-gray-50 p-4"
+                        >
+                          <div>
+                            <p className="font-medium text-gray-900">
+                              {receipt.receiptNumber}
+                              {receipt.status === "VOIDED" && (
+                                <span className="ml-2 rounded bg-red-100 px-2 py-0.5 text-xs font-semibold text-red-700">
+                                  VOID
+                                </span>
+                              )}
+                              {receipt.status === "VOID_REVIEW" && (
+                                <span className="ml-2 rounded bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-800">
+                                  Needs review
+                                </span>
+                              )}
+                              {receipt.eisStatus && (
+                                <span
+                                  className={`ml-2 rounded px-2 py-0.5 text-xs font-semibold ${
+                                    receipt.eisStatus === "ACCEPTED"
+                                      ? "bg-emerald-100 text-emerald-700"
+                                      : receipt.eisStatus === "REJECTED" || receipt.eisStatus === "FAILED"
+                                        ? "bg-red-100 text-red-700"
+                                        : "bg-gray-200 text-gray-700"
+                                  }`}
+                                >
+                                  EIS {receipt.eisStatus.toLowerCase()}
+                                </span>
+                              )}
+                            </p>
+                            <p className="text-sm text-gray-600">
+                              Order {receipt.order.orderNumber} · {receipt.buyerName}
+                            </p>
+                            {receipt.status === "VOIDED" && receipt.voidReason && (
+                              <p className="text-sm text-red-700">Voided: {receipt.voidReason}</p>
+                            )}
+                            {receipt.eisError && (
+                              <p className="text-sm text-red-700">EIS: {receipt.eisError}</p>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-4">
+                            <div className="text-right text-sm text-gray-600">
+                              <p className="font-semibold text-gray-900">₱{receipt.totalAmount.toString()}</p>
+                              <p>{new Date(receipt.issuedAt).toLocaleString()}</p>
+                            </div>
+                            <button
+                              onClick={() => void handleDownload(receipt.id)}
+                              disabled={!receipt.pdfKey}
+                              className="rounded-lg border-2 border-gray-200 bg-white px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                            >
+                              {receipt.pdfKey ? "Download PDF" : "Rendering..."}
+                            </button>
+                            {receipt.status === "VOID_REVIEW" && (
+                              <button
+                                onClick={() => dismissReviewMutation.mutate({ shopId, receiptId: receipt.id })}
+                                disabled={dismissReviewMutation.isPending}
+                                className="rounded-lg border-2 border-gray-200 bg-white px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                              >
+                                Keep
+                              </button>
+                            )}
+                            {receipt.status !== "VOIDED" && (
+                              <button
+                                onClick={() => {
+                                  setVoidReason("");
+                                  setVoidTarget({ id: receipt.id, receiptNumber: receipt.receiptNumber });
+                                }}
+                                className="rounded-lg bg-red-500 px-4 py-2 text-sm font-semibold text-white hover:bg-red-600"
+                              >
+                                Void
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </main>
+
+      {/* Void Receipt Modal */}
+      {issueTarget && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+          <form
+            onSubmit={handleIssue}
+            className="w-full max-w-md rounded-lg border-2 border-gray-200 bg-white p-6 shadow-xl"
+          >
+            <h2 className="mb-4 text-xl font-bold text-gray-900">
+              Issue Receipt for {issueTarget.orderNumber}
+            </h2>
+            <div className="mb-6 space-y-3">
+              <input
+                type="text"
+                value={buyerName}
+                onChange={(e) => setBuyerName(e.target.value)}
+                placeholder="Buyer name"
+                className="w-full rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+              />
+              <input
+                type="text"
+                value={buyerTin}
+                onChange={(e) => setBuyerTin(e.target.value)}
+                placeholder="Buyer TIN (optional, 9 or 12 digits)"
+                className="w-full rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+              />
+              <textarea
+                value={buyerAddress}
+                onChange={(e) => setBuyerAddress(e.target.value)}
+                placeholder="Buyer address"
+                rows={2}
+                className="w-full rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+              />
+            </div>
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                disabled={issueMutation.isPending}
+                className="flex-1 rounded-lg bg-emerald-500 px-4 py-2 font-semibold text-white hover:bg-emerald-600 disabled:opacity-50"
+              >
+                {issueMutation.isPending ? "Issuing..." : "Issue Receipt"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setIssueTarget(null)}
+                className="flex-1 rounded-lg border-2 border-gray-200 bg-white px-4 py-2 font-semibold text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {voidTarget && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+          <form
+            onSubmit={handleVoid}
+            className="w-full max-w-md rounded-lg border-2 border-gray-200 bg-white p-6 shadow-xl"
+          >
+            <h2 className="mb-4 text-xl font-bold text-gray-900">
+              Void Receipt {voidTarget.receiptNumber}
+            </h2>
+            <p className="mb-4 text-gray-600">
+              The serial number stays used and the PDF will be stamped VOID. This cannot be undone.
+            </p>
+            <textarea
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+              placeholder="Reason for voiding (e.g. wrong buyer, order cancelled)"
+              rows={3}
+              required
+              className="mb-6 w-full rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+            />
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                disabled={voidMutation.isPending || !voidReason.trim()}
+                className="flex-1 rounded-lg bg-red-500 px-4 py-2 font-semibold text-white hover:bg-red-600 disabled:opacity-50"
+              >
+                {voidMutation.isPending ? "Voiding..." : "Void Receipt"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setVoidTarget(null)}
+                className="flex-1 rounded-lg border-2 border-gray-200 bg-white px-4 py-2 font-semibold text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Logout Confirmation Modal */}
+      {showLogoutModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+          <div className="w-full max-w-md rounded-lg border-2 border-gray-200 bg-white p-6 shadow-xl">
+            <h2 className="mb-4 text-xl font-bold text-gray-900">
+              Sign Out
+            </h2>
+            <p className="mb-6 text-gray-600">
+              Are you sure you want to sign out?
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  void signOut({ callbackUrl: "/auth/login?logout=success" });
+                }}
+                className="flex-1 rounded-lg bg-red-500 px-4 py-2 font-semibold text-white hover:bg-red-600"
+              >
+                Yes, Sign Out
+              </button>
+              <button
+                onClick={() => setShowLogoutModal(false)}
+                className="flex-1 rounded-lg border-2 border-gray-200 bg-white px-4 py-2 font-semibold text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
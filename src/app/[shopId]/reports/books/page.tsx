@@ -0,0 +1,296 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession, signOut } from "next-auth/react";
+import { useParams, useRouter } from "next/navigation";
+import { api } from "~/trpc/react";
+import DashboardNav from "~/components/DashboardNav";
+
+type BookType = "SALES_JOURNAL" | "PURCHASE_JOURNAL" | "CASH_RECEIPTS" | "CASH_DISBURSEMENTS";
+
+const BOOKS: { type: BookType; title: string; source: string }[] = [
+  { type: "SALES_JOURNAL", title: "Sales Journal", source: "Receipts issued, including voided serials" },
+  { type: "CASH_RECEIPTS", title: "Cash Receipts Book", source: "Collections on valid receipts" },
+  { type: "PURCHASE_JOURNAL", title: "Purchase Journal", source: "Purchases recorded as expenses" },
+  { type: "CASH_DISBURSEMENTS", title: "Cash Disbursements Book", source: "Payments for recorded expenses" },
+];
+
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+export default function BooksPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { data: session, status } = useSession({
+    required: true,
+    onUnauthenticated() {
+      router.push(`/auth/login?callbackUrl=${encodeURIComponent(typeof window !== 'undefined' ? window.location.pathname : '')}`);
+    },
+  });
+
+  const rawShopId = params.shopId;
+  const shopId = typeof rawShopId === 'string' ? rawShopId : Array.isArray(rawShopId) ? rawShopId[0] : undefined;
+
+  const now = new Date();
+  const [mounted, setMounted] = useState(false);
+  const [showLogoutModal, setShowLogoutModal] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [year, setYear] = useState(now.getFullYear());
+  const [month, setMonth] = useState(now.getMonth() + 1);
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const { data: userShops, isLoading: isLoadingShops } = api.shop.getUserShops.useQuery(
+    undefined,
+    { enabled: mounted }
+  );
+  const currentShop = userShops?.find((s) => s.shopId === shopId);
+  const canViewReports = currentShop?.role === "OWNER" || currentShop?.role === "ACCOUNTANT";
+
+  const { data: books, refetch: refetchBooks } = api.book.getBooks.useQuery(
+    { shopId: shopId!, year },
+    { enabled: mounted && !!shopId && canViewReports }
+  );
+
+  const utils = api.useUtils();
+
+  const generateMutation = api.book.generateBook.useMutation({
+    onSuccess: (result) => {
+      setError("");
+      setSuccess(result.message);
+      void refetchBooks();
+    },
+    onError: (err) => {
+      setSuccess("");
+      setError(err.message);
+    },
+  });
+
+  const handleDownload = async (bookId: string) => {
+    if (!shopId) return;
+    setError("");
+    try {
+      const { url } = await utils.book.getBookUrl.fetch({ shopId, bookId });
+      window.open(url, "_blank");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to download book");
+    }
+  };
+
+  const monthBooks = books?.filter((book) => book.month === month) ?? [];
+
+  if (status === "loading" || isLoadingShops || !shopId || !mounted) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white">
+        <div className="text-gray-600">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!currentShop) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white p-6">
+        <div className="max-w-md rounded-lg border-2 border-gray-200 bg-gray-50 p-8 text-center">
+          <h1 className="mb-4 text-2xl font-bold text-gray-900">
+            Access Denied
+          </h1>
+          <p className="mb-6 text-gray-600">
+            You do not have access to this shop.
+          </p>
+          <button
+            onClick={() => router.push("/")}
+            className="w-full rounded-lg bg-emerald-500 px-6 py-3 font-semibold text-white hover:bg-emerald-600"
+          >
+            Go to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen bg-white">
+      <DashboardNav
+        shopId={shopId}
+        currentShop={currentShop}
+        userEmail={session?.user.email}
+        onSignOut={() => setShowLogoutModal(true)}
+      />
+
+      <main className="flex-1">
+        <div className="border-b-2 border-gray-200 bg-gray-50 p-4 lg:hidden">
+          <button
+            onClick={() => {
+              const nav = document.querySelector('[data-mobile-nav]');
+              if (nav) {
+                const event = new CustomEvent('toggleNav');
+                nav.dispatchEvent(event);
+              }
+            }}
+            className="rounded-lg p-2 text-gray-700 hover:bg-gray-100"
+            aria-label="Toggle menu"
+          >
+            <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6">
+          <div className="mx-auto max-w-4xl">
+            <h1 className="mb-2 text-3xl font-bold text-gray-900">Books of Accounts</h1>
+            <p className="mb-6 text-sm text-gray-600">
+              Monthly loose-leaf books with your TIN on every page and numbered pages, ready to print and bind.
+            </p>
+
+            {!canViewReports ? (
+              <div className="rounded-lg border-2 border-gray-200 bg-gray-50 p-6 text-center">
+                <p className="text-gray-600">
+                  You must be a shop owner or accountant to view reports.
+                </p>
+              </div>
+            ) : (
+              <>
+                {error && (
+                  <div className="mb-6 rounded-lg border-2 border-red-200 bg-red-50 p-4 text-red-700">
+                    {error}
+                  </div>
+                )}
+
+                {success && (
+                  <div className="mb-6 rounded-lg border-2 border-emerald-200 bg-emerald-50 p-4 text-emerald-700">
+                    {success}
+                  </div>
+                )}
+
+                {/* Period selection */}
+                <div className="mb-8 flex flex-wrap items-end gap-4">
+                  <div>
+                    <label htmlFor="year" className="mb-2 block text-sm font-medium text-gray-700">
+                      Year
+                    </label>
+                    <select
+                      id="year"
+                      value={year}
+                      onChange={(e) => setYear(parseInt(e.target.value))}
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    >
+                      {[0, 1, 2, 3].map((offset) => {
+                        const option = now.getFullYear() - offset;
+                        return (
+                          <option key={option} value={option}>
+                            {option}
+                          </option>
+                        );
+                      })}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="month" className="mb-2 block text-sm font-medium text-gray-700">
+                      Month
+                    </label>
+                    <select
+                      id="month"
+                      value={month}
+                      onChange={(e) => setMonth(parseInt(e.target.value))}
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    >
+                      {MONTHS.map((name, index) => (
+                        <option key={name} value={index + 1}>
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  {BOOKS.map((entry) => {
+                    const generated = monthBooks.find((book) => book.type === entry.type);
+                    const isGenerating =
+                      generateMutation.isPending && generateMutation.variables?.type === entry.type;
+
+                    return (
+                      <div
+                        key={entry.type}
+                        className="flex items-center justify-between rounded-lg border-2 border-gray-200 bg-gray-50 p-4"
+                      >
+                        <div>
+                          <p className="font-medium text-gray-900">{entry.title}</p>
+                          <p className="text-sm text-gray-600">{entry.source}</p>
+                          {generated && (
+                            <p className="text-sm text-gray-600">
+                              {generated.entryCount} entr{generated.entryCount === 1 ? "y" : "ies"} ·{" "}
+                              {generated.pageCount} page{generated.pageCount === 1 ? "" : "s"} · generated{" "}
+                              {new Date(generated.generatedAt).toLocaleString()} by{" "}
+                              {generated.generatedBy.name ?? generated.generatedBy.email}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {generated && (
+                            <button
+                              onClick={() => void handleDownload(generated.id)}
+                              className="rounded-lg border-2 border-gray-200 bg-white px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50"
+                            >
+                              Download PDF
+                            </button>
+                          )}
+                          <button
+                            onClick={() => {
+                              setSuccess("");
+                              generateMutation.mutate({ shopId, type: entry.type, year, month });
+                            }}
+                            disabled={generateMutation.isPending}
+                            className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-white hover:bg-emerald-600 disabled:opacity-50"
+                          >
+                            {isGenerating ? "Generating..." : generated ? "Regenerate" : "Generate"}
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </main>
+
+      {/* Logout Confirmation Modal */}
+      {showLogoutModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+          <div className="w-full max-w-md rounded-lg border-2 border-gray-200 bg-white p-6 shadow-xl">
+            <h2 className="mb-4 text-xl font-bold text-gray-900">
+              Sign Out
+            </h2>
+            <p className="mb-6 text-gray-600">
+              Are you sure you want to sign out?
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  void signOut({ callbackUrl: "/auth/login?logout=success" });
+                }}
+                className="flex-1 rounded-lg bg-red-500 px-4 py-2 font-semibold text-white hover:bg-red-600"
+              >
+                Yes, Sign Out
+              </button>
+              <button
+                onClick={() => setShowLogoutModal(false)}
+                className="flex-1 rounded-lg border-2 border-gray-200 bg-white px-4 py-2 font-semibold text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession, signOut } from "next-auth/react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { api } from "~/trpc/react";
+import type { RouterOutputs } from "~/trpc/react";
+import DashboardNav from "~/components/DashboardNav";
+
+type SalesListExport = RouterOutputs["report"]["exportSalesList"];
+
+// Trigger a browser download for generated text content
+function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatPeso(amount: number): string {
+  return `₱${amount.toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export default function ReportsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { data: session, status } = useSession({
+    required: true,
+    onUnauthenticated() {
+      router.push(`/auth/login?callbackUrl=${encodeURIComponent(typeof window !== 'undefined' ? window.location.pathname : '')}`);
+    },
+  });
+
+  const rawShopId = params.shopId;
+  const shopId = typeof rawShopId === 'string' ? rawShopId : Array.isArray(rawShopId) ? rawShopId[0] : undefined;
+
+  const now = new Date();
+  const [mounted, setMounted] = useState(false);
+  const [showLogoutModal, setShowLogoutModal] = useState(false);
+  const [error, setError] = useState("");
+  const [year, setYear] = useState(now.getFullYear());
+  const [quarter, setQuarter] = useState(Math.floor(now.getMonth() / 3) + 1);
+  const [salesList, setSalesList] = useState<SalesListExport | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const { data: userShops, isLoading: isLoadingShops } = api.shop.getUserShops.useQuery(
+    undefined,
+    { enabled: mounted }
+  );
+  const currentShop = userShops?.find((s) => s.shopId === shopId);
+  const canViewReports = currentShop?.role === "OWNER" || currentShop?.role === "ACCOUNTANT";
+
+  const utils = api.useUtils();
+
+  const handleGenerateSalesList = async () => {
+    if (!shopId) return;
+    setError("");
+    setIsGenerating(true);
+    try {
+      setSalesList(await utils.report.exportSalesList.fetch({ shopId, year, quarter }));
+    } catch (err) {
+      setSalesList(null);
+      setError(err instanceof Error ? err.message : "Failed to generate the sales list");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  if (status === "loading" || isLoadingShops || !shopId || !mounted) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white">
+        <div className="text-gray-600">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!currentShop) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white p-6">
+        <div className="max-w-md rounded-lg border-2 border-gray-200 bg-gray-50 p-8 text-center">
+          <h1 className="mb-4 text-2xl font-bold text-gray-900">
+            Access Denied
+          </h1>
+          <p className="mb-6 text-gray-600">
+            You do not have access to this shop.
+          </p>
+          <button
+            onClick={() => router.push("/")}
+            className="w-full rounded-lg bg-emerald-500 px-6 py-3 font-semibold text-white hover:bg-emerald-600"
+          >
+            Go to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen bg-white">
+      <DashboardNav
+        shopId={shopId}
+        currentShop={currentShop}
+        userEmail={session?.user.email}
+        onSignOut={() => setShowLogoutModal(true)}
+      />
+
+      <main className="flex-1">
+        <div className="border-b-2 border-gray-200 bg-gray-50 p-4 lg:hidden">
+          <button
+            onClick={() => {
+              const nav = document.querySelector('[data-mobile-nav]');
+              if (nav) {
+                const event = new CustomEvent('toggleNav');
+                nav.dispatchEvent(event);
+              }
+            }}
+            className="rounded-lg p-2 text-gray-700 hover:bg-gray-100"
+            aria-label="Toggle menu"
+          >
+            <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6">
+          <div className="mx-auto max-w-4xl">
+            <h1 className="mb-6 text-3xl font-bold text-gray-900">Reports</h1>
+
+            {!canViewReports ? (
+              <div className="rounded-lg border-2 border-gray-200 bg-gray-50 p-6 text-center">
+                <p className="text-gray-600">
+                  You must be a shop owner or accountant to view reports.
+                </p>
+              </div>
+            ) : (
+              <>
+                {error && (
+                  <div className="mb-6 rounded-lg border-2 border-red-200 bg-red-50 p-4 text-red-700">
+                    {error}
+                  </div>
+                )}
+
+                {/* Period selection */}
+                <div className="mb-8 flex flex-wrap items-end gap-4">
+                  <div>
+                    <label htmlFor="year" className="mb-2 block text-sm font-medium text-gray-700">
+                      Year
+                    </label>
+                    <select
+                      id="year"
+                      value={year}
+                      onChange={(e) => {
+                        setYear(parseInt(e.target.value));
+                        setSalesList(null);
+                      }}
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    >
+                      {[0, 1, 2, 3].map((offset) => {
+                        const option = now.getFullYear() - offset;
+                        return (
+                          <option key={option} value={option}>
+                            {option}
+                          </option>
+                        );
+                      })}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="quarter" className="mb-2 block text-sm font-medium text-gray-700">
+                      Quarter
+                    </label>
+                    <select
+                      id="quarter"
+                      value={quarter}
+                      onChange={(e) => {
+                        setQuarter(parseInt(e.target.value));
+                        setSalesList(null);
+                      }}
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    >
+                      {[1, 2, 3, 4].map((option) => (
+                        <option key={option} value={option}>
+                          Q{option}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                {/* Quarterly return worksheet */}
+                <div className="mb-8 rounded-lg border-2 border-gray-200 bg-gray-50 p-6">
+                  <h2 className="mb-2 text-xl font-semibold text-gray-900">
+                    Quarterly Tax Return Worksheet
+                  </h2>
+                  <p className="mb-4 text-sm text-gray-600">
+                    Output tax, input tax from expenses and creditable withholding for BIR Form 2550Q or 2551Q.
+                  </p>
+                  <Link
+                    href={`/${shopId}/reports/tax-return`}
+                    className="inline-block rounded-lg bg-emerald-500 px-6 py-2 font-semibold text-white hover:bg-emerald-600"
+                  >
+                    Open Worksheet
+                  </Link>
+                </div>
+
+                {/* Books of accounts */}
+                <div className="mb-8 rounded-lg border-2 border-gray-200 bg-gray-50 p-6">
+                  <h2 className="mb-2 text-xl font-semibold text-gray-900">
+                    Books of Accounts
+                  </h2>
+                  <p className="mb-4 text-sm text-gray-600">
+                    Monthly loose-leaf Sales and Purchase Journals, Cash Receipts and Cash Disbursements books as printable PDFs.
+                  </p>
+                  <Link
+                    href={`/${shopId}/reports/books`}
+                    className="inline-block rounded-lg bg-emerald-500 px-6 py-2 font-semibold text-white hover:bg-emerald-600"
+                  >
+                    Open Books
+                  </Link>
+                </div>
+
+                {/* Marketplace withholding */}
+                <div className="mb-8 rounded-lg border-2 border-gray-200 bg-gray-50 p-6">
+                  <h2 className="mb-2 text-xl font-semibold text-gray-900">
+                    Marketplace Withholding
+                  </h2>
+                  <p className="mb-4 text-sm text-gray-600">
+                    Tax withheld on marketplace payouts, reconciled against the 2307 certificates received.
+                  </p>
+                  <Link
+                    href={`/${shopId}/reports/withholding`}
+                    className="inline-block rounded-lg bg-emerald-500 px-6 py-2 font-semibold text-white hover:bg-emerald-600"
+                  >
+                    Open Withholding
+                  </Link>
+                </div>
+
+                {/* Summary List of Sales */}
+                <div className="mb-8 rounded-lg border-2 border-gray-200 bg-gray-50 p-6">
+                  <h2 className="mb-2 text-xl font-semibold text-gray-900">
+                    Summary List of Sales
+                  </h2>
+                  <p className="mb-4 text-sm text-gray-600">
+                    RELIEF DAT file and sales journal CSV built from the receipts issued in the quarter.
+                  </p>
+                  <button
+                    onClick={() => void handleGenerateSalesList()}
+                    disabled={isGenerating}
+                    className="rounded-lg bg-emerald-500 px-6 py-2 font-semibold text-white hover:bg-emerald-600 disabled:opacity-50"
+                  >
+                    {isGenerating ? "Generating..." : "Generate"}
+                  </button>
+
+                  {salesList && (
+                    <div className="mt-6 space-y-4">
+                      <dl className="grid gap-4 text-sm md:grid-cols-4">
+                        <div>
+                          <dt className="text-gray-600">Taxable Sales</dt>
+                          <dd className="font-semibold text-gray-900">{formatPeso(salesList.totals.taxableSales)}</dd>
+                        </div>
+                        <div>
+                          <dt className="text-gray-600">Output VAT</dt>
+                          <dd className="font-semibold text-gray-900">{formatPeso(salesList.totals.outputTax)}</dd>
+                        </div>
+                        <div>
+                          <dt className="text-gray-600">Exempt Sales</dt>
+                          <dd className="font-semibold text-gray-900">{formatPeso(salesList.totals.exemptSales)}</dd>
+                        </div>
+                        <div>
+                          <dt className="text-gray-600">Zero-Rated Sales</dt>
+                          <dd className="font-semibold text-gray-900">{formatPeso(salesList.totals.zeroRatedSales)}</dd>
+                        </div>
+                      </dl>
+                      <p className="text-sm text-gray-600">
+                        {salesList.receiptCount} receipts, {salesList.buyerCount} buyers in the DAT file
+                      </p>
+
+                      {salesList.issues.length > 0 && (
+                        <div className="rounded-lg border-2 border-amber-200 bg-amber-50 p-4">
+                          <p className="mb-2 font-semibold text-amber-800">
+                            {salesList.issues.length} validation issue{salesList.issues.length === 1 ? "" : "s"}
+                          </p>
+                          <ul className="space-y-1 text-sm text-amber-800">
+                            {salesList.issues.map((issue, index) => (
+                              <li key={index}>
+                                {issue.receiptNumber ? `${issue.receiptNumber}: ` : ""}
+                                {issue.message}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      <div className="flex gap-3">
+                        <button
+                          onClick={() => downloadFile(salesList.datFileName, salesList.dat, "text/plain")}
+                          className="rounded-lg border-2 border-gray-200 bg-white px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50"
+                        >
+                          Download DAT
+                        </button>
+                        <button
+                          onClick={() => downloadFile(salesList.csvFileName, salesList.csv, "text/csv")}
+                          className="rounded-lg border-2 border-gray-200 bg-white px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50"
+                        >
+                          Download CSV
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </main>
+
+      {/* Logout Confirmation Modal */}
+      {showLogoutModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+          <div className="w-full max-w-md rounded-lg border-2 border-gray-200 bg-white p-6 shadow-xl">
+            <h2 className="mb-4 text-xl font-bold text-gray-900">
+              Sign Out
+            </h2>
+            <p className="mb-6 text-gray-600">
+              Are you sure you want to sign out?
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  void signOut({ callbackUrl: "/auth/login?logout=success" });
+                }}
+                className="flex-1 rounded-lg bg-red-500 px-4 py-2 font-semibold text-white hover:bg-red-600"
+              >
+                Yes, Sign Out
+              </button>
+              <button
+                onClick={() => setShowLogoutModal(false)}
+                className="flex-1 rounded-lg border-2 border-gray-200 bg-white px-4 py-2 font-semibold text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,531 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession, signOut } from "next-auth/react";
+import { useParams, useRouter } from "next/navigation";
+import { api } from "~/trpc/react";
+import DashboardNav from "~/components/DashboardNav";
+
+type WithholdingKind = "INCOME_TAX" | "VAT" | "PERCENTAGE_TAX";
+type Platform = "SHOPEE" | "LAZADA" | "TIKTOK";
+
+const WITHHOLDING_KIND_LABELS: Record<WithholdingKind, string> = {
+  INCOME_TAX: "Income tax",
+  VAT: "VAT",
+  PERCENTAGE_TAX: "Percentage tax",
+};
+
+function formatPeso(amount: number): string {
+  const formatted = Math.abs(amount).toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return amount < 0 ? `(₱${formatted})` : `₱${formatted}`;
+}
+
+export default function TaxReturnPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { data: session, status } = useSession({
+    required: true,
+    onUnauthenticated() {
+      router.push(`/auth/login?callbackUrl=${encodeURIComponent(typeof window !== 'undefined' ? window.location.pathname : '')}`);
+    },
+  });
+
+  const rawShopId = params.shopId;
+  const shopId = typeof rawShopId === 'string' ? rawShopId : Array.isArray(rawShopId) ? rawShopId[0] : undefined;
+
+  const now = new Date();
+  const [mounted, setMounted] = useState(false);
+  const [showLogoutModal, setShowLogoutModal] = useState(false);
+  const [error, setError] = useState("");
+  const [year, setYear] = useState(now.getFullYear());
+  const [quarter, setQuarter] = useState(Math.floor(now.getMonth() / 3) + 1);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [kind, setKind] = useState<WithholdingKind>("INCOME_TAX");
+  const [agentName, setAgentName] = useState("");
+  const [agentTin, setAgentTin] = useState("");
+  const [atcCode, setAtcCode] = useState("");
+  const [paymentDate, setPaymentDate] = useState("");
+  const [incomeAmount, setIncomeAmount] = useState("");
+  const [taxWithheld, setTaxWithheld] = useState("");
+  const [platform, setPlatform] = useState<Platform | "">("");
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const { data: userShops, isLoading: isLoadingShops } = api.shop.getUserShops.useQuery(
+    undefined,
+    { enabled: mounted }
+  );
+  const currentShop = userShops?.find((s) => s.shopId === shopId);
+  const canViewReports = currentShop?.role === "OWNER" || currentShop?.role === "ACCOUNTANT";
+
+  const { data: worksheet, refetch: refetchWorksheet } = api.report.getTaxReturnWorksheet.useQuery(
+    { shopId: shopId!, year, quarter },
+    { enabled: mounted && !!shopId && canViewReports }
+  );
+
+  const { data: withholdings, refetch: refetchWithholdings } = api.withholding.getWithholdings.useQuery(
+    { shopId: shopId!, year, quarter },
+    { enabled: mounted && !!shopId && canViewReports }
+  );
+
+  const utils = api.useUtils();
+
+  const handleDownloadPdf = async () => {
+    if (!shopId) return;
+    setError("");
+    setIsDownloading(true);
+    try {
+      const { fileName, pdfBase64 } = await utils.report.getTaxReturnPdf.fetch({ shopId, year, quarter });
+      const bytes = Uint8Array.from(atob(pdfBase64), (char) => char.charCodeAt(0));
+      const url = URL.createObjectURL(new Blob([bytes], { type: "application/pdf" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to download worksheet");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const onWithholdingsChanged = () => {
+    setError("");
+    void refetchWithholdings();
+    void refetchWorksheet();
+  };
+
+  const createWithholdingMutation = api.withholding.createWithholding.useMutation({
+    onSuccess: () => {
+      setAgentName("");
+      setAgentTin("");
+      setAtcCode("");
+      setPaymentDate("");
+      setIncomeAmount("");
+      setTaxWithheld("");
+      setPlatform("");
+      onWithholdingsChanged();
+    },
+    onError: (err) => {
+      setError(err.message);
+    },
+  });
+
+  const attachCertificateMutation = api.withholding.attachCertificate.useMutation({
+    onSuccess: onWithholdingsChanged,
+    onError: (err) => {
+      setError(err.message);
+    },
+  });
+
+  const handleAttachCertificate = async (withholdingId: string, file: File) => {
+    if (!shopId) return;
+    setError("");
+
+    // Send the PDF as base64 (tRPC payloads are JSON)
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let binary = "";
+    for (const byte of bytes) {
+      binary += String.fromCharCode(byte);
+    }
+
+    attachCertificateMutation.mutate({
+      shopId,
+      withholdingId,
+      fileName: file.name,
+      contentBase64: btoa(binary),
+    });
+  };
+
+  const handleViewCertificate = async (withholdingId: string) => {
+    if (!shopId) return;
+    setError("");
+    try {
+      const { url } = await utils.withholding.getCertificateUrl.fetch({ shopId, withholdingId });
+      window.open(url, "_blank");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to open certificate");
+    }
+  };
+
+  const deleteWithholdingMutation = api.withholding.deleteWithholding.useMutation({
+    onSuccess: onWithholdingsChanged,
+    onError: (err) => {
+      setError(err.message);
+    },
+  });
+
+  const handleAddWithholding = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!shopId) return;
+
+    const income = parseFloat(incomeAmount);
+    const withheld = parseFloat(taxWithheld);
+    if (!agentName || !agentTin || !paymentDate || isNaN(income) || isNaN(withheld)) {
+      setError("Agent, TIN, payment date and amounts are required");
+      return;
+    }
+
+    createWithholdingMutation.mutate({
+      shopId,
+      kind,
+      agentName,
+      agentTin: agentTin.replace(/\D/g, ""),
+      atcCode: atcCode || undefined,
+      paymentDate: new Date(paymentDate),
+      incomeAmount: income,
+      taxWithheld: withheld,
+      platform: platform || undefined,
+    });
+  };
+
+  if (status === "loading" || isLoadingShops || !shopId || !mounted) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white">
+        <div className="text-gray-600">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!currentShop) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white p-6">
+        <div className="max-w-md rounded-lg border-2 border-gray-200 bg-gray-50 p-8 text-center">
+          <h1 className="mb-4 text-2xl font-bold text-gray-900">
+            Access Denied
+          </h1>
+          <p className="mb-6 text-gray-600">
+            You do not have access to this shop.
+          </p>
+          <button
+            onClick={() => router.push("/")}
+            className="w-full rounded-lg bg-emerald-500 px-6 py-3 font-semibold text-white hover:bg-emerald-600"
+          >
+            Go to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen bg-white">
+      <DashboardNav
+        shopId={shopId}
+        currentShop={currentShop}
+        userEmail={session?.user.email}
+        onSignOut={() => setShowLogoutModal(true)}
+      />
+
+      <main className="flex-1">
+        <div className="border-b-2 border-gray-200 bg-gray-50 p-4 lg:hidden">
+          <button
+            onClick={() => {
+              const nav = document.querySelector('[data-mobile-nav]');
+              if (nav) {
+                const event = new CustomEvent('toggleNav');
+                nav.dispatchEvent(event);
+              }
+            }}
+            className="rounded-lg p-2 text-gray-700 hover:bg-gray-100"
+            aria-label="Toggle menu"
+          >
+            <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6">
+          <div className="mx-auto max-w-4xl">
+            <h1 className="mb-2 text-3xl font-bold text-gray-900">Quarterly Tax Return Worksheet</h1>
+            <p className="mb-6 text-sm text-gray-600">
+              Figures for BIR Form 2550Q (VAT) or 2551Q (percentage tax), ready to transcribe into eBIRForms.
+            </p>
+
+            {!canViewReports ? (
+              <div className="rounded-lg border-2 border-gray-200 bg-gray-50 p-6 text-center">
+                <p className="text-gray-600">
+                  You must be a shop owner or accountant to view reports.
+                </p>
+              </div>
+            ) : (
+              <>
+                {error && (
+                  <div className="mb-6 rounded-lg border-2 border-red-200 bg-red-50 p-4 text-red-700">
+                    {error}
+                  </div>
+                )}
+
+                {/* Period selection */}
+                <div className="mb-8 flex flex-wrap items-end gap-4">
+                  <div>
+                    <label htmlFor="year" className="mb-2 block text-sm font-medium text-gray-700">
+                      Year
+                    </label>
+                    <select
+                      id="year"
+                      value={year}
+                      onChange={(e) => setYear(parseInt(e.target.value))}
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    >
+                      {[0, 1, 2, 3].map((offset) => {
+                        const option = now.getFullYear() - offset;
+                        return (
+                          <option key={option} value={option}>
+                            {option}
+                          </option>
+                        );
+                      })}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="quarter" className="mb-2 block text-sm font-medium text-gray-700">
+                      Quarter
+                    </label>
+                    <select
+                      id="quarter"
+                      value={quarter}
+                      onChange={(e) => setQuarter(parseInt(e.target.value))}
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    >
+                      {[1, 2, 3, 4].map((option) => (
+                        <option key={option} value={option}>
+                          Q{option}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <button
+                    onClick={() => void handleDownloadPdf()}
+                    disabled={isDownloading || !worksheet}
+                    className="rounded-lg bg-emerald-500 px-6 py-2 font-semibold text-white hover:bg-emerald-600 disabled:opacity-50"
+                  >
+                    {isDownloading ? "Preparing..." : "Download PDF"}
+                  </button>
+                </div>
+
+                {/* Worksheet */}
+                {!worksheet ? (
+                  <p className="mb-8 text-sm text-gray-600">Loading worksheet...</p>
+                ) : (
+                  <div className="mb-8 space-y-6">
+                    <p className="text-sm text-gray-700">
+                      <span className="font-semibold">
+                        {worksheet.form ? `BIR Form ${worksheet.form}` : "No quarterly business tax return"}
+                      </span>{" "}
+                      · {worksheet.periodLabel} · {worksheet.receiptCount} receipts,{" "}
+                      {worksheet.unreceiptedOrderCount} orders without receipt
+                    </p>
+
+                    {worksheet.sections.map((section) => (
+                      <div key={section.title} className="rounded-lg border-2 border-gray-200 bg-gray-50 p-6">
+                        <h2 className="mb-4 text-lg font-semibold text-gray-900">{section.title}</h2>
+                        <dl className="space-y-2 text-sm">
+                          {section.lines.map((line) => (
+                            <div
+                              key={line.label}
+                              className={`flex justify-between ${line.emphasis ? "font-semibold text-gray-900" : "text-gray-700"}`}
+                            >
+                              <dt>{line.label}</dt>
+                              <dd>{formatPeso(line.amount)}</dd>
+                            </div>
+                          ))}
+                        </dl>
+                      </div>
+                    ))}
+
+                    {worksheet.notes.length > 0 && (
+                      <div className="rounded-lg border-2 border-amber-200 bg-amber-50 p-4">
+                        <ul className="space-y-1 text-sm text-amber-800">
+                          {worksheet.notes.map((note) => (
+                            <li key={note}>{note}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Creditable withholding certificates */}
+                <div className="rounded-lg border-2 border-gray-200 bg-white p-6">
+                  <h2 className="mb-4 text-xl font-semibold text-gray-900">
+                    Certificates Received (BIR Form 2307)
+                  </h2>
+
+                  {!withholdings || withholdings.length === 0 ? (
+                    <p className="mb-4 text-sm text-gray-600">No withholding recorded for this quarter.</p>
+                  ) : (
+                    <div className="mb-6 space-y-2">
+                      {withholdings.map((withholding) => (
+                        <div
+                          key={withholding.id}
+                          className="flex items-center justify-between rounded-lg border-2 border-gray-200 bg-gray-50 p-4"
+                        >
+                          <div>
+                            <p className="font-medium text-gray-900">{withholding.agentName}</p>
+                            <p className="text-sm text-gray-600">
+                              {WITHHOLDING_KIND_LABELS[withholding.kind]}
+                              {withholding.platform ? ` · ${withholding.platform}` : ""}
+                              {withholding.atcCode ? ` · ${withholding.atcCode}` : ""} ·{" "}
+                              {new Date(withholding.paymentDate).toLocaleDateString()}
+                            </p>
+                            {withholding.certificateKey ? (
+                              <button
+                                onClick={() => void handleViewCertificate(withholding.id)}
+                                className="text-sm font-medium text-emerald-600 hover:text-emerald-700"
+                              >
+                                {withholding.certificateFileName ?? "View 2307"}
+                              </button>
+                            ) : (
+                              <label className="cursor-pointer text-sm font-medium text-emerald-600 hover:text-emerald-700">
+                                Attach 2307 PDF
+                                <input
+                                  type="file"
+                                  accept="application/pdf"
+                                  className="hidden"
+                                  disabled={attachCertificateMutation.isPending}
+                                  onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    if (file) void handleAttachCertificate(withholding.id, file);
+                                    e.target.value = "";
+                                  }}
+                                />
+                              </label>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-4">
+                            <div className="text-right text-sm text-gray-600">
+                              <p className="font-semibold text-gray-900">{formatPeso(Number(withholding.taxWithheld))}</p>
+                              <p>on {formatPeso(Number(withholding.incomeAmount))}</p>
+                            </div>
+                            <button
+                              onClick={() => deleteWithholdingMutation.mutate({ shopId, withholdingId: withholding.id })}
+                              disabled={deleteWithholdingMutation.isPending}
+                              className="rounded-lg border-2 border-gray-200 bg-white px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <form onSubmit={handleAddWithholding} className="grid gap-4 md:grid-cols-2">
+                    <select
+                      value={kind}
+                      onChange={(e) => setKind(e.target.value as WithholdingKind)}
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    >
+                      {(Object.keys(WITHHOLDING_KIND_LABELS) as WithholdingKind[]).map((option) => (
+                        <option key={option} value={option}>
+                          {WITHHOLDING_KIND_LABELS[option]}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={platform}
+                      onChange={(e) => setPlatform(e.target.value as Platform | "")}
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    >
+                      <option value="">Not a marketplace</option>
+                      <option value="SHOPEE">Shopee</option>
+                      <option value="LAZADA">Lazada</option>
+                      <option value="TIKTOK">TikTok Shop</option>
+                    </select>
+                    <input
+                      type="text"
+                      value={agentName}
+                      onChange={(e) => setAgentName(e.target.value)}
+                      placeholder="Withholding agent"
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    />
+                    <input
+                      type="text"
+                      value={agentTin}
+                      onChange={(e) => setAgentTin(e.target.value)}
+                      placeholder="Agent TIN"
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    />
+                    <input
+                      type="text"
+                      value={atcCode}
+                      onChange={(e) => setAtcCode(e.target.value)}
+                      placeholder="ATC (optional)"
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    />
+                    <input
+                      type="date"
+                      value={paymentDate}
+                      onChange={(e) => setPaymentDate(e.target.value)}
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={incomeAmount}
+                      onChange={(e) => setIncomeAmount(e.target.value)}
+                      placeholder="Income payment"
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={taxWithheld}
+                      onChange={(e) => setTaxWithheld(e.target.value)}
+                      placeholder="Tax withheld"
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    />
+                    <button
+                      type="submit"
+                      disabled={createWithholdingMutation.isPending}
+                      className="rounded-lg bg-emerald-500 px-6 py-2 font-semibold text-white hover:bg-emerald-600 disabled:opacity-50"
+                    >
+                      {createWithholdingMutation.isPending ? "Saving..." : "Add Certificate"}
+                    </button>
+                  </form>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </main>
+
+      {/* Logout Confirmation Modal */}
+      {showLogoutModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+          <div className="w-full max-w-md rounded-lg border-2 border-gray-200 bg-white p-6 shadow-xl">
+            <h2 className="mb-4 text-xl font-bold text-gray-900">
+              Sign Out
+            </h2>
+            <p className="mb-6 text-gray-600">
+              Are you sure you want to sign out?
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  void signOut({ callbackUrl: "/auth/login?logout=success" });
+                }}
+                className="flex-1 rounded-lg bg-red-500 px-4 py-2 font-semibold text-white hover:bg-red-600"
+              >
+                Yes, Sign Out
+              </button>
+              <button
+                onClick={() => setShowLogoutModal(false)}
+                className="flex-1 rounded-lg border-2 border-gray-200 bg-white px-4 py-2 font-semibold text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,405 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession, signOut } from "next-auth/react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { api } from "~/trpc/react";
+import DashboardNav from "~/components/DashboardNav";
+
+type Platform = "SHOPEE" | "LAZADA" | "TIKTOK";
+
+function formatPeso(amount: number): string {
+  return `₱${amount.toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export default function MarketplaceWithholdingPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { data: session, status } = useSession({
+    required: true,
+    onUnauthenticated() {
+      router.push(`/auth/login?callbackUrl=${encodeURIComponent(typeof window !== 'undefined' ? window.location.pathname : '')}`);
+    },
+  });
+
+  const rawShopId = params.shopId;
+  const shopId = typeof rawShopId === 'string' ? rawShopId : Array.isArray(rawShopId) ? rawShopId[0] : undefined;
+
+  const now = new Date();
+  const [mounted, setMounted] = useState(false);
+  const [showLogoutModal, setShowLogoutModal] = useState(false);
+  const [error, setError] = useState("");
+  const [year, setYear] = useState(now.getFullYear());
+  const [quarter, setQuarter] = useState(Math.floor(now.getMonth() / 3) + 1);
+  const [platform, setPlatform] = useState<Platform>("SHOPEE");
+  const [payoutReference, setPayoutReference] = useState("");
+  const [payoutDate, setPayoutDate] = useState("");
+  const [grossRemittance, setGrossRemittance] = useState("");
+  const [taxWithheld, setTaxWithheld] = useState("");
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const { data: userShops, isLoading: isLoadingShops } = api.shop.getUserShops.useQuery(
+    undefined,
+    { enabled: mounted }
+  );
+  const currentShop = userShops?.find((s) => s.shopId === shopId);
+  const canViewReports = currentShop?.role === "OWNER" || currentShop?.role === "ACCOUNTANT";
+
+  const { data: payouts, refetch: refetchPayouts } = api.withholding.getPayouts.useQuery(
+    { shopId: shopId!, year, quarter },
+    { enabled: mounted && !!shopId && canViewReports }
+  );
+
+  const { data: reconciliation, refetch: refetchReconciliation } = api.withholding.getReconciliation.useQuery(
+    { shopId: shopId!, year, quarter },
+    { enabled: mounted && !!shopId && canViewReports }
+  );
+
+  const onPayoutsChanged = () => {
+    setError("");
+    void refetchPayouts();
+    void refetchReconciliation();
+  };
+
+  const recordPayoutMutation = api.withholding.recordPayout.useMutation({
+    onSuccess: () => {
+      setPayoutReference("");
+      setPayoutDate("");
+      setGrossRemittance("");
+      setTaxWithheld("");
+      onPayoutsChanged();
+    },
+    onError: (err) => {
+      setError(err.message);
+    },
+  });
+
+  const deletePayoutMutation = api.withholding.deletePayout.useMutation({
+    onSuccess: onPayoutsChanged,
+    onError: (err) => {
+      setError(err.message);
+    },
+  });
+
+  const handleRecordPayout = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!shopId) return;
+
+    const gross = parseFloat(grossRemittance);
+    if (!payoutReference || !payoutDate || isNaN(gross)) {
+      setError("Payout reference, date and gross remittance are required");
+      return;
+    }
+
+    recordPayoutMutation.mutate({
+      shopId,
+      platform,
+      payoutReference,
+      payoutDate: new Date(payoutDate),
+      grossRemittance: gross,
+      // Leave blank to compute 1% of half the gross remittance
+      taxWithheld: taxWithheld ? parseFloat(taxWithheld) : undefined,
+    });
+  };
+
+  if (status === "loading" || isLoadingShops || !shopId || !mounted) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white">
+        <div className="text-gray-600">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!currentShop) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white p-6">
+        <div className="max-w-md rounded-lg border-2 border-gray-200 bg-gray-50 p-8 text-center">
+          <h1 className="mb-4 text-2xl font-bold text-gray-900">
+            Access Denied
+          </h1>
+          <p className="mb-6 text-gray-600">
+            You do not have access to this shop.
+          </p>
+          <button
+            onClick={() => router.push("/")}
+            className="w-full rounded-lg bg-emerald-500 px-6 py-3 font-semibold text-white hover:bg-emerald-600"
+          >
+            Go to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen bg-white">
+      <DashboardNav
+        shopId={shopId}
+        currentShop={currentShop}
+        userEmail={session?.user.email}
+        onSignOut={() => setShowLogoutModal(true)}
+      />
+
+      <main className="flex-1">
+        <div className="border-b-2 border-gray-200 bg-gray-50 p-4 lg:hidden">
+          <button
+            onClick={() => {
+              const nav = document.querySelector('[data-mobile-nav]');
+              if (nav) {
+                const event = new CustomEvent('toggleNav');
+                nav.dispatchEvent(event);
+              }
+            }}
+            className="rounded-lg p-2 text-gray-700 hover:bg-gray-100"
+            aria-label="Toggle menu"
+          >
+            <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6">
+          <div className="mx-auto max-w-4xl">
+            <h1 className="mb-2 text-3xl font-bold text-gray-900">Marketplace Withholding</h1>
+            <p className="mb-6 text-sm text-gray-600">
+              Income tax withheld by marketplaces on payouts (1% of one-half of the gross remittance, RR 16-2023),
+              reconciled against the BIR Form 2307 certificates recorded on the{" "}
+              <Link href={`/${shopId}/reports/tax-return`} className="font-medium text-emerald-600 hover:text-emerald-700">
+                quarterly worksheet
+              </Link>
+              .
+            </p>
+
+            {!canViewReports ? (
+              <div className="rounded-lg border-2 border-gray-200 bg-gray-50 p-6 text-center">
+                <p className="text-gray-600">
+                  You must be a shop owner or accountant to view reports.
+                </p>
+              </div>
+            ) : (
+              <>
+                {error && (
+                  <div className="mb-6 rounded-lg border-2 border-red-200 bg-red-50 p-4 text-red-700">
+                    {error}
+                  </div>
+                )}
+
+                {/* Period selection */}
+                <div className="mb-8 flex flex-wrap items-end gap-4">
+                  <div>
+                    <label htmlFor="year" className="mb-2 block text-sm font-medium text-gray-700">
+                      Year
+                    </label>
+                    <select
+                      id="year"
+                      value={year}
+                      onChange={(e) => setYear(parseInt(e.target.value))}
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    >
+                      {[0, 1, 2, 3].map((offset) => {
+                        const option = now.getFullYear() - offset;
+                        return (
+                          <option key={option} value={option}>
+                            {option}
+                          </option>
+                        );
+                      })}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="quarter" className="mb-2 block text-sm font-medium text-gray-700">
+                      Quarter
+                    </label>
+                    <select
+                      id="quarter"
+                      value={quarter}
+                      onChange={(e) => setQuarter(parseInt(e.target.value))}
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    >
+                      {[1, 2, 3, 4].map((option) => (
+                        <option key={option} value={option}>
+                          Q{option}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                {/* Reconciliation */}
+                <div className="mb-8 rounded-lg border-2 border-gray-200 bg-gray-50 p-6">
+                  <h2 className="mb-4 text-xl font-semibold text-gray-900">Reconciliation</h2>
+                  {!reconciliation || reconciliation.length === 0 ? (
+                    <p className="text-sm text-gray-600">No marketplace payouts or certificates for this quarter.</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {reconciliation.map((row) => (
+                        <div key={row.platform} className="rounded-lg border-2 border-gray-200 bg-white p-4">
+                          <p className="mb-2 font-semibold text-gray-900">{row.platform}</p>
+                          <dl className="grid gap-2 text-sm md:grid-cols-4">
+                            <div>
+                              <dt className="text-gray-600">Payouts</dt>
+                              <dd className="font-medium text-gray-900">
+                                {row.payoutCount} · {formatPeso(row.grossRemittance)}
+                              </dd>
+                            </div>
+                            <div>
+                              <dt className="text-gray-600">Withheld per payouts</dt>
+                              <dd className="font-medium text-gray-900">{formatPeso(row.withheldPerPayouts)}</dd>
+                            </div>
+                            <div>
+                              <dt className="text-gray-600">Certified (2307)</dt>
+                              <dd className="font-medium text-gray-900">{formatPeso(row.certified)}</dd>
+                            </div>
+                            <div>
+                              <dt className="text-gray-600">Not yet certified</dt>
+                              <dd className={`font-semibold ${row.uncertified > 0 ? "text-red-700" : "text-emerald-700"}`}>
+                                {formatPeso(row.uncertified)}
+                              </dd>
+                            </div>
+                          </dl>
+                          {row.certificatesMissingPdf > 0 && (
+                            <p className="mt-2 text-sm text-amber-800">
+                              {row.certificatesMissingPdf} certificate entr{row.certificatesMissingPdf === 1 ? "y has" : "ies have"} no PDF attached.
+                            </p>
+                          )}
+                          {row.mismatchedPayouts.length > 0 && (
+                            <p className="mt-2 text-sm text-amber-800">
+                              Withholding differs from 1% of half the gross remittance on: {row.mismatchedPayouts.join(", ")}
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Payouts */}
+                <div className="rounded-lg border-2 border-gray-200 bg-white p-6">
+                  <h2 className="mb-4 text-xl font-semibold text-gray-900">Payouts</h2>
+
+                  {!payouts || payouts.length === 0 ? (
+                    <p className="mb-4 text-sm text-gray-600">No payouts recorded for this quarter.</p>
+                  ) : (
+                    <div className="mb-6 space-y-2">
+                      {payouts.map((payout) => (
+                        <div
+                          key={payout.id}
+                          className="flex items-center justify-between rounded-lg border-2 border-gray-200 bg-gray-50 p-4"
+                        >
+                          <div>
+                            <p className="font-medium text-gray-900">{payout.payoutReference}</p>
+                            <p className="text-sm text-gray-600">
+                              {payout.platform} · {new Date(payout.payoutDate).toLocaleDateString()}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-4">
+                            <div className="text-right text-sm text-gray-600">
+                              <p className="font-semibold text-gray-900">{formatPeso(Number(payout.taxWithheld))} withheld</p>
+                              <p>on {formatPeso(Number(payout.grossRemittance))}</p>
+                            </div>
+                            <button
+                              onClick={() => deletePayoutMutation.mutate({ shopId, payoutId: payout.id })}
+                              disabled={deletePayoutMutation.isPending}
+                              className="rounded-lg border-2 border-gray-200 bg-white px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <form onSubmit={handleRecordPayout} className="grid gap-4 md:grid-cols-2">
+                    <select
+                      value={platform}
+                      onChange={(e) => setPlatform(e.target.value as Platform)}
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    >
+                      <option value="SHOPEE">Shopee</option>
+                      <option value="LAZADA">Lazada</option>
+                      <option value="TIKTOK">TikTok Shop</option>
+                    </select>
+                    <input
+                      type="text"
+                      value={payoutReference}
+                      onChange={(e) => setPayoutReference(e.target.value)}
+                      placeholder="Payout reference"
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    />
+                    <input
+                      type="date"
+                      value={payoutDate}
+                      onChange={(e) => setPayoutDate(e.target.value)}
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={grossRemittance}
+                      onChange={(e) => setGrossRemittance(e.target.value)}
+                      placeholder="Gross remittance"
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={taxWithheld}
+                      onChange={(e) => setTaxWithheld(e.target.value)}
+                      placeholder="Tax withheld (blank to compute)"
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    />
+                    <button
+                      type="submit"
+                      disabled={recordPayoutMutation.isPending}
+                      className="rounded-lg bg-emerald-500 px-6 py-2 font-semibold text-white hover:bg-emerald-600 disabled:opacity-50"
+                    >
+                      {recordPayoutMutation.isPending ? "Saving..." : "Record Payout"}
+                    </button>
+                  </form>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </main>
+
+      {/* Logout Confirmation Modal */}
+      {showLogoutModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+          <div className="w-full max-w-md rounded-lg border-2 border-gray-200 bg-white p-6 shadow-xl">
+            <h2 className="mb-4 text-xl font-bold text-gray-900">
+              Sign Out
+            </h2>
+            <p className="mb-6 text-gray-600">
+              Are you sure you want to sign out?
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  void signOut({ callbackUrl: "/auth/login?logout=success" });
+                }}
+                className="flex-1 rounded-lg bg-red-500 px-4 py-2 font-semibold text-white hover:bg-red-600"
+              >
+                Yes, Sign Out
+              </button>
+              <button
+                onClick={() => setShowLogoutModal(false)}
+                className="flex-1 rounded-lg border-2 border-gray-200 bg-white px-4 py-2 font-semibold text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import { useSession } from "next-auth/react";
 import { useParams, useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
 import { api } from "~/trpc/react";
 import DashboardNav from "~/components/DashboardNav";
 
@@ -23,6 +24,8 @@ export default function IntegrationsPage() {
   const [mounted, setMounted] = useState(false);
   const [showLogoutModal, setShowLogoutModal] = useState(false);
   const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [backfillFrom, setBackfillFrom] = useState("");
+  const [backfillTo, setBackfillTo] = useState("");
 
   useEffect(() => {
     setMounted(true);
@@ -73,9 +76,10 @@ export default function IntegrationsPage() {
     { shopId: shopId! },
     {
       enabled: mounted && !!shopId && !!isOwner && shopeeIntegration?.connected,
-      refetchInterval: (data) => {
+      refetchInterval: (query) => {
         // Poll every 3 seconds while import is active
-        if (data?.status === "active" || data?.status === "waiting") {
+        const state = query.state.data?.status;
+        if (state === "active" || state === "waiting") {
           return 3000;
         }
         return false;
@@ -83,6 +87,71 @@ export default function IntegrationsPage() {
     }
   );
 
+  // Latest reconciliation report
+  const { data: reconciliationRuns } = api.shopee.getReconciliationRuns.useQuery(
+    { shopId: shopId!, limit: 1 },
+    { enabled: mounted && !!shopId && !!isOwner && shopeeIntegration?.connected }
+  );
+  const lastReconciliation = reconciliationRuns?.[0];
+
+  // Fetch order backfill status (poll every 3 seconds while importing)
+  const { data: backfillStatus, refetch: refetchBackfill } = api.shopee.getOrderBackfillStatus.useQuery(
+    { shopId: shopId! },
+    {
+      enabled: mounted && !!shopId && !!isOwner && shopeeIntegration?.connected,
+      refetchInterval: (query) => {
+        const state = query.state.data?.status;
+        return state === "active" || state === "waiting" || state === "delayed" ? 3000 : false;
+      },
+    }
+  );
+  const isBackfilling = ["active", "waiting", "delayed"].includes(backfillStatus?.status ?? "");
+
+  const backfillMutation = api.shopee.startOrderBackfill.useMutation({
+    onSuccess: (result) => {
+      setNotification({ type: 'success', message: result.message });
+      void refetchBackfill();
+    },
+    onError: (err) => {
+      setNotification({ type: 'error', message: err.message });
+    },
+  });
+
+  // Local stock changes waiting for, or rejected by, Shopee
+  const { data: stockSync, refetch: refetchStockSync } = api.inventory.getStockSyncStatus.useQuery(
+    { shopId: shopId! },
+    {
+      enabled: mounted && !!shopId && !!isOwner && shopeeIntegration?.connected,
+      refetchInterval: (query) => ((query.state.data?.pending ?? 0) > 0 ? 5000 : false),
+    }
+  );
+
+  const retryStockSyncMutation = api.inventory.retryStockSync.useMutation({
+    onSuccess: (result) => {
+      setNotification({ type: 'success', message: result.message });
+      void refetchStockSync();
+    },
+    onError: (err) => {
+      setNotification({ type: 'error', message: err.message });
+    },
+  });
+
+  const handleStartBackfill = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shopId) return;
+
+    if (!backfillFrom || !backfillTo) {
+      setNotification({ type: 'error', message: 'Choose the date range to import orders from.' });
+      return;
+    }
+
+    // The end date is inclusive
+    const to = new Date(backfillTo);
+    to.setDate(to.getDate() + 1);
+
+    backfillMutation.mutate({ shopId, from: new Date(backfillFrom), to });
+  };
+
   const handleConnectShopee = () => {
     if (!shopId) return;
     // Redirect to OAuth authorization endpoint
@@ -238,6 +307,9 @@ export default function IntegrationsPage() {
                         )}
                       </div>
                     )}
+                    {isConnected && shopeeIntegration?.status === 'UNHEALTHY' && shopeeIntegration.statusReason && (
+                      <p className="mt-2 text-sm text-red-700">{shopeeIntegration.statusReason}</p>
+                    )}
                   </div>
                 </div>
                 <div>
@@ -292,6 +364,129 @@ export default function IntegrationsPage() {
                   <p className="text-sm text-gray-600">
                     Last synced: {new Date(shopeeIntegration.lastSyncAt).toLocaleString()}
                   </p>
+                  {lastReconciliation && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      Last reconciliation {new Date(lastReconciliation.startedAt).toLocaleString()}:{" "}
+                      {lastReconciliation.status === "FAILED"
+                        ? `failed (${lastReconciliation.error})`
+                        : lastReconciliation.status === "RUNNING"
+                          ? "running"
+                          : `${lastReconciliation.ordersChecked} orders and ${lastReconciliation.productsChecked} products checked, ${lastReconciliation.ordersFixed + lastReconciliation.productsFixed} repaired`}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Historical order import */}
+              {isConnected && (
+                <div className="mt-4 border-t-2 border-gray-100 pt-4">
+                  <p className="text-sm font-medium text-gray-900">Import past orders</p>
+                  <p className="mb-3 text-xs text-gray-600">
+                    Fetch orders placed before you connected, or while webhooks were not arriving.
+                  </p>
+                  <form onSubmit={handleStartBackfill} className="flex flex-wrap items-end gap-3">
+                    <input
+                      type="date"
+                      value={backfillFrom}
+                      onChange={(e) => setBackfillFrom(e.target.value)}
+                      aria-label="From"
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-sm text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    />
+                    <input
+                      type="date"
+                      value={backfillTo}
+                      onChange={(e) => setBackfillTo(e.target.value)}
+                      aria-label="To"
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-sm text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    />
+                    <button
+                      type="submit"
+                      disabled={isBackfilling || backfillMutation.isPending}
+                      className="rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-white hover:bg-emerald-600 disabled:opacity-50"
+                    >
+                      {isBackfilling ? "Importing..." : "Import Orders"}
+                    </button>
+                  </form>
+
+                  {backfillStatus?.progress && (
+                    <div className="mt-3">
+                      <div className="flex justify-between text-xs text-gray-600">
+                        <span>
+                          {backfillStatus.progress.ordersImported} orders imported
+                          {backfillStatus.from && backfillStatus.to &&
+                            ` (${new Date(backfillStatus.from).toLocaleDateString()} – ${new Date(backfillStatus.to).toLocaleDateString()})`}
+                        </span>
+                        <span>
+                          {backfillStatus.status === "completed"
+                            ? "Done"
+                            : `${backfillStatus.progress.windowsDone} of ${backfillStatus.progress.windowsTotal} periods`}
+                        </span>
+                      </div>
+                      <div className="mt-1 h-2 w-full rounded-full bg-gray-200">
+                        <div
+                          className="h-2 rounded-full bg-emerald-500 transition-all duration-300"
+                          style={{ width: `${backfillStatus.progress.windowsTotal ? (backfillStatus.progress.windowsDone / backfillStatus.progress.windowsTotal) * 100 : 0}%` }}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {backfillStatus?.status === "failed" && (
+                    <p className="mt-2 text-sm text-red-700">
+                      Order import failed: {backfillStatus.failedReason}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Stock pushed to Shopee */}
+              {isConnected && stockSync && (stockSync.pending > 0 || stockSync.failed.length > 0) && (
+                <div className="mt-4 border-t-2 border-gray-100 pt-4">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-gray-900">Stock sync</p>
+                    <button
+                      onClick={() => shopId && retryStockSyncMutation.mutate({ shopId })}
+                      disabled={retryStockSyncMutation.isPending}
+                      className="rounded-lg border-2 border-gray-200 bg-white px-3 py-1 text-xs font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      {retryStockSyncMutation.isPending
+                        ? "Retrying..."
+                        : stockSync.failed.length > 0
+                          ? "Retry Failed"
+                          : "Send Now"}
+                    </button>
+                  </div>
+                  {stockSync.pending > 0 && (
+                    <p className="mt-1 text-xs text-gray-600">
+                      {stockSync.pending} stock change{stockSync.pending === 1 ? "" : "s"} waiting to be sent to Shopee
+                    </p>
+                  )}
+                  {stockSync.failed.length > 0 && (
+                    <ul className="mt-2 divide-y divide-gray-100 rounded-lg border-2 border-red-200 bg-red-50">
+                      {stockSync.failed.map((item) => (
+                        <li key={item.variantId ?? item.productId} className="px-3 py-2 text-sm">
+                          <div className="flex justify-between gap-3">
+                            <span className="font-medium text-gray-900">{item.name}</span>
+                            <span className="whitespace-nowrap text-gray-600">
+                              {item.sku ? `${item.sku} · ` : ""}{item.stock} in stock
+                            </span>
+                          </div>
+                          <p className="text-xs text-red-700">{item.error ?? "Shopee rejected the update"}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {isConnected && (
+                <div className="mt-4 border-t-2 border-gray-100 pt-4">
+                  <Link
+                    href={`/${shopId}/settings/integrations/webhooks`}
+                    className="text-sm font-medium text-emerald-600 hover:text-emerald-700"
+                  >
+                    View failed webhook deliveries →
+                  </Link>
                 </div>
               )}
             </div>
@@ -0,0 +1,395 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession, signOut } from "next-auth/react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { api } from "~/trpc/react";
+import DashboardNav from "~/components/DashboardNav";
+
+type DeadLetterStatus = "FAILED" | "PENDING" | "UNHANDLED";
+
+const STATUS_STYLES: Record<string, string> = {
+  FAILED: "bg-red-100 text-red-700",
+  PENDING: "bg-amber-100 text-amber-800",
+  UNHANDLED: "bg-gray-200 text-gray-700",
+  PROCESSING: "bg-blue-100 text-blue-700",
+  COMPLETED: "bg-emerald-100 text-emerald-700",
+  STALE: "bg-gray-200 text-gray-700",
+};
+
+export default function WebhookDeadLetterPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { data: session, status } = useSession({
+    required: true,
+    onUnauthenticated() {
+      router.push(`/auth/login?callbackUrl=${encodeURIComponent(typeof window !== 'undefined' ? window.location.pathname : '')}`);
+    },
+  });
+
+  const rawShopId = params.shopId;
+  const shopId = typeof rawShopId === 'string' ? rawShopId : Array.isArray(rawShopId) ? rawShopId[0] : undefined;
+
+  const [mounted, setMounted] = useState(false);
+  const [showLogoutModal, setShowLogoutModal] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const [statusFilter, setStatusFilter] = useState<DeadLetterStatus | "">("");
+  const [eventTypeFilter, setEventTypeFilter] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [inspectedId, setInspectedId] = useState<string | null>(null);
+  const [replaySince, setReplaySince] = useState("");
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const { data: userShops, isLoading: isLoadingShops } = api.shop.getUserShops.useQuery(
+    undefined,
+    { enabled: mounted }
+  );
+  const currentShop = userShops?.find((s) => s.shopId === shopId);
+  const isOwner = currentShop?.role === "OWNER";
+
+  const { data: webhookPage, refetch: refetchWebhooks } = api.webhook.getWebhooks.useQuery(
+    {
+      shopId: shopId!,
+      status: statusFilter || undefined,
+      eventType: eventTypeFilter || undefined,
+    },
+    { enabled: mounted && !!shopId && isOwner }
+  );
+  const webhooks = webhookPage?.webhooks ?? [];
+
+  const { data: eventTypes, refetch: refetchEventTypes } = api.webhook.getEventTypes.useQuery(
+    { shopId: shopId! },
+    { enabled: mounted && !!shopId && isOwner }
+  );
+
+  const { data: inspected } = api.webhook.getWebhook.useQuery(
+    { shopId: shopId!, webhookId: inspectedId! },
+    { enabled: mounted && !!shopId && isOwner && !!inspectedId }
+  );
+
+  const utils = api.useUtils();
+
+  const onReplayed = (message: string) => {
+    setError("");
+    setNotice(message);
+    setSelectedIds([]);
+    void refetchWebhooks();
+    void refetchEventTypes();
+    void utils.webhook.getWebhook.invalidate();
+  };
+
+  const replayMutation = api.webhook.replayWebhooks.useMutation({
+    onSuccess: (result) => onReplayed(result.message),
+    onError: (err) => {
+      setError(err.message);
+    },
+  });
+
+  const replaySinceMutation = api.webhook.replayFailedSince.useMutation({
+    onSuccess: (result) => onReplayed(result.message),
+    onError: (err) => {
+      setError(err.message);
+    },
+  });
+
+  const toggleSelected = (webhookId: string) => {
+    setSelectedIds((ids) =>
+      ids.includes(webhookId) ? ids.filter((id) => id !== webhookId) : [...ids, webhookId]
+    );
+  };
+
+  const handleReplaySince = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setNotice("");
+
+    if (!shopId) return;
+
+    if (!replaySince) {
+      setError("Choose the time to replay failed webhooks from");
+      return;
+    }
+
+    replaySinceMutation.mutate({
+      shopId,
+      since: new Date(replaySince),
+      eventType: eventTypeFilter || undefined,
+    });
+  };
+
+  if (status === "loading" || isLoadingShops || !shopId || !mounted) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white">
+        <div className="text-gray-600">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!currentShop) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white p-6">
+        <div className="max-w-md rounded-lg border-2 border-gray-200 bg-gray-50 p-8 text-center">
+          <h1 className="mb-4 text-2xl font-bold text-gray-900">
+            Access Denied
+          </h1>
+          <p className="mb-6 text-gray-600">
+            You do not have access to this shop.
+          </p>
+          <button
+            onClick={() => router.push("/")}
+            className="w-full rounded-lg bg-emerald-500 px-6 py-3 font-semibold text-white hover:bg-emerald-600"
+          >
+            Go to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen bg-white">
+      <DashboardNav
+        shopId={shopId}
+        currentShop={currentShop}
+        userEmail={session?.user.email}
+        onSignOut={() => setShowLogoutModal(true)}
+      />
+
+      <main className="flex-1">
+        <div className="border-b-2 border-gray-200 bg-gray-50 p-4 lg:hidden">
+          <button
+            onClick={() => {
+              const nav = document.querySelector('[data-mobile-nav]');
+              if (nav) {
+                const event = new CustomEvent('toggleNav');
+                nav.dispatchEvent(event);
+              }
+            }}
+            className="rounded-lg p-2 text-gray-700 hover:bg-gray-100"
+            aria-label="Toggle menu"
+          >
+            <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6">
+          <div className="mx-auto max-w-4xl">
+            <h1 className="mb-2 text-3xl font-bold text-gray-900">Webhook Deliveries</h1>
+            <p className="mb-6 text-sm text-gray-600">
+              Marketplace webhooks that failed, are still waiting, or have no handler. Inspect the payload and
+              replay them once the cause is fixed.{" "}
+              <Link href={`/${shopId}/settings/integrations`} className="font-medium text-emerald-600 hover:text-emerald-700">
+                Back to integrations
+              </Link>
+            </p>
+
+            {!isOwner ? (
+              <div className="rounded-lg border-2 border-gray-200 bg-gray-50 p-6 text-center">
+                <p className="text-gray-600">
+                  You must be a shop owner to manage webhook deliveries.
+                </p>
+              </div>
+            ) : (
+              <>
+                {error && (
+                  <div className="mb-6 rounded-lg border-2 border-red-200 bg-red-50 p-4 text-red-700">
+                    {error}
+                  </div>
+                )}
+
+                {notice && (
+                  <div className="mb-6 rounded-lg border-2 border-emerald-200 bg-emerald-50 p-4 text-emerald-700">
+                    {notice}
+                  </div>
+                )}
+
+                {/* Filters */}
+                <div className="mb-6 flex flex-wrap items-end gap-4">
+                  <div>
+                    <label htmlFor="status" className="mb-2 block text-sm font-medium text-gray-700">
+                      Status
+                    </label>
+                    <select
+                      id="status"
+                      value={statusFilter}
+                      onChange={(e) => setStatusFilter(e.target.value as DeadLetterStatus | "")}
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    >
+                      <option value="">All</option>
+                      <option value="FAILED">Failed</option>
+                      <option value="PENDING">Pending</option>
+                      <option value="UNHANDLED">Unhandled</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="eventType" className="mb-2 block text-sm font-medium text-gray-700">
+                      Event type
+                    </label>
+                    <select
+                      id="eventType"
+                      value={eventTypeFilter}
+                      onChange={(e) => setEventTypeFilter(e.target.value)}
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    >
+                      <option value="">All</option>
+                      {eventTypes?.map((type) => (
+                        <option key={type.eventType} value={type.eventType}>
+                          {type.eventType} ({type.count})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <button
+                    onClick={() => {
+                      if (!shopId) return;
+                      setNotice("");
+                      replayMutation.mutate({ shopId, webhookIds: selectedIds });
+                    }}
+                    disabled={selectedIds.length === 0 || replayMutation.isPending}
+                    className="rounded-lg bg-emerald-500 px-6 py-2 font-semibold text-white hover:bg-emerald-600 disabled:opacity-50"
+                  >
+                    {replayMutation.isPending ? "Replaying..." : `Replay Selected (${selectedIds.length})`}
+                  </button>
+                </div>
+
+                {/* Bulk replay */}
+                <form
+                  onSubmit={handleReplaySince}
+                  className="mb-8 flex flex-wrap items-end gap-4 rounded-lg border-2 border-gray-200 bg-gray-50 p-4"
+                >
+                  <div>
+                    <label htmlFor="replaySince" className="mb-2 block text-sm font-medium text-gray-700">
+                      Replay all failed{eventTypeFilter ? ` ${eventTypeFilter}` : ""} webhooks since
+                    </label>
+                    <input
+                      id="replaySince"
+                      type="datetime-local"
+                      value={replaySince}
+                      onChange={(e) => setReplaySince(e.target.value)}
+                      className="rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                    />
+                  </div>
+                  <button
+                    type="submit"
+                    disabled={replaySinceMutation.isPending}
+                    className="rounded-lg border-2 border-gray-200 bg-white px-6 py-2 font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {replaySinceMutation.isPending ? "Replaying..." : "Replay All"}
+                  </button>
+                </form>
+
+                {/* Dead letters */}
+                {webhooks.length === 0 ? (
+                  <div className="rounded-lg border-2 border-gray-200 bg-gray-50 p-6 text-center">
+                    <p className="text-gray-600">No failed or pending webhooks.</p>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {webhooks.map((webhook) => (
+                      <div key={webhook.id} className="rounded-lg border-2 border-gray-200 bg-white p-4">
+                        <div className="flex items-start gap-4">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.includes(webhook.id)}
+                            onChange={() => toggleSelected(webhook.id)}
+                            className="mt-1 h-4 w-4 accent-emerald-500"
+                            aria-label={`Select webhook ${webhook.id}`}
+                          />
+                          <div className="flex-1">
+                            <div className="flex flex-wrap items-center gap-2">
+                              <p className="font-medium text-gray-900">{webhook.eventType}</p>
+                              <span className={`rounded-full px-3 py-1 text-xs font-semibold ${STATUS_STYLES[webhook.status]}`}>
+                                {webhook.status}
+                              </span>
+                            </div>
+                            <p className="text-sm text-gray-600">
+                              Received {new Date(webhook.createdAt).toLocaleString()}
+                              {webhook.retryCount > 0 && ` · ${webhook.retryCount} failed attempt${webhook.retryCount === 1 ? "" : "s"}`}
+                              {webhook._count.replays > 0 && ` · replayed ${webhook._count.replays}×`}
+                              {webhook.duplicateCount > 0 && ` · ${webhook.duplicateCount} duplicate deliver${webhook.duplicateCount === 1 ? "y" : "ies"}`}
+                            </p>
+                            {webhook.errorMessage && (
+                              <p className="mt-1 text-sm text-red-700">{webhook.errorMessage}</p>
+                            )}
+                          </div>
+                          <button
+                            onClick={() => setInspectedId(inspectedId === webhook.id ? null : webhook.id)}
+                            className="rounded-lg border-2 border-gray-200 bg-white px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50"
+                          >
+                            {inspectedId === webhook.id ? "Hide" : "Inspect"}
+                          </button>
+                        </div>
+
+                        {inspectedId === webhook.id && inspected?.id === webhook.id && (
+                          <div className="mt-4 border-t-2 border-gray-100 pt-4">
+                            <p className="mb-2 text-sm font-medium text-gray-700">Raw payload</p>
+                            <pre className="max-h-96 overflow-auto rounded-lg bg-gray-900 p-4 text-xs text-gray-100">
+                              {JSON.stringify(inspected.rawPayload, null, 2)}
+                            </pre>
+
+                            <p className="mb-2 mt-4 text-sm font-medium text-gray-700">Replay history</p>
+                            {inspected.replays.length === 0 ? (
+                              <p className="text-sm text-gray-600">Never replayed.</p>
+                            ) : (
+                              <ul className="space-y-1 text-sm text-gray-600">
+                                {inspected.replays.map((replay) => (
+                                  <li key={replay.id}>
+                                    {new Date(replay.createdAt).toLocaleString()} by{" "}
+                                    {replay.triggeredBy.name ?? replay.triggeredBy.email}
+                                    {replay.bulk && " (bulk)"} · was {replay.previousStatus}
+                                    {replay.previousError && `: ${replay.previousError}`}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </main>
+
+      {/* Logout Confirmation Modal */}
+      {showLogoutModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+          <div className="w-full max-w-md rounded-lg border-2 border-gray-200 bg-white p-6 shadow-xl">
+            <h2 className="mb-4 text-xl font-bold text-gray-900">
+              Sign Out
+            </h2>
+            <p className="mb-6 text-gray-600">
+              Are you sure you want to sign out?
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  void signOut({ callbackUrl: "/auth/login?logout=success" });
+                }}
+                className="flex-1 rounded-lg bg-red-500 px-4 py-2 font-semibold text-white hover:bg-red-600"
+              >
+                Yes, Sign Out
+              </button>
+              <button
+                onClick={() => setShowLogoutModal(false)}
+                className="flex-1 rounded-lg border-2 border-gray-200 bg-white px-4 py-2 font-semibold text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,351 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession, signOut } from "next-auth/react";
+import { useParams, useRouter } from "next/navigation";
+import { api } from "~/trpc/react";
+import DashboardNav from "~/components/DashboardNav";
+
+type TaxType = "VAT" | "PERCENTAGE_TAX" | "EIGHT_PERCENT";
+
+const TAX_TYPE_LABELS: Record<TaxType, string> = {
+  VAT: "VAT-registered (12% VAT, BIR Form 2550Q)",
+  PERCENTAGE_TAX: "Non-VAT, 3% percentage tax (BIR Form 2551Q)",
+  EIGHT_PERCENT: "Non-VAT, 8% income tax option",
+};
+
+export default function TaxSettingsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { data: session, status } = useSession({
+    required: true,
+    onUnauthenticated() {
+      router.push(`/auth/login?callbackUrl=${encodeURIComponent(typeof window !== 'undefined' ? window.location.pathname : '')}`);
+    },
+  });
+
+  const rawShopId = params.shopId;
+  const shopId = typeof rawShopId === 'string' ? rawShopId : Array.isArray(rawShopId) ? rawShopId[0] : undefined;
+
+  const [mounted, setMounted] = useState(false);
+  const [showLogoutModal, setShowLogoutModal] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const [taxType, setTaxType] = useState<TaxType>("VAT");
+  const [rdoCode, setRdoCode] = useState("");
+  const [registrationDate, setRegistrationDate] = useState("");
+  const [isVatExempt, setIsVatExempt] = useState(false);
+  const [isZeroRated, setIsZeroRated] = useState(false);
+  const [eisEnabled, setEisEnabled] = useState(false);
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const { data: userShops, isLoading: isLoadingShops } = api.shop.getUserShops.useQuery(
+    undefined,
+    { enabled: mounted }
+  );
+  const currentShop = userShops?.find((s) => s.shopId === shopId);
+  const isOwner = currentShop?.role === "OWNER";
+  const canViewTaxProfile = isOwner || currentShop?.role === "ACCOUNTANT";
+
+  const { data: taxProfile, refetch: refetchTaxProfile } = api.shop.getTaxProfile.useQuery(
+    { shopId: shopId! },
+    { enabled: mounted && !!shopId && canViewTaxProfile }
+  );
+
+  // Populate the form once the saved profile loads
+  useEffect(() => {
+    if (!taxProfile) return;
+    setTaxType(taxProfile.taxType);
+    setRdoCode(taxProfile.rdoCode ?? "");
+    setRegistrationDate(
+      taxProfile.registrationDate
+        ? new Date(taxProfile.registrationDate).toISOString().slice(0, 10)
+        : ""
+    );
+    setIsVatExempt(taxProfile.isVatExempt);
+    setIsZeroRated(taxProfile.isZeroRated);
+    setEisEnabled(taxProfile.eisEnabled);
+  }, [taxProfile]);
+
+  const updateMutation = api.shop.updateTaxProfile.useMutation({
+    onSuccess: (data) => {
+      setError("");
+      setSuccess(data.message);
+      void refetchTaxProfile();
+    },
+    onError: (err) => {
+      setSuccess("");
+      setError(err.message);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSuccess("");
+
+    if (!shopId) return;
+
+    const isVat = taxType === "VAT";
+    updateMutation.mutate({
+      shopId,
+      taxType,
+      rdoCode: rdoCode || undefined,
+      registrationDate: registrationDate ? new Date(registrationDate) : undefined,
+      isVatExempt: isVat && isVatExempt,
+      isZeroRated: isVat && isZeroRated,
+      eisEnabled,
+    });
+  };
+
+  if (status === "loading" || isLoadingShops || !shopId || !mounted) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white">
+        <div className="text-gray-600">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!currentShop) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white p-6">
+        <div className="max-w-md rounded-lg border-2 border-gray-200 bg-gray-50 p-8 text-center">
+          <h1 className="mb-4 text-2xl font-bold text-gray-900">
+            Access Denied
+          </h1>
+          <p className="mb-6 text-gray-600">
+            You do not have access to this shop.
+          </p>
+          <button
+            onClick={() => router.push("/")}
+            className="w-full rounded-lg bg-emerald-500 px-6 py-3 font-semibold text-white hover:bg-emerald-600"
+          >
+            Go to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen bg-white">
+      <DashboardNav
+        shopId={shopId}
+        currentShop={currentShop}
+        userEmail={session?.user.email}
+        onSignOut={() => setShowLogoutModal(true)}
+      />
+
+      <main className="flex-1">
+        <div className="border-b-2 border-gray-200 bg-gray-50 p-4 lg:hidden">
+          <button
+            onClick={() => {
+              const nav = document.querySelector('[data-mobile-nav]');
+              if (nav) {
+                const event = new CustomEvent('toggleNav');
+                nav.dispatchEvent(event);
+              }
+            }}
+            className="rounded-lg p-2 text-gray-700 hover:bg-gray-100"
+            aria-label="Toggle menu"
+          >
+            <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6">
+          <div className="mx-auto max-w-4xl">
+            <h1 className="mb-6 text-3xl font-bold text-gray-900">Tax Profile</h1>
+
+            {!canViewTaxProfile ? (
+              <div className="rounded-lg border-2 border-gray-200 bg-gray-50 p-6 text-center">
+                <p className="text-gray-600">
+                  You must be a shop owner or accountant to view the tax profile.
+                </p>
+              </div>
+            ) : (
+              <>
+                {error && (
+                  <div className="mb-6 rounded-lg border-2 border-red-200 bg-red-50 p-4 text-red-700">
+                    {error}
+                  </div>
+                )}
+                {success && (
+                  <div className="mb-6 rounded-lg border-2 border-emerald-200 bg-emerald-50 p-4 text-emerald-700">
+                    {success}
+                  </div>
+                )}
+
+                {/* Registration details from shop setup */}
+                <div className="mb-8 rounded-lg border-2 border-gray-200 bg-gray-50 p-6">
+                  <h2 className="mb-4 text-xl font-semibold text-gray-900">
+                    BIR Registration
+                  </h2>
+                  <dl className="grid gap-4 text-sm md:grid-cols-2">
+                    <div>
+                      <dt className="text-gray-600">TIN</dt>
+                      <dd className="font-medium text-gray-900">{taxProfile?.tinNumber}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-gray-600">Business Address</dt>
+                      <dd className="font-medium text-gray-900">{taxProfile?.businessAddress}</dd>
+                    </div>
+                    <div className="md:col-span-2">
+                      <dt className="text-gray-600">ATP Numbers</dt>
+                      <dd className="font-medium text-gray-900">
+                        {taxProfile?.atpNumbers.length
+                          ? taxProfile.atpNumbers
+                              .map((atp) => (atp.isActive ? `${atp.atpNumber} (active)` : atp.atpNumber))
+                              .join(", ")
+                          : "None registered. Add your ATP under Receipts."}
+                      </dd>
+                    </div>
+                  </dl>
+                </div>
+
+                {/* Tax profile form */}
+                <form onSubmit={handleSubmit} className="space-y-6 rounded-lg border-2 border-gray-200 bg-white p-6">
+                  <fieldset disabled={!isOwner} className="space-y-6">
+                    <div>
+                      <label className="mb-2 block text-sm font-medium text-gray-700">
+                        Tax Type
+                      </label>
+                      <select
+                        value={taxType}
+                        onChange={(e) => setTaxType(e.target.value as TaxType)}
+                        className="w-full rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                      >
+                        {(Object.keys(TAX_TYPE_LABELS) as TaxType[]).map((type) => (
+                          <option key={type} value={type}>
+                            {TAX_TYPE_LABELS[type]}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div>
+                        <label htmlFor="rdoCode" className="mb-2 block text-sm font-medium text-gray-700">
+                          RDO Code
+                        </label>
+                        <input
+                          id="rdoCode"
+                          type="text"
+                          value={rdoCode}
+                          onChange={(e) => setRdoCode(e.target.value)}
+                          placeholder="e.g. 050"
+                          className="w-full rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="registrationDate" className="mb-2 block text-sm font-medium text-gray-700">
+                          Registration Date
+                        </label>
+                        <input
+                          id="registrationDate"
+                          type="date"
+                          value={registrationDate}
+                          onChange={(e) => setRegistrationDate(e.target.value)}
+                          className="w-full rounded-lg border-2 border-gray-200 px-4 py-2 text-gray-900 focus:border-emerald-500 focus:outline-none"
+                        />
+                      </div>
+                    </div>
+
+                    {taxType === "VAT" && (
+                      <div className="space-y-2">
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={isVatExempt}
+                            onChange={(e) => {
+                              setIsVatExempt(e.target.checked);
+                              if (e.target.checked) setIsZeroRated(false);
+                            }}
+                          />
+                          Sales are VAT-exempt
+                        </label>
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={isZeroRated}
+                            onChange={(e) => {
+                              setIsZeroRated(e.target.checked);
+                              if (e.target.checked) setIsVatExempt(false);
+                            }}
+                          />
+                          Sales are zero-rated
+                        </label>
+                      </div>
+                    )}
+
+                    <label className="flex items-start gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={eisEnabled}
+                        onChange={(e) => setEisEnabled(e.target.checked)}
+                        className="mt-1"
+                      />
+                      <span>
+                        Transmit receipts to BIR&apos;s Electronic Invoicing System (EIS)
+                        <span className="block text-gray-500">
+                          Required for large taxpayers. Applies to receipts issued after enabling.
+                        </span>
+                      </span>
+                    </label>
+                  </fieldset>
+
+                  {isOwner ? (
+                    <button
+                      type="submit"
+                      disabled={updateMutation.isPending}
+                      className="w-full rounded-lg bg-emerald-500 px-6 py-2 font-semibold text-white hover:bg-emerald-600 disabled:opacity-50"
+                    >
+                      {updateMutation.isPending ? "Saving..." : "Save Tax Profile"}
+                    </button>
+                  ) : (
+                    <p className="text-sm text-gray-600">Only the shop owner can change the tax profile.</p>
+                  )}
+                </form>
+              </>
+            )}
+          </div>
+        </div>
+      </main>
+
+      {/* Logout Confirmation Modal */}
+      {showLogoutModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+          <div className="w-full max-w-md rounded-lg border-2 border-gray-200 bg-white p-6 shadow-xl">
+            <h2 className="mb-4 text-xl font-bold text-gray-900">
+              Sign Out
+            </h2>
+            <p className="mb-6 text-gray-600">
+              Are you sure you want to sign out?
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  void signOut({ callbackUrl: "/auth/login?logout=success" });
+                }}
+                className="flex-1 rounded-lg bg-red-500 px-4 py-2 font-semibold text-white hover:bg-red-600"
+              >
+                Yes, Sign Out
+              </button>
+              <button
+                onClick={() => setShowLogoutModal(false)}
+                className="flex-1 rounded-lg border-2 border-gray-200 bg-white px-4 py-2 font-semibold text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
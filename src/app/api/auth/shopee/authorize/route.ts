@@ -1,6 +1,14 @@
 import { NextResponse } from "next/server";
+import { TRPCError } from "@trpc/server";
 import { auth } from "~/server/auth";
-import crypto from "crypto";
+import { db } from "~/server/db";
+import { enforceOwner } from "~/server/api/trpc";
+import {
+  createOAuthState,
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_TTL_SECONDS,
+} from "~/lib/oauth-state";
+import { buildShopeeUrl, getShopeePartnerConfig } from "~/lib/shopee-signing";
 
 /**
  * Shopee OAuth Authorization Endpoint
@@ -31,33 +39,47 @@ export async function GET(req: Request) {
     }
 
     // Verify user has access to this shop (must be owner)
-    // TODO: Add actual authorization check via tRPC/Prisma
+    try {
+      await enforceOwner({ db, session }, shopId);
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 403 }
+        );
+      }
+      throw error;
+    }
 
-    // Generate state parameter for CSRF protection
-    const state = crypto.randomBytes(32).toString("hex");
-    
-    // Store state in session/cookie for verification in callback
-    // For now, we'll include shopId in state (in production, use encrypted JWT)
-    const stateData = JSON.stringify({ shopId, nonce: state });
-    const encodedState = Buffer.from(stateData).toString("base64url");
+    // Signed, expiring state bound to this user, shop and browser session
+    const { state, nonce } = createOAuthState(session.user.id, shopId);
 
     // Shopee OAuth parameters
-    const partnerId = process.env.SHOPEE_PARTNER_ID;
     const redirectUri = process.env.SHOPEE_REDIRECT_URI;
-    
-    if (!partnerId || !redirectUri) {
+
+    if (!redirectUri) {
       throw new Error("Shopee credentials not configured");
     }
 
-    // Build Shopee authorization URL
+    // Build Shopee authorization URL (a public API, signed with partner ID only)
     // https://open.shopee.com/documents/v2/v2.auth.get_auth_url?module=63&type=1
-    const authUrl = new URL(`${process.env.SHOPEE_API_BASE_URL}/api/v2/shop/auth_partner`);
-    authUrl.searchParams.set("partner_id", partnerId);
-    authUrl.searchParams.set("redirect", redirectUri);
-    authUrl.searchParams.set("state", encodedState);
+    const authUrl = buildShopeeUrl(
+      getShopeePartnerConfig(),
+      "/api/v2/shop/auth_partner",
+      { level: "public" },
+      { redirect: redirectUri, state }
+    );
 
     // Redirect to Shopee OAuth consent page
-    return NextResponse.redirect(authUrl.toString());
+    const response = NextResponse.redirect(authUrl.toString());
+    response.cookies.set(OAUTH_STATE_COOKIE, nonce, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax", // Sent on the top-level redirect back from Shopee
+      path: "/api/auth/shopee",
+      maxAge: OAUTH_STATE_TTL_SECONDS,
+    });
+    return response;
     
   } catch (error) {
     console.error("Shopee OAuth authorization error:", error);
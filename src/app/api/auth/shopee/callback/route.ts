@@ -1,8 +1,13 @@
 import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { TRPCError } from "@trpc/server";
 import { auth } from "~/server/auth";
 import { db } from "~/server/db";
-import crypto from "crypto";
-import { queueProductImport } from "~/lib/queue";
+import { enforceOwner } from "~/server/api/trpc";
+import { consumeOAuthState, OAUTH_STATE_COOKIE, OAuthStateError } from "~/lib/oauth-state";
+import { queueProductImport, scheduleReconciliation } from "~/lib/queue";
+import { encryptShopeeTokens, SHOPEE_REFRESH_TOKEN_TTL_MS } from "~/lib/shopee-api";
+import { buildShopeeUrl, getShopeePartnerConfig } from "~/lib/shopee-signing";
 
 interface ShopeeTokenResponse {
   access_token?: string;
@@ -35,25 +40,31 @@ export async function GET(req: Request) {
       return NextResponse.redirect("/?error=invalid_callback");
     }
 
-    // Decode and verify state parameter
-    let stateData: { shopId: string; nonce: string };
+    // Verify the signed state: issued to this user and browser, unexpired, unused
+    let originalShopId: string;
     try {
-      const decoded = Buffer.from(state, "base64url").toString("utf-8");
-      stateData = JSON.parse(decoded);
-    } catch {
-      return NextResponse.redirect("/?error=invalid_state");
+      const cookieStore = await cookies();
+      ({ shopId: originalShopId } = await consumeOAuthState(state, {
+        userId: session.user.id,
+        nonce: cookieStore.get(OAUTH_STATE_COOKIE)?.value,
+      }));
+      cookieStore.delete(OAUTH_STATE_COOKIE);
+    } catch (error) {
+      if (error instanceof OAuthStateError) {
+        console.warn(`[Shopee OAuth] Rejected callback state: ${error.message}`);
+        return NextResponse.redirect("/?error=invalid_state");
+      }
+      throw error;
     }
 
-    const { shopId: originalShopId } = stateData;
-
-    // Verify user owns this shop
-    const shop = await db.shop.findUnique({
-      where: { id: originalShopId },
-      select: { id: true, ownerId: true },
-    });
-
-    if (shop?.ownerId !== session.user.id) {
-      return NextResponse.redirect("/?error=unauthorized");
+    // Verify user still owns this shop
+    try {
+      await enforceOwner({ db, session }, originalShopId);
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        return NextResponse.redirect("/?error=unauthorized");
+      }
+      throw error;
     }
 
     // Exchange authorization code for access token
@@ -87,27 +98,13 @@ async function exchangeCodeForToken(
   shopeeShopId: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    const partnerId = process.env.SHOPEE_PARTNER_ID;
-    const partnerKey = process.env.SHOPEE_PARTNER_KEY;
-    const redirectUri = process.env.SHOPEE_REDIRECT_URI;
-
-    if (!partnerId || !partnerKey || !redirectUri) {
-      throw new Error("Shopee credentials not configured");
-    }
+    const partner = getShopeePartnerConfig();
 
-    // Generate signature for API request
-    const timestamp = Math.floor(Date.now() / 1000);
-    const path = "/api/v2/auth/token/get";
-    const baseString = `${partnerId}${path}${timestamp}`;
-    // Signature will be used in production for request signing
-    const _signature = crypto
-      .createHmac("sha256", partnerKey)
-      .update(baseString)
-      .digest("hex");
+    // Token exchange is a public API: signed without access token or shop ID
+    const tokenUrl = buildShopeeUrl(partner, "/api/v2/auth/token/get", { level: "public" });
 
     // Request access token from Shopee
-    const tokenUrl = `${process.env.SHOPEE_API_BASE_URL}${path}`;
-    const response = await fetch(tokenUrl, {
+    const response = await fetch(tokenUrl.toString(), {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -115,7 +112,7 @@ async function exchangeCodeForToken(
       body: JSON.stringify({
         code,
         shop_id: parseInt(shopeeShopId),
-        partner_id: parseInt(partnerId),
+        partner_id: parseInt(partner.partnerId),
       }),
     });
 
@@ -132,12 +129,16 @@ async function exchangeCodeForToken(
       return { success: false, error: data.message ?? "Invalid response" };
     }
 
-    // Encrypt tokens before storing (simple encryption for MVP, use proper encryption in production)
-    const encryptedAccessToken = Buffer.from(data.access_token).toString("base64");
-    const encryptedRefreshToken = Buffer.from(data.refresh_token!).toString("base64");
+    // Encrypt tokens before storing
+    const { accessToken: encryptedAccessToken, refreshToken: encryptedRefreshToken } =
+      encryptShopeeTokens(localShopId, {
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token!,
+      });
 
     // Calculate token expiration
     const expiresAt = new Date(Date.now() + (data.expire_in! * 1000));
+    const refreshExpiresAt = new Date(Date.now() + SHOPEE_REFRESH_TOKEN_TTL_MS);
 
     // Store integration in database
     await db.shopeeIntegration.upsert({
@@ -148,6 +149,7 @@ async function exchangeCodeForToken(
         accessToken: encryptedAccessToken,
         refreshToken: encryptedRefreshToken,
         expiresAt,
+        refreshExpiresAt,
         status: "HEALTHY",
       },
       update: {
@@ -155,7 +157,9 @@ async function exchangeCodeForToken(
         accessToken: encryptedAccessToken,
         refreshToken: encryptedRefreshToken,
         expiresAt,
+        refreshExpiresAt,
         status: "HEALTHY",
+        statusReason: null,
         failureCount: 0,
         deletedAt: null, // Re-enable if previously disconnected
       },
@@ -170,6 +174,13 @@ async function exchangeCodeForToken(
       // Don't fail the entire OAuth flow if queue fails
     }
 
+    // Periodically reconcile orders and stock with Shopee to heal missed webhooks
+    try {
+      await scheduleReconciliation(localShopId);
+    } catch (queueError) {
+      console.error(`[Shopee OAuth] Failed to schedule reconciliation:`, queueError);
+    }
+
     return { success: true };
     
   } catch (error) {
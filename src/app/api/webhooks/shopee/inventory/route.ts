@@ -9,13 +9,14 @@
 
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
-import type { Prisma } from "../../../../../../generated/prisma";
+import { Prisma } from "../../../../../../generated/prisma";
 import { db } from "~/server/db";
-import { queueWebhookProcessing } from "~/lib/queue";
+import { isWebhookJobQueued, queueWebhookProcessing } from "~/lib/queue";
 import {
   verifyShopeeWebhookSignature,
   extractShopIdFromPayload,
   isTimestampValid,
+  buildWebhookDedupKey,
 } from "~/lib/shopee-webhook";
 
 export const runtime = "nodejs";
@@ -102,26 +103,74 @@ export async function POST(req: NextRequest) {
       );
     }
     
+    const dedupKey = buildWebhookDedupKey(eventType, integration.shopId, payload);
+    
     // Store raw webhook payload
-    const webhookRecord = await db.webhookPayload.create({
-      data: {
-        shopId: integration.shopId,
-        platform: "SHOPEE",
-        eventType,
-        rawPayload: payload as Prisma.InputJsonValue,
-        signature,
-        status: "PENDING",
-        retryCount: 0,
-      },
-    });
+    let webhookRecord;
+    let replayId: string | undefined;
+    try {
+      webhookRecord = await db.webhookPayload.create({
+        data: {
+          shopId: integration.shopId,
+          platform: "SHOPEE",
+          eventType,
+          rawPayload: payload as Prisma.InputJsonValue,
+          signature,
+          dedupKey,
+          status: "PENDING",
+          retryCount: 0,
+        },
+      });
+    } catch (error) {
+      // Redelivery of an event we already captured: record it, don't reprocess
+      if (
+        dedupKey &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        webhookRecord = await db.webhookPayload.update({
+          where: { dedupKey },
+          data: {
+            duplicateCount: { increment: 1 },
+            lastDuplicateAt: new Date(),
+          },
+          include: { replays: { orderBy: { createdAt: "desc" }, take: 1, select: { id: true } } },
+        });
+        replayId = webhookRecord.replays[0]?.id;
+
+        // Unless it is still PENDING with no job (queueing failed): then queue it now
+        if (
+          webhookRecord.status !== "PENDING" ||
+          (await isWebhookJobQueued(webhookRecord.id, replayId))
+        ) {
+          console.log(`⏭️  Duplicate webhook ignored: ${dedupKey}`);
+          return NextResponse.json({ success: true, duplicate: true });
+        }
+        console.log(`🔁 Re-queueing webhook left pending: ${dedupKey}`);
+      } else {
+        throw error;
+      }
+    }
     
-    // Queue for processing
-    await queueWebhookProcessing({
-      webhookId: webhookRecord.id,
-      shopId: integration.shopId,
-      platform: "SHOPEE",
-      eventType,
-    });
+    // Queue for processing. If that fails, have Shopee redeliver: the
+    // redelivery finds the stored webhook still pending and queues it
+    try {
+      await queueWebhookProcessing(
+        {
+          webhookId: webhookRecord.id,
+          shopId: integration.shopId,
+          platform: "SHOPEE",
+          eventType,
+        },
+        replayId,
+      );
+    } catch (queueError) {
+      console.error(`Failed to queue webhook ${webhookRecord.id}:`, queueError);
+      return NextResponse.json(
+        { error: "Failed to queue webhook" },
+        { status: 503 }
+      );
+    }
     
     console.log(`✅ Webhook captured: ${eventType} for shop ${integration.shopId}`);
     
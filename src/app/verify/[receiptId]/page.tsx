@@ -0,0 +1,95 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { api } from "~/trpc/react";
+
+export default function VerifyReceiptPage() {
+  const params = useParams();
+  const rawReceiptId = params.receiptId;
+  const receiptId = typeof rawReceiptId === 'string' ? rawReceiptId : Array.isArray(rawReceiptId) ? rawReceiptId[0] : undefined;
+
+  // Public lookup (no sign-in required)
+  const {
+    data: receipt,
+    isLoading,
+    error,
+  } = api.receipt.verifyReceipt.useQuery(
+    { receiptId: receiptId ?? "" },
+    { enabled: !!receiptId, retry: false },
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white">
+        <div className="text-gray-600">Verifying receipt...</div>
+      </div>
+    );
+  }
+
+  if (error || !receipt) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-white p-6">
+        <div className="max-w-md rounded-lg border-2 border-red-200 bg-red-50 p-8 text-center">
+          <h1 className="mb-4 text-2xl font-bold text-red-700">
+            Receipt Not Found
+          </h1>
+          <p className="text-gray-700">
+            We have no record of this receipt. It may have been mistyped, or it was not
+            issued through Kaching. Contact the seller to confirm.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const isValid = receipt.status === "VALID";
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-white p-6">
+      <div className="w-full max-w-md rounded-lg border-2 border-gray-200 bg-gray-50 p-8">
+        <div
+          className={`mb-6 rounded-lg border-2 p-4 text-center ${
+            isValid
+              ? "border-emerald-200 bg-emerald-50 text-emerald-700"
+              : "border-red-200 bg-red-50 text-red-700"
+          }`}
+        >
+          <p className="text-2xl font-bold">{isValid ? "Valid Receipt" : "Voided Receipt"}</p>
+          {!isValid && receipt.voidedAt && (
+            <p className="mt-1 text-sm">
+              Voided on {new Date(receipt.voidedAt).toLocaleDateString("en-PH")}
+            </p>
+          )}
+        </div>
+
+        <dl className="space-y-3 text-sm">
+          <div className="flex justify-between gap-4">
+            <dt className="text-gray-600">Issued by</dt>
+            <dd className="text-right font-medium text-gray-900">{receipt.shopName}</dd>
+          </div>
+          <div className="flex justify-between gap-4">
+            <dt className="text-gray-600">Serial No.</dt>
+            <dd className="font-medium text-gray-900">{receipt.receiptNumber}</dd>
+          </div>
+          <div className="flex justify-between gap-4">
+            <dt className="text-gray-600">Date</dt>
+            <dd className="font-medium text-gray-900">
+              {new Date(receipt.issuedAt).toLocaleDateString("en-PH")}
+            </dd>
+          </div>
+          <div className="flex justify-between gap-4">
+            <dt className="text-gray-600">Amount</dt>
+            <dd className="font-semibold text-gray-900">
+              ₱{Number(receipt.totalAmount).toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+            </dd>
+          </div>
+        </dl>
+
+        <p className="mt-6 text-xs text-gray-500">
+          Check that these details match the printed receipt. A receipt whose details differ
+          from this page should not be honored.
+        </p>
+      </div>
+    </div>
+  );
+}
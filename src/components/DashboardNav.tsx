@@ -62,6 +62,86 @@ export default function DashboardNav({
         </svg>
       ),
     },
+    {
+      name: "Receipts",
+      href: `/${shopId}/receipts`,
+      icon: (
+        <svg
+          className="h-5 w-5"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+          />
+        </svg>
+      ),
+      financialOnly: true,
+    },
+    {
+      name: "Expenses",
+      href: `/${shopId}/expenses`,
+      icon: (
+        <svg
+          className="h-5 w-5"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z"
+          />
+        </svg>
+      ),
+      financialOnly: true,
+    },
+    {
+      name: "Reports",
+      href: `/${shopId}/reports`,
+      icon: (
+        <svg
+          className="h-5 w-5"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+          />
+        </svg>
+      ),
+      financialOnly: true,
+    },
+    {
+      name: "Tax Profile",
+      href: `/${shopId}/settings/tax`,
+      icon: (
+        <svg
+          className="h-5 w-5"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z"
+          />
+        </svg>
+      ),
+      financialOnly: true,
+    },
     {
       name: "Team Settings",
       href: `/${shopId}/settings/team`,
@@ -104,8 +184,13 @@ export default function DashboardNav({
     },
   ];
 
+  const canAccessFinancials =
+    currentShop.role === "OWNER" || currentShop.role === "ACCOUNTANT";
+
   const visibleNavItems = navItems.filter(
-    (item) => !item.ownerOnly || currentShop.role === "OWNER"
+    (item) =>
+      (!item.ownerOnly || currentShop.role === "OWNER") &&
+      (!item.financialOnly || canAccessFinancials)
   );
 
   return (
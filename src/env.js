@@ -24,6 +24,10 @@ export const env = createEnv({
     AWS_SECRET_ACCESS_KEY: z.string().optional(),
     SHOPEE_PARTNER_ID: z.string().optional(),
     SHOPEE_PARTNER_KEY: z.string().optional(),
+    TOKEN_ENCRYPTION_KEYS: z.string().optional(),
+    EIS_ENDPOINT_URL: z.string().url().optional(),
+    EIS_ACCREDITATION_ID: z.string().optional(),
+    EIS_SIGNING_KEY: z.string().optional(),
     NODE_ENV: z
       .enum(["development", "test", "production"])
       .default("development"),
@@ -57,6 +61,10 @@ export const env = createEnv({
     AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY,
     SHOPEE_PARTNER_ID: process.env.SHOPEE_PARTNER_ID,
     SHOPEE_PARTNER_KEY: process.env.SHOPEE_PARTNER_KEY,
+    TOKEN_ENCRYPTION_KEYS: process.env.TOKEN_ENCRYPTION_KEYS,
+    EIS_ENDPOINT_URL: process.env.EIS_ENDPOINT_URL,
+    EIS_ACCREDITATION_ID: process.env.EIS_ACCREDITATION_ID,
+    EIS_SIGNING_KEY: process.env.EIS_SIGNING_KEY,
     NODE_ENV: process.env.NODE_ENV,
     NEXT_PUBLIC_SENTRY_DSN: process.env.NEXT_PUBLIC_SENTRY_DSN,
   },
@@ -0,0 +1,157 @@
+/**
+ * Books of Accounts PDF Rendering
+ *
+ * Prints a monthly book (see ~/lib/books) on landscape Letter pages. Every
+ * page repeats the shop's name, TIN and address, the book title and month,
+ * and the column headers, and is numbered "Page X of Y" so loose leaves can
+ * be bound in order. Totals are printed after the last entry.
+ */
+
+import PDFDocument from "pdfkit";
+import { formatTin } from "~/lib/receipt-pdf";
+import type { Book } from "~/lib/books";
+
+export interface BookPdfData {
+  shop: {
+    name: string;
+    tinNumber: string;
+    businessAddress: string;
+  };
+  book: Book;
+  periodLabel: string;
+  generatedAt: Date;
+}
+
+export interface RenderedBook {
+  pdf: Buffer;
+  pageCount: number;
+}
+
+const ROW_HEIGHT = 14;
+const CELL_PADDING = 3;
+
+/**
+ * Render a book to a PDF buffer
+ */
+export async function renderBookPdf(data: BookPdfData): Promise<RenderedBook> {
+  const { book } = data;
+
+  const doc = new PDFDocument({
+    size: "LETTER",
+    layout: "landscape",
+    margin: 36,
+    bufferPages: true, // Needed to stamp "Page X of Y" once all pages exist
+    info: {
+      Title: `${book.title} ${data.periodLabel}`,
+      Author: data.shop.name,
+      CreationDate: data.generatedAt,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  // Leave room for the page footer
+  const bottom = doc.page.height - doc.page.margins.bottom - 20;
+
+  const totalWeight = book.columns.reduce((sum, column) => sum + column.width, 0);
+  const columnWidths = book.columns.map((column) => (column.width / totalWeight) * width);
+
+  const drawRow = (cells: string[], bold: boolean) => {
+    const y = doc.y;
+    let x = left;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(7.5);
+    cells.forEach((cell, index) => {
+      const columnWidth = columnWidths[index] ?? 0;
+      doc.text(cell, x + CELL_PADDING, y + CELL_PADDING, {
+        width: columnWidth - CELL_PADDING * 2,
+        height: ROW_HEIGHT - CELL_PADDING,
+        align: book.columns[index]?.align ?? "left",
+        lineBreak: false,
+        ellipsis: true,
+      });
+      x += columnWidth;
+    });
+    doc.moveTo(left, y + ROW_HEIGHT).lineTo(left + width, y + ROW_HEIGHT).lineWidth(0.5).stroke();
+    doc.x = left;
+    doc.y = y + ROW_HEIGHT;
+  };
+
+  const drawPageHeader = () => {
+    doc.font("Helvetica-Bold").fontSize(12).text(data.shop.name, left, doc.page.margins.top, {
+      width,
+      align: "center",
+    });
+    doc.font("Helvetica").fontSize(9);
+    doc.text(`TIN: ${formatTin(data.shop.tinNumber)}`, { width, align: "center" });
+    doc.text(data.shop.businessAddress, { width, align: "center" });
+    doc.moveDown(0.5);
+    doc.font("Helvetica-Bold").fontSize(11).text(book.title.toUpperCase(), { width, align: "center" });
+    doc.font("Helvetica").fontSize(9).text(`For the month of ${data.periodLabel}`, {
+      width,
+      align: "center",
+    });
+    doc.moveDown(0.5);
+    doc.moveTo(left, doc.y).lineTo(left + width, doc.y).lineWidth(1).stroke();
+    drawRow(
+      book.columns.map((column) => column.header),
+      true,
+    );
+  };
+
+  drawPageHeader();
+
+  if (book.rows.length === 0) {
+    doc.font("Helvetica-Oblique").fontSize(9).text("No entries for this month.", left, doc.y + 6, {
+      width,
+      align: "center",
+    });
+    doc.y += ROW_HEIGHT;
+  }
+
+  for (const row of book.rows) {
+    if (doc.y + ROW_HEIGHT > bottom) {
+      doc.addPage();
+      drawPageHeader();
+    }
+    drawRow(row, false);
+  }
+
+  if (doc.y + ROW_HEIGHT > bottom) {
+    doc.addPage();
+    drawPageHeader();
+  }
+  drawRow(book.totals, true);
+
+  // Page numbers and generation stamp on every page
+  const range = doc.bufferedPageRange();
+  for (let index = range.start; index < range.start + range.count; index++) {
+    doc.switchToPage(index);
+    // Writing below the bottom margin would otherwise start a new page
+    const margin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font("Helvetica").fontSize(7.5);
+    doc.text(
+      `Generated ${data.generatedAt.toLocaleString("en-PH", { timeZone: "Asia/Manila" })}`,
+      left,
+      doc.page.height - margin - 10,
+      { width: width / 2, lineBreak: false },
+    );
+    doc.text(
+      `Page ${index - range.start + 1} of ${range.count}`,
+      left + width / 2,
+      doc.page.height - margin - 10,
+      { width: width / 2, align: "right", lineBreak: false },
+    );
+    doc.page.margins.bottom = margin;
+  }
+
+  doc.end();
+  return { pdf: await done, pageCount: range.count };
+}
@@ -0,0 +1,247 @@
+/**
+ * Loose-leaf Books of Accounts
+ *
+ * Builds the monthly journals a seller registered for loose-leaf books
+ * prints and binds:
+ * - Sales Journal: every receipt issued in the month, in serial order
+ *   (voided receipts stay listed with zero amounts so serials are unbroken)
+ * - Purchase Journal: purchases recorded as expenses, with input VAT
+ * - Cash Receipts Book: collections on valid receipts
+ * - Cash Disbursements Book: payments for recorded expenses
+ *
+ * Each book is a table of preformatted cells; ~/lib/books-pdf paginates it.
+ */
+
+import { formatBirDate } from "~/lib/tax-period";
+import type { AccountingBookType } from "../../generated/prisma";
+
+export interface BookColumn {
+  header: string;
+  width: number; // Relative width
+  align?: "left" | "right";
+}
+
+export interface Book {
+  type: AccountingBookType;
+  title: string;
+  columns: BookColumn[];
+  rows: string[][];
+  totals: string[]; // Same length as columns; blank where not summed
+}
+
+export interface BookReceipt {
+  receiptNumber: string;
+  issuedAt: Date;
+  orderNumber: string;
+  buyerName: string;
+  buyerTin: string | null;
+  voided: boolean;
+  vatableSales: number;
+  vatAmount: number;
+  vatExemptSales: number;
+  zeroRatedSales: number;
+  totalAmount: number;
+}
+
+export interface BookExpense {
+  expenseDate: Date;
+  supplierName: string;
+  supplierTin: string | null;
+  description: string;
+  category: string | null;
+  amount: number;
+  inputVat: number;
+}
+
+export const BOOK_TITLES: Record<AccountingBookType, string> = {
+  SALES_JOURNAL: "Sales Journal",
+  PURCHASE_JOURNAL: "Purchase Journal",
+  CASH_RECEIPTS: "Cash Receipts Book",
+  CASH_DISBURSEMENTS: "Cash Disbursements Book",
+};
+
+function round2(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString("en-PH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+/**
+ * Sum the amount columns of a book (columns listed in `amountColumns`)
+ */
+function totalsRow<T>(
+  columnCount: number,
+  rows: T[],
+  amountColumns: Record<number, (row: T) => number>,
+): string[] {
+  const totals = Array.from({ length: columnCount }, () => "");
+  totals[0] = "TOTAL";
+  for (const [index, pick] of Object.entries(amountColumns)) {
+    totals[Number(index)] = formatAmount(
+      round2(rows.reduce((sum, row) => sum + pick(row), 0)),
+    );
+  }
+  return totals;
+}
+
+function buildSalesJournal(receipts: BookReceipt[]): Book {
+  const amount = (receipt: BookReceipt, value: number) => (receipt.voided ? 0 : value);
+
+  return {
+    type: "SALES_JOURNAL",
+    title: BOOK_TITLES.SALES_JOURNAL,
+    columns: [
+      { header: "Date", width: 8 },
+      { header: "Invoice No.", width: 9 },
+      { header: "Customer", width: 18 },
+      { header: "TIN", width: 10 },
+      { header: "Order No.", width: 12 },
+      { header: "VATable Sales", width: 10, align: "right" },
+      { header: "Output VAT", width: 9, align: "right" },
+      { header: "VAT-Exempt", width: 9, align: "right" },
+      { header: "Zero-Rated", width: 9, align: "right" },
+      { header: "Total", width: 10, align: "right" },
+    ],
+    rows: receipts.map((receipt) => [
+      formatBirDate(receipt.issuedAt),
+      receipt.receiptNumber,
+      receipt.voided ? "VOID" : receipt.buyerName,
+      receipt.buyerTin ?? "",
+      receipt.orderNumber,
+      formatAmount(amount(receipt, receipt.vatableSales)),
+      formatAmount(amount(receipt, receipt.vatAmount)),
+      formatAmount(amount(receipt, receipt.vatExemptSales)),
+      formatAmount(amount(receipt, receipt.zeroRatedSales)),
+      formatAmount(amount(receipt, receipt.totalAmount)),
+    ]),
+    totals: totalsRow(10, receipts, {
+      5: (receipt) => amount(receipt, receipt.vatableSales),
+      6: (receipt) => amount(receipt, receipt.vatAmount),
+      7: (receipt) => amount(receipt, receipt.vatExemptSales),
+      8: (receipt) => amount(receipt, receipt.zeroRatedSales),
+      9: (receipt) => amount(receipt, receipt.totalAmount),
+    }),
+  };
+}
+
+function buildCashReceiptsBook(receipts: BookReceipt[]): Book {
+  const collections = receipts.filter((receipt) => !receipt.voided);
+  const netSales = (receipt: BookReceipt) => round2(receipt.totalAmount - receipt.vatAmount);
+
+  return {
+    type: "CASH_RECEIPTS",
+    title: BOOK_TITLES.CASH_RECEIPTS,
+    columns: [
+      { header: "Date", width: 8 },
+      { header: "Invoice No.", width: 10 },
+      { header: "Received From", width: 22 },
+      { header: "Order No.", width: 14 },
+      { header: "Cash (Dr)", width: 11, align: "right" },
+      { header: "Sales (Cr)", width: 11, align: "right" },
+      { header: "Output VAT (Cr)", width: 11, align: "right" },
+    ],
+    rows: collections.map((receipt) => [
+      formatBirDate(receipt.issuedAt),
+      receipt.receiptNumber,
+      receipt.buyerName,
+      receipt.orderNumber,
+      formatAmount(receipt.totalAmount),
+      formatAmount(netSales(receipt)),
+      formatAmount(receipt.vatAmount),
+    ]),
+    totals: totalsRow(7, collections, {
+      4: (receipt) => receipt.totalAmount,
+      5: netSales,
+      6: (receipt) => receipt.vatAmount,
+    }),
+  };
+}
+
+function buildPurchaseJournal(expenses: BookExpense[]): Book {
+  const netPurchases = (expense: BookExpense) => round2(expense.amount - expense.inputVat);
+
+  return {
+    type: "PURCHASE_JOURNAL",
+    title: BOOK_TITLES.PURCHASE_JOURNAL,
+    columns: [
+      { header: "Date", width: 8 },
+      { header: "Supplier", width: 18 },
+      { header: "TIN", width: 10 },
+      { header: "Particulars", width: 22 },
+      { header: "Gross Purchases", width: 11, align: "right" },
+      { header: "Input VAT", width: 10, align: "right" },
+      { header: "Net Purchases", width: 11, align: "right" },
+    ],
+    rows: expenses.map((expense) => [
+      formatBirDate(expense.expenseDate),
+      expense.supplierName,
+      expense.supplierTin ?? "",
+      expense.description,
+      formatAmount(expense.amount),
+      formatAmount(expense.inputVat),
+      formatAmount(netPurchases(expense)),
+    ]),
+    totals: totalsRow(7, expenses, {
+      4: (expense) => expense.amount,
+      5: (expense) => expense.inputVat,
+      6: netPurchases,
+    }),
+  };
+}
+
+function buildCashDisbursementsBook(expenses: BookExpense[]): Book {
+  const expenseAmount = (expense: BookExpense) => round2(expense.amount - expense.inputVat);
+
+  return {
+    type: "CASH_DISBURSEMENTS",
+    title: BOOK_TITLES.CASH_DISBURSEMENTS,
+    columns: [
+      { header: "Date", width: 8 },
+      { header: "Payee", width: 18 },
+      { header: "Particulars", width: 20 },
+      { header: "Account", width: 12 },
+      { header: "Cash (Cr)", width: 11, align: "right" },
+      { header: "Input VAT (Dr)", width: 10, align: "right" },
+      { header: "Expense (Dr)", width: 11, align: "right" },
+    ],
+    rows: expenses.map((expense) => [
+      formatBirDate(expense.expenseDate),
+      expense.supplierName,
+      expense.description,
+      expense.category ?? "Purchases",
+      formatAmount(expense.amount),
+      formatAmount(expense.inputVat),
+      formatAmount(expenseAmount(expense)),
+    ]),
+    totals: totalsRow(7, expenses, {
+      4: (expense) => expense.amount,
+      5: (expense) => expense.inputVat,
+      6: expenseAmount,
+    }),
+  };
+}
+
+/**
+ * Build one book for a month from its receipts (in serial order) and
+ * expenses (in date order)
+ */
+export function buildBook(
+  type: AccountingBookType,
+  data: { receipts: BookReceipt[]; expenses: BookExpense[] },
+): Book {
+  switch (type) {
+    case "SALES_JOURNAL":
+      return buildSalesJournal(data.receipts);
+    case "CASH_RECEIPTS":
+      return buildCashReceiptsBook(data.receipts);
+    case "PURCHASE_JOURNAL":
+      return buildPurchaseJournal(data.expenses);
+    case "CASH_DISBURSEMENTS":
+      return buildCashDisbursementsBook(data.expenses);
+  }
+}
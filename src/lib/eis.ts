@@ -0,0 +1,280 @@
+/**
+ * Electronic Invoicing System (EIS)
+ *
+ * Large taxpayers must transmit sales invoice data to BIR's EIS. This module
+ * serializes issued receipts into the EIS invoice payload, signs batches as
+ * a compact JWS (RS256) with the taxpayer's key, and posts them to the
+ * configured endpoint:
+ * - EIS_ENDPOINT_URL: EIS API base URL (point at a local stand-in server
+ *   for testing)
+ * - EIS_ACCREDITATION_ID: accreditation ID issued to the invoicing system
+ * - EIS_SIGNING_KEY: PEM private key used to sign payloads
+ *
+ * Amounts are sent as strings with two decimals so no precision is lost.
+ */
+
+import crypto from "crypto";
+import type { OrderLineItem } from "~/lib/order-items";
+
+// Invoices per signed batch
+export const EIS_MAX_BATCH_SIZE = 100;
+
+// A batch still SUBMITTING after this never recorded its outcome (the worker
+// died mid-transmission); its receipts are sent again
+export const EIS_STALE_SUBMISSION_MS = 15 * 60 * 1000;
+
+export interface EisSeller {
+  tinNumber: string;
+  name: string;
+  businessAddress: string;
+  rdoCode: string | null;
+}
+
+export interface EisReceipt {
+  id: string;
+  receiptNumber: string;
+  issuedAt: Date;
+  taxType: string;
+  buyerName: string;
+  buyerTin: string | null;
+  buyerAddress: string | null;
+  lineItems: OrderLineItem[];
+  vatableSales: number;
+  vatAmount: number;
+  vatExemptSales: number;
+  zeroRatedSales: number;
+  totalAmount: number;
+}
+
+export interface EisInvoice {
+  invoiceId: string; // Our receipt ID, echoed back in results
+  documentType: "SALES_INVOICE";
+  invoiceNumber: string;
+  issueDateTime: string; // ISO 8601
+  seller: {
+    tin: string;
+    branchCode: string;
+    registeredName: string;
+    address: string;
+    rdoCode: string | null;
+    vatRegistered: boolean;
+  };
+  buyer: {
+    tin: string | null;
+    branchCode: string | null;
+    name: string;
+    address: string | null;
+  };
+  items: {
+    description: string;
+    sku: string | null;
+    quantity: number;
+    unitPrice: string;
+    discount: string;
+    amount: string;
+  }[];
+  totals: {
+    vatableSales: string;
+    vatAmount: string;
+    vatExemptSales: string;
+    zeroRatedSales: string;
+    totalAmount: string;
+  };
+}
+
+export interface EisInvoiceResult {
+  invoiceId: string;
+  status: "ACCEPTED" | "REJECTED";
+  message?: string;
+}
+
+export interface EisSubmissionResult {
+  submissionId: string | null;
+  responseCode: number;
+  results: EisInvoiceResult[];
+}
+
+export interface SignedEisBatch {
+  jws: string;
+  digest: string; // SHA-256 (hex) of the JWS, stored on the batch for audit
+  invoiceCount: number;
+}
+
+/**
+ * Raised when EIS cannot be reached or refuses the whole batch
+ */
+export class EisTransmissionError extends Error {
+  constructor(
+    message: string,
+    public readonly responseCode: number | null,
+  ) {
+    super(message);
+    this.name = "EisTransmissionError";
+  }
+}
+
+function amount(value: number): string {
+  return value.toFixed(2);
+}
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+// 12-digit TINs carry the branch code in the last 3 digits
+function splitTin(tin: string): { tin: string; branchCode: string } {
+  const digits = tin.replace(/\D/g, "");
+  return { tin: digits.slice(0, 9), branchCode: digits.slice(9, 12) || "000" };
+}
+
+/**
+ * Serialize an issued receipt into the EIS invoice payload
+ */
+export function buildEisInvoice(seller: EisSeller, receipt: EisReceipt): EisInvoice {
+  const sellerTin = splitTin(seller.tinNumber);
+  const buyerTin = receipt.buyerTin ? splitTin(receipt.buyerTin) : null;
+
+  return {
+    invoiceId: receipt.id,
+    documentType: "SALES_INVOICE",
+    invoiceNumber: receipt.receiptNumber,
+    issueDateTime: receipt.issuedAt.toISOString(),
+    seller: {
+      tin: sellerTin.tin,
+      branchCode: sellerTin.branchCode,
+      registeredName: seller.name,
+      address: seller.businessAddress,
+      rdoCode: seller.rdoCode,
+      vatRegistered: receipt.taxType === "VAT",
+    },
+    buyer: {
+      tin: buyerTin?.tin ?? null,
+      branchCode: buyerTin?.branchCode ?? null,
+      name: receipt.buyerName,
+      address: receipt.buyerAddress,
+    },
+    items: receipt.lineItems.map((item) => ({
+      description: item.description,
+      sku: item.sku,
+      quantity: item.quantity,
+      unitPrice: amount(item.unitPrice),
+      discount: amount(item.discount),
+      amount: amount(item.amount),
+    })),
+    totals: {
+      vatableSales: amount(receipt.vatableSales),
+      vatAmount: amount(receipt.vatAmount),
+      vatExemptSales: amount(receipt.vatExemptSales),
+      zeroRatedSales: amount(receipt.zeroRatedSales),
+      totalAmount: amount(receipt.totalAmount),
+    },
+  };
+}
+
+/**
+ * Sign a batch of invoices as a compact JWS (RS256)
+ */
+export function signEisBatch(
+  accreditationId: string,
+  invoices: EisInvoice[],
+  privateKeyPem: string,
+): SignedEisBatch {
+  const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT", kid: accreditationId }));
+  const payload = base64url(
+    JSON.stringify({
+      accreditationId,
+      submittedAt: new Date().toISOString(),
+      invoices,
+    }),
+  );
+
+  const signature = crypto
+    .createSign("RSA-SHA256")
+    .update(`${header}.${payload}`)
+    .sign(privateKeyPem);
+
+  const jws = `${header}.${payload}.${base64url(signature)}`;
+
+  return {
+    jws,
+    digest: crypto.createHash("sha256").update(jws).digest("hex"),
+    invoiceCount: invoices.length,
+  };
+}
+
+/**
+ * EIS API Client
+ * Transmits signed invoice batches to the configured endpoint
+ */
+export class EisClient {
+  private endpointUrl: string;
+  private accreditationId: string;
+  private signingKey: string;
+
+  constructor() {
+    const endpointUrl = process.env.EIS_ENDPOINT_URL;
+    const accreditationId = process.env.EIS_ACCREDITATION_ID;
+    const signingKey = process.env.EIS_SIGNING_KEY;
+
+    if (!endpointUrl || !accreditationId || !signingKey) {
+      throw new Error("EIS credentials not configured");
+    }
+
+    this.endpointUrl = endpointUrl.replace(/\/+$/, "");
+    this.accreditationId = accreditationId;
+    // Keys pasted into .env usually have escaped newlines
+    this.signingKey = signingKey.replace(/\\n/g, "\n");
+  }
+
+  /**
+   * Sign a batch with this client's accreditation and key
+   */
+  sign(invoices: EisInvoice[]): SignedEisBatch {
+    return signEisBatch(this.accreditationId, invoices, this.signingKey);
+  }
+
+  /**
+   * Submit a signed batch and return the per-invoice results
+   */
+  async transmit(batch: SignedEisBatch): Promise<EisSubmissionResult> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.endpointUrl}/api/invoices`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Accreditation-Id": this.accreditationId,
+        },
+        body: JSON.stringify({
+          accreditationId: this.accreditationId,
+          invoiceCount: batch.invoiceCount,
+          payload: batch.jws,
+        }),
+      });
+    } catch (error) {
+      throw new EisTransmissionError(
+        `EIS endpoint unreachable: ${error instanceof Error ? error.message : String(error)}`,
+        null,
+      );
+    }
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new EisTransmissionError(
+        `EIS rejected the batch (${response.status}): ${body.slice(0, 500)}`,
+        response.status,
+      );
+    }
+
+    const data = (await response.json()) as {
+      submissionId?: string;
+      results?: EisInvoiceResult[];
+    };
+
+    return {
+      submissionId: data.submissionId ?? null,
+      responseCode: response.status,
+      results: data.results ?? [],
+    };
+  }
+}
@@ -8,6 +8,8 @@
  * Used for:
  * - BIR receipt PDFs (Epic 5)
  * - Expense attachment images (Epic 7)
+ * - BIR Form 2307 certificates from marketplaces (Epic 7)
+ * - Loose-leaf books of accounts (Epic 7)
  * - Product images from Shopee (Epic 4)
  */
 
@@ -30,7 +32,7 @@ export interface FileMetadata {
   size: number;
   uploadedBy?: string; // User ID who uploaded the file
   shopId?: string; // Shop ID for multi-tenant isolation
-  category: "receipt" | "expense-attachment" | "product-image";
+  category: "receipt" | "expense-attachment" | "product-image" | "withholding-certificate" | "book";
 }
 
 // Unified file storage interface
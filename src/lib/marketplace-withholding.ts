@@ -0,0 +1,102 @@
+/**
+ * Marketplace Creditable Withholding (RR 16-2023)
+ *
+ * E-marketplace operators withhold 1% of one-half of the gross remittance
+ * to sellers and issue BIR Form 2307 for it. The tax is only creditable
+ * against the seller's income tax if a certificate backs it, so each
+ * quarter's payouts are reconciled against the 2307s recorded for the
+ * same platform.
+ */
+
+import type { Platform } from "../../generated/prisma";
+
+export const MARKETPLACE_WITHHOLDING_RATE = 0.01;
+
+// ATC for e-marketplace withholding (individual / non-individual sellers)
+export const MARKETPLACE_ATC_CODES = ["WI760", "WC760"] as const;
+
+// Tolerance for centavo rounding differences between platform and our computation
+const TOLERANCE = 0.01;
+
+function round2(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Expected withholding on a payout: 1% of half the gross remittance
+ */
+export function computeMarketplaceWithholding(grossRemittance: number): number {
+  return round2((grossRemittance / 2) * MARKETPLACE_WITHHOLDING_RATE);
+}
+
+export interface PayoutWithholding {
+  platform: Platform;
+  payoutReference: string;
+  grossRemittance: number;
+  taxWithheld: number;
+}
+
+export interface CertifiedWithholding {
+  platform: Platform | null;
+  taxWithheld: number;
+  hasCertificate: boolean;
+}
+
+export interface PlatformReconciliation {
+  platform: Platform;
+  payoutCount: number;
+  grossRemittance: number;
+  withheldPerPayouts: number;
+  certified: number; // Recorded 2307 amounts for the platform
+  certificatesMissingPdf: number;
+  uncertified: number; // Withheld but not yet backed by a 2307 (may be lost)
+  mismatchedPayouts: string[]; // Payout references withheld at a different rate
+}
+
+/**
+ * Reconcile payouts against the 2307s recorded for each platform
+ */
+export function reconcileMarketplaceWithholding(
+  payouts: PayoutWithholding[],
+  certificates: CertifiedWithholding[],
+): PlatformReconciliation[] {
+  const platforms = new Set<Platform>(payouts.map((payout) => payout.platform));
+  for (const certificate of certificates) {
+    if (certificate.platform) platforms.add(certificate.platform);
+  }
+
+  return [...platforms].map((platform) => {
+    const platformPayouts = payouts.filter((payout) => payout.platform === platform);
+    const platformCertificates = certificates.filter(
+      (certificate) => certificate.platform === platform,
+    );
+
+    const withheldPerPayouts = round2(
+      platformPayouts.reduce((sum, payout) => sum + payout.taxWithheld, 0),
+    );
+    const certified = round2(
+      platformCertificates.reduce((sum, certificate) => sum + certificate.taxWithheld, 0),
+    );
+
+    return {
+      platform,
+      payoutCount: platformPayouts.length,
+      grossRemittance: round2(
+        platformPayouts.reduce((sum, payout) => sum + payout.grossRemittance, 0),
+      ),
+      withheldPerPayouts,
+      certified,
+      certificatesMissingPdf: platformCertificates.filter(
+        (certificate) => !certificate.hasCertificate,
+      ).length,
+      uncertified: Math.max(0, round2(withheldPerPayouts - certified)),
+      mismatchedPayouts: platformPayouts
+        .filter(
+          (payout) =>
+            Math.abs(payout.taxWithheld - computeMarketplaceWithholding(payout.grossRemittance)) >
+            TOLERANCE,
+        )
+        .map((payout) => payout.payoutReference),
+    };
+  });
+}
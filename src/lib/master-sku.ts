@@ -0,0 +1,182 @@
+/**
+ * Master SKU Catalog
+ *
+ * A master SKU is a physical item and owns its stock. Channel listings (a
+ * product without variants or a variant, on any platform) are linked to a
+ * master SKU and share its stock:
+ * - Every change to the master's stock is copied to its listings as a
+ *   MASTER_SKU movement, which marks them for pushing to their channel (see
+ *   the inventory-sync worker). Listings never show less than zero.
+ * - Orders on any channel are taken from the master's stock (SALE), and given
+ *   back when cancelled (RETURN). Only orders placed after the listing was
+ *   linked count, so importing past orders doesn't consume stock.
+ * - Stock reported by the channel for a linked listing is ignored (see
+ *   setStock); the master is the source of truth.
+ *
+ * Callers queue addInventorySyncJob for the shop once their transaction has
+ * committed when a function here reports listing changes.
+ */
+
+import { rollUpVariants } from "~/lib/shopee-products";
+import { lockStock, setStock, type StockMovementInput } from "~/lib/stock";
+import type { Prisma } from "../../generated/prisma";
+
+/**
+ * Copy a master SKU's stock to its listings
+ * Returns true if any listing changed
+ */
+export async function propagateMasterStock(
+  tx: Prisma.TransactionClient,
+  masterSkuId: string,
+): Promise<boolean> {
+  const masterSku = await tx.masterSku.findUniqueOrThrow({
+    where: { id: masterSkuId },
+    select: {
+      sku: true,
+      stock: true,
+      products: { select: { id: true } },
+      variants: { select: { id: true, productId: true } },
+    },
+  });
+
+  const quantity = Math.max(0, masterSku.stock);
+  const movement: StockMovementInput = { source: "MASTER_SKU", reference: masterSku.sku };
+  let changed = false;
+
+  for (const product of masterSku.products) {
+    const result = await setStock(tx, { productId: product.id }, quantity, movement);
+    changed ||= result.change !== 0;
+  }
+
+  for (const variant of masterSku.variants) {
+    const result = await setStock(
+      tx,
+      { productId: variant.productId, variantId: variant.id },
+      quantity,
+      movement,
+    );
+    if (result.change !== 0) {
+      await rollUpVariants(tx, variant.productId, movement);
+      changed = true;
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Set a master SKU's stock, record the movement and update its listings
+ * Returns true if any listing changed
+ */
+export async function setMasterStock(
+  tx: Prisma.TransactionClient,
+  masterSkuId: string,
+  quantity: number,
+  movement: StockMovementInput,
+): Promise<boolean> {
+  const result = await setStock(tx, { masterSkuId }, quantity, movement);
+  return result.change !== 0 && (await propagateMasterStock(tx, masterSkuId));
+}
+
+/**
+ * Link a listing to a master SKU and give it the master's stock
+ * Returns true if the listing's stock changed
+ */
+export async function linkListing(
+  tx: Prisma.TransactionClient,
+  masterSkuId: string,
+  listing: { productId: string; variantId: string | null },
+): Promise<boolean> {
+  const data = { masterSkuId, masterSkuLinkedAt: new Date() };
+  if (listing.variantId) {
+    await tx.productVariant.update({ where: { id: listing.variantId }, data });
+  } else {
+    await tx.product.update({ where: { id: listing.productId }, data });
+  }
+
+  return propagateMasterStock(tx, masterSkuId);
+}
+
+/**
+ * Take an order's lines from (or give them back to) their master SKUs
+ *
+ * Idempotent: movements for the order are tagged with its ID, and only the
+ * difference between what the order should hold now (its line quantities, or
+ * nothing once cancelled) and what it already holds is applied. Re-applying
+ * an order, or changing its lines, adjusts stock by the difference only.
+ * Returns true if any listing changed
+ */
+export async function applyOrderToMasterStock(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  cancelled: boolean,
+): Promise<boolean> {
+  const order = await tx.order.findUniqueOrThrow({
+    where: { id: orderId },
+    select: {
+      shopId: true,
+      orderNumber: true,
+      orderDate: true,
+      items: {
+        select: {
+          quantity: true,
+          platformModelId: true,
+          product: {
+            select: {
+              masterSkuId: true,
+              masterSkuLinkedAt: true,
+              variants: {
+                select: { shopeeModelId: true, masterSkuId: true, masterSkuLinkedAt: true },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  // Quantity the order should hold per master SKU
+  const wanted = new Map<string, number>();
+  if (!cancelled) {
+    for (const item of order.items) {
+      const listing = item.platformModelId
+        ? item.product?.variants.find((variant) => variant.shopeeModelId === item.platformModelId)
+        : item.product;
+      if (listing?.masterSkuId && listing.masterSkuLinkedAt && order.orderDate >= listing.masterSkuLinkedAt) {
+        wanted.set(listing.masterSkuId, (wanted.get(listing.masterSkuId) ?? 0) + item.quantity);
+      }
+    }
+  }
+
+  // Quantity it already holds
+  const reference = `order:${orderId}`;
+  const held = await tx.stockMovement.groupBy({
+    by: ["masterSkuId"],
+    where: { shopId: order.shopId, reference, masterSkuId: { not: null } },
+    _sum: { change: true },
+  });
+  const holding = new Map(held.map((row) => [row.masterSkuId!, -(row._sum.change ?? 0)]));
+
+  let changed = false;
+  for (const masterSkuId of new Set([...wanted.keys(), ...holding.keys()])) {
+    const difference = (wanted.get(masterSkuId) ?? 0) - (holding.get(masterSkuId) ?? 0);
+    if (difference === 0) {
+      continue;
+    }
+
+    // Stock may go negative: the sale happened, the item was oversold
+    await lockStock(tx, { masterSkuId });
+    const masterSku = await tx.masterSku.findUniqueOrThrow({
+      where: { id: masterSkuId },
+      select: { stock: true },
+    });
+    const listingsChanged = await setMasterStock(tx, masterSkuId, masterSku.stock - difference, {
+      source: difference > 0 ? "SALE" : "RETURN",
+      reason: `Order ${order.orderNumber}${difference < 0 && cancelled ? " cancelled" : ""}`,
+      reference,
+    });
+    changed ||= listingsChanged;
+  }
+
+  return changed;
+}
@@ -0,0 +1,114 @@
+/**
+ * Signed OAuth State
+ *
+ * The `state` parameter sent through the marketplace OAuth flow carries the
+ * shop being connected back to our callback, so it must not be forgeable or
+ * reusable. A state is `<payload>.<signature>` (base64url), where the payload
+ * holds the shop, the user who started the flow, a random nonce and an expiry,
+ * and the signature is an HMAC-SHA256 keyed from AUTH_SECRET.
+ *
+ * The nonce is also set in an httpOnly cookie by the authorize route, so a
+ * state only verifies in the browser session that started the flow. Each
+ * nonce can be consumed once (recorded in Redis until the state expires),
+ * so a replayed callback URL is rejected.
+ */
+
+import crypto from "crypto";
+import { redis } from "~/lib/redis";
+
+// Cookie holding the nonce of the flow started in this browser
+export const OAUTH_STATE_COOKIE = "shopee_oauth_nonce";
+
+// How long the user has to complete the marketplace consent page
+export const OAUTH_STATE_TTL_SECONDS = 10 * 60;
+
+interface OAuthStatePayload {
+  shopId: string;
+  userId: string;
+  nonce: string;
+  exp: number; // Unix seconds
+}
+
+/**
+ * Raised when a callback's state is missing, forged, expired, bound to
+ * another session or already used
+ */
+export class OAuthStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OAuthStateError";
+  }
+}
+
+function sign(payload: string): Buffer {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_SECRET is not configured");
+  }
+
+  // Derive a dedicated key so state signatures can't be confused with other AUTH_SECRET uses
+  const key = crypto.createHmac("sha256", secret).update("shopee-oauth-state").digest();
+  return crypto.createHmac("sha256", key).update(payload).digest();
+}
+
+/**
+ * Create a signed state for a user connecting a shop
+ * The returned nonce must be stored in OAUTH_STATE_COOKIE
+ */
+export function createOAuthState(userId: string, shopId: string): { state: string; nonce: string } {
+  const nonce = crypto.randomBytes(32).toString("base64url");
+  const payload: OAuthStatePayload = {
+    shopId,
+    userId,
+    nonce,
+    exp: Math.floor(Date.now() / 1000) + OAUTH_STATE_TTL_SECONDS,
+  };
+
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return {
+    state: `${encoded}.${sign(encoded).toString("base64url")}`,
+    nonce,
+  };
+}
+
+/**
+ * Verify a callback's state and mark it as used
+ * Returns the shop the flow was started for
+ */
+export async function consumeOAuthState(
+  state: string,
+  expected: { userId: string; nonce: string | undefined },
+): Promise<{ shopId: string }> {
+  const [encoded, signature] = state.split(".");
+  if (!encoded || !signature) {
+    throw new OAuthStateError("Malformed state");
+  }
+
+  const actual = Buffer.from(signature, "base64url");
+  const wanted = sign(encoded);
+  if (actual.length !== wanted.length || !crypto.timingSafeEqual(actual, wanted)) {
+    throw new OAuthStateError("State signature does not match");
+  }
+
+  const payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf-8")) as OAuthStatePayload;
+
+  const remainingSeconds = payload.exp - Math.floor(Date.now() / 1000);
+  if (remainingSeconds <= 0) {
+    throw new OAuthStateError("State has expired");
+  }
+  if (payload.userId !== expected.userId || payload.nonce !== expected.nonce) {
+    throw new OAuthStateError("State was issued to another session");
+  }
+
+  // First use wins; the record outlives the state so it can't be reused
+  const firstUse = await redis.setIfNotExists(
+    `shopee:oauth-state:${payload.nonce}`,
+    "1",
+    remainingSeconds + 60,
+  );
+  if (!firstUse) {
+    throw new OAuthStateError("State has already been used");
+  }
+
+  return { shopId: payload.shopId };
+}
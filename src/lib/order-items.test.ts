@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Prisma } from "../../generated/prisma";
+import { toOrderLineItems } from "./order-items";
+import { computeOrderTax, DEFAULT_TAX_PROFILE } from "./tax";
+
+function storedLine(name: string, amount: number, taxClassification: "VAT_EXEMPT" | null) {
+  return {
+    name,
+    sku: null,
+    quantity: 1,
+    unitPrice: new Prisma.Decimal(amount),
+    discount: new Prisma.Decimal(0),
+    amount: new Prisma.Decimal(amount),
+    taxClassification,
+  };
+}
+
+void describe("toOrderLineItems", () => {
+  void it("carries a stored line's tax classification into the tax breakdown", () => {
+    const lines = toOrderLineItems([
+      storedLine("Shirt", 112, null),
+      storedLine("Book", 50, "VAT_EXEMPT"),
+    ]);
+    assert.equal(lines[0]?.classification, undefined);
+    assert.equal(lines[1]?.classification, "VAT_EXEMPT");
+
+    const tax = computeOrderTax(DEFAULT_TAX_PROFILE, lines, 162);
+    assert.equal(tax.vatableSales, 100);
+    assert.equal(tax.vatAmount, 12);
+    assert.equal(tax.vatExemptSales, 50);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Order Line Items
+ *
+ * Order lines live in the OrderItem table. These helpers map the Shopee
+ * webhook and order API item arrays into OrderItem rows, and turn stored rows
+ * into typed line items for receipts and tax computation.
+ */
+
+import type { OrderItem } from "../../generated/prisma";
+import type { TaxableLine } from "~/lib/tax";
+
+export interface OrderLineItem {
+  description: string;
+  sku: string | null;
+  quantity: number;
+  unitPrice: number; // Before discount
+  discount: number; // Total discount on the line
+  amount: number; // Net line total
+  classification?: TaxableLine["classification"]; // Unset follows the shop tax profile
+}
+
+// Order item as sent in Shopee webhooks (prices use 5 decimal places)
+export interface ShopeeOrderItem {
+  item_id?: string;
+  item_name?: string;
+  model_id?: number | string; // Variant sold (absent or 0 for items without variants)
+  model_sku?: string;
+  quantity?: number;
+  item_price?: number; // Selling price after discounts
+  original_price?: number; // List price, when the item was discounted
+}
+
+// Order item as returned by the order API (v2.order.get_order_detail, prices in pesos)
+export interface ShopeeOrderDetailItem {
+  item_id: number;
+  item_name: string;
+  model_id?: number; // 0 for items without variants
+  model_sku?: string;
+  model_quantity_purchased: number;
+  model_original_price: number; // List price
+  model_discounted_price: number; // Selling price after discounts
+}
+
+// OrderItem columns filled from Shopee (order and product are linked by the caller)
+export interface OrderItemData {
+  position: number;
+  platformItemId: string | null;
+  platformModelId: string | null;
+  name: string;
+  sku: string | null;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  amount: number;
+}
+
+function round2(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Convert the webhook item array into OrderItem rows
+ */
+export function parseShopeeOrderItems(items: ShopeeOrderItem[] | undefined): OrderItemData[] {
+  if (!Array.isArray(items)) {
+    return [];
+  }
+
+  return items.map((item, position) => {
+    const quantity = item.quantity ?? 1;
+    const sellingPrice = (item.item_price ?? 0) / 100000;
+    const listPrice = Math.max((item.original_price ?? 0) / 100000, sellingPrice);
+
+    return {
+      position,
+      platformItemId: item.item_id ?? null,
+      platformModelId: item.model_id ? String(item.model_id) : null,
+      name: item.item_name ?? `Item ${item.item_id ?? ""}`.trim(),
+      sku: item.model_sku ?? null,
+      quantity,
+      unitPrice: round2(listPrice),
+      discount: round2((listPrice - sellingPrice) * quantity),
+      amount: round2(sellingPrice * quantity),
+    };
+  });
+}
+
+/**
+ * Convert the order API item list into OrderItem rows
+ */
+export function parseShopeeOrderDetailItems(
+  items: ShopeeOrderDetailItem[] | undefined,
+): OrderItemData[] {
+  if (!Array.isArray(items)) {
+    return [];
+  }
+
+  return items.map((item, position) => {
+    const quantity = item.model_quantity_purchased;
+    const sellingPrice = item.model_discounted_price;
+    const listPrice = Math.max(item.model_original_price, sellingPrice);
+
+    return {
+      position,
+      platformItemId: String(item.item_id),
+      platformModelId: item.model_id ? String(item.model_id) : null,
+      name: item.item_name,
+      sku: item.model_sku ?? null,
+      quantity,
+      unitPrice: round2(listPrice),
+      discount: round2((listPrice - sellingPrice) * quantity),
+      amount: round2(sellingPrice * quantity),
+    };
+  });
+}
+
+/**
+ * Convert stored OrderItem or ReceiptLine rows (in position order) into line items
+ */
+export function toOrderLineItems(
+  items: Pick<
+    OrderItem,
+    "name" | "sku" | "quantity" | "unitPrice" | "discount" | "amount" | "taxClassification"
+  >[],
+): OrderLineItem[] {
+  return items.map((item) => ({
+    description: item.name,
+    sku: item.sku,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice.toNumber(),
+    discount: item.discount.toNumber(),
+    amount: item.amount.toNumber(),
+    classification: item.taxClassification ?? undefined,
+  }));
+}
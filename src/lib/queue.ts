@@ -12,6 +12,22 @@ export interface ImportProductsJobData {
   offset?: number;
 }
 
+export interface BackfillOrdersJobData {
+  shopId: string;
+  from: string; // ISO timestamp, inclusive
+  to: string; // ISO timestamp, exclusive
+}
+
+export interface BackfillOrdersProgress {
+  windowsDone: number;
+  windowsTotal: number;
+  ordersImported: number;
+}
+
+export interface ReconcileJobData {
+  shopId: string;
+}
+
 export interface WebhookProcessJobData {
   webhookId: string;
   shopId: string;
@@ -74,6 +90,159 @@ export async function getImportJobStatus(shopId: string) {
   };
 }
 
+// Queue for historical order backfill
+export const shopeeOrderBackfillQueue = new Queue<BackfillOrdersJobData>("shopee-order-backfill", {
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
+  connection: connection as any, // Type mismatch between ioredis versions
+  defaultJobOptions: {
+    attempts: 3,
+    backoff: {
+      type: "exponential",
+      delay: 5000,
+    },
+  },
+});
+
+/**
+ * Add order backfill job to queue
+ * A finished previous backfill is replaced; callers check that none is running
+ */
+export async function queueOrderBackfill(data: BackfillOrdersJobData): Promise<void> {
+  const jobId = `backfill-${data.shopId}`;
+  const previous = await shopeeOrderBackfillQueue.getJob(jobId);
+  if (previous) {
+    await previous.remove();
+  }
+
+  await shopeeOrderBackfillQueue.add(
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-argument, @typescript-eslint/no-explicit-any
+    "backfill-orders" as any, // BullMQ type issue with job names
+    data,
+    {
+      jobId, // One backfill per shop at a time
+      removeOnComplete: false, // Kept so the final progress stays visible
+      removeOnFail: false,
+    }
+  );
+}
+
+/**
+ * Get order backfill job status and progress
+ */
+export async function getBackfillJobStatus(shopId: string) {
+  const job = await shopeeOrderBackfillQueue.getJob(`backfill-${shopId}`);
+
+  if (!job) {
+    return { status: "not-found", progress: null, from: null, to: null };
+  }
+
+  const state = await job.getState();
+  const progress = typeof job.progress === "object" ? (job.progress as BackfillOrdersProgress) : null;
+
+  return {
+    status: state,
+    progress,
+    from: new Date(job.data.from),
+    to: new Date(job.data.to),
+    failedReason: job.failedReason,
+  };
+}
+
+// How often each connected shop is reconciled against Shopee
+export const RECONCILE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Queue for periodic Shopee reconciliation (one repeatable job per integration)
+export const shopeeReconcileQueue = new Queue<ReconcileJobData>("shopee-reconcile", {
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
+  connection: connection as any, // Type mismatch between ioredis versions
+  defaultJobOptions: {
+    attempts: 1, // The next scheduled run is the retry
+    removeOnComplete: {
+      count: 100,
+    },
+    removeOnFail: {
+      count: 100,
+    },
+  },
+});
+
+/**
+ * Schedule (or keep) the repeatable reconciliation job for a shop
+ */
+export async function scheduleReconciliation(shopId: string): Promise<void> {
+  await shopeeReconcileQueue.upsertJobScheduler(
+    `reconcile-${shopId}`,
+    { every: RECONCILE_INTERVAL_MS },
+    {
+      name: "reconcile",
+      data: { shopId },
+    }
+  );
+}
+
+/**
+ * Stop reconciling a shop (after disconnecting Shopee)
+ */
+export async function unscheduleReconciliation(shopId: string): Promise<void> {
+  await shopeeReconcileQueue.removeJobScheduler(`reconcile-${shopId}`);
+}
+
+// How often integrations are checked for tokens about to expire
+export const TOKEN_REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+// Queue for proactive Shopee token refresh (one repeatable sweep over all integrations)
+export const shopeeTokenRefreshQueue = new Queue("shopee-token-refresh", {
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
+  connection: connection as any, // Type mismatch between ioredis versions
+  defaultJobOptions: {
+    attempts: 1, // The next sweep is the retry
+    removeOnComplete: {
+      count: 100,
+    },
+    removeOnFail: {
+      count: 100,
+    },
+  },
+});
+
+/**
+ * Schedule (or keep) the repeatable token refresh sweep
+ */
+export async function scheduleTokenRefresh(): Promise<void> {
+  await shopeeTokenRefreshQueue.upsertJobScheduler(
+    "token-refresh-sweep",
+    { every: TOKEN_REFRESH_INTERVAL_MS },
+    { name: "refresh-tokens" }
+  );
+}
+
+// Queue for re-encrypting stored secrets after an encryption key rotation
+export const secretRotationQueue = new Queue("secret-rotation", {
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
+  connection: connection as any, // Type mismatch between ioredis versions
+  defaultJobOptions: {
+    attempts: 3,
+    backoff: {
+      type: "exponential",
+      delay: 5000,
+    },
+    removeOnComplete: {
+      count: 20,
+    },
+    removeOnFail: {
+      count: 20,
+    },
+  },
+});
+
+/**
+ * Queue a pass that re-encrypts secrets not using the current key
+ * Safe to queue repeatedly: rows already on the current key are skipped
+ */
+export async function queueSecretRotation(): Promise<void> {
+  await secretRotationQueue.add("rotate-secrets", {});
+}
+
 // Queue for webhook processing
 export const webhookQueue = new Queue<WebhookProcessJobData>("shopee-webhook-process", {
   // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
@@ -93,18 +262,48 @@ export const webhookQueue = new Queue<WebhookProcessJobData>("shopee-webhook-pro
   },
 });
 
+function webhookJobId(webhookId: string, replayId?: string): string {
+  return replayId ? `webhook-${webhookId}-replay-${replayId}` : `webhook-${webhookId}`;
+}
+
 /**
  * Queue webhook processing job
+ * Replays pass their WebhookReplay ID so the job is not deduplicated
+ * against the original (kept) job
  */
-export async function queueWebhookProcessing(data: WebhookProcessJobData): Promise<void> {
+export async function queueWebhookProcessing(
+  data: WebhookProcessJobData,
+  replayId?: string,
+): Promise<void> {
   await webhookQueue.add(
     // eslint-disable-next-line @typescript-eslint/no-unsafe-argument, @typescript-eslint/no-explicit-any
     "process-webhook" as any, // BullMQ type issue with job names
     data,
     {
-      jobId: `webhook-${data.webhookId}`, // Prevent duplicate processing
+      jobId: webhookJobId(data.webhookId, replayId), // Prevent duplicate processing
       removeOnComplete: false, // Keep for audit
       removeOnFail: false,
     }
   );
 }
+
+/**
+ * Check whether a webhook's job (the original, or its latest replay) is still
+ * waiting to run or running, so it will process the webhook anyway
+ */
+export async function isWebhookJobQueued(webhookId: string, latestReplayId?: string): Promise<boolean> {
+  const jobIds = [webhookJobId(webhookId)];
+  if (latestReplayId) {
+    jobIds.push(webhookJobId(webhookId, latestReplayId));
+  }
+
+  for (const jobId of jobIds) {
+    const job = await webhookQueue.getJob(jobId);
+    const state = job ? await job.getState() : null;
+    if (state === "waiting" || state === "prioritized" || state === "delayed" || state === "active") {
+      return true;
+    }
+  }
+
+  return false;
+}
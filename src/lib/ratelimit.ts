@@ -40,3 +40,48 @@ export async function checkLoginRateLimit(ip: string) {
     };
   }
 }
+
+export interface TokenBucketConfig {
+  capacity: number; // Burst size
+  refillPerSecond: number;
+}
+
+// Refills the bucket for the time elapsed, then takes one token if available.
+// Returns 0 when a token was taken, otherwise the milliseconds until one is.
+const TAKE_TOKEN_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local state = redis.call("HMGET", KEYS[1], "tokens", "ts")
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * refill / 1000)
+local wait = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+else
+  wait = math.ceil((1 - tokens) * 1000 / refill)
+end
+redis.call("HSET", KEYS[1], "tokens", tokens, "ts", now)
+redis.call("PEXPIRE", KEYS[1], math.ceil(capacity * 1000 / refill) + 1000)
+return wait
+`;
+
+/**
+ * Take a token from a Redis token bucket shared by every process
+ * @returns Milliseconds to wait before trying again (0 when a token was taken)
+ */
+export async function takeToken(key: string, config: TokenBucketConfig): Promise<number> {
+  try {
+    const wait = await redis.eval(
+      TAKE_TOKEN_SCRIPT,
+      [`ratelimit:bucket:${key}`],
+      [config.capacity, config.refillPerSecond, Date.now()],
+    );
+    return typeof wait === "number" ? wait : 0;
+  } catch (error) {
+    // If rate limiting fails (e.g., Redis down), allow the request
+    console.warn("Token bucket check failed:", error);
+    return 0;
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * BIR Receipt PDF Rendering
+ *
+ * Lays out an issued receipt in the BIR sales invoice format:
+ * - Seller header (registered name, TIN, business address)
+ * - Serial number, date and buyer details
+ * - Line items with quantity, unit price and amount
+ * - VAT breakdown (VATable, VAT-exempt, zero-rated, VAT amount) for VAT-registered
+ *   sellers, or the input-tax disclaimer for non-VAT sellers
+ * - A QR code linking to the public verification page (/verify/[receiptId])
+ * - ATP number and approved serial range in the footer
+ * - A VOID stamp with the voiding date and reason for voided receipts
+ *
+ * Rendering is pure: the same input always produces the same layout,
+ * so retried jobs can safely re-render a receipt.
+ */
+
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import type { OrderLineItem } from "~/lib/order-items";
+import type { TaxBreakdown } from "~/lib/tax";
+
+export interface ReceiptPdfData {
+  shop: {
+    name: string;
+    tinNumber: string;
+    businessAddress: string;
+  };
+  receiptNumber: string;
+  issuedAt: Date;
+  orderNumber: string;
+  buyer: {
+    name: string;
+    tin: string | null;
+    address: string | null;
+  };
+  vatRegistered: boolean;
+  lineItems: OrderLineItem[];
+  tax: Pick<
+    TaxBreakdown,
+    "vatableSales" | "vatAmount" | "vatExemptSales" | "zeroRatedSales" | "totalAmount"
+  >;
+  atp: {
+    number: string;
+    startSerial: number;
+    endSerial: number;
+  };
+  verificationUrl: string;
+  voided?: {
+    at: Date;
+    reason: string;
+  };
+}
+
+/**
+ * Public page where buyers and auditors can confirm a receipt
+ */
+export function getReceiptVerificationUrl(receiptId: string): string {
+  return `${process.env.NEXTAUTH_URL ?? "http://localhost:3000"}/verify/${receiptId}`;
+}
+
+/**
+ * Format a 9 or 12 digit TIN as 000-000-000(-000)
+ */
+export function formatTin(tin: string): string {
+  const digits = tin.replace(/\D/g, "");
+  return digits.match(/.{1,3}/g)?.join("-") ?? tin;
+}
+
+function formatMoney(amount: number): string {
+  return amount.toLocaleString("en-PH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+/**
+ * Render a receipt to a PDF buffer
+ */
+export async function renderReceiptPdf(data: ReceiptPdfData): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: "A5",
+    margin: 36,
+    info: {
+      Title: `Sales Invoice ${data.receiptNumber}`,
+      Author: data.shop.name,
+      CreationDate: data.issuedAt,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+  // Seller header
+  doc.font("Helvetica-Bold").fontSize(14).text(data.shop.name, { align: "center" });
+  doc.font("Helvetica").fontSize(9);
+  doc.text(data.shop.businessAddress, { align: "center" });
+  doc.text(
+    `${data.vatRegistered ? "VAT" : "NON-VAT"} Reg. TIN: ${formatTin(data.shop.tinNumber)}`,
+    { align: "center" },
+  );
+  doc.moveDown();
+
+  // Document title and serial
+  doc.font("Helvetica-Bold").fontSize(12).text("SALES INVOICE", { align: "center" });
+  doc.font("Helvetica").fontSize(10).text(`No. ${data.receiptNumber}`, { align: "center" });
+  doc.moveDown();
+
+  // Buyer details
+  doc.fontSize(9);
+  doc.text(`Date: ${data.issuedAt.toLocaleDateString("en-PH")}`);
+  doc.text(`Sold to: ${data.buyer.name}`);
+  doc.text(`TIN: ${data.buyer.tin ? formatTin(data.buyer.tin) : ""}`);
+  doc.text(`Address: ${data.buyer.address ?? ""}`);
+  doc.text(`Order No.: ${data.orderNumber}`);
+  doc.moveDown();
+
+  // Line items table
+  const columns = {
+    qty: left,
+    description: left + 30,
+    unitPrice: left + width - 140,
+    amount: left + width - 70,
+  };
+
+  const drawRow = (qty: string, description: string, unitPrice: string, amount: string) => {
+    const y = doc.y;
+    doc.text(qty, columns.qty, y, { width: 28 });
+    doc.text(description, columns.description, y, {
+      width: columns.unitPrice - columns.description - 4,
+    });
+    const descriptionBottom = doc.y;
+    doc.text(unitPrice, columns.unitPrice, y, { width: 66, align: "right" });
+    doc.text(amount, columns.amount, y, { width: 70, align: "right" });
+    doc.x = left;
+    doc.y = Math.max(descriptionBottom, doc.y);
+  };
+
+  doc.font("Helvetica-Bold");
+  drawRow("Qty", "Description", "Unit Price", "Amount");
+  doc.moveTo(left, doc.y).lineTo(left + width, doc.y).stroke();
+  doc.moveDown(0.3);
+  doc.font("Helvetica");
+
+  for (const item of data.lineItems) {
+    let description = item.sku ? `${item.description} (${item.sku})` : item.description;
+    if (item.discount > 0) {
+      description += `\nLess discount: ${formatMoney(item.discount)}`;
+    }
+    drawRow(
+      item.quantity.toString(),
+      description,
+      formatMoney(item.unitPrice),
+      formatMoney(item.amount),
+    );
+  }
+
+  doc.moveTo(left, doc.y).lineTo(left + width, doc.y).stroke();
+  doc.moveDown(0.5);
+
+  // Totals (VAT breakdown only applies to VAT-registered sellers)
+  const totalRow = (label: string, amount: number, bold = false) => {
+    const y = doc.y;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica");
+    doc.text(label, columns.unitPrice - 100, y, { width: 160 });
+    doc.text(`PHP ${formatMoney(amount)}`, columns.amount - 30, y, {
+      width: 100,
+      align: "right",
+    });
+    doc.x = left;
+  };
+
+  if (data.vatRegistered) {
+    totalRow("VATable Sales", data.tax.vatableSales);
+    totalRow("VAT-Exempt Sales", data.tax.vatExemptSales);
+    totalRow("Zero-Rated Sales", data.tax.zeroRatedSales);
+    totalRow("VAT Amount (12%)", data.tax.vatAmount);
+    doc.moveDown(0.3);
+  }
+  totalRow("TOTAL AMOUNT DUE", data.tax.totalAmount, true);
+
+  if (!data.vatRegistered) {
+    doc.moveDown();
+    doc.font("Helvetica-Bold").fontSize(8).text(
+      "THIS DOCUMENT IS NOT VALID FOR CLAIM OF INPUT TAX",
+      left,
+      doc.y,
+      { width, align: "center" },
+    );
+  }
+
+  // Verification QR code
+  const qrSize = 64;
+  const qr = await QRCode.toBuffer(data.verificationUrl, {
+    type: "png",
+    errorCorrectionLevel: "M",
+    margin: 1,
+    width: qrSize * 4,
+  });
+  doc.moveDown();
+  const qrY = doc.y;
+  doc.image(qr, left, qrY, { width: qrSize, height: qrSize });
+  doc.font("Helvetica").fontSize(7).fillColor("black");
+  doc.text("Scan to verify this receipt:", left + qrSize + 8, qrY + 18, {
+    width: width - qrSize - 8,
+  });
+  doc.text(data.verificationUrl, { width: width - qrSize - 8 });
+  doc.x = left;
+  doc.y = qrY + qrSize;
+
+  // ATP footer
+  doc.font("Helvetica").fontSize(7);
+  doc.text(
+    `ATP No. ${data.atp.number}  ·  Serial Nos. ${data.atp.startSerial}-${data.atp.endSerial}`,
+    left,
+    doc.page.height - doc.page.margins.bottom - 20,
+    { width, align: "center" },
+  );
+
+  // VOID stamp across the page (the serial stays on record)
+  if (data.voided) {
+    const centerX = doc.page.width / 2;
+    const centerY = doc.page.height / 2;
+    doc.save();
+    doc.rotate(-30, { origin: [centerX, centerY] });
+    doc.font("Helvetica-Bold").fontSize(96).fillColor("red").fillOpacity(0.35);
+    doc.text("VOID", 0, centerY - 48, { width: doc.page.width, align: "center" });
+    doc.restore();
+
+    doc.font("Helvetica-Bold").fontSize(8).fillColor("red").fillOpacity(1);
+    doc.text(
+      `VOIDED ${data.voided.at.toLocaleDateString("en-PH")}: ${data.voided.reason}`,
+      left,
+      doc.page.height - doc.page.margins.bottom - 36,
+      { width, align: "center" },
+    );
+    doc.fillColor("black");
+  }
+
+  doc.end();
+  return done;
+}
@@ -15,10 +15,12 @@ import { env } from "~/env";
 interface RedisClient {
   get(key: string): Promise<string | null>;
   set(key: string, value: string, expirationSeconds?: number): Promise<void>;
+  setIfNotExists(key: string, value: string, expirationSeconds: number): Promise<boolean>;
   del(key: string): Promise<void>;
   expire(key: string, seconds: number): Promise<void>;
   incr(key: string): Promise<number>;
   decr(key: string): Promise<number>;
+  eval(script: string, keys: string[], args: (string | number)[]): Promise<unknown>;
 }
 
 // Mock Redis client for when Redis is unavailable
@@ -32,6 +34,11 @@ class MockRedis implements RedisClient {
     console.warn(`⚠️  MockRedis: SET ${key} (Redis unavailable)`);
   }
 
+  async setIfNotExists(key: string, _value: string): Promise<boolean> {
+    console.warn(`⚠️  MockRedis: SET NX ${key} (Redis unavailable)`);
+    return true;
+  }
+
   async del(key: string): Promise<void> {
     console.warn(`⚠️  MockRedis: DEL ${key} (Redis unavailable)`);
   }
@@ -49,6 +56,11 @@ class MockRedis implements RedisClient {
     console.warn(`⚠️  MockRedis: DECR ${key} (Redis unavailable)`);
     return 0;
   }
+
+  async eval(_script: string, keys: string[]): Promise<unknown> {
+    console.warn(`⚠️  MockRedis: EVAL ${keys.join(" ")} (Redis unavailable)`);
+    return null;
+  }
 }
 
 // Upstash Redis adapter (for production)
@@ -68,6 +80,11 @@ class UpstashRedisAdapter implements RedisClient {
     }
   }
 
+  async setIfNotExists(key: string, value: string, expirationSeconds: number): Promise<boolean> {
+    const result = await this.client.set(key, value, { nx: true, ex: expirationSeconds });
+    return result === "OK";
+  }
+
   async del(key: string): Promise<void> {
     await this.client.del(key);
   }
@@ -83,6 +100,10 @@ class UpstashRedisAdapter implements RedisClient {
   async decr(key: string): Promise<number> {
     return await this.client.decr(key);
   }
+
+  async eval(script: string, keys: string[], args: (string | number)[]): Promise<unknown> {
+    return await this.client.eval(script, keys, args);
+  }
 }
 
 // IORedis adapter (for local development)
@@ -101,6 +122,11 @@ class IORedisAdapter implements RedisClient {
     }
   }
 
+  async setIfNotExists(key: string, value: string, expirationSeconds: number): Promise<boolean> {
+    const result = await this.client.set(key, value, "EX", expirationSeconds, "NX");
+    return result === "OK";
+  }
+
   async del(key: string): Promise<void> {
     await this.client.del(key);
   }
@@ -116,6 +142,10 @@ class IORedisAdapter implements RedisClient {
   async decr(key: string): Promise<number> {
     return await this.client.decr(key);
   }
+
+  async eval(script: string, keys: string[], args: (string | number)[]): Promise<unknown> {
+    return await this.client.eval(script, keys.length, ...keys, ...args);
+  }
 }
 
 // Create Redis client based on environment
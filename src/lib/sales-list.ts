@@ -0,0 +1,281 @@
+/**
+ * Summary List of Sales (SLS) and Sales Journal
+ *
+ * Builds the quarterly sales attachment from issued receipts:
+ * - DAT file in the BIR RELIEF layout (one header line, one detail line per
+ *   buyer TIN) for upload through the eSubmission channel
+ * - CSV sales journal with one row per receipt for the accountant's review
+ *
+ * RELIEF rejects detail lines without a buyer TIN or address, so those
+ * receipts are left out of the DAT and reported as issues instead; the CSV
+ * keeps every receipt so nothing is silently dropped from the journal.
+ */
+
+import { formatBirDate, getQuarterEndDate, type TaxQuarter } from "~/lib/tax-period";
+
+// RELIEF field limit for names and addresses
+const MAX_TEXT_LENGTH = 50;
+
+export interface SalesListSeller {
+  tinNumber: string;
+  name: string;
+  businessAddress: string;
+  rdoCode: string | null;
+}
+
+export interface SalesListReceipt {
+  receiptNumber: string;
+  issuedAt: Date;
+  orderNumber: string;
+  buyerName: string;
+  buyerTin: string | null;
+  buyerAddress: string | null;
+  totalAmount: number;
+  vatableSales: number;
+  vatAmount: number;
+  vatExemptSales: number;
+  zeroRatedSales: number;
+}
+
+export interface SalesListIssue {
+  receiptNumber: string | null; // null for shop-level issues
+  field: "tinNumber" | "rdoCode" | "buyerTin" | "buyerAddress";
+  message: string;
+}
+
+export interface SalesListTotals {
+  exemptSales: number;
+  zeroRatedSales: number;
+  taxableSales: number;
+  outputTax: number;
+}
+
+export interface SalesListExport {
+  datFileName: string;
+  dat: string;
+  csvFileName: string;
+  csv: string;
+  issues: SalesListIssue[];
+  totals: SalesListTotals; // Totals of the DAT detail lines
+  receiptCount: number;
+  buyerCount: number;
+}
+
+function round2(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function tinDigits(tin: string): string {
+  return tin.replace(/\D/g, "");
+}
+
+// RELIEF text fields: quoted, uppercase, no embedded quotes
+function datText(value: string): string {
+  return `"${value.replace(/"/g, "").trim().toUpperCase().slice(0, MAX_TEXT_LENGTH)}"`;
+}
+
+function datAmount(amount: number): string {
+  return round2(amount).toFixed(2);
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Validate the buyer details RELIEF needs on a receipt
+ */
+export function validateSalesListReceipt(receipt: SalesListReceipt): SalesListIssue[] {
+  const issues: SalesListIssue[] = [];
+  const tin = receipt.buyerTin ? tinDigits(receipt.buyerTin) : "";
+
+  if (!tin) {
+    issues.push({
+      receiptNumber: receipt.receiptNumber,
+      field: "buyerTin",
+      message: "Buyer TIN is missing",
+    });
+  } else if (tin.length !== 9 && tin.length !== 12) {
+    issues.push({
+      receiptNumber: receipt.receiptNumber,
+      field: "buyerTin",
+      message: "Buyer TIN must be 9 or 12 digits",
+    });
+  }
+
+  if (!receipt.buyerAddress?.trim()) {
+    issues.push({
+      receiptNumber: receipt.receiptNumber,
+      field: "buyerAddress",
+      message: "Buyer address is missing",
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Build the SLS DAT file and sales journal CSV for a quarter
+ */
+export function buildSalesList(
+  seller: SalesListSeller,
+  period: TaxQuarter,
+  receipts: SalesListReceipt[],
+): SalesListExport {
+  const sellerTin = tinDigits(seller.tinNumber).slice(0, 9);
+  const periodEnd = getQuarterEndDate(period);
+  const taxableMonth = formatBirDate(periodEnd);
+  const monthYear = taxableMonth.slice(0, 2) + taxableMonth.slice(6);
+
+  const issues: SalesListIssue[] = [];
+  if (sellerTin.length !== 9) {
+    issues.push({
+      receiptNumber: null,
+      field: "tinNumber",
+      message: "Shop TIN must have at least 9 digits",
+    });
+  }
+  if (!seller.rdoCode) {
+    issues.push({
+      receiptNumber: null,
+      field: "rdoCode",
+      message: "RDO code is not set in the shop's tax profile",
+    });
+  }
+
+  // Aggregate valid receipts per buyer TIN (RELIEF detail lines)
+  const buyers = new Map<
+    string,
+    { name: string; address: string; exempt: number; zeroRated: number; taxable: number; outputTax: number }
+  >();
+
+  const journalRows: string[] = [];
+
+  for (const receipt of receipts) {
+    const receiptIssues = validateSalesListReceipt(receipt);
+    issues.push(...receiptIssues);
+
+    journalRows.push(
+      [
+        formatBirDate(receipt.issuedAt),
+        receipt.receiptNumber,
+        receipt.orderNumber,
+        receipt.buyerName,
+        receipt.buyerTin ?? "",
+        receipt.buyerAddress ?? "",
+        receipt.totalAmount.toFixed(2),
+        receipt.vatableSales.toFixed(2),
+        receipt.vatAmount.toFixed(2),
+        receipt.vatExemptSales.toFixed(2),
+        receipt.zeroRatedSales.toFixed(2),
+        receiptIssues.map((issue) => issue.message).join("; "),
+      ]
+        .map(csvField)
+        .join(","),
+    );
+
+    if (receiptIssues.length > 0) continue;
+
+    const tin = tinDigits(receipt.buyerTin!).slice(0, 9);
+    const buyer = buyers.get(tin) ?? {
+      name: receipt.buyerName,
+      address: receipt.buyerAddress!,
+      exempt: 0,
+      zeroRated: 0,
+      taxable: 0,
+      outputTax: 0,
+    };
+    buyer.exempt += receipt.vatExemptSales;
+    buyer.zeroRated += receipt.zeroRatedSales;
+    buyer.taxable += receipt.vatableSales;
+    buyer.outputTax += receipt.vatAmount;
+    buyers.set(tin, buyer);
+  }
+
+  const totals: SalesListTotals = {
+    exemptSales: 0,
+    zeroRatedSales: 0,
+    taxableSales: 0,
+    outputTax: 0,
+  };
+
+  const details: string[] = [];
+  for (const [tin, buyer] of buyers) {
+    totals.exemptSales += buyer.exempt;
+    totals.zeroRatedSales += buyer.zeroRated;
+    totals.taxableSales += buyer.taxable;
+    totals.outputTax += buyer.outputTax;
+
+    details.push(
+      [
+        "D",
+        "S",
+        datText(tin),
+        datText(buyer.name),
+        datText(""),
+        datText(""),
+        datText(""),
+        datText(buyer.address),
+        datText(""),
+        datAmount(buyer.exempt),
+        datAmount(buyer.zeroRated),
+        datAmount(buyer.taxable),
+        datAmount(buyer.outputTax),
+        sellerTin,
+        taxableMonth,
+      ].join(","),
+    );
+  }
+
+  totals.exemptSales = round2(totals.exemptSales);
+  totals.zeroRatedSales = round2(totals.zeroRatedSales);
+  totals.taxableSales = round2(totals.taxableSales);
+  totals.outputTax = round2(totals.outputTax);
+
+  const header = [
+    "H",
+    "S",
+    datText(sellerTin),
+    datText(seller.name),
+    datText(""),
+    datText(""),
+    datText(""),
+    datText(seller.name),
+    datText(seller.businessAddress),
+    datText(""),
+    datAmount(totals.exemptSales),
+    datAmount(totals.zeroRatedSales),
+    datAmount(totals.taxableSales),
+    datAmount(totals.outputTax),
+    seller.rdoCode ?? "",
+    taxableMonth,
+    "12", // Calendar-year filer
+  ].join(",");
+
+  const csvHeader = [
+    "Date",
+    "Receipt No.",
+    "Order No.",
+    "Buyer Name",
+    "Buyer TIN",
+    "Buyer Address",
+    "Gross Amount",
+    "VATable Sales",
+    "Output VAT",
+    "VAT-Exempt Sales",
+    "Zero-Rated Sales",
+    "Issues",
+  ].join(",");
+
+  return {
+    datFileName: `${sellerTin}S${monthYear}.DAT`,
+    dat: [header, ...details].join("\r\n") + "\r\n",
+    csvFileName: `sales-journal-${period.year}-Q${period.quarter}.csv`,
+    csv: [csvHeader, ...journalRows].join("\r\n") + "\r\n",
+    issues,
+    totals,
+    receiptCount: receipts.length,
+    buyerCount: buyers.size,
+  };
+}
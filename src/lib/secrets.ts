@@ -0,0 +1,159 @@
+/**
+ * Secrets Encryption
+ *
+ * Encrypts secrets stored in the database (marketplace OAuth tokens) with
+ * AES-256-GCM. Keys are configured as a comma-separated list of
+ * `<keyId>:<base64 32-byte key>` pairs:
+ * - TOKEN_ENCRYPTION_KEYS: the first key encrypts new values, the others
+ *   are only used to decrypt values written before a rotation
+ *
+ * Stored values look like `v1:<keyId>:<iv>:<authTag>:<ciphertext>` (base64url
+ * parts), so each value names the key that encrypted it. To rotate, put a new
+ * key first, deploy, and let the secret rotation worker re-encrypt rows still
+ * using an older key; the old key can be removed once nothing uses it.
+ *
+ * Each value is bound to a context (e.g. the shop and field it belongs to)
+ * as additional authenticated data, so a ciphertext copied to another row
+ * fails to decrypt. Values from before encryption existed (plain base64)
+ * are still read, and are re-encrypted by the rotation worker.
+ */
+
+import crypto from "crypto";
+
+const FORMAT_VERSION = "v1";
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const AUTH_TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Raised when a stored secret cannot be decrypted (unknown key, tampered
+ * value or wrong context)
+ */
+export class SecretDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretDecryptionError";
+  }
+}
+
+let cachedKeys: { source: string; keys: EncryptionKey[] } | null = null;
+
+/**
+ * Parse TOKEN_ENCRYPTION_KEYS (cached until the variable changes)
+ */
+function getKeys(): EncryptionKey[] {
+  const source = process.env.TOKEN_ENCRYPTION_KEYS ?? "";
+  if (cachedKeys?.source === source) {
+    return cachedKeys.keys;
+  }
+
+  const keys = source
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      const id = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), "base64");
+
+      if (separator <= 0 || !/^[A-Za-z0-9_-]+$/.test(id)) {
+        throw new Error("TOKEN_ENCRYPTION_KEYS entries must look like <keyId>:<base64 key>");
+      }
+      if (key.length !== KEY_BYTES) {
+        throw new Error(`Encryption key "${id}" must be ${KEY_BYTES} bytes (base64-encoded)`);
+      }
+
+      return { id, key };
+    });
+
+  if (keys.length === 0) {
+    throw new Error("TOKEN_ENCRYPTION_KEYS is not configured");
+  }
+
+  cachedKeys = { source, keys };
+  return keys;
+}
+
+/**
+ * ID of the key new values are encrypted with
+ */
+export function currentSecretKeyId(): string {
+  return getKeys()[0]!.id;
+}
+
+/**
+ * Encrypt a secret with the current key, bound to its context
+ */
+export function encryptSecret(plaintext: string, context: string): string {
+  const { id, key } = getKeys()[0]!;
+  const iv = crypto.randomBytes(IV_BYTES);
+
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(context, "utf-8"));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+
+  return [
+    FORMAT_VERSION,
+    id,
+    iv.toString("base64url"),
+    cipher.getAuthTag().toString("base64url"),
+    ciphertext.toString("base64url"),
+  ].join(":");
+}
+
+/**
+ * Decrypt a stored secret
+ * Legacy (unencrypted base64) values are decoded as-is
+ */
+export function decryptSecret(stored: string, context: string): string {
+  if (!stored.startsWith(`${FORMAT_VERSION}:`)) {
+    return Buffer.from(stored, "base64").toString("utf-8");
+  }
+
+  const [, keyId, iv, authTag, ciphertext] = stored.split(":");
+  if (!keyId || !iv || !authTag || ciphertext === undefined) {
+    throw new SecretDecryptionError("Malformed encrypted secret");
+  }
+
+  const key = getKeys().find((candidate) => candidate.id === keyId);
+  if (!key) {
+    throw new SecretDecryptionError(`Encryption key "${keyId}" is not configured`);
+  }
+
+  // GCM would otherwise accept a truncated tag, which is easier to forge
+  const tag = Buffer.from(authTag, "base64url");
+  if (tag.length !== AUTH_TAG_BYTES) {
+    throw new SecretDecryptionError("Malformed encrypted secret");
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key.key, Buffer.from(iv, "base64url"), {
+      authTagLength: AUTH_TAG_BYTES,
+    });
+    decipher.setAAD(Buffer.from(context, "utf-8"));
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64url")),
+      decipher.final(),
+    ]).toString("utf-8");
+  } catch {
+    throw new SecretDecryptionError(`Secret could not be decrypted with key "${keyId}"`);
+  }
+}
+
+/**
+ * Whether a stored secret should be re-encrypted with the current key
+ * (legacy value, or encrypted with a key that has since been rotated out)
+ */
+export function needsReencryption(stored: string): boolean {
+  if (!stored) {
+    return false; // Cleared secrets have nothing to protect
+  }
+  return !stored.startsWith(`${FORMAT_VERSION}:${currentSecretKeyId()}:`);
+}
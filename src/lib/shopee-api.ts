@@ -1,13 +1,72 @@
 import crypto from "crypto";
 import { db } from "~/server/db";
-
-interface ShopeeProduct {
+import { redis } from "~/lib/redis";
+import { takeToken, type TokenBucketConfig } from "~/lib/ratelimit";
+import { decryptSecret, encryptSecret } from "~/lib/secrets";
+import {
+  buildShopeeUrl,
+  getShopeePartnerConfig,
+  type ShopeeApiScope,
+  type ShopeePartnerConfig,
+  type ShopeeQueryValue,
+} from "~/lib/shopee-signing";
+import {
+  ShopeeAPIError,
+  ShopeeAuthError,
+  ShopeeRateLimitError,
+  ShopeeServerError,
+  toShopeeError,
+} from "~/lib/shopee-errors";
+import type { ShopeeOrderDetailItem } from "~/lib/order-items";
+
+// An item from the Shopee product list
+export interface ShopeeProduct {
   item_id: number;
   item_name: string;
   item_sku: string;
   stock: number;
   price: number;
   images?: string[];
+  has_model?: boolean; // Item has variants (models)
+}
+
+interface ShopeeModelListResponse {
+  error?: string;
+  message?: string;
+  response?: {
+    tier_variation: { name: string; option_list: { option: string }[] }[];
+    model: {
+      model_id: number;
+      model_sku: string; // "" when not set
+      tier_index: number[];
+      price_info?: { current_price: number; original_price: number }[];
+      stock_info_v2?: { summary_info?: { total_available_stock: number } };
+    }[];
+  };
+}
+
+// A variant (model) of a Shopee item
+export interface ShopeeProductModel {
+  modelId: string;
+  name: string; // Tier variation options, e.g. "Red, XL"
+  sku: string | null;
+  stock: number;
+  price: number;
+}
+
+// New stock for one model of an item ("0" for an item without variants)
+export interface ShopeeStockUpdate {
+  modelId: string;
+  stock: number;
+}
+
+interface ShopeeUpdateStockResponse {
+  error?: string;
+  message?: string;
+  response?: {
+    success_list: { model_id: number; stock: number }[];
+    failure_list: { model_id: number; failed_reason: string }[];
+  };
 }
 
 interface ShopeeProductListResponse {
@@ -21,72 +80,317 @@ interface ShopeeProductListResponse {
   };
 }
 
+export interface ShopeeOrderDetail {
+  order_sn: string;
+  order_status: string;
+  create_time: number;
+  update_time: number;
+  buyer_username?: string;
+  total_amount: number; // In pesos
+  recipient_address?: {
+    name?: string;
+    phone?: string;
+    full_address?: string;
+  };
+  item_list?: ShopeeOrderDetailItem[];
+}
+
+interface ShopeeOrderListResponse {
+  error?: string;
+  message?: string;
+  response?: {
+    order_list: { order_sn: string }[];
+    more: boolean;
+    next_cursor: string;
+  };
+}
+
+// Longest time range get_order_list accepts
+export const SHOPEE_ORDER_LIST_MAX_DAYS = 15;
+
+// Most order numbers get_order_detail accepts per call
+export const SHOPEE_ORDER_DETAIL_MAX_BATCH = 50;
+
+// Most models update_stock accepts per call
+export const SHOPEE_UPDATE_STOCK_MAX_MODELS = 50;
+
+// Refresh tokens are valid for 30 days and replaced on every refresh
+export const SHOPEE_REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Prefix of statusReason when the integration is UNHEALTHY because a refresh failed
+const TOKEN_REFRESH_FAILED_REASON = "Shopee access could not be renewed";
+
+// A refresh holding the per-shop lock longer than this is assumed dead; kept
+// well above TOKEN_REFRESH_TIMEOUT_MS so a live refresh never loses the lock
+const TOKEN_REFRESH_LOCK_SECONDS = 30;
+const TOKEN_REFRESH_WAIT_MS = 500;
+
+// The refresh call is sent once and abandoned after this
+const TOKEN_REFRESH_TIMEOUT_MS = 10_000;
+
+// Requests still waiting for Shopee after this are abandoned (and retried if allowed)
+const SHOPEE_REQUEST_TIMEOUT_MS = 30_000;
+
+// Attempts per request when Shopee throttles us or fails on its side
+const SHOPEE_MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+// Request budgets shared by every worker and server process (Redis token buckets)
+const PARTNER_RATE_LIMIT: TokenBucketConfig = { capacity: 20, refillPerSecond: 10 };
+const SHOP_RATE_LIMIT: TokenBucketConfig = { capacity: 5, refillPerSecond: 2 };
+
+// Query and body fields never written to logs
+const REDACTED_FIELDS = new Set(["access_token", "refresh_token", "sign", "code"]);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Full-jitter exponential backoff: random delay up to base * 2^(attempt - 1)
+ */
+function retryDelay(attempt: number): number {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+function redactUrl(url: URL): string {
+  const params = [...url.searchParams].map(
+    ([key, value]) => `${key}=${REDACTED_FIELDS.has(key) ? "[REDACTED]" : value}`
+  );
+  return `${url.pathname}?${params.join("&")}`;
+}
+
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [
+        key,
+        REDACTED_FIELDS.has(key) ? "[REDACTED]" : redact(field),
+      ])
+    );
+  }
+  return value;
+}
+
+export type ShopeeTokenField = "accessToken" | "refreshToken";
+
+// Binds each encrypted token to its shop and field
+function tokenContext(localShopId: string, field: ShopeeTokenField): string {
+  return `shopee:${localShopId}:${field}`;
+}
+
+/**
+ * Encrypt a token pair for storage on ShopeeIntegration
+ */
+export function encryptShopeeTokens(
+  localShopId: string,
+  tokens: { accessToken: string; refreshToken: string }
+): { accessToken: string; refreshToken: string } {
+  return {
+    accessToken: encryptSecret(tokens.accessToken, tokenContext(localShopId, "accessToken")),
+    refreshToken: encryptSecret(tokens.refreshToken, tokenContext(localShopId, "refreshToken")),
+  };
+}
+
+/**
+ * Decrypt a token stored on ShopeeIntegration
+ */
+export function decryptShopeeToken(
+  localShopId: string,
+  field: ShopeeTokenField,
+  stored: string
+): string {
+  return decryptSecret(stored, tokenContext(localShopId, field));
+}
+
 /**
  * Shopee API Client
  * Handles all Shopee Partner API requests with authentication
  */
 export class ShopeeAPIClient {
-  private partnerId: string;
-  private partnerKey: string;
-  private baseUrl: string;
+  private partner: ShopeePartnerConfig;
 
   constructor() {
-    const partnerId = process.env.SHOPEE_PARTNER_ID;
-    const partnerKey = process.env.SHOPEE_PARTNER_KEY;
-    const baseUrl = process.env.SHOPEE_API_BASE_URL;
-
-    if (!partnerId || !partnerKey || !baseUrl) {
-      throw new Error("Shopee API credentials not configured");
-    }
+    this.partner = getShopeePartnerConfig();
+  }
 
-    this.partnerId = partnerId;
-    this.partnerKey = partnerKey;
-    this.baseUrl = baseUrl;
+  /**
+   * Make a signed GET request (parameters in the query string)
+   */
+  private async get<T>(
+    path: string,
+    scope: ShopeeApiScope,
+    query: Record<string, ShopeeQueryValue> = {}
+  ): Promise<T> {
+    return this.request<T>("GET", path, scope, query);
   }
 
   /**
-   * Generate signature for Shopee API request
+   * Make a signed POST request (parameters in the JSON body)
    */
-  private generateSignature(path: string, timestamp: number, accessToken: string): string {
-    const baseString = `${this.partnerId}${path}${timestamp}${accessToken}`;
-    return crypto
-      .createHmac("sha256", this.partnerKey)
-      .update(baseString)
-      .digest("hex");
+  private async post<T>(
+    path: string,
+    scope: ShopeeApiScope,
+    body: Record<string, unknown>
+  ): Promise<T> {
+    return this.request<T>("POST", path, scope, {}, body);
   }
 
   /**
-   * Make authenticated request to Shopee API
+   * Send a request within the rate limits, retrying throttled and transient
+   * failures with jittered backoff
    */
-  private async makeRequest<T>(
+  private async request<T>(
+    method: "GET" | "POST",
     path: string,
-    shopId: string,
-    accessToken: string,
+    scope: ShopeeApiScope,
+    query: Record<string, ShopeeQueryValue>,
     body?: Record<string, unknown>
   ): Promise<T> {
-    const timestamp = Math.floor(Date.now() / 1000);
-    const signature = this.generateSignature(path, timestamp, accessToken);
-
-    const url = new URL(`${this.baseUrl}${path}`);
-    url.searchParams.set("partner_id", this.partnerId);
-    url.searchParams.set("timestamp", timestamp.toString());
-    url.searchParams.set("access_token", accessToken);
-    url.searchParams.set("shop_id", shopId);
-    url.searchParams.set("sign", signature);
-
-    const response = await fetch(url.toString(), {
-      method: body ? "POST" : "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: body ? JSON.stringify(body) : undefined,
+    for (let attempt = 1; ; attempt++) {
+      await this.waitForRateLimit(scope);
+
+      try {
+        // Signed per attempt: Shopee rejects stale timestamps
+        const url = buildShopeeUrl(this.partner, path, scope, query);
+        return await this.send<T>(method, url, body);
+      } catch (error) {
+        if (!(error instanceof ShopeeAPIError) || !error.retryable || attempt >= SHOPEE_MAX_ATTEMPTS) {
+          throw error;
+        }
+
+        const delay =
+          error instanceof ShopeeRateLimitError && error.retryAfterMs !== null
+            ? error.retryAfterMs
+            : retryDelay(attempt);
+        console.warn(
+          `⚠️  [Shopee API] ${method} ${path} failed (${error.message}), retry ${attempt}/${SHOPEE_MAX_ATTEMPTS - 1} in ${delay}ms`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Wait for a token from the partner-wide bucket, then the shop's bucket
+   */
+  private async waitForRateLimit(scope: ShopeeApiScope): Promise<void> {
+    const buckets: [string, TokenBucketConfig][] = [
+      [`shopee:partner:${this.partner.partnerId}`, PARTNER_RATE_LIMIT],
+    ];
+    if (scope.level === "shop") {
+      buckets.push([`shopee:shop:${scope.shopId}`, SHOP_RATE_LIMIT]);
+    }
+
+    for (const [key, config] of buckets) {
+      let wait = await takeToken(key, config);
+      while (wait > 0) {
+        await sleep(wait);
+        wait = await takeToken(key, config);
+      }
+    }
+  }
+
+  /**
+   * Send one request and map failures (HTTP status or Shopee `error` code)
+   * to typed errors. Secrets are redacted from the log lines.
+   */
+  private async send<T>(
+    method: "GET" | "POST",
+    url: URL,
+    body?: Record<string, unknown>,
+    timeoutMs = SHOPEE_REQUEST_TIMEOUT_MS
+  ): Promise<T> {
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+      response = await fetch(url.toString(), {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: body ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      console.error(`❌ [Shopee API] ${method} ${redactUrl(url)} unreachable:`, error);
+      throw new ShopeeServerError(
+        `Shopee API unreachable: ${error instanceof Error ? error.message : String(error)}`,
+        null,
+        null
+      );
+    }
+
+    const data = (await response.json().catch(() => null)) as
+      | (T & { error?: string; message?: string; request_id?: string })
+      | null;
+
+    console.log(
+      `[Shopee API] ${method} ${redactUrl(url)} ${response.status} (${Date.now() - startedAt}ms)`
+    );
+
+    if (!response.ok || data?.error) {
+      const retryAfter = Number(response.headers.get("retry-after"));
+      const error = toShopeeError(
+        response.status,
+        data,
+        retryAfter > 0 ? retryAfter * 1000 : null
+      );
+      console.error(`❌ [Shopee API] ${method} ${url.pathname} failed:`, {
+        status: response.status,
+        request: body ? redact(body) : undefined,
+        response: redact(data),
+      });
+      throw error;
+    }
+
+    return data as T;
+  }
+
+  /**
+   * Call a shop-level API for a local shop
+   * An auth error is retried once after refreshing the shop's access token
+   */
+  private async withShopScope<T>(
+    localShopId: string,
+    call: (scope: Extract<ShopeeApiScope, { level: "shop" }>) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await call(await this.getShopScope(localShopId));
+    } catch (error) {
+      if (!(error instanceof ShopeeAuthError)) {
+        throw error;
+      }
+
+      console.log(`🔄 [Shopee API] Access token rejected for shop ${localShopId}, refreshing`);
+      await this.refreshAccessToken(localShopId);
+      return call(await this.getShopScope(localShopId));
+    }
+  }
+
+  /**
+   * Load a connected integration's shop-level signing scope
+   * (Shopee shop ID and decrypted access token)
+   */
+  private async getShopScope(
+    localShopId: string
+  ): Promise<Extract<ShopeeApiScope, { level: "shop" }>> {
+    const integration = await db.shopeeIntegration.findUnique({
+      where: { shopId: localShopId },
     });
 
-    if (!response.ok) {
-      throw new Error(`Shopee API error: ${response.status} ${response.statusText}`);
+    if (!integration || integration.deletedAt) {
+      throw new Error("Shopee integration not found or disconnected");
     }
 
-    return response.json() as Promise<T>;
+    return {
+      level: "shop",
+      shopId: integration.shopeeShopId,
+      accessToken: decryptShopeeToken(localShopId, "accessToken", integration.accessToken),
+    };
   }
 
   /**
@@ -103,28 +407,13 @@ export class ShopeeAPIClient {
     nextOffset: number;
     totalCount: number;
   }> {
-    // Get integration to retrieve access token and shopeeShopId
-    const integration = await db.shopeeIntegration.findUnique({
-      where: { shopId: localShopId },
-    });
-
-    if (!integration || integration.deletedAt) {
-      throw new Error("Shopee integration not found or disconnected");
-    }
-
-    // Decrypt access token (simple base64 decode for MVP)
-    const accessToken = Buffer.from(integration.accessToken, "base64").toString("utf-8");
-
     const path = "/api/v2/product/get_item_list";
-    const response = await this.makeRequest<ShopeeProductListResponse>(
-      path,
-      integration.shopeeShopId,
-      accessToken,
-      {
+    const response = await this.withShopScope(localShopId, (scope) =>
+      this.get<ShopeeProductListResponse>(path, scope, {
         offset,
         page_size: limit,
         item_status: ["NORMAL"], // Only get active products
-      }
+      })
     );
 
     if (response.error || !response.response) {
@@ -147,34 +436,164 @@ export class ShopeeAPIClient {
     localShopId: string,
     itemIds: number[]
   ): Promise<ShopeeProduct[]> {
-    const integration = await db.shopeeIntegration.findUnique({
-      where: { shopId: localShopId },
-    });
+    const path = "/api/v2/product/get_item_base_info";
+    const response = await this.withShopScope(localShopId, (scope) =>
+      this.get<{
+        response?: { item_list: ShopeeProduct[] };
+        error?: string;
+        message?: string;
+      }>(path, scope, {
+        item_id_list: itemIds.join(","),
+      })
+    );
 
-    if (!integration || integration.deletedAt) {
-      throw new Error("Shopee integration not found or disconnected");
+    if (response.error || !response.response) {
+      throw new Error(response.message ?? "Failed to fetch product details");
     }
 
-    const accessToken = Buffer.from(integration.accessToken, "base64").toString("utf-8");
+    return response.response.item_list;
+  }
 
-    const path = "/api/v2/product/get_item_base_info";
-    const response = await this.makeRequest<{
-      response?: { item_list: ShopeeProduct[] };
-      error?: string;
-      message?: string;
-    }>(path, integration.shopeeShopId, accessToken, {
-      item_id_list: itemIds,
-    });
+  /**
+   * Get the variants (models) of an item; empty when the item has none
+   * https://open.shopee.com/documents/v2/v2.product.get_model_list?module=89&type=1
+   */
+  async getModelList(
+    localShopId: string,
+    itemId: number
+  ): Promise<ShopeeProductModel[]> {
+    const path = "/api/v2/product/get_model_list";
+    const response = await this.withShopScope(localShopId, (scope) =>
+      this.get<ShopeeModelListResponse>(path, scope, { item_id: itemId })
+    );
 
     if (response.error || !response.response) {
-      throw new Error(response.message ?? "Failed to fetch product details");
+      throw new Error(response.message ?? "Failed to fetch product models");
     }
 
-    return response.response.item_list;
+    const tiers = response.response.tier_variation;
+    return response.response.model.map((model) => ({
+      modelId: model.model_id.toString(),
+      name: model.tier_index
+        .map((option, tier) => tiers[tier]?.option_list[option]?.option)
+        .filter(Boolean)
+        .join(", "),
+      sku: model.model_sku || null,
+      stock: model.stock_info_v2?.summary_info?.total_available_stock ?? 0,
+      price: model.price_info?.[0]?.current_price ?? 0,
+    }));
+  }
+
+  /**
+   * Set the seller stock of up to SHOPEE_UPDATE_STOCK_MAX_MODELS models of an item
+   * Returns Shopee's reason for each model it rejected
+   * https://open.shopee.com/documents/v2/v2.product.update_stock?module=89&type=1
+   */
+  async updateStock(
+    localShopId: string,
+    itemId: string,
+    updates: ShopeeStockUpdate[]
+  ): Promise<{ modelId: string; reason: string }[]> {
+    const path = "/api/v2/product/update_stock";
+    const response = await this.withShopScope(localShopId, (scope) =>
+      this.post<ShopeeUpdateStockResponse>(path, scope, {
+        item_id: Number(itemId),
+        stock_list: updates.map((update) => ({
+          model_id: Number(update.modelId),
+          seller_stock: [{ stock: update.stock }],
+        })),
+      })
+    );
+
+    if (response.error || !response.response) {
+      throw new Error(response.message ?? "Failed to update stock");
+    }
+
+    return response.response.failure_list.map((failure) => ({
+      modelId: failure.model_id.toString(),
+      reason: failure.failed_reason,
+    }));
+  }
+
+  /**
+   * Get order numbers created (or updated) in a time range (paginated by cursor)
+   * The range may span at most SHOPEE_ORDER_LIST_MAX_DAYS
+   * https://open.shopee.com/documents/v2/v2.order.get_order_list?module=94&type=1
+   */
+  async getOrderList(
+    localShopId: string,
+    timeFrom: Date,
+    timeTo: Date,
+    cursor = "",
+    pageSize = 100,
+    timeRangeField: "create_time" | "update_time" = "create_time"
+  ): Promise<{
+    orderNumbers: string[];
+    hasNextPage: boolean;
+    nextCursor: string;
+  }> {
+    const path = "/api/v2/order/get_order_list";
+    const response = await this.withShopScope(localShopId, (scope) =>
+      this.get<ShopeeOrderListResponse>(path, scope, {
+        time_range_field: timeRangeField,
+        time_from: Math.floor(timeFrom.getTime() / 1000),
+        time_to: Math.floor(timeTo.getTime() / 1000),
+        page_size: pageSize,
+        cursor,
+      })
+    );
+
+    if (response.error || !response.response) {
+      throw new Error(response.message ?? "Failed to fetch orders");
+    }
+
+    return {
+      orderNumbers: response.response.order_list.map((order) => order.order_sn),
+      hasNextPage: response.response.more,
+      nextCursor: response.response.next_cursor,
+    };
+  }
+
+  /**
+   * Get full order details (up to SHOPEE_ORDER_DETAIL_MAX_BATCH orders)
+   * https://open.shopee.com/documents/v2/v2.order.get_order_detail?module=94&type=1
+   */
+  async getOrderDetails(
+    localShopId: string,
+    orderNumbers: string[]
+  ): Promise<ShopeeOrderDetail[]> {
+    const path = "/api/v2/order/get_order_detail";
+    const response = await this.withShopScope(localShopId, (scope) =>
+      this.get<{
+        response?: { order_list: ShopeeOrderDetail[] };
+        error?: string;
+        message?: string;
+      }>(path, scope, {
+        order_sn_list: orderNumbers.join(","),
+        response_optional_fields: "buyer_username,total_amount,recipient_address,item_list",
+      })
+    );
+
+    if (response.error || !response.response) {
+      throw new Error(response.message ?? "Failed to fetch order details");
+    }
+
+    return response.response.order_list;
   }
 
   /**
    * Refresh access token when expired
+   *
+   * Shopee invalidates a refresh token once it is used, so two workers
+   * refreshing the same shop at once would leave one of them (and the stored
+   * token) with a dead refresh token. Refreshes are serialized per shop with a
+   * Redis lock; a caller that finds the lock taken waits for the holder and
+   * reuses its result, and a caller whose tokens were refreshed while it
+   * waited does not refresh again (a refresh always moves expiresAt; key
+   * rotation re-encrypts tokens without touching it).
+   *
+   * A failed refresh marks the integration UNHEALTHY with the reason; the
+   * next successful refresh marks it HEALTHY again.
    */
   async refreshAccessToken(localShopId: string): Promise<void> {
     const integration = await db.shopeeIntegration.findUnique({
@@ -185,35 +604,104 @@ export class ShopeeAPIClient {
       throw new Error("Shopee integration not found or disconnected");
     }
 
-    const refreshToken = Buffer.from(integration.refreshToken, "base64").toString("utf-8");
+    const lockKey = `shopee:token-refresh:${localShopId}`;
+    const lockId = crypto.randomUUID();
 
-    const timestamp = Math.floor(Date.now() / 1000);
-    const path = "/api/v2/auth/access_token/get";
-    const baseString = `${this.partnerId}${path}${timestamp}`;
-    const signature = crypto
-      .createHmac("sha256", this.partnerKey)
-      .update(baseString)
-      .digest("hex");
-
-    const response = await fetch(`${this.baseUrl}${path}`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        partner_id: parseInt(this.partnerId),
-        shop_id: parseInt(integration.shopeeShopId),
-        refresh_token: refreshToken,
-      }),
-    });
+    if (!(await redis.setIfNotExists(lockKey, lockId, TOKEN_REFRESH_LOCK_SECONDS))) {
+      // Another worker is refreshing this shop, wait for it to finish
+      const deadline = Date.now() + TOKEN_REFRESH_LOCK_SECONDS * 1000;
+      while ((await redis.get(lockKey)) && Date.now() < deadline) {
+        await sleep(TOKEN_REFRESH_WAIT_MS);
+      }
+
+      const latest = await db.shopeeIntegration.findUnique({
+        where: { shopId: localShopId },
+        select: { expiresAt: true },
+      });
+      if (latest && latest.expiresAt.getTime() !== integration.expiresAt.getTime()) {
+        return;
+      }
+      throw new Error(`Token refresh for shop ${localShopId} is already in progress`);
+    }
+
+    try {
+      // Re-read under the lock: the token may have been refreshed since
+      const current = await db.shopeeIntegration.findUnique({
+        where: { shopId: localShopId },
+      });
+
+      if (!current || current.deletedAt) {
+        throw new Error("Shopee integration not found or disconnected");
+      }
+
+      if (current.expiresAt.getTime() !== integration.expiresAt.getTime()) {
+        return;
+      }
+
+      try {
+        await this.requestTokenRefresh(localShopId, current.shopeeShopId, current.refreshToken);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await db.shopeeIntegration.update({
+          where: { shopId: localShopId },
+          data: {
+            status: "UNHEALTHY",
+            statusReason: `${TOKEN_REFRESH_FAILED_REASON}: ${message}. Reconnect Shopee if this continues.`,
+            failureCount: { increment: 1 },
+          },
+        });
+        throw error;
+      }
 
-    const data = await response.json() as {
+      // Recover from an earlier failed refresh (other reasons are left to their owners)
+      await db.shopeeIntegration.updateMany({
+        where: {
+          shopId: localShopId,
+          statusReason: { startsWith: TOKEN_REFRESH_FAILED_REASON },
+        },
+        data: { status: "HEALTHY", statusReason: null, failureCount: 0 },
+      });
+    } finally {
+      // Only release our own lock (it may have expired and been taken over)
+      if ((await redis.get(lockKey)) === lockId) {
+        await redis.del(lockKey);
+      }
+    }
+  }
+
+  /**
+   * Exchange a refresh token for new tokens and store them
+   * https://open.shopee.com/documents/v2/v2.public.refresh_access_token?module=104&type=1
+   */
+  private async requestTokenRefresh(
+    localShopId: string,
+    shopeeShopId: string,
+    encryptedRefreshToken: string
+  ): Promise<void> {
+    const refreshToken = decryptShopeeToken(localShopId, "refreshToken", encryptedRefreshToken);
+
+    // Sent once, without the retries of post(): Shopee spends the refresh token
+    // on the first request it receives, so a retry after a lost response would
+    // be rejected. The timeout keeps the call inside the refresh lock.
+    const path = "/api/v2/auth/access_token/get";
+    const scope: ShopeeApiScope = { level: "public" };
+    await this.waitForRateLimit(scope);
+    const data = await this.send<{
       access_token?: string;
       refresh_token?: string;
       expire_in?: number;
       error?: string;
       message?: string;
-    };
+    }>(
+      "POST",
+      buildShopeeUrl(this.partner, path, scope),
+      {
+        partner_id: parseInt(this.partner.partnerId),
+        shop_id: parseInt(shopeeShopId),
+        refresh_token: refreshToken,
+      },
+      TOKEN_REFRESH_TIMEOUT_MS
+    );
 
     if (data.error || !data.access_token) {
       throw new Error(data.message ?? "Failed to refresh token");
@@ -223,9 +711,12 @@ export class ShopeeAPIClient {
     await db.shopeeIntegration.update({
       where: { shopId: localShopId },
       data: {
-        accessToken: Buffer.from(data.access_token).toString("base64"),
-        refreshToken: Buffer.from(data.refresh_token!).toString("base64"),
+        ...encryptShopeeTokens(localShopId, {
+          accessToken: data.access_token,
+          refreshToken: data.refresh_token!,
+        }),
         expiresAt: new Date(Date.now() + (data.expire_in! * 1000)),
+        refreshExpiresAt: new Date(Date.now() + SHOPEE_REFRESH_TOKEN_TTL_MS),
       },
     });
   }
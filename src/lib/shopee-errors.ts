@@ -0,0 +1,96 @@
+/**
+ * Shopee API Errors
+ *
+ * Shopee reports failures either as an HTTP status or as a 200 response with
+ * a non-empty `error` code (e.g. `error_auth`, `error_param`). Both are
+ * mapped to typed errors so callers can react to the kind of failure:
+ * - ShopeeAuthError: access token invalid or expired (refresh and retry once)
+ * - ShopeeRateLimitError: throttled (retry after backoff)
+ * - ShopeeServerError: 5xx, Shopee-side or network failure (retry after backoff)
+ * - ShopeeRequestError: anything else (bad parameters, not found, permission);
+ *   retrying will not help
+ */
+
+export class ShopeeAPIError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string | null, // Shopee `error` code, when given
+    public readonly status: number | null, // HTTP status, null for network failures
+    public readonly retryable: boolean,
+    public readonly requestId: string | null = null,
+  ) {
+    super(message);
+    this.name = "ShopeeAPIError";
+  }
+}
+
+export class ShopeeAuthError extends ShopeeAPIError {
+  constructor(message: string, code: string | null, status: number | null, requestId?: string | null) {
+    super(message, code, status, false, requestId);
+    this.name = "ShopeeAuthError";
+  }
+}
+
+export class ShopeeRateLimitError extends ShopeeAPIError {
+  constructor(
+    message: string,
+    code: string | null,
+    status: number | null,
+    requestId?: string | null,
+    public readonly retryAfterMs: number | null = null,
+  ) {
+    super(message, code, status, true, requestId);
+    this.name = "ShopeeRateLimitError";
+  }
+}
+
+export class ShopeeServerError extends ShopeeAPIError {
+  constructor(message: string, code: string | null, status: number | null, requestId?: string | null) {
+    super(message, code, status, true, requestId);
+    this.name = "ShopeeServerError";
+  }
+}
+
+export class ShopeeRequestError extends ShopeeAPIError {
+  constructor(message: string, code: string | null, status: number | null, requestId?: string | null) {
+    super(message, code, status, false, requestId);
+    this.name = "ShopeeRequestError";
+  }
+}
+
+// Shopee error codes for an invalid or expired access token
+// ("invalid_acceess_token" is Shopee's own spelling on some endpoints)
+const AUTH_ERROR_CODES = new Set([
+  "error_auth",
+  "invalid_access_token",
+  "invalid_acceess_token",
+  "error_invalid_token",
+]);
+
+const RATE_LIMIT_ERROR_CODES = new Set(["error_too_many_request", "error_rate_limit"]);
+
+const SERVER_ERROR_CODES = new Set(["error_server", "error_inner", "error_network", "error_busy"]);
+
+/**
+ * Map a failed response to a typed error
+ */
+export function toShopeeError(
+  status: number,
+  body: { error?: string; message?: string; request_id?: string } | null,
+  retryAfterMs: number | null = null,
+): ShopeeAPIError {
+  const code = body?.error?.length ? body.error : null; // Shopee sends "" on success
+  const requestId = body?.request_id ?? null;
+  const message = `Shopee API error: ${code ?? status}${body?.message ? ` - ${body.message}` : ""}`;
+
+  if (status === 401 || (code && AUTH_ERROR_CODES.has(code))) {
+    return new ShopeeAuthError(message, code, status, requestId);
+  }
+  if (status === 429 || (code && RATE_LIMIT_ERROR_CODES.has(code))) {
+    return new ShopeeRateLimitError(message, code, status, requestId, retryAfterMs);
+  }
+  if (status >= 500 || (code && SERVER_ERROR_CODES.has(code))) {
+    return new ShopeeServerError(message, code, status, requestId);
+  }
+  return new ShopeeRequestError(message, code, status, requestId);
+}
@@ -0,0 +1,241 @@
+/**
+ * Shopee Order Sync
+ *
+ * Applies a Shopee order snapshot, from a webhook or the order API (backfill
+ * and reconciliation), to the Order and OrderItem tables so every path
+ * follows the same rules:
+ * - Line items are replaced on every update that carries them (status-only
+ *   pushes keep the stored lines) and linked to the imported Product with the
+ *   same Shopee item ID. Receipts keep their own copy of the lines they were
+ *   issued with (ReceiptLine), so this never changes an issued receipt
+ * - Snapshots older than the order's last applied update_time are ignored,
+ *   so out-of-order data cannot regress the order status
+ * - Cancelling an order that already has a receipt does not touch the order;
+ *   the receipt is flagged for voiding review instead (see receipt.voidReceipt)
+ * - Lines for listings linked to a master SKU are taken from its stock, and
+ *   given back on cancellation (see ~/lib/master-sku)
+ *
+ * Orders are matched by Shopee order ID or order number (the order API only
+ * knows the order number).
+ */
+
+import { db } from "~/server/db";
+import { parseShopeeOrderDetailItems, type OrderItemData } from "~/lib/order-items";
+import type { ShopeeOrderDetail } from "~/lib/shopee-api";
+import { isStaleUpdate } from "~/lib/shopee-webhook";
+import { applyOrderToMasterStock } from "~/lib/master-sku";
+import { addInventorySyncJob } from "~/server/jobs/queue";
+import type { Platform } from "../../generated/prisma";
+
+export interface ShopeeOrderSnapshot {
+  shopeeOrderId: string;
+  orderNumber: string;
+  status: string;
+  cancelled: boolean;
+  totalAmount: number;
+  customerName: string;
+  customerEmail: string | null;
+  customerPhone: string | null;
+  shippingAddress: string | null;
+  orderDate: Date;
+  updateTime: Date | null; // Shopee update_time, null when unknown
+  items?: OrderItemData[]; // Absent when the update carries no line items
+}
+
+// APPLIED: order saved; STALE: ignored as older; VOID_REVIEW: receipt flagged instead
+export type ShopeeOrderOutcome = "APPLIED" | "STALE" | "VOID_REVIEW";
+
+/**
+ * Convert an order API order (v2.order.get_order_detail) into a snapshot
+ */
+export function toShopeeOrderSnapshot(order: ShopeeOrderDetail): ShopeeOrderSnapshot {
+  return {
+    // The order API identifies orders by order number only
+    shopeeOrderId: order.order_sn,
+    orderNumber: order.order_sn,
+    status: order.order_status,
+    cancelled: order.order_status === "CANCELLED",
+    totalAmount: order.total_amount,
+    customerName: order.buyer_username ?? order.recipient_address?.name ?? "Unknown",
+    customerEmail: null,
+    customerPhone: order.recipient_address?.phone ?? null,
+    shippingAddress: order.recipient_address?.full_address ?? null,
+    orderDate: new Date(order.create_time * 1000),
+    updateTime: new Date(order.update_time * 1000),
+    items: parseShopeeOrderDetailItems(order.item_list),
+  };
+}
+
+function findOrderWhere(shopId: string, snapshot: ShopeeOrderSnapshot) {
+  return {
+    shopId,
+    OR: [
+      { shopeeOrderId: snapshot.shopeeOrderId },
+      { orderNumber: snapshot.orderNumber },
+    ],
+  };
+}
+
+/**
+ * Flag the receipt of a cancelled order for voiding review
+ * Returns false when there is no live receipt (normal update applies)
+ */
+async function flagReceiptForVoidReview(
+  shopId: string,
+  snapshot: ShopeeOrderSnapshot,
+): Promise<boolean> {
+  return db.$transaction(async (tx) => {
+    const order = await tx.order.findFirst({
+      where: findOrderWhere(shopId, snapshot),
+      include: {
+        receipts: {
+          where: { status: { not: "VOIDED" } },
+          select: { id: true, status: true, receiptNumber: true },
+        },
+      },
+    });
+
+    // No receipt, or only voided ones: the cancellation can be applied as usual
+    const receipt = order?.receipts[0];
+    if (!receipt) {
+      return false;
+    }
+
+    if (receipt.status === "ISSUED") {
+      await tx.receipt.update({
+        where: { id: receipt.id },
+        data: { status: "VOID_REVIEW" },
+      });
+      await tx.receiptEvent.create({
+        data: {
+          receiptId: receipt.id,
+          type: "VOID_REVIEW_REQUESTED",
+          reason: `Shopee order ${snapshot.orderNumber} cancelled`,
+        },
+      });
+      console.log(`⚠️  Receipt ${receipt.receiptNumber} flagged for voiding review`);
+    } else {
+      console.log(`⏭️  Receipt ${receipt.receiptNumber} already under voiding review`);
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Create or update an order from a Shopee snapshot and replace its lines
+ */
+export async function applyShopeeOrder(
+  shopId: string,
+  platform: Platform,
+  snapshot: ShopeeOrderSnapshot,
+): Promise<ShopeeOrderOutcome> {
+  const { updateTime } = snapshot;
+
+  // Never regress the order to an older state
+  const current = await db.order.findFirst({
+    where: findOrderWhere(shopId, snapshot),
+    select: { platformUpdatedAt: true },
+  });
+  if (isStaleUpdate(current?.platformUpdatedAt ?? null, updateTime)) {
+    return "STALE";
+  }
+
+  // A cancelled order with a live receipt needs a human to void the receipt
+  if (snapshot.cancelled && (await flagReceiptForVoidReview(shopId, snapshot))) {
+    return "VOID_REVIEW";
+  }
+
+  // Link lines to imported products by Shopee item ID, taking their tax classification
+  const { items } = snapshot;
+  const itemIds = (items ?? []).flatMap((item) =>
+    item.platformItemId ? [item.platformItemId] : [],
+  );
+  const products = itemIds.length
+    ? await db.product.findMany({
+        where: { shopId, shopeeProductId: { in: itemIds } },
+        select: { id: true, shopeeProductId: true, taxClassification: true },
+      })
+    : [];
+  const productsByItemId = new Map(products.map((product) => [product.shopeeProductId, product]));
+
+  let listingsChanged = false;
+  const saved = await db.$transaction(async (tx) => {
+    const existing = await tx.order.findFirst({
+      where: findOrderWhere(shopId, snapshot),
+      select: { id: true },
+    });
+
+    let orderId: string;
+    if (existing) {
+      // Re-checked on write: a newer update may have been applied meanwhile
+      const updated = await tx.order.updateMany({
+        where: {
+          id: existing.id,
+          ...(updateTime && {
+            OR: [{ platformUpdatedAt: null }, { platformUpdatedAt: { lte: updateTime } }],
+          }),
+        },
+        data: {
+          status: snapshot.status,
+          totalAmount: snapshot.totalAmount,
+          ...(updateTime && { platformUpdatedAt: updateTime }),
+        },
+      });
+      if (updated.count === 0) {
+        return false;
+      }
+      orderId = existing.id;
+    } else {
+      const created = await tx.order.create({
+        data: {
+          shopId,
+          platform,
+          shopeeOrderId: snapshot.shopeeOrderId,
+          orderNumber: snapshot.orderNumber,
+          totalAmount: snapshot.totalAmount,
+          customerName: snapshot.customerName,
+          customerEmail: snapshot.customerEmail,
+          customerPhone: snapshot.customerPhone,
+          shippingAddress: snapshot.shippingAddress,
+          orderDate: snapshot.orderDate,
+          status: snapshot.status,
+          platformUpdatedAt: updateTime,
+        },
+      });
+      orderId = created.id;
+    }
+
+    if (items) {
+      await tx.orderItem.deleteMany({ where: { orderId } });
+      await tx.orderItem.createMany({
+        data: items.map((item) => {
+          const product = item.platformItemId ? productsByItemId.get(item.platformItemId) : undefined;
+          return {
+            ...item,
+            orderId,
+            productId: product?.id ?? null,
+            taxClassification: product?.taxClassification ?? null,
+          };
+        }),
+      });
+    }
+
+    // Status-only updates leave the lines, and so the stock they hold, as they were
+    if (items || snapshot.cancelled) {
+      listingsChanged = await applyOrderToMasterStock(tx, orderId, snapshot.cancelled);
+    }
+    return true;
+  });
+
+  if (listingsChanged) {
+    try {
+      await addInventorySyncJob({ shopId });
+    } catch (queueError) {
+      console.error(`[Shopee Orders] Failed to queue inventory sync for shop ${shopId}:`, queueError);
+      // Stays PENDING; pushed with the shop's next sync
+    }
+  }
+
+  return saved ? "APPLIED" : "STALE";
+}
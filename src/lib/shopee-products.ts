@@ -0,0 +1,128 @@
+/**
+ * Shopee Product Variants
+ *
+ * Most Shopee listings have models (size/color combinations) with their own
+ * SKU, stock and price. They are stored as ProductVariant rows under the
+ * Product for the item. A product with variants has its stock and price
+ * rolled up from them, so order lines, reconciliation and reports that only
+ * look at Product keep working:
+ * - Product.stock: sum of variant stock
+ * - Product.price: lowest variant price ("from" price)
+ *
+ * Products without variants keep their own stock and price.
+ *
+ * Stock changes are recorded in the stock movement ledger (see ~/lib/stock).
+ */
+
+import { db } from "~/server/db";
+import type { ShopeeAPIClient, ShopeeProduct, ShopeeProductModel } from "~/lib/shopee-api";
+import { closeStock, setStock, type StockMovementInput } from "~/lib/stock";
+import type { Prisma } from "../../generated/prisma";
+
+/**
+ * Recompute a product's stock and price from its variants
+ * Does nothing for products without variants
+ */
+export async function rollUpVariants(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  movement: StockMovementInput,
+): Promise<void> {
+  const totals = await tx.productVariant.aggregate({
+    where: { productId },
+    _count: { _all: true },
+    _sum: { stock: true },
+    _min: { price: true },
+  });
+
+  if (totals._count._all === 0) {
+    return;
+  }
+
+  await tx.product.update({
+    where: { id: productId },
+    data: { price: totals._min.price ?? 0 },
+  });
+  await setStock(tx, { productId }, totals._sum.stock ?? 0, movement);
+}
+
+/**
+ * Replace a product's variants with its current Shopee models and roll up
+ * Models no longer on Shopee are removed, their stock closed first
+ */
+export async function syncProductVariants(
+  productId: string,
+  models: ShopeeProductModel[],
+  movement: StockMovementInput,
+): Promise<void> {
+  await db.$transaction(async (tx) => {
+    const removed = await tx.productVariant.findMany({
+      where: {
+        productId,
+        shopeeModelId: { notIn: models.map((model) => model.modelId) },
+      },
+      select: { id: true },
+    });
+    for (const variant of removed) {
+      await closeStock(
+        tx,
+        { productId, variantId: variant.id },
+        { reference: movement.reference, reason: "No longer on Shopee" },
+      );
+    }
+    await tx.productVariant.deleteMany({
+      where: { id: { in: removed.map((variant) => variant.id) } },
+    });
+
+    for (const model of models) {
+      const fields = {
+        name: model.name,
+        sku: model.sku,
+        price: model.price,
+      };
+      // New variants start at zero so their opening stock is a movement
+      const variant = await tx.productVariant.upsert({
+        where: {
+          productId_shopeeModelId: { productId, shopeeModelId: model.modelId },
+        },
+        create: { productId, shopeeModelId: model.modelId, ...fields, stock: 0 },
+        update: fields,
+      });
+      await setStock(tx, { productId, variantId: variant.id }, model.stock, movement);
+    }
+
+    await rollUpVariants(tx, productId, movement);
+  });
+}
+
+/**
+ * Create or update the Product for a Shopee item, then its variants
+ * New products start at zero so their opening stock is a movement
+ */
+export async function importShopeeProduct(
+  client: ShopeeAPIClient,
+  shopId: string,
+  item: ShopeeProduct,
+  movement: StockMovementInput,
+): Promise<void> {
+  const fields = {
+    name: item.item_name,
+    sku: item.item_sku || null,
+    price: item.price,
+    imageUrl: item.images?.[0] ?? null,
+  };
+  const product = await db.product.upsert({
+    where: {
+      shopId_shopeeProductId: { shopId, shopeeProductId: item.item_id.toString() },
+    },
+    create: { shopId, platform: "SHOPEE", shopeeProductId: item.item_id.toString(), ...fields },
+    update: fields,
+  });
+  await db.$transaction((tx) => setStock(tx, { productId: product.id }, item.stock, movement));
+
+  // Variant totals replace the item's stock and price
+  if (item.has_model !== false) {
+    const models = await client.getModelList(shopId, item.item_id);
+    await syncProductVariants(product.id, models, movement);
+  }
+}
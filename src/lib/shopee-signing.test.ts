@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  buildShopeeUrl,
+  shopeeSignatureBaseString,
+  signShopeeRequest,
+  type ShopeeApiScope,
+} from "./shopee-signing";
+
+// Expected signatures computed independently:
+// printf %s "<base string>" | openssl dgst -sha256 -hmac "<partner key>"
+const partner = {
+  partnerId: "1000001",
+  partnerKey: "4c6f63616c54657374506172746e65724b6579",
+  baseUrl: "https://partner.test-stable.shopeemobile.com",
+};
+const timestamp = 1700000000;
+
+const vectors: {
+  level: string;
+  path: string;
+  scope: ShopeeApiScope;
+  baseString: string;
+  sign: string;
+}[] = [
+  {
+    level: "public",
+    path: "/api/v2/auth/token/get",
+    scope: { level: "public" },
+    baseString: "1000001/api/v2/auth/token/get1700000000",
+    sign: "0736dd16636fef5db5800029214f48c83bffc6801498049038d92cf7dcc07e0d",
+  },
+  {
+    level: "shop",
+    path: "/api/v2/product/get_item_list",
+    scope: { level: "shop", accessToken: "access-token-abc", shopId: "220033" },
+    baseString: "1000001/api/v2/product/get_item_list1700000000access-token-abc220033",
+    sign: "aa4dda128c250af71d5e1070939fc3dc525f795d3a248261048e0777588b730b",
+  },
+  {
+    level: "merchant",
+    path: "/api/v2/merchant/get_merchant_info",
+    scope: { level: "merchant", accessToken: "access-token-abc", merchantId: "330044" },
+    baseString: "1000001/api/v2/merchant/get_merchant_info1700000000access-token-abc330044",
+    sign: "d12e59285c624dd991170a358d45a9aeafde419000adcb0145c204ef538c651a",
+  },
+];
+
+void describe("Shopee request signing", () => {
+  for (const vector of vectors) {
+    void describe(`${vector.level} level`, () => {
+      void it("builds the base string", () => {
+        assert.equal(
+          shopeeSignatureBaseString(partner.partnerId, vector.path, timestamp, vector.scope),
+          vector.baseString,
+        );
+      });
+
+      void it("signs the base string with the partner key", () => {
+        assert.equal(signShopeeRequest(partner, vector.path, timestamp, vector.scope), vector.sign);
+      });
+
+      void it("puts the signature in the request URL", () => {
+        const url = buildShopeeUrl(partner, vector.path, vector.scope, {}, timestamp);
+        assert.equal(url.searchParams.get("sign"), vector.sign);
+        assert.equal(url.searchParams.get("timestamp"), String(timestamp));
+      });
+    });
+  }
+});
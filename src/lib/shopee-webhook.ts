@@ -114,3 +114,60 @@ export function isTimestampValid(timestamp: string): boolean {
     return false;
   }
 }
+
+/**
+ * Build the dedup key for a webhook delivery
+ *
+ * Shopee redelivers an event until it is acknowledged, so the key is derived
+ * from its content: event type, shop, entity (order or item, plus the model
+ * for variant events) and update_time.
+ * Returns null when the payload has no entity ID or update_time; such
+ * deliveries cannot be deduplicated.
+ */
+export function buildWebhookDedupKey(
+  eventType: string,
+  shopId: string,
+  payload: unknown
+): string | null {
+  if (!payload || typeof payload !== "object") {
+    return null;
+  }
+
+  const data = payload as Record<string, unknown>;
+  const entityId = data.order_id ?? data.item_id;
+  const updateTime = data.update_time;
+
+  if (
+    (typeof entityId !== "string" && typeof entityId !== "number") ||
+    typeof updateTime !== "number"
+  ) {
+    return null;
+  }
+
+  // Events for different variants of an item can share an update_time
+  const modelId = data.model_id;
+  const entity =
+    (typeof modelId === "string" || typeof modelId === "number") && String(modelId) !== "0"
+      ? `${entityId}:${modelId}`
+      : entityId;
+
+  return `${eventType}:${shopId}:${entity}:${updateTime}`;
+}
+
+/**
+ * Convert a payload update_time (Unix seconds) to a Date
+ */
+export function parseWebhookUpdateTime(updateTime: unknown): Date | null {
+  return typeof updateTime === "number" ? new Date(updateTime * 1000) : null;
+}
+
+/**
+ * Whether an event is older than the last update applied to its entity
+ * Events without an update_time are always applied
+ */
+export function isStaleUpdate(
+  lastAppliedAt: Date | null,
+  updateTime: Date | null
+): boolean {
+  return !!lastAppliedAt && !!updateTime && updateTime < lastAppliedAt;
+}
@@ -0,0 +1,296 @@
+/**
+ * Stock Movement Ledger
+ *
+ * Every change to MasterSku.stock, Product.stock or ProductVariant.stock goes
+ * through this module and is recorded as an immutable StockMovement with the
+ * quantity before and after, where it came from and who made it. The stored
+ * stock is a cached balance of the ledger: for each master SKU, each product
+ * (variantId null) and each variant, stock equals the sum of its movements'
+ * changes.
+ * findStockDiscrepancies reports holders where the two have drifted, e.g.
+ * after a write that bypassed this module.
+ *
+ * Callers pass their transaction so the balance and its movement are written
+ * together. The holder's row is locked (SELECT ... FOR UPDATE) before its
+ * stock is read, so concurrent changes to the same holder apply one after the
+ * other instead of overwriting each other.
+ *
+ * Changes made here rather than on Shopee (adjustments, sales, returns, stock
+ * takes) mark a Shopee product or variant PENDING (stockSyncStatus) so the
+ * inventory-sync worker pushes it; the caller queues the sync with
+ * addInventorySyncJob once its transaction has committed.
+ *
+ * Listings linked to a master SKU take their stock from it (see
+ * ~/lib/master-sku), so changes reported by Shopee for them are not applied.
+ *
+ * Deleting a master SKU, product or variant keeps its movements with their
+ * link cleared; call closeStock first so they still balance to zero.
+ */
+
+import { db } from "~/server/db";
+import type { Prisma, StockMovementSource } from "../../generated/prisma";
+
+// Sources that reflect stock already on Shopee, so there is nothing to push
+const SHOPEE_SOURCES: StockMovementSource[] = [
+  "OPENING_BALANCE",
+  "SHOPEE_WEBHOOK",
+  "SHOPEE_IMPORT",
+  "RECONCILIATION",
+];
+
+export type StockTarget =
+  | { productId: string; variantId?: string | null; masterSkuId?: undefined } // Omit variantId for the product's own stock
+  | { masterSkuId: string; productId?: undefined; variantId?: undefined };
+
+export interface StockMovementInput {
+  source: StockMovementSource;
+  reason?: string | null;
+  reference?: string | null;
+  actorId?: string | null;
+}
+
+export interface StockChange {
+  quantityBefore: number;
+  quantityAfter: number;
+  change: number;
+}
+
+/**
+ * Raised when a change would take stock below zero
+ */
+export class NegativeStockError extends Error {
+  constructor(
+    public readonly quantityBefore: number,
+    public readonly change: number,
+  ) {
+    super(`Stock cannot go below zero (on hand ${quantityBefore}, change ${change})`);
+    this.name = "NegativeStockError";
+  }
+}
+
+/**
+ * Lock the holder's row until the transaction ends
+ * Use before reading stock to compute a new quantity for setStock
+ */
+export async function lockStock(tx: Prisma.TransactionClient, target: StockTarget): Promise<void> {
+  if (target.masterSkuId) {
+    await tx.$queryRaw`SELECT "id" FROM "MasterSku" WHERE "id" = ${target.masterSkuId} FOR UPDATE`;
+  } else if (target.variantId) {
+    await tx.$queryRaw`SELECT "id" FROM "ProductVariant" WHERE "id" = ${target.variantId} FOR UPDATE`;
+  } else {
+    await tx.$queryRaw`SELECT "id" FROM "Product" WHERE "id" = ${target.productId} FOR UPDATE`;
+  }
+}
+
+async function readStock(
+  tx: Prisma.TransactionClient,
+  target: StockTarget,
+): Promise<{ shopId: string; stock: number; onShopee: boolean; linked: boolean }> {
+  await lockStock(tx, target);
+
+  if (target.masterSkuId) {
+    const masterSku = await tx.masterSku.findUniqueOrThrow({
+      where: { id: target.masterSkuId },
+      select: { shopId: true, stock: true },
+    });
+    return { ...masterSku, onShopee: false, linked: false };
+  }
+
+  if (target.variantId) {
+    const variant = await tx.productVariant.findUniqueOrThrow({
+      where: { id: target.variantId },
+      select: { stock: true, masterSkuId: true, product: { select: { shopId: true } } },
+    });
+    return {
+      shopId: variant.product.shopId,
+      stock: variant.stock,
+      onShopee: true,
+      linked: variant.masterSkuId !== null,
+    };
+  }
+
+  const product = await tx.product.findUniqueOrThrow({
+    where: { id: target.productId },
+    select: { shopId: true, stock: true, shopeeProductId: true, masterSkuId: true },
+  });
+  return {
+    shopId: product.shopId,
+    stock: product.stock,
+    onShopee: product.shopeeProductId !== null,
+    linked: product.masterSkuId !== null,
+  };
+}
+
+/**
+ * Set stock to a quantity and record the movement
+ * Records nothing when the quantity is unchanged, or when Shopee reports
+ * stock for a listing linked to a master SKU
+ */
+export async function setStock(
+  tx: Prisma.TransactionClient,
+  target: StockTarget,
+  quantity: number,
+  movement: StockMovementInput,
+): Promise<StockChange> {
+  const current = await readStock(tx, target);
+  if (current.linked && SHOPEE_SOURCES.includes(movement.source)) {
+    return { quantityBefore: current.stock, quantityAfter: current.stock, change: 0 };
+  }
+
+  const change = quantity - current.stock;
+
+  if (change !== 0) {
+    const data =
+      current.onShopee && !SHOPEE_SOURCES.includes(movement.source)
+        ? { stock: quantity, stockSyncStatus: "PENDING" as const, stockSyncError: null }
+        : { stock: quantity };
+
+    if (target.masterSkuId) {
+      await tx.masterSku.update({
+        where: { id: target.masterSkuId },
+        data: { stock: quantity },
+      });
+    } else if (target.variantId) {
+      await tx.productVariant.update({
+        where: { id: target.variantId },
+        data,
+      });
+    } else {
+      await tx.product.update({
+        where: { id: target.productId },
+        data,
+      });
+    }
+
+    await tx.stockMovement.create({
+      data: {
+        shopId: current.shopId,
+        productId: target.productId ?? null,
+        variantId: target.variantId ?? null,
+        masterSkuId: target.masterSkuId ?? null,
+        source: movement.source,
+        quantityBefore: current.stock,
+        quantityAfter: quantity,
+        change,
+        reason: movement.reason ?? null,
+        reference: movement.reference ?? null,
+        actorId: movement.actorId ?? null,
+      },
+    });
+  }
+
+  return { quantityBefore: current.stock, quantityAfter: quantity, change };
+}
+
+/**
+ * Change stock by a delta and record the movement
+ * Throws NegativeStockError if the result would be below zero
+ */
+export async function adjustStock(
+  tx: Prisma.TransactionClient,
+  target: StockTarget,
+  change: number,
+  movement: StockMovementInput,
+): Promise<StockChange> {
+  const current = await readStock(tx, target);
+  if (current.stock + change < 0) {
+    throw new NegativeStockError(current.stock, change);
+  }
+
+  return setStock(tx, target, current.stock + change, movement);
+}
+
+/**
+ * Take stock to zero before its holder is deleted and record the movement
+ * The holder's movements outlive it (unlinked, see StockMovement), so closing
+ * the balance first keeps its history summing to what it held
+ */
+export async function closeStock(
+  tx: Prisma.TransactionClient,
+  target: StockTarget,
+  movement: Omit<StockMovementInput, "source">,
+): Promise<StockChange> {
+  return setStock(tx, target, 0, { ...movement, source: "REMOVED" });
+}
+
+export interface StockDiscrepancy {
+  masterSkuId: string | null;
+  productId: string | null;
+  variantId: string | null;
+  stock: number;
+  ledgerBalance: number;
+}
+
+/**
+ * Find master SKUs, products and variants in a shop whose stock differs from
+ * the sum of their movements
+ */
+export async function findStockDiscrepancies(shopId: string): Promise<StockDiscrepancy[]> {
+  const [masterSkus, products, variants, balances] = await Promise.all([
+    db.masterSku.findMany({
+      where: { shopId },
+      select: { id: true, stock: true },
+    }),
+    db.product.findMany({
+      where: { shopId },
+      select: { id: true, stock: true },
+    }),
+    db.productVariant.findMany({
+      where: { product: { shopId } },
+      select: { id: true, productId: true, stock: true },
+    }),
+    db.stockMovement.groupBy({
+      by: ["masterSkuId", "productId", "variantId"],
+      where: { shopId },
+      _sum: { change: true },
+    }),
+  ]);
+
+  const ledger = new Map<string, number>();
+  for (const balance of balances) {
+    const key = balance.masterSkuId
+      ? `master:${balance.masterSkuId}`
+      : `${balance.productId}:${balance.variantId ?? ""}`;
+    ledger.set(key, balance._sum.change ?? 0);
+  }
+
+  const discrepancies: StockDiscrepancy[] = [];
+  for (const masterSku of masterSkus) {
+    const ledgerBalance = ledger.get(`master:${masterSku.id}`) ?? 0;
+    if (ledgerBalance !== masterSku.stock) {
+      discrepancies.push({
+        masterSkuId: masterSku.id,
+        productId: null,
+        variantId: null,
+        stock: masterSku.stock,
+        ledgerBalance,
+      });
+    }
+  }
+  for (const product of products) {
+    const ledgerBalance = ledger.get(`${product.id}:`) ?? 0;
+    if (ledgerBalance !== product.stock) {
+      discrepancies.push({
+        masterSkuId: null,
+        productId: product.id,
+        variantId: null,
+        stock: product.stock,
+        ledgerBalance,
+      });
+    }
+  }
+  for (const variant of variants) {
+    const ledgerBalance = ledger.get(`${variant.productId}:${variant.id}`) ?? 0;
+    if (ledgerBalance !== variant.stock) {
+      discrepancies.push({
+        masterSkuId: null,
+        productId: variant.productId,
+        variantId: variant.id,
+        stock: variant.stock,
+        ledgerBalance,
+      });
+    }
+  }
+
+  return discrepancies;
+}
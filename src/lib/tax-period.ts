@@ -0,0 +1,82 @@
+/**
+ * BIR Tax Periods
+ *
+ * Quarterly returns and their attachments cover calendar quarters, and
+ * books of accounts calendar months, in Philippine time (UTC+8). Boundaries
+ * are returned as UTC instants so they can be used directly in Prisma
+ * date filters.
+ */
+
+import { z } from "zod";
+
+const MANILA_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+export const taxQuarterSchema = z.object({
+  year: z.number().int().min(2000).max(2100),
+  quarter: z.number().int().min(1).max(4),
+});
+
+export type TaxQuarter = z.infer<typeof taxQuarterSchema>;
+
+export const taxMonthSchema = z.object({
+  year: z.number().int().min(2000).max(2100),
+  month: z.number().int().min(1).max(12),
+});
+
+export type TaxMonth = z.infer<typeof taxMonthSchema>;
+
+/**
+ * Start (inclusive) and end (exclusive) of a quarter in Philippine time
+ */
+export function getQuarterRange({ year, quarter }: TaxQuarter): { start: Date; end: Date } {
+  const firstMonth = (quarter - 1) * 3;
+  return {
+    start: new Date(Date.UTC(year, firstMonth, 1) - MANILA_OFFSET_MS),
+    end: new Date(Date.UTC(year, firstMonth + 3, 1) - MANILA_OFFSET_MS),
+  };
+}
+
+/**
+ * Start (inclusive) and end (exclusive) of a month in Philippine time
+ */
+export function getMonthRange({ year, month }: TaxMonth): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(year, month - 1, 1) - MANILA_OFFSET_MS),
+    end: new Date(Date.UTC(year, month, 1) - MANILA_OFFSET_MS),
+  };
+}
+
+/**
+ * Last calendar day of the quarter (the "taxable month" on BIR attachments)
+ */
+export function getQuarterEndDate({ year, quarter }: TaxQuarter): Date {
+  return new Date(Date.UTC(year, quarter * 3, 0));
+}
+
+/**
+ * Format a date in Philippine time as MM/DD/YYYY
+ */
+export function formatBirDate(date: Date): string {
+  const local = new Date(date.getTime() + MANILA_OFFSET_MS);
+  const mm = String(local.getUTCMonth() + 1).padStart(2, "0");
+  const dd = String(local.getUTCDate()).padStart(2, "0");
+  return `${mm}/${dd}/${local.getUTCFullYear()}`;
+}
+
+/**
+ * Human-readable quarter label, e.g. "Q1 2026"
+ */
+export function formatQuarter({ year, quarter }: TaxQuarter): string {
+  return `Q${quarter} ${year}`;
+}
+
+/**
+ * Human-readable month label, e.g. "February 2026"
+ */
+export function formatMonth({ year, month }: TaxMonth): string {
+  const name = new Date(Date.UTC(year, month - 1, 1)).toLocaleString("en-US", {
+    month: "long",
+    timeZone: "UTC",
+  });
+  return `${name} ${year}`;
+}
@@ -0,0 +1,113 @@
+/**
+ * Tax Return Worksheet PDF Rendering
+ *
+ * Prints a quarterly worksheet (see ~/lib/tax-return) on a single Letter page
+ * with the shop's TIN and registered details, one table per section, and
+ * the notes the accountant should review before filing.
+ */
+
+import PDFDocument from "pdfkit";
+import { formatTin } from "~/lib/receipt-pdf";
+import type { TaxReturnWorksheet } from "~/lib/tax-return";
+
+export interface TaxReturnPdfData {
+  shop: {
+    name: string;
+    tinNumber: string;
+    businessAddress: string;
+    rdoCode: string | null;
+  };
+  worksheet: TaxReturnWorksheet;
+  generatedAt: Date;
+}
+
+function formatAmount(amount: number): string {
+  const formatted = Math.abs(amount).toLocaleString("en-PH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+  return amount < 0 ? `(${formatted})` : formatted;
+}
+
+/**
+ * Render a worksheet to a PDF buffer
+ */
+export async function renderTaxReturnPdf(data: TaxReturnPdfData): Promise<Buffer> {
+  const { worksheet } = data;
+  const title = worksheet.form
+    ? `BIR Form ${worksheet.form} Worksheet`
+    : "Quarterly Sales Worksheet";
+
+  const doc = new PDFDocument({
+    size: "LETTER",
+    margin: 50,
+    info: {
+      Title: `${title} ${worksheet.periodLabel}`,
+      Author: data.shop.name,
+      CreationDate: data.generatedAt,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+  // Header
+  doc.font("Helvetica-Bold").fontSize(16).text(title, { align: "center" });
+  doc.font("Helvetica").fontSize(11).text(worksheet.periodLabel, { align: "center" });
+  doc.moveDown();
+
+  doc.fontSize(10);
+  doc.text(`Taxpayer: ${data.shop.name}`);
+  doc.text(`TIN: ${formatTin(data.shop.tinNumber)}`);
+  doc.text(`RDO Code: ${data.shop.rdoCode ?? "Not set"}`);
+  doc.text(`Address: ${data.shop.businessAddress}`);
+  doc.text(
+    `Source: ${worksheet.receiptCount} receipt(s), ${worksheet.unreceiptedOrderCount} order(s) without receipt`,
+  );
+  doc.moveDown();
+
+  // Sections
+  for (const section of worksheet.sections) {
+    doc.font("Helvetica-Bold").fontSize(11).text(section.title, left, doc.y);
+    doc.moveTo(left, doc.y).lineTo(left + width, doc.y).stroke();
+    doc.moveDown(0.3);
+
+    for (const line of section.lines) {
+      const y = doc.y;
+      doc.font(line.emphasis ? "Helvetica-Bold" : "Helvetica").fontSize(10);
+      doc.text(line.label, left, y, { width: width - 140 });
+      doc.text(`PHP ${formatAmount(line.amount)}`, left + width - 140, y, {
+        width: 140,
+        align: "right",
+      });
+      doc.x = left;
+    }
+    doc.moveDown();
+  }
+
+  // Notes
+  if (worksheet.notes.length > 0) {
+    doc.font("Helvetica-Bold").fontSize(10).text("Notes", left, doc.y);
+    doc.font("Helvetica").fontSize(9);
+    for (const note of worksheet.notes) {
+      doc.text(`• ${note}`, left, doc.y, { width });
+    }
+  }
+
+  doc.font("Helvetica").fontSize(8).text(
+    `Generated ${data.generatedAt.toLocaleString("en-PH", { timeZone: "Asia/Manila" })}. For transcription into eBIRForms; not a BIR-issued form.`,
+    left,
+    doc.page.height - doc.page.margins.bottom - 20,
+    { width, align: "center" },
+  );
+
+  doc.end();
+  return done;
+}
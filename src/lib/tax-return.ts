@@ -0,0 +1,241 @@
+/**
+ * Quarterly Tax Return Worksheets
+ *
+ * Computes the figures an accountant transcribes into eBIRForms:
+ * - 2550Q (quarterly VAT) for VAT-registered shops: output tax from sales,
+ *   input tax from expenses, creditable VAT withheld
+ * - 2551Q (quarterly percentage tax) for non-VAT shops: gross sales times
+ *   the percentage tax rate, creditable percentage tax withheld
+ *
+ * Shops on the 8% income tax option file neither; their worksheet only
+ * summarizes gross sales for the income tax return.
+ *
+ * Sales come from receipts issued in the quarter plus orders placed in the
+ * quarter that have no receipt yet (still taxable, flagged in the notes).
+ * Marketplace withholding not yet backed by a 2307 is flagged as well.
+ */
+
+import { VAT_RATE, isVatRegistered, type TaxProfile } from "~/lib/tax";
+import { formatQuarter, type TaxQuarter } from "~/lib/tax-period";
+import type { PlatformReconciliation } from "~/lib/marketplace-withholding";
+import type { WithholdingTaxKind } from "../../generated/prisma";
+
+export type TaxReturnForm = "2550Q" | "2551Q";
+
+export interface SalesAmounts {
+  vatableSales: number;
+  vatAmount: number;
+  vatExemptSales: number;
+  zeroRatedSales: number;
+  totalAmount: number;
+}
+
+export interface TaxReturnInput {
+  profile: TaxProfile;
+  period: TaxQuarter;
+  receipts: SalesAmounts[];
+  unreceiptedOrders: SalesAmounts[]; // Breakdown estimated with the current profile
+  expenses: { amount: number; inputVat: number }[];
+  withholdings: { kind: WithholdingTaxKind; taxWithheld: number }[];
+  marketplaceWithholding: PlatformReconciliation[];
+}
+
+export interface WorksheetLine {
+  label: string;
+  amount: number;
+  emphasis?: boolean;
+}
+
+export interface WorksheetSection {
+  title: string;
+  lines: WorksheetLine[];
+}
+
+export interface TaxReturnWorksheet {
+  form: TaxReturnForm | null;
+  periodLabel: string;
+  taxType: TaxProfile["taxType"];
+  receiptCount: number;
+  unreceiptedOrderCount: number;
+  grossSales: number;
+  taxDue: number;
+  credits: number;
+  taxPayable: number; // Negative when credits exceed the tax due
+  sections: WorksheetSection[];
+  notes: string[];
+}
+
+function round2(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function sum<T>(rows: T[], pick: (row: T) => number): number {
+  return round2(rows.reduce((total, row) => total + pick(row), 0));
+}
+
+/**
+ * Percentage tax rate under Section 116 of the Tax Code
+ * (reduced to 1% from July 2020 to June 2023 by the CREATE Act)
+ */
+export function getPercentageTaxRate({ year, quarter }: TaxQuarter): number {
+  const index = year * 4 + quarter;
+  const createStart = 2020 * 4 + 3;
+  const createEnd = 2023 * 4 + 2;
+  return index >= createStart && index <= createEnd ? 0.01 : 0.03;
+}
+
+/**
+ * Compute the quarterly return worksheet for a shop
+ */
+export function computeTaxReturnWorksheet(input: TaxReturnInput): TaxReturnWorksheet {
+  const sales = [...input.receipts, ...input.unreceiptedOrders];
+  const grossSales = sum(sales, (row) => row.totalAmount);
+  const withheldBy = (kind: WithholdingTaxKind) =>
+    sum(
+      input.withholdings.filter((withholding) => withholding.kind === kind),
+      (withholding) => withholding.taxWithheld,
+    );
+  const incomeTaxWithheld = withheldBy("INCOME_TAX");
+
+  const notes: string[] = [];
+  if (input.unreceiptedOrders.length > 0) {
+    notes.push(
+      `${input.unreceiptedOrders.length} order(s) in the quarter have no receipt yet; their tax is estimated from the current tax profile.`,
+    );
+  }
+  if (incomeTaxWithheld > 0) {
+    notes.push(
+      "Creditable income tax withheld is claimed on the quarterly income tax return, not on this form.",
+    );
+  }
+
+  for (const platform of input.marketplaceWithholding) {
+    if (platform.uncertified > 0) {
+      notes.push(
+        `${platform.platform} withheld ${platform.uncertified.toFixed(2)} on payouts without a matching 2307; request the certificate so the credit is not lost.`,
+      );
+    }
+    if (platform.certificatesMissingPdf > 0) {
+      notes.push(
+        `${platform.certificatesMissingPdf} ${platform.platform} 2307 entr${platform.certificatesMissingPdf === 1 ? "y has" : "ies have"} no PDF attached.`,
+      );
+    }
+  }
+
+  const withholdingSection: WorksheetSection = {
+    title: "Creditable Withholding (BIR Form 2307)",
+    lines: [
+      { label: "Creditable VAT withheld", amount: withheldBy("VAT") },
+      { label: "Creditable percentage tax withheld", amount: withheldBy("PERCENTAGE_TAX") },
+      { label: "Creditable income tax withheld", amount: incomeTaxWithheld },
+      ...input.marketplaceWithholding.map((platform) => ({
+        label: `Withheld by ${platform.platform} per payouts (RR 16-2023)`,
+        amount: platform.withheldPerPayouts,
+      })),
+    ],
+  };
+
+  const base = {
+    periodLabel: formatQuarter(input.period),
+    taxType: input.profile.taxType,
+    receiptCount: input.receipts.length,
+    unreceiptedOrderCount: input.unreceiptedOrders.length,
+    grossSales,
+    notes,
+  };
+
+  if (isVatRegistered(input.profile)) {
+    const outputTax = sum(sales, (row) => row.vatAmount);
+    const inputTax = sum(input.expenses, (expense) => expense.inputVat);
+    const taxDue = round2(outputTax - inputTax);
+    const credits = withheldBy("VAT");
+
+    return {
+      ...base,
+      form: "2550Q",
+      taxDue,
+      credits,
+      taxPayable: round2(taxDue - credits),
+      sections: [
+        {
+          title: "Sales and Output Tax",
+          lines: [
+            { label: "VATable sales (net of VAT)", amount: sum(sales, (row) => row.vatableSales) },
+            { label: "Zero-rated sales", amount: sum(sales, (row) => row.zeroRatedSales) },
+            { label: "VAT-exempt sales", amount: sum(sales, (row) => row.vatExemptSales) },
+            { label: "Total sales (gross)", amount: grossSales },
+            { label: `Output tax (${VAT_RATE * 100}%)`, amount: outputTax, emphasis: true },
+          ],
+        },
+        {
+          title: "Purchases and Input Tax",
+          lines: [
+            { label: "Total purchases (gross)", amount: sum(input.expenses, (expense) => expense.amount) },
+            { label: "Input tax from purchases", amount: inputTax, emphasis: true },
+          ],
+        },
+        withholdingSection,
+        {
+          title: "Tax Due",
+          lines: [
+            { label: "Output tax", amount: outputTax },
+            { label: "Less: allowable input tax", amount: inputTax },
+            { label: "Net VAT due", amount: taxDue },
+            { label: "Less: creditable VAT withheld", amount: credits },
+            { label: "Tax still payable / (overpayment)", amount: round2(taxDue - credits), emphasis: true },
+          ],
+        },
+      ],
+    };
+  }
+
+  if (input.profile.taxType === "PERCENTAGE_TAX") {
+    const rate = getPercentageTaxRate(input.period);
+    const taxDue = round2(grossSales * rate);
+    const credits = withheldBy("PERCENTAGE_TAX");
+
+    return {
+      ...base,
+      form: "2551Q",
+      taxDue,
+      credits,
+      taxPayable: round2(taxDue - credits),
+      sections: [
+        {
+          title: "Gross Sales",
+          lines: [
+            { label: "Taxable gross sales/receipts", amount: grossSales },
+          ],
+        },
+        withholdingSection,
+        {
+          title: "Tax Due",
+          lines: [
+            { label: `Percentage tax due (${rate * 100}%)`, amount: taxDue },
+            { label: "Less: creditable percentage tax withheld", amount: credits },
+            { label: "Tax still payable / (overpayment)", amount: round2(taxDue - credits), emphasis: true },
+          ],
+        },
+      ],
+    };
+  }
+
+  // 8% income tax option: no business tax return for the quarter
+  notes.push(
+    "Shops on the 8% income tax option do not file 2550Q or 2551Q; gross sales are reported on the quarterly income tax return.",
+  );
+  return {
+    ...base,
+    form: null,
+    taxDue: 0,
+    credits: 0,
+    taxPayable: 0,
+    sections: [
+      {
+        title: "Gross Sales",
+        lines: [{ label: "Gross sales/receipts", amount: grossSales, emphasis: true }],
+      },
+      withholdingSection,
+    ],
+  };
+}
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { computeOrderTax, DEFAULT_TAX_PROFILE, type TaxProfile } from "./tax";
+
+const nonVat: TaxProfile = { taxType: "PERCENTAGE_TAX", isVatExempt: false, isZeroRated: false };
+
+void describe("computeOrderTax line classification", () => {
+  void it("falls back to the shop profile for lines without a classification", () => {
+    const tax = computeOrderTax(DEFAULT_TAX_PROFILE, [{ description: "Shirt", amount: 112 }], 112);
+    assert.equal(tax.vatableSales, 100);
+    assert.equal(tax.vatAmount, 12);
+    assert.equal(tax.vatExemptSales, 0);
+  });
+
+  void it("uses a line's own classification", () => {
+    const tax = computeOrderTax(
+      DEFAULT_TAX_PROFILE,
+      [
+        { description: "Shirt", amount: 112 },
+        { description: "Book", amount: 50, classification: "VAT_EXEMPT" },
+      ],
+      162,
+    );
+    assert.equal(tax.vatableSales, 100);
+    assert.equal(tax.vatAmount, 12);
+    assert.equal(tax.vatExemptSales, 50);
+    assert.deepEqual(
+      tax.lines.map((line) => line.classification),
+      ["VATABLE", "VAT_EXEMPT"],
+    );
+  });
+
+  void it("classifies the adjustment line by the shop profile", () => {
+    const tax = computeOrderTax(
+      DEFAULT_TAX_PROFILE,
+      [{ description: "Book", amount: 50, classification: "VAT_EXEMPT" }],
+      72.4,
+    );
+    assert.equal(tax.vatExemptSales, 50);
+    assert.equal(tax.vatableSales, 20);
+    assert.equal(tax.vatAmount, 2.4);
+  });
+
+  void it("keeps every line NON_VAT for a shop that is not VAT-registered", () => {
+    const tax = computeOrderTax(
+      nonVat,
+      [{ description: "Book", amount: 50, classification: "VAT_EXEMPT" }],
+      50,
+    );
+    assert.equal(tax.nonVatSales, 50);
+    assert.equal(tax.vatExemptSales, 0);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tax Engine
+ *
+ * Splits an order into the BIR sales buckets used on receipts and returns:
+ * - VATable sales (net of VAT) and 12% output VAT
+ * - VAT-exempt sales
+ * - Zero-rated sales
+ *
+ * Lines are classified by the shop's tax profile unless a line carries its
+ * own classification, set on its product (e.g. VAT-exempt goods sold by a
+ * VAT-registered shop).
+ * Marketplace prices are VAT-inclusive, so VAT is extracted per line
+ * (amount / 1.12) and rounded to the centavo before summing. Receipts store
+ * the result at issue time so reports reuse the exact printed figures.
+ */
+
+import type { TaxType } from "../../generated/prisma";
+
+export const VAT_RATE = 0.12;
+
+export type SalesClassification = "VATABLE" | "VAT_EXEMPT" | "ZERO_RATED" | "NON_VAT";
+
+export interface TaxProfile {
+  taxType: TaxType;
+  isVatExempt: boolean;
+  isZeroRated: boolean;
+}
+
+// Shops without a saved profile are treated as VAT-registered
+export const DEFAULT_TAX_PROFILE: TaxProfile = {
+  taxType: "VAT",
+  isVatExempt: false,
+  isZeroRated: false,
+};
+
+export interface TaxableLine {
+  description: string;
+  amount: number; // VAT-inclusive line total
+  classification?: Exclude<SalesClassification, "NON_VAT">; // Overrides the shop profile
+}
+
+export interface TaxLine extends Omit<TaxableLine, "classification"> {
+  classification: SalesClassification;
+  netAmount: number;
+  vatAmount: number;
+}
+
+export interface TaxBreakdown {
+  taxType: TaxType;
+  lines: TaxLine[];
+  vatableSales: number;
+  vatAmount: number;
+  vatExemptSales: number;
+  zeroRatedSales: number;
+  nonVatSales: number;
+  totalAmount: number;
+}
+
+function round2(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Whether the profile issues VAT invoices
+ */
+export function isVatRegistered(profile: TaxProfile): boolean {
+  return profile.taxType === "VAT";
+}
+
+/**
+ * Classify a sale under the shop's tax profile, or a line's own classification
+ * Sales of a shop that is not VAT-registered are always NON_VAT
+ */
+export function classifySale(
+  profile: TaxProfile,
+  line?: Pick<TaxableLine, "classification">,
+): SalesClassification {
+  if (!isVatRegistered(profile)) return "NON_VAT";
+  if (line?.classification) return line.classification;
+  if (profile.isZeroRated) return "ZERO_RATED";
+  if (profile.isVatExempt) return "VAT_EXEMPT";
+  return "VATABLE";
+}
+
+/**
+ * Compute the tax split of a single VAT-inclusive line
+ */
+export function computeLineTax(profile: TaxProfile, line: TaxableLine): TaxLine {
+  const classification = classifySale(profile, line);
+  const amount = round2(line.amount);
+
+  if (classification === "VATABLE") {
+    const netAmount = round2(amount / (1 + VAT_RATE));
+    return {
+      ...line,
+      amount,
+      classification,
+      netAmount,
+      vatAmount: round2(amount - netAmount),
+    };
+  }
+
+  return { ...line, amount, classification, netAmount: amount, vatAmount: 0 };
+}
+
+/**
+ * Compute the tax breakdown of an order
+ *
+ * Any difference between the order total and the sum of its lines
+ * (shipping fees, vouchers) is carried as an adjustment line so the
+ * buckets always add up to the amount actually charged.
+ */
+export function computeOrderTax(
+  profile: TaxProfile,
+  lines: TaxableLine[],
+  totalAmount: number,
+): TaxBreakdown {
+  const total = round2(totalAmount);
+  const taxLines = lines.map((line) => computeLineTax(profile, line));
+
+  const linesTotal = round2(taxLines.reduce((sum, line) => sum + line.amount, 0));
+  const adjustment = round2(total - linesTotal);
+  if (adjustment !== 0) {
+    taxLines.push(
+      computeLineTax(profile, {
+        description: adjustment > 0 ? "Other charges" : "Discounts",
+        amount: adjustment,
+      }),
+    );
+  }
+
+  const sumBy = (classification: SalesClassification, field: "netAmount" | "vatAmount") =>
+    round2(
+      taxLines
+        .filter((line) => line.classification === classification)
+        .reduce((sum, line) => sum + line[field], 0),
+    );
+
+  return {
+    taxType: profile.taxType,
+    lines: taxLines,
+    vatableSales: sumBy("VATABLE", "netAmount"),
+    vatAmount: sumBy("VATABLE", "vatAmount"),
+    vatExemptSales: sumBy("VAT_EXEMPT", "netAmount"),
+    zeroRatedSales: sumBy("ZERO_RATED", "netAmount"),
+    nonVatSales: sumBy("NON_VAT", "netAmount"),
+    totalAmount: total,
+  };
+}
@@ -3,6 +3,13 @@ import { postRouter } from "~/server/api/routers/post";
 import { shopRouter } from "~/server/api/routers/shop";
 import { teamRouter } from "~/server/api/routers/team";
 import { shopeeRouter } from "~/server/api/routers/shopee";
+import { receiptRouter } from "~/server/api/routers/receipt";
+import { reportRouter } from "~/server/api/routers/report";
+import { expenseRouter } from "~/server/api/routers/expense";
+import { withholdingRouter } from "~/server/api/routers/withholding";
+import { bookRouter } from "~/server/api/routers/book";
+import { webhookRouter } from "~/server/api/routers/webhook";
+import { inventoryRouter } from "~/server/api/routers/inventory";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 
 /**
@@ -16,6 +23,13 @@ export const appRouter = createTRPCRouter({
   shop: shopRouter,
   team: teamRouter,
   shopee: shopeeRouter,
+  receipt: receiptRouter,
+  report: reportRouter,
+  expense: expenseRouter,
+  withholding: withholdingRouter,
+  book: bookRouter,
+  webhook: webhookRouter,
+  inventory: inventoryRouter,
 });
 
 // export type definition of API
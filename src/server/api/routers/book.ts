@@ -0,0 +1,240 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import {
+  createTRPCRouter,
+  accountantOrOwnerProcedure,
+} from "~/server/api/trpc";
+import { AccountingBookType, Prisma } from "../../../../generated/prisma";
+import { fileStorage } from "~/lib/fileStorage";
+import { buildBook } from "~/lib/books";
+import { renderBookPdf } from "~/lib/books-pdf";
+import { formatMonth, getMonthRange, taxMonthSchema } from "~/lib/tax-period";
+
+// Signed download links are short-lived (5 minutes)
+const DOWNLOAD_URL_TTL_SECONDS = 300;
+
+const BOOK_FILE_PREFIXES: Record<AccountingBookType, string> = {
+  SALES_JOURNAL: "sales-journal",
+  PURCHASE_JOURNAL: "purchase-journal",
+  CASH_RECEIPTS: "cash-receipts",
+  CASH_DISBURSEMENTS: "cash-disbursements",
+};
+
+export const bookRouter = createTRPCRouter({
+  /**
+   * Get the books generated for a year
+   * Owners and Accountants can view
+   */
+  getBooks: accountantOrOwnerProcedure
+    .input(z.object({ shopId: z.string(), year: z.number().int().min(2000).max(2100) }))
+    .query(async ({ ctx, input }) => {
+      return ctx.db.accountingBook.findMany({
+        where: { shopId: ctx.shopId, year: input.year },
+        orderBy: [{ month: "asc" }, { type: "asc" }],
+        include: {
+          generatedBy: {
+            select: {
+              name: true,
+              email: true,
+            },
+          },
+        },
+      });
+    }),
+
+  /**
+   * Generate (or regenerate) a monthly book as a PDF and store it
+   * Owners and Accountants can generate
+   *
+   * Regenerating replaces the stored PDF, so entries recorded after the
+   * first print are picked up.
+   */
+  generateBook: accountantOrOwnerProcedure
+    .input(
+      taxMonthSchema.extend({
+        shopId: z.string(),
+        type: z.nativeEnum(AccountingBookType),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const shop = await ctx.db.shop.findUnique({
+        where: { id: ctx.shopId },
+      });
+
+      if (!shop) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Shop not found",
+        });
+      }
+
+      const { start, end } = getMonthRange(input);
+      const usesReceipts =
+        input.type === "SALES_JOURNAL" || input.type === "CASH_RECEIPTS";
+
+      const [receipts, expenses] = await Promise.all([
+        usesReceipts
+          ? ctx.db.receipt.findMany({
+              where: { shopId: ctx.shopId, issuedAt: { gte: start, lt: end } },
+              orderBy: { serialNumber: "asc" },
+              include: { order: { select: { orderNumber: true } } },
+            })
+          : [],
+        usesReceipts
+          ? []
+          : ctx.db.expense.findMany({
+              where: { shopId: ctx.shopId, expenseDate: { gte: start, lt: end } },
+              orderBy: [{ expenseDate: "asc" }, { createdAt: "asc" }],
+            }),
+      ]);
+
+      const book = buildBook(input.type, {
+        receipts: receipts.map((receipt) => ({
+          receiptNumber: receipt.receiptNumber,
+          issuedAt: receipt.issuedAt,
+          orderNumber: receipt.order.orderNumber,
+          buyerName: receipt.buyerName,
+          buyerTin: receipt.buyerTin,
+          voided: receipt.status === "VOIDED",
+          vatableSales: receipt.vatableSales.toNumber(),
+          vatAmount: receipt.vatAmount.toNumber(),
+          vatExemptSales: receipt.vatExemptSales.toNumber(),
+          zeroRatedSales: receipt.zeroRatedSales.toNumber(),
+          totalAmount: receipt.totalAmount.toNumber(),
+        })),
+        expenses: expenses.map((expense) => ({
+          expenseDate: expense.expenseDate,
+          supplierName: expense.supplierName,
+          supplierTin: expense.supplierTin,
+          description: expense.description,
+          category: expense.category,
+          amount: expense.amount.toNumber(),
+          inputVat: expense.inputVat.toNumber(),
+        })),
+      });
+
+      const { pdf, pageCount } = await renderBookPdf({
+        shop: {
+          name: shop.name,
+          tinNumber: shop.tinNumber,
+          businessAddress: shop.businessAddress,
+        },
+        book,
+        periodLabel: formatMonth(input),
+        generatedAt: new Date(),
+      });
+
+      const fileName = `${BOOK_FILE_PREFIXES[input.type]}-${input.year}-${String(input.month).padStart(2, "0")}.pdf`;
+      const key = await fileStorage.upload(pdf, {
+        fileName,
+        mimeType: "application/pdf",
+        size: pdf.length,
+        uploadedBy: ctx.session.user.id,
+        shopId: ctx.shopId,
+        category: "book",
+      });
+
+      const existing = await ctx.db.accountingBook.findUnique({
+        where: {
+          shopId_type_year_month: {
+            shopId: ctx.shopId,
+            type: input.type,
+            year: input.year,
+            month: input.month,
+          },
+        },
+        select: { fileKey: true },
+      });
+
+      const data = {
+        fileKey: key,
+        fileName,
+        pageCount,
+        entryCount: book.rows.length,
+        generatedById: ctx.session.user.id,
+        generatedAt: new Date(),
+      };
+
+      let saved;
+      try {
+        saved = await ctx.db.accountingBook.upsert({
+          where: {
+            shopId_type_year_month: {
+              shopId: ctx.shopId,
+              type: input.type,
+              year: input.year,
+              month: input.month,
+            },
+          },
+          create: {
+            shopId: ctx.shopId,
+            type: input.type,
+            year: input.year,
+            month: input.month,
+            ...data,
+          },
+          update: data,
+        });
+      } catch (error) {
+        await fileStorage.delete(key);
+
+        // Lost a race with a concurrent generation of the same book
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2002"
+        ) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "This book is already being generated, please retry",
+          });
+        }
+
+        throw error;
+      }
+
+      // Remove the superseded print
+      if (existing && existing.fileKey !== key) {
+        await fileStorage.delete(existing.fileKey);
+      }
+
+      return {
+        success: true,
+        message: `${book.title} for ${formatMonth(input)} generated (${pageCount} page${pageCount === 1 ? "" : "s"})`,
+        book: {
+          id: saved.id,
+          pageCount,
+          entryCount: saved.entryCount,
+        },
+      };
+    }),
+
+  /**
+   * Get a short-lived download URL for a generated book
+   * Owners and Accountants can download
+   */
+  getBookUrl: accountantOrOwnerProcedure
+    .input(z.object({ shopId: z.string(), bookId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const book = await ctx.db.accountingBook.findUnique({
+        where: { id: input.bookId },
+        select: { shopId: true, fileKey: true },
+      });
+
+      if (book?.shopId !== ctx.shopId) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Book not found",
+        });
+      }
+
+      const url = await fileStorage.getSignedUrl(
+        book.fileKey,
+        DOWNLOAD_URL_TTL_SECONDS,
+      );
+
+      return {
+        url,
+        expiresAt: new Date(Date.now() + DOWNLOAD_URL_TTL_SECONDS * 1000),
+      };
+    }),
+});
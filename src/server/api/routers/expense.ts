@@ -0,0 +1,119 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import {
+  createTRPCRouter,
+  accountantOrOwnerProcedure,
+} from "~/server/api/trpc";
+
+export const expenseRouter = createTRPCRouter({
+  /**
+   * Get expenses for a shop (newest first)
+   * Owners and Accountants can view
+   */
+  getExpenses: accountantOrOwnerProcedure
+    .input(
+      z.object({
+        shopId: z.string(),
+        limit: z.number().min(1).max(100).default(50),
+        cursor: z.string().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const expenses = await ctx.db.expense.findMany({
+        where: { shopId: ctx.shopId },
+        take: input.limit + 1,
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        orderBy: [{ expenseDate: "desc" }, { id: "desc" }],
+      });
+
+      let nextCursor: string | undefined = undefined;
+      if (expenses.length > input.limit) {
+        const nextItem = expenses.pop();
+        nextCursor = nextItem?.id;
+      }
+
+      return {
+        expenses,
+        nextCursor,
+      };
+    }),
+
+  /**
+   * Record a purchase or expense
+   * Owners and Accountants can record
+   */
+  createExpense: accountantOrOwnerProcedure
+    .input(
+      z
+        .object({
+          shopId: z.string(),
+          expenseDate: z.date(),
+          supplierName: z.string().trim().min(1, "Supplier name is required"),
+          supplierTin: z
+            .string()
+            .regex(/^\d{9}(\d{3})?$/, "TIN must be 9 or 12 digits")
+            .optional(),
+          supplierAddress: z.string().trim().min(1).optional(),
+          description: z.string().trim().min(1, "Description is required"),
+          category: z.string().trim().max(50).optional(),
+          amount: z.number().positive(),
+          inputVat: z.number().min(0).default(0),
+        })
+        .refine((data) => data.inputVat < data.amount, {
+          message: "Input VAT must be less than the amount paid",
+          path: ["inputVat"],
+        })
+        .refine((data) => data.inputVat === 0 || !!data.supplierTin, {
+          message: "Input VAT can only be claimed with the supplier's TIN",
+          path: ["supplierTin"],
+        }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const expense = await ctx.db.expense.create({
+        data: {
+          shopId: ctx.shopId,
+          expenseDate: input.expenseDate,
+          supplierName: input.supplierName,
+          supplierTin: input.supplierTin ?? null,
+          supplierAddress: input.supplierAddress ?? null,
+          description: input.description,
+          category: input.category ?? null,
+          amount: input.amount,
+          inputVat: input.inputVat,
+          recordedById: ctx.session.user.id,
+        },
+      });
+
+      return {
+        success: true,
+        message: "Expense recorded",
+        expense: {
+          id: expense.id,
+        },
+      };
+    }),
+
+  /**
+   * Delete an expense
+   * Owners and Accountants can delete
+   */
+  deleteExpense: accountantOrOwnerProcedure
+    .input(z.object({ shopId: z.string(), expenseId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.db.expense.deleteMany({
+        where: { id: input.expenseId, shopId: ctx.shopId },
+      });
+
+      if (result.count === 0) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Expense not found",
+        });
+      }
+
+      return {
+        success: true,
+        message: "Expense deleted",
+      };
+    }),
+});
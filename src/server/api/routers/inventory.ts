@@ -0,0 +1,858 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import {
+  accountantOrOwnerProcedure,
+  createTRPCRouter,
+  protectedProcedure,
+  shopMemberProcedure,
+  enforceOwner,
+} from "~/server/api/trpc";
+import type { db } from "~/server/db";
+import { LineTaxClassification } from "../../../../generated/prisma";
+import { rollUpVariants } from "~/lib/shopee-products";
+import { linkListing, propagateMasterStock, setMasterStock } from "~/lib/master-sku";
+import { addInventorySyncJob } from "~/server/jobs/queue";
+import {
+  adjustStock,
+  closeStock,
+  findStockDiscrepancies,
+  NegativeStockError,
+  setStock,
+  type StockChange,
+} from "~/lib/stock";
+
+const stockTargetSchema = z.object({
+  shopId: z.string(),
+  productId: z.string(),
+  variantId: z.string().optional(), // Omit for a product without variants
+});
+
+/**
+ * Check the product (and variant) belong to the shop and that stock is kept
+ * at that level: a product with variants only changes through its variants,
+ * and a listing linked to a master SKU only through the master SKU
+ */
+async function resolveStockTarget(
+  prisma: typeof db,
+  input: z.infer<typeof stockTargetSchema>,
+) {
+  const product = await prisma.product.findFirst({
+    where: { id: input.productId, shopId: input.shopId },
+    select: {
+      id: true,
+      masterSku: { select: { sku: true } },
+      _count: { select: { variants: true } },
+    },
+  });
+
+  if (!product) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Product not found",
+    });
+  }
+
+  if (input.variantId) {
+    const variant = await prisma.productVariant.findFirst({
+      where: { id: input.variantId, productId: product.id },
+      select: { id: true, masterSku: { select: { sku: true } } },
+    });
+
+    if (!variant) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Variant not found",
+      });
+    }
+    if (variant.masterSku) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `This variant's stock comes from master SKU ${variant.masterSku.sku}. Adjust the master SKU instead.`,
+      });
+    }
+  } else if (product._count.variants > 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "This product's stock is the total of its variants. Adjust a variant instead.",
+    });
+  } else if (product.masterSku) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `This product's stock comes from master SKU ${product.masterSku.sku}. Adjust the master SKU instead.`,
+    });
+  }
+
+  return { productId: product.id, variantId: input.variantId ?? null };
+}
+
+const masterSkuSchema = z.object({
+  shopId: z.string(),
+  masterSkuId: z.string(),
+});
+
+/**
+ * Load a master SKU of the shop
+ */
+async function findMasterSku(prisma: typeof db, input: z.infer<typeof masterSkuSchema>) {
+  const masterSku = await prisma.masterSku.findFirst({
+    where: { id: input.masterSkuId, shopId: input.shopId },
+  });
+
+  if (!masterSku) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Master SKU not found",
+    });
+  }
+
+  return masterSku;
+}
+
+/**
+ * Check the SKU is not used by another master SKU of the shop
+ */
+async function ensureSkuAvailable(prisma: typeof db, shopId: string, sku: string, masterSkuId?: string) {
+  const existing = await prisma.masterSku.findFirst({
+    where: { shopId, sku, id: { not: masterSkuId } },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `Master SKU ${sku} already exists`,
+    });
+  }
+}
+
+/**
+ * Queue a push of the shop's changed stock to Shopee
+ */
+async function queueInventorySync(shopId: string): Promise<void> {
+  try {
+    await addInventorySyncJob({ shopId });
+  } catch (queueError) {
+    console.error(`[Inventory] Failed to queue inventory sync for shop ${shopId}:`, queueError);
+    // Stays PENDING; pushed with the shop's next sync
+  }
+}
+
+/**
+ * Run a stock change, surfacing negative stock as a CONFLICT
+ */
+async function applyStockChange(change: () => Promise<StockChange>): Promise<StockChange> {
+  try {
+    return await change();
+  } catch (error) {
+    if (error instanceof NegativeStockError) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: `Only ${error.quantityBefore} in stock`,
+      });
+    }
+    throw error;
+  }
+}
+
+export const inventoryRouter = createTRPCRouter({
+  /**
+   * Stock movement history of a product, newest first
+   * Includes its variants' movements unless a variant is given
+   * Any shop member can view
+   */
+  getStockHistory: shopMemberProcedure
+    .input(
+      z.object({
+        shopId: z.string(),
+        productId: z.string(),
+        variantId: z.string().optional(),
+        limit: z.number().min(1).max(100).default(50),
+        cursor: z.string().optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const product = await ctx.db.product.findFirst({
+        where: { id: input.productId, shopId: ctx.shopId },
+        select: { id: true, name: true, sku: true, stock: true },
+      });
+
+      if (!product) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Product not found",
+        });
+      }
+
+      const movements = await ctx.db.stockMovement.findMany({
+        where: {
+          productId: product.id,
+          variantId: input.variantId,
+        },
+        take: input.limit + 1,
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        include: {
+          variant: { select: { id: true, name: true, sku: true } },
+          actor: { select: { id: true, name: true, email: true } },
+        },
+      });
+
+      let nextCursor: string | undefined = undefined;
+      if (movements.length > input.limit) {
+        const nextItem = movements.pop();
+        nextCursor = nextItem?.id;
+      }
+
+      return {
+        product,
+        movements,
+        nextCursor,
+      };
+    }),
+
+  /**
+   * Record a manual adjustment, sale or return as a change in quantity
+   * Only OWNER can adjust
+   */
+  adjustStock: protectedProcedure
+    .input(
+      stockTargetSchema.extend({
+        source: z.enum(["MANUAL_ADJUSTMENT", "SALE", "RETURN"]),
+        change: z.number().int().refine((change) => change !== 0, "Change cannot be zero"),
+        reason: z.string().trim().min(1).max(500),
+        reference: z.string().trim().max(100).optional(), // e.g. order number
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await enforceOwner(ctx, input.shopId);
+
+      if (input.source === "SALE" && input.change > 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "A sale must reduce stock",
+        });
+      }
+      if (input.source === "RETURN" && input.change < 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "A return must increase stock",
+        });
+      }
+
+      const target = await resolveStockTarget(ctx.db, input);
+      const movement = {
+        source: input.source,
+        reason: input.reason,
+        reference: input.reference,
+        actorId: ctx.session.user.id,
+      };
+      const result = await applyStockChange(() =>
+        ctx.db.$transaction(async (tx) => {
+          const change = await adjustStock(tx, target, input.change, movement);
+          await rollUpVariants(tx, target.productId, movement);
+          return change;
+        })
+      );
+      await queueInventorySync(input.shopId);
+
+      return {
+        success: true,
+        message: `Stock changed from ${result.quantityBefore} to ${result.quantityAfter}`,
+        ...result,
+      };
+    }),
+
+  /**
+   * Record a physical count, setting stock to the counted quantity
+   * Only OWNER can record
+   */
+  recordStockTake: protectedProcedure
+    .input(
+      stockTargetSchema.extend({
+        countedQuantity: z.number().int().min(0),
+        reason: z.string().trim().max(500).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await enforceOwner(ctx, input.shopId);
+
+      const target = await resolveStockTarget(ctx.db, input);
+      const movement = {
+        source: "STOCK_TAKE" as const,
+        reason: input.reason,
+        actorId: ctx.session.user.id,
+      };
+      const result = await ctx.db.$transaction(async (tx) => {
+        const change = await setStock(tx, target, input.countedQuantity, movement);
+        await rollUpVariants(tx, target.productId, movement);
+        return change;
+      });
+      if (result.change !== 0) {
+        await queueInventorySync(input.shopId);
+      }
+
+      return {
+        success: true,
+        message:
+          result.change === 0
+            ? "Count matches stock on hand"
+            : `Stock corrected from ${result.quantityBefore} to ${result.quantityAfter}`,
+        ...result,
+      };
+    }),
+
+  /**
+   * Stock changes waiting to be pushed to Shopee, and those Shopee rejected
+   * Only OWNER can view
+   */
+  getStockSyncStatus: protectedProcedure
+    .input(z.object({ shopId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await enforceOwner(ctx, input.shopId);
+
+      const [pendingProducts, pendingVariants, failedProducts, failedVariants] = await Promise.all([
+        ctx.db.product.count({
+          where: { shopId: input.shopId, stockSyncStatus: "PENDING", variants: { none: {} } },
+        }),
+        ctx.db.productVariant.count({
+          where: { product: { shopId: input.shopId }, stockSyncStatus: "PENDING" },
+        }),
+        ctx.db.product.findMany({
+          where: { shopId: input.shopId, stockSyncStatus: "FAILED" },
+          select: { id: true, name: true, sku: true, stock: true, stockSyncError: true, updatedAt: true },
+          orderBy: { updatedAt: "desc" },
+        }),
+        ctx.db.productVariant.findMany({
+          where: { product: { shopId: input.shopId }, stockSyncStatus: "FAILED" },
+          select: {
+            id: true,
+            name: true,
+            sku: true,
+            stock: true,
+            stockSyncError: true,
+            updatedAt: true,
+            product: { select: { id: true, name: true } },
+          },
+          orderBy: { updatedAt: "desc" },
+        }),
+      ]);
+
+      const failed = [
+        ...failedProducts.map((product) => ({
+          productId: product.id,
+          variantId: null,
+          name: product.name,
+          sku: product.sku,
+          stock: product.stock,
+          error: product.stockSyncError,
+          updatedAt: product.updatedAt,
+        })),
+        ...failedVariants.map((variant) => ({
+          productId: variant.product.id,
+          variantId: variant.id,
+          name: `${variant.product.name} (${variant.name})`,
+          sku: variant.sku,
+          stock: variant.stock,
+          error: variant.stockSyncError,
+          updatedAt: variant.updatedAt,
+        })),
+      ].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+      return {
+        pending: pendingProducts + pendingVariants,
+        failed,
+      };
+    }),
+
+  /**
+   * Push stock Shopee rejected again, and stock still waiting to be pushed
+   * (e.g. left PENDING after the sync job gave up on Shopee being unreachable)
+   * Only OWNER can retry
+   */
+  retryStockSync: protectedProcedure
+    .input(z.object({ shopId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await enforceOwner(ctx, input.shopId);
+
+      await ctx.db.$transaction([
+        ctx.db.product.updateMany({
+          where: { shopId: input.shopId, stockSyncStatus: "FAILED" },
+          data: { stockSyncStatus: "PENDING", stockSyncError: null },
+        }),
+        ctx.db.productVariant.updateMany({
+          where: { product: { shopId: input.shopId }, stockSyncStatus: "FAILED" },
+          data: { stockSyncStatus: "PENDING", stockSyncError: null },
+        }),
+      ]);
+
+      const [pendingProducts, pendingVariants] = await Promise.all([
+        ctx.db.product.count({
+          where: { shopId: input.shopId, stockSyncStatus: "PENDING", variants: { none: {} } },
+        }),
+        ctx.db.productVariant.count({
+          where: { product: { shopId: input.shopId }, stockSyncStatus: "PENDING" },
+        }),
+      ]);
+
+      const queued = pendingProducts + pendingVariants;
+      if (queued > 0) {
+        await addInventorySyncJob({ shopId: input.shopId });
+      }
+
+      return {
+        success: true,
+        message: queued > 0 ? `Retrying ${queued} stock update${queued === 1 ? "" : "s"}` : "Nothing to retry",
+      };
+    }),
+
+  /**
+   * Master SKUs with their channel listings
+   * Any shop member can view
+   */
+  getMasterSkus: shopMemberProcedure
+    .input(
+      z.object({
+        shopId: z.string(),
+        search: z.string().trim().optional(), // Matches SKU or name
+        limit: z.number().min(1).max(100).default(50),
+        cursor: z.string().optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const listingSelect = { id: true, name: true, sku: true, stock: true, stockSyncStatus: true, stockSyncError: true };
+
+      const masterSkus = await ctx.db.masterSku.findMany({
+        where: {
+          shopId: ctx.shopId,
+          ...(input.search && {
+            OR: [
+              { sku: { contains: input.search, mode: "insensitive" } },
+              { name: { contains: input.search, mode: "insensitive" } },
+            ],
+          }),
+        },
+        take: input.limit + 1,
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        orderBy: [{ sku: "asc" }, { id: "asc" }],
+        include: {
+          products: { select: { ...listingSelect, platform: true } },
+          variants: {
+            select: { ...listingSelect, product: { select: { id: true, name: true, platform: true } } },
+          },
+        },
+      });
+
+      let nextCursor: string | undefined = undefined;
+      if (masterSkus.length > input.limit) {
+        const nextItem = masterSkus.pop();
+        nextCursor = nextItem?.id;
+      }
+
+      return {
+        masterSkus,
+        nextCursor,
+      };
+    }),
+
+  /**
+   * Create a master SKU with its opening stock
+   * Only OWNER can create
+   */
+  createMasterSku: protectedProcedure
+    .input(
+      z.object({
+        shopId: z.string(),
+        sku: z.string().trim().min(1).max(100),
+        name: z.string().trim().min(1).max(255),
+        stock: z.number().int().min(0).default(0),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await enforceOwner(ctx, input.shopId);
+      await ensureSkuAvailable(ctx.db, input.shopId, input.sku);
+
+      const masterSku = await ctx.db.$transaction(async (tx) => {
+        const created = await tx.masterSku.create({
+          data: { shopId: input.shopId, sku: input.sku, name: input.name },
+        });
+        await setMasterStock(tx, created.id, input.stock, {
+          source: "OPENING_BALANCE",
+          actorId: ctx.session.user.id,
+        });
+        return created;
+      });
+
+      return {
+        success: true,
+        message: "Master SKU created",
+        masterSku,
+      };
+    }),
+
+  /**
+   * Rename a master SKU or change its SKU code
+   * Only OWNER can update
+   */
+  updateMasterSku: protectedProcedure
+    .input(
+      masterSkuSchema.extend({
+        sku: z.string().trim().min(1).max(100).optional(),
+        name: z.string().trim().min(1).max(255).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await enforceOwner(ctx, input.shopId);
+      await findMasterSku(ctx.db, input);
+      if (input.sku) {
+        await ensureSkuAvailable(ctx.db, input.shopId, input.sku, input.masterSkuId);
+      }
+
+      const masterSku = await ctx.db.masterSku.update({
+        where: { id: input.masterSkuId },
+        data: { sku: input.sku, name: input.name },
+      });
+
+      return {
+        success: true,
+        message: "Master SKU updated",
+        masterSku,
+      };
+    }),
+
+  /**
+   * Delete a master SKU; its listings keep their current stock, unlinked
+   * Only OWNER can delete
+   */
+  deleteMasterSku: protectedProcedure
+    .input(masterSkuSchema)
+    .mutation(async ({ ctx, input }) => {
+      await enforceOwner(ctx, input.shopId);
+      await findMasterSku(ctx.db, input);
+
+      // Listings keep their stock; the master's history is kept, closed at zero
+      await ctx.db.$transaction(async (tx) => {
+        await tx.product.updateMany({
+          where: { masterSkuId: input.masterSkuId },
+          data: { masterSkuId: null, masterSkuLinkedAt: null },
+        });
+        await tx.productVariant.updateMany({
+          where: { masterSkuId: input.masterSkuId },
+          data: { masterSkuId: null, masterSkuLinkedAt: null },
+        });
+        await closeStock(
+          tx,
+          { masterSkuId: input.masterSkuId },
+          { reason: "Master SKU deleted", actorId: ctx.session.user.id },
+        );
+        await tx.masterSku.delete({ where: { id: input.masterSkuId } });
+      });
+
+      return {
+        success: true,
+        message: "Master SKU deleted",
+      };
+    }),
+
+  /**
+   * Link a channel listing to a master SKU; the listing takes the master's stock
+   * Only OWNER can link
+   */
+  linkListing: protectedProcedure
+    .input(
+      masterSkuSchema.extend({
+        productId: z.string(),
+        variantId: z.string().optional(), // Omit for a product without variants
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await enforceOwner(ctx, input.shopId);
+      const masterSku = await findMasterSku(ctx.db, input);
+
+      const product = await ctx.db.product.findFirst({
+        where: { id: input.productId, shopId: input.shopId },
+        select: {
+          id: true,
+          masterSkuId: true,
+          variants: { where: { id: input.variantId }, select: { id: true, masterSkuId: true } },
+          _count: { select: { variants: true } },
+        },
+      });
+
+      if (!product) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Product not found",
+        });
+      }
+
+      let linkedTo: string | null;
+      if (input.variantId) {
+        const variant = product.variants[0];
+        if (!variant) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Variant not found",
+          });
+        }
+        linkedTo = variant.masterSkuId;
+      } else {
+        if (product._count.variants > 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "This product has variants. Link each variant instead.",
+          });
+        }
+        linkedTo = product.masterSkuId;
+      }
+
+      if (linkedTo && linkedTo !== masterSku.id) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "This listing is already linked to another master SKU. Unlink it first.",
+        });
+      }
+      if (linkedTo === masterSku.id) {
+        return {
+          success: true,
+          message: `Already linked to ${masterSku.sku}`,
+        };
+      }
+
+      const changed = await ctx.db.$transaction((tx) =>
+        linkListing(tx, masterSku.id, { productId: product.id, variantId: input.variantId ?? null })
+      );
+      if (changed) {
+        await queueInventorySync(input.shopId);
+      }
+
+      return {
+        success: true,
+        message: `Linked to ${masterSku.sku}`,
+      };
+    }),
+
+  /**
+   * Unlink a channel listing; it keeps its current stock
+   * Only OWNER can unlink
+   */
+  unlinkListing: protectedProcedure
+    .input(
+      z.object({
+        shopId: z.string(),
+        productId: z.string(),
+        variantId: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await enforceOwner(ctx, input.shopId);
+
+      const data = { masterSkuId: null, masterSkuLinkedAt: null };
+      const unlinked = input.variantId
+        ? await ctx.db.productVariant.updateMany({
+            where: { id: input.variantId, productId: input.productId, product: { shopId: input.shopId } },
+            data,
+          })
+        : await ctx.db.product.updateMany({
+            where: { id: input.productId, shopId: input.shopId },
+            data,
+          });
+
+      if (unlinked.count === 0) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Listing not found",
+        });
+      }
+
+      return {
+        success: true,
+        message: "Listing unlinked",
+      };
+    }),
+
+  /**
+   * Stock movement history of a master SKU, newest first
+   * Any shop member can view
+   */
+  getMasterSkuHistory: shopMemberProcedure
+    .input(
+      masterSkuSchema.extend({
+        limit: z.number().min(1).max(100).default(50),
+        cursor: z.string().optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const masterSku = await findMasterSku(ctx.db, input);
+
+      const movements = await ctx.db.stockMovement.findMany({
+        where: { masterSkuId: masterSku.id },
+        take: input.limit + 1,
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        include: {
+          actor: { select: { id: true, name: true, email: true } },
+        },
+      });
+
+      let nextCursor: string | undefined = undefined;
+      if (movements.length > input.limit) {
+        const nextItem = movements.pop();
+        nextCursor = nextItem?.id;
+      }
+
+      return {
+        masterSku,
+        movements,
+        nextCursor,
+      };
+    }),
+
+  /**
+   * Record a manual adjustment, sale or return against a master SKU
+   * (e.g. a sale on a channel that isn't connected); its listings follow
+   * Only OWNER can adjust
+   */
+  adjustMasterStock: protectedProcedure
+    .input(
+      masterSkuSchema.extend({
+        source: z.enum(["MANUAL_ADJUSTMENT", "SALE", "RETURN"]),
+        change: z.number().int().refine((change) => change !== 0, "Change cannot be zero"),
+        reason: z.string().trim().min(1).max(500),
+        reference: z.string().trim().max(100).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await enforceOwner(ctx, input.shopId);
+      const masterSku = await findMasterSku(ctx.db, input);
+
+      if (input.source === "SALE" && input.change > 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "A sale must reduce stock",
+        });
+      }
+      if (input.source === "RETURN" && input.change < 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "A return must increase stock",
+        });
+      }
+
+      let listingsChanged = false;
+      const result = await applyStockChange(() =>
+        ctx.db.$transaction(async (tx) => {
+          const change = await adjustStock(tx, { masterSkuId: masterSku.id }, input.change, {
+            source: input.source,
+            reason: input.reason,
+            reference: input.reference,
+            actorId: ctx.session.user.id,
+          });
+          listingsChanged = await propagateMasterStock(tx, masterSku.id);
+          return change;
+        })
+      );
+      if (listingsChanged) {
+        await queueInventorySync(input.shopId);
+      }
+
+      return {
+        success: true,
+        message: `Stock changed from ${result.quantityBefore} to ${result.quantityAfter}`,
+        ...result,
+      };
+    }),
+
+  /**
+   * Record a physical count of a master SKU; its listings follow
+   * Only OWNER can record
+   */
+  recordMasterStockTake: protectedProcedure
+    .input(
+      masterSkuSchema.extend({
+        countedQuantity: z.number().int().min(0),
+        reason: z.string().trim().max(500).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await enforceOwner(ctx, input.shopId);
+      const masterSku = await findMasterSku(ctx.db, input);
+
+      const listingsChanged = await ctx.db.$transaction((tx) =>
+        setMasterStock(tx, masterSku.id, input.countedQuantity, {
+          source: "STOCK_TAKE",
+          reason: input.reason,
+          actorId: ctx.session.user.id,
+        })
+      );
+      if (listingsChanged) {
+        await queueInventorySync(input.shopId);
+      }
+
+      return {
+        success: true,
+        message:
+          masterSku.stock === input.countedQuantity
+            ? "Count matches stock on hand"
+            : `Stock corrected from ${masterSku.stock} to ${input.countedQuantity}`,
+      };
+    }),
+
+  /**
+   * Master SKUs, products and variants whose stock differs from their movement history
+   * Only OWNER can view
+   */
+  getStockDiscrepancies: protectedProcedure
+    .input(z.object({ shopId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await enforceOwner(ctx, input.shopId);
+
+      return findStockDiscrepancies(input.shopId);
+    }),
+
+  /**
+   * Set how a product is taxed when it differs from the shop tax profile
+   * (null follows the profile). Lines of orders not yet receipted follow it;
+   * issued receipts keep the classification they were issued with
+   * Owners and Accountants can set
+   */
+  setTaxClassification: accountantOrOwnerProcedure
+    .input(
+      z.object({
+        shopId: z.string(),
+        productId: z.string(),
+        taxClassification: z.nativeEnum(LineTaxClassification).nullable(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const product = await ctx.db.product.findFirst({
+        where: { id: input.productId, shopId: ctx.shopId },
+        select: { id: true },
+      });
+
+      if (!product) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Product not found",
+        });
+      }
+
+      await ctx.db.$transaction([
+        ctx.db.product.update({
+          where: { id: product.id },
+          data: { taxClassification: input.taxClassification },
+        }),
+        ctx.db.orderItem.updateMany({
+          where: {
+            productId: product.id,
+            order: { receipts: { none: { status: { not: "VOIDED" } } } },
+          },
+          data: { taxClassification: input.taxClassification },
+        }),
+      ]);
+
+      return {
+        success: true,
+        message: "Tax classification updated",
+      };
+    }),
+});
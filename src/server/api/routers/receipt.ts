@@ -0,0 +1,756 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import {
+  createTRPCRouter,
+  publicProcedure,
+  protectedProcedure,
+  accountantOrOwnerProcedure,
+  enforceOwner,
+} from "~/server/api/trpc";
+import { Prisma, ReceiptStatus, type EisStatus } from "../../../../generated/prisma";
+import { addEisTransmitJob, addInventorySyncJob, addReceiptJob } from "~/server/jobs/queue";
+import { applyOrderToMasterStock } from "~/lib/master-sku";
+import { fileStorage } from "~/lib/fileStorage";
+import { toOrderLineItems } from "~/lib/order-items";
+import { computeOrderTax, DEFAULT_TAX_PROFILE } from "~/lib/tax";
+import { EIS_STALE_SUBMISSION_MS } from "~/lib/eis";
+
+// Signed download links are short-lived (5 minutes)
+const DOWNLOAD_URL_TTL_SECONDS = 300;
+
+/**
+ * Format a serial for printing: optional prefix + serial zero-padded
+ * to the width of the ATP's last serial (e.g. OR-000123)
+ */
+function formatReceiptNumber(
+  prefix: string | null,
+  serialNumber: number,
+  endSerial: number,
+): string {
+  const width = endSerial.toString().length;
+  return `${prefix ?? ""}${serialNumber.toString().padStart(width, "0")}`;
+}
+
+export const receiptRouter = createTRPCRouter({
+  /**
+   * Get ATP serial ranges registered for a shop
+   * Owners and Accountants can view
+   */
+  getSeries: accountantOrOwnerProcedure
+    .input(z.object({ shopId: z.string() }))
+    .query(async ({ ctx }) => {
+      const series = await ctx.db.receiptSeries.findMany({
+        where: { shopId: ctx.shopId },
+        orderBy: { startSerial: "desc" },
+      });
+
+      return series.map((s) => ({
+        id: s.id,
+        atpNumber: s.atpNumber,
+        prefix: s.prefix,
+        startSerial: s.startSerial,
+        endSerial: s.endSerial,
+        nextSerial: s.nextSerial,
+        remaining: Math.max(0, s.endSerial - s.nextSerial + 1),
+        isActive: s.isActive,
+        createdAt: s.createdAt,
+      }));
+    }),
+
+  /**
+   * Register a new ATP-approved serial range
+   * Only OWNER can register; the new range becomes the active series
+   */
+  createSeries: protectedProcedure
+    .input(
+      z
+        .object({
+          shopId: z.string(),
+          atpNumber: z.string().min(1, "ATP number is required"),
+          prefix: z.string().max(10).optional(),
+          startSerial: z.number().int().min(1),
+          endSerial: z.number().int().min(1),
+        })
+        .refine((data) => data.endSerial >= data.startSerial, {
+          message: "End serial must not be lower than start serial",
+          path: ["endSerial"],
+        }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      // Enforce owner access
+      await enforceOwner(ctx, input.shopId);
+
+      let series;
+      try {
+        // Serializable, so two overlapping ranges registered at once can't both pass the check
+        series = await ctx.db.$transaction(
+          async (tx) => {
+            // Serial ranges must never overlap, otherwise a number could be issued twice
+            const overlapping = await tx.receiptSeries.findFirst({
+              where: {
+                shopId: input.shopId,
+                startSerial: { lte: input.endSerial },
+                endSerial: { gte: input.startSerial },
+              },
+            });
+
+            if (overlapping) {
+              throw new TRPCError({
+                code: "CONFLICT",
+                message: `Serial range overlaps with ATP ${overlapping.atpNumber}`,
+              });
+            }
+
+            // Only one series is active at a time
+            await tx.receiptSeries.updateMany({
+              where: { shopId: input.shopId, isActive: true },
+              data: { isActive: false },
+            });
+
+            return tx.receiptSeries.create({
+              data: {
+                shopId: input.shopId,
+                atpNumber: input.atpNumber,
+                prefix: input.prefix ?? null,
+                startSerial: input.startSerial,
+                endSerial: input.endSerial,
+                nextSerial: input.startSerial,
+                isActive: true,
+              },
+            });
+          },
+          { isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+        );
+      } catch (error) {
+        // Lost a race with a concurrent registration
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2034"
+        ) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "Another serial range was registered at the same time, please retry",
+          });
+        }
+
+        throw error;
+      }
+
+      return {
+        success: true,
+        message: "ATP serial range registered",
+        series: {
+          id: series.id,
+          atpNumber: series.atpNumber,
+        },
+      };
+    }),
+
+  /**
+   * Issue a receipt against an order
+   * Owners and Accountants can issue
+   *
+   * Serials are claimed inside the same transaction that creates the receipt:
+   * the increment locks the series row so concurrent issuers are serialized,
+   * and any failure rolls the increment back, so numbers are never skipped or reused.
+   */
+  issueReceipt: accountantOrOwnerProcedure
+    .input(
+      z.object({
+        shopId: z.string(),
+        orderId: z.string(),
+        buyerName: z.string().min(1).optional(),
+        buyerTin: z
+          .string()
+          .regex(/^\d{9}(\d{3})?$/, "TIN must be 9 or 12 digits")
+          .optional(),
+        buyerAddress: z.string().min(1).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const receipt = await ctx.db.$transaction(async (tx) => {
+          const order = await tx.order.findUnique({
+            where: { id: input.orderId },
+            include: {
+              // A voided receipt doesn't count: the order can be receipted again
+              receipts: { where: { status: { not: "VOIDED" } }, select: { id: true } },
+              items: { orderBy: { position: "asc" } },
+            },
+          });
+
+          if (order?.shopId !== ctx.shopId) {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: "Order not found",
+            });
+          }
+
+          if (order.status.toUpperCase() === "CANCELLED") {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: "Cannot issue a receipt for a cancelled order",
+            });
+          }
+
+          if (order.receipts.length > 0) {
+            throw new TRPCError({
+              code: "CONFLICT",
+              message: "A receipt has already been issued for this order",
+            });
+          }
+
+          const activeSeries = await tx.receiptSeries.findFirst({
+            where: { shopId: ctx.shopId, isActive: true },
+          });
+
+          if (!activeSeries) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: "No active ATP serial range. Register your ATP first.",
+            });
+          }
+
+          const taxProfile = await tx.shopTaxProfile.findUnique({
+            where: { shopId: ctx.shopId },
+          });
+          const tax = computeOrderTax(
+            taxProfile ?? DEFAULT_TAX_PROFILE,
+            toOrderLineItems(order.items),
+            order.totalAmount.toNumber(),
+          );
+
+          // Claim the next serial (row lock held until commit)
+          const series = await tx.receiptSeries.update({
+            where: { id: activeSeries.id },
+            data: { nextSerial: { increment: 1 } },
+          });
+          const serialNumber = series.nextSerial - 1;
+
+          if (serialNumber > series.endSerial) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: `ATP ${series.atpNumber} serial range is exhausted. Register a new ATP to continue issuing receipts.`,
+            });
+          }
+
+          return tx.receipt.create({
+            data: {
+              shopId: ctx.shopId,
+              seriesId: series.id,
+              orderId: order.id,
+              serialNumber,
+              receiptNumber: formatReceiptNumber(
+                series.prefix,
+                serialNumber,
+                series.endSerial,
+              ),
+              buyerName: input.buyerName ?? order.customerName,
+              buyerTin: input.buyerTin ?? null,
+              buyerAddress: input.buyerAddress ?? order.shippingAddress,
+              totalAmount: order.totalAmount,
+              taxType: tax.taxType,
+              vatableSales: tax.vatableSales,
+              vatAmount: tax.vatAmount,
+              vatExemptSales: tax.vatExemptSales,
+              zeroRatedSales: tax.zeroRatedSales,
+              eisStatus: taxProfile?.eisEnabled ? "PENDING" : null,
+              issuedById: ctx.session.user.id,
+              // The receipt keeps the lines it was issued with
+              lines: {
+                create: order.items.map((item) => ({
+                  position: item.position,
+                  name: item.name,
+                  sku: item.sku,
+                  quantity: item.quantity,
+                  unitPrice: item.unitPrice,
+                  discount: item.discount,
+                  amount: item.amount,
+                  taxClassification: item.taxClassification,
+                })),
+              },
+              events: {
+                create: {
+                  type: "ISSUED",
+                  actorId: ctx.session.user.id,
+                },
+              },
+            },
+          });
+        });
+
+        // Render the PDF in the background
+        try {
+          await addReceiptJob({
+            receiptId: receipt.id,
+            orderId: receipt.orderId,
+            shopId: receipt.shopId,
+          });
+        } catch (queueError) {
+          console.error(`[Receipt] Failed to queue PDF render for ${receipt.id}:`, queueError);
+          // The receipt is issued; the PDF can be re-queued later
+        }
+
+        if (receipt.eisStatus === "PENDING") {
+          try {
+            await addEisTransmitJob({ shopId: receipt.shopId });
+          } catch (queueError) {
+            console.error(`[Receipt] Failed to queue EIS transmission for ${receipt.id}:`, queueError);
+            // Stays PENDING; picked up by the next transmission
+          }
+        }
+
+        return {
+          success: true,
+          message: "Receipt issued successfully",
+          receipt: {
+            id: receipt.id,
+            receiptNumber: receipt.receiptNumber,
+            serialNumber: receipt.serialNumber,
+          },
+        };
+      } catch (error) {
+        // Lost a race with a concurrent request for the same order
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2002"
+        ) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "A receipt has already been issued for this order",
+          });
+        }
+
+        throw error;
+      }
+    }),
+
+  /**
+   * Get issued receipts for a shop (newest serial first)
+   * Owners and Accountants can view
+   */
+  getReceipts: accountantOrOwnerProcedure
+    .input(
+      z.object({
+        shopId: z.string(),
+        status: z.nativeEnum(ReceiptStatus).optional(),
+        limit: z.number().min(1).max(100).default(50),
+        cursor: z.string().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const receipts = await ctx.db.receipt.findMany({
+        where: {
+          shopId: ctx.shopId,
+          ...(input.status && { status: input.status }),
+        },
+        take: input.limit + 1,
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        orderBy: { serialNumber: "desc" },
+        include: {
+          order: {
+            select: {
+              orderNumber: true,
+            },
+          },
+        },
+      });
+
+      let nextCursor: string | undefined = undefined;
+      if (receipts.length > input.limit) {
+        const nextItem = receipts.pop();
+        nextCursor = nextItem?.id;
+      }
+
+      return {
+        receipts,
+        nextCursor,
+      };
+    }),
+
+  /**
+   * Get a single receipt with its order
+   * Owners and Accountants can view
+   */
+  getReceipt: accountantOrOwnerProcedure
+    .input(z.object({ shopId: z.string(), receiptId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const receipt = await ctx.db.receipt.findUnique({
+        where: { id: input.receiptId },
+        include: {
+          order: true,
+          series: {
+            select: {
+              atpNumber: true,
+            },
+          },
+          issuedBy: {
+            select: {
+              name: true,
+              email: true,
+            },
+          },
+          voidedBy: {
+            select: {
+              name: true,
+              email: true,
+            },
+          },
+          events: {
+            orderBy: { createdAt: "asc" },
+            include: {
+              actor: {
+                select: {
+                  name: true,
+                  email: true,
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (receipt?.shopId !== ctx.shopId) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Receipt not found",
+        });
+      }
+
+      return receipt;
+    }),
+
+  /**
+   * Void an issued receipt
+   * Owners and Accountants can void
+   *
+   * The receipt row and its serial are kept (BIR requires voided serials to
+   * stay accounted for); the PDF is re-rendered with a VOID stamp. Voiding a
+   * receipt flagged by a Shopee cancellation also applies the cancellation
+   * to the order.
+   */
+  voidReceipt: accountantOrOwnerProcedure
+    .input(
+      z.object({
+        shopId: z.string(),
+        receiptId: z.string(),
+        reason: z.string().trim().min(1, "A reason is required").max(500),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      let listingsChanged = false;
+      const receipt = await ctx.db.$transaction(async (tx) => {
+        const existing = await tx.receipt.findUnique({
+          where: { id: input.receiptId },
+          select: { shopId: true, status: true },
+        });
+
+        if (existing?.shopId !== ctx.shopId) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Receipt not found",
+          });
+        }
+
+        if (existing.status === "VOIDED") {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "Receipt has already been voided",
+          });
+        }
+
+        // Guard on the status we read so concurrent voids can't both succeed
+        const voided = await tx.receipt.updateMany({
+          where: { id: input.receiptId, status: existing.status },
+          data: {
+            status: "VOIDED",
+            voidReason: input.reason,
+            voidedById: ctx.session.user.id,
+            voidedAt: new Date(),
+          },
+        });
+
+        if (voided.count === 0) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "Receipt was modified by another user, please retry",
+          });
+        }
+
+        // Never reached EIS, so there is nothing to report; drop it from the queue
+        await tx.receipt.updateMany({
+          where: { id: input.receiptId, eisStatus: { in: ["PENDING", "FAILED"] } },
+          data: { eisStatus: null, eisError: null },
+        });
+
+        await tx.receiptEvent.create({
+          data: {
+            receiptId: input.receiptId,
+            type: "VOIDED",
+            actorId: ctx.session.user.id,
+            reason: input.reason,
+          },
+        });
+
+        const updated = await tx.receipt.findUniqueOrThrow({
+          where: { id: input.receiptId },
+        });
+
+        // The Shopee cancellation was held back while the receipt was under review
+        if (existing.status === "VOID_REVIEW") {
+          await tx.order.update({
+            where: { id: updated.orderId },
+            data: { status: "CANCELLED" },
+          });
+          listingsChanged = await applyOrderToMasterStock(tx, updated.orderId, true);
+        }
+
+        return updated;
+      });
+
+      // Re-render the PDF with the VOID stamp
+      try {
+        await addReceiptJob({
+          receiptId: receipt.id,
+          orderId: receipt.orderId,
+          shopId: receipt.shopId,
+        });
+      } catch (queueError) {
+        console.error(`[Receipt] Failed to queue VOID re-render for ${receipt.id}:`, queueError);
+      }
+
+      // The cancelled order's stock went back to its master SKUs
+      if (listingsChanged) {
+        try {
+          await addInventorySyncJob({ shopId: receipt.shopId });
+        } catch (queueError) {
+          console.error(`[Receipt] Failed to queue inventory sync for shop ${receipt.shopId}:`, queueError);
+          // Stays PENDING; pushed with the shop's next sync
+        }
+      }
+
+      return {
+        success: true,
+        message: `Receipt ${receipt.receiptNumber} voided`,
+      };
+    }),
+
+  /**
+   * Clear a voiding review flag and keep the receipt valid
+   * Owners and Accountants can dismiss
+   */
+  dismissVoidReview: accountantOrOwnerProcedure
+    .input(
+      z.object({
+        shopId: z.string(),
+        receiptId: z.string(),
+        reason: z.string().trim().max(500).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db.$transaction(async (tx) => {
+        const result = await tx.receipt.updateMany({
+          where: {
+            id: input.receiptId,
+            shopId: ctx.shopId,
+            status: "VOID_REVIEW",
+          },
+          data: { status: "ISSUED" },
+        });
+
+        if (result.count === 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Receipt is not flagged for voiding review",
+          });
+        }
+
+        await tx.receiptEvent.create({
+          data: {
+            receiptId: input.receiptId,
+            type: "VOID_REVIEW_DISMISSED",
+            actorId: ctx.session.user.id,
+            reason: input.reason ?? null,
+          },
+        });
+      });
+
+      return {
+        success: true,
+        message: "Voiding review dismissed",
+      };
+    }),
+
+  /**
+   * Verify a receipt from the QR code printed on it (public - no auth required)
+   *
+   * Only what is needed to confirm the receipt is returned; buyer details,
+   * the order and the voiding reason are never exposed.
+   */
+  verifyReceipt: publicProcedure
+    .input(z.object({ receiptId: z.string().min(1).max(50) }))
+    .query(async ({ ctx, input }) => {
+      const receipt = await ctx.db.receipt.findUnique({
+        where: { id: input.receiptId },
+        select: {
+          receiptNumber: true,
+          issuedAt: true,
+          totalAmount: true,
+          status: true,
+          voidedAt: true,
+          shop: {
+            select: {
+              name: true,
+            },
+          },
+        },
+      });
+
+      if (!receipt) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Receipt not found",
+        });
+      }
+
+      // Receipts under voiding review remain valid until actually voided
+      const isVoided = receipt.status === "VOIDED";
+
+      return {
+        shopName: receipt.shop.name,
+        receiptNumber: receipt.receiptNumber,
+        issuedAt: receipt.issuedAt,
+        totalAmount: receipt.totalAmount,
+        status: isVoided ? ("VOIDED" as const) : ("VALID" as const),
+        voidedAt: isVoided ? receipt.voidedAt : null,
+      };
+    }),
+
+  /**
+   * Get a short-lived download URL for a receipt PDF
+   * Owners and Accountants can download
+   */
+  getDownloadUrl: accountantOrOwnerProcedure
+    .input(z.object({ shopId: z.string(), receiptId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const receipt = await ctx.db.receipt.findUnique({
+        where: { id: input.receiptId },
+        select: { shopId: true, pdfKey: true },
+      });
+
+      if (receipt?.shopId !== ctx.shopId) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Receipt not found",
+        });
+      }
+
+      if (!receipt.pdfKey) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Receipt PDF is still being generated",
+        });
+      }
+
+      const url = await fileStorage.getSignedUrl(
+        receipt.pdfKey,
+        DOWNLOAD_URL_TTL_SECONDS,
+      );
+
+      return {
+        url,
+        expiresAt: new Date(Date.now() + DOWNLOAD_URL_TTL_SECONDS * 1000),
+      };
+    }),
+
+  /**
+   * Get EIS transmission counts and the most recent batches
+   * Owners and Accountants can view
+   */
+  getEisStatus: accountantOrOwnerProcedure
+    .input(z.object({ shopId: z.string() }))
+    .query(async ({ ctx }) => {
+      const [taxProfile, counts, batches] = await Promise.all([
+        ctx.db.shopTaxProfile.findUnique({
+          where: { shopId: ctx.shopId },
+          select: { eisEnabled: true },
+        }),
+        ctx.db.receipt.groupBy({
+          by: ["eisStatus"],
+          where: { shopId: ctx.shopId, eisStatus: { not: null } },
+          _count: { _all: true },
+        }),
+        ctx.db.eisBatch.findMany({
+          where: { shopId: ctx.shopId },
+          orderBy: { submittedAt: "desc" },
+          take: 10,
+        }),
+      ]);
+
+      const countFor = (status: EisStatus) =>
+        counts.find((row) => row.eisStatus === status)?._count._all ?? 0;
+
+      return {
+        enabled: taxProfile?.eisEnabled ?? false,
+        pending: countFor("PENDING"),
+        submitted: countFor("SUBMITTED"),
+        accepted: countFor("ACCEPTED"),
+        rejected: countFor("REJECTED"),
+        failed: countFor("FAILED"),
+        batches,
+      };
+    }),
+
+  /**
+   * Queue transmission of pending and failed receipts to EIS
+   * Owners and Accountants can transmit
+   *
+   * Rejected receipts are not resent; their data has to be corrected first.
+   */
+  transmitToEis: accountantOrOwnerProcedure
+    .input(z.object({ shopId: z.string() }))
+    .mutation(async ({ ctx }) => {
+      const taxProfile = await ctx.db.shopTaxProfile.findUnique({
+        where: { shopId: ctx.shopId },
+        select: { eisEnabled: true },
+      });
+
+      if (!taxProfile?.eisEnabled) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "EIS transmission is not enabled in the tax profile",
+        });
+      }
+
+      // Includes receipts of batches that never recorded an outcome (recovered by the worker)
+      const queued = await ctx.db.receipt.count({
+        where: {
+          shopId: ctx.shopId,
+          status: { not: "VOIDED" },
+          OR: [
+            { eisStatus: { in: ["PENDING", "FAILED"] } },
+            {
+              eisStatus: "SUBMITTED",
+              eisBatch: {
+                status: "SUBMITTING",
+                submittedAt: { lt: new Date(Date.now() - EIS_STALE_SUBMISSION_MS) },
+              },
+            },
+          ],
+        },
+      });
+
+      if (queued > 0) {
+        await addEisTransmitJob({ shopId: ctx.shopId });
+      }
+
+      return {
+        success: true,
+        message:
+          queued > 0
+            ? `${queued} receipt(s) queued for EIS transmission`
+            : "No receipts waiting for EIS transmission",
+        queued,
+      };
+    }),
+});
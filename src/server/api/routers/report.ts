@@ -0,0 +1,230 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import {
+  createTRPCRouter,
+  accountantOrOwnerProcedure,
+} from "~/server/api/trpc";
+import type { db } from "~/server/db";
+import { buildSalesList } from "~/lib/sales-list";
+import { toOrderLineItems } from "~/lib/order-items";
+import { computeOrderTax, DEFAULT_TAX_PROFILE } from "~/lib/tax";
+import { computeTaxReturnWorksheet } from "~/lib/tax-return";
+import { renderTaxReturnPdf } from "~/lib/tax-return-pdf";
+import { reconcileMarketplaceWithholding } from "~/lib/marketplace-withholding";
+import {
+  getQuarterRange,
+  taxQuarterSchema,
+  type TaxQuarter,
+} from "~/lib/tax-period";
+
+/**
+ * Load a shop's receipts, unreceipted orders, expenses and withholding
+ * for a quarter and compute its return worksheet
+ */
+async function loadTaxReturnWorksheet(
+  prisma: typeof db,
+  shopId: string,
+  period: TaxQuarter,
+) {
+  const shop = await prisma.shop.findUnique({
+    where: { id: shopId },
+    include: { taxProfile: true },
+  });
+
+  if (!shop) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Shop not found",
+    });
+  }
+
+  const profile = shop.taxProfile ?? DEFAULT_TAX_PROFILE;
+  const { start, end } = getQuarterRange(period);
+
+  const [receipts, orders, expenses, withholdings, payouts] = await Promise.all([
+    prisma.receipt.findMany({
+      where: {
+        shopId,
+        status: { not: "VOIDED" },
+        issuedAt: { gte: start, lt: end },
+      },
+    }),
+    // Orders placed in the quarter that are still waiting for a receipt
+    // (none issued, or only voided ones on an order that wasn't cancelled)
+    prisma.order.findMany({
+      where: {
+        shopId,
+        orderDate: { gte: start, lt: end },
+        receipts: { none: { status: { not: "VOIDED" } } },
+        NOT: { status: { equals: "CANCELLED", mode: "insensitive" } },
+      },
+      include: { items: { orderBy: { position: "asc" } } },
+    }),
+    prisma.expense.findMany({
+      where: { shopId, expenseDate: { gte: start, lt: end } },
+      select: { amount: true, inputVat: true },
+    }),
+    prisma.creditableWithholding.findMany({
+      where: { shopId, paymentDate: { gte: start, lt: end } },
+      select: { kind: true, taxWithheld: true, platform: true, certificateKey: true },
+    }),
+    prisma.marketplacePayout.findMany({
+      where: { shopId, payoutDate: { gte: start, lt: end } },
+    }),
+  ]);
+
+  const worksheet = computeTaxReturnWorksheet({
+    profile,
+    period,
+    receipts: receipts.map((receipt) => ({
+      vatableSales: receipt.vatableSales.toNumber(),
+      vatAmount: receipt.vatAmount.toNumber(),
+      vatExemptSales: receipt.vatExemptSales.toNumber(),
+      zeroRatedSales: receipt.zeroRatedSales.toNumber(),
+      totalAmount: receipt.totalAmount.toNumber(),
+    })),
+    unreceiptedOrders: orders.map((order) =>
+      computeOrderTax(profile, toOrderLineItems(order.items), order.totalAmount.toNumber()),
+    ),
+    expenses: expenses.map((expense) => ({
+      amount: expense.amount.toNumber(),
+      inputVat: expense.inputVat.toNumber(),
+    })),
+    withholdings: withholdings.map((withholding) => ({
+      kind: withholding.kind,
+      taxWithheld: withholding.taxWithheld.toNumber(),
+    })),
+    marketplaceWithholding: reconcileMarketplaceWithholding(
+      payouts.map((payout) => ({
+        platform: payout.platform,
+        payoutReference: payout.payoutReference,
+        grossRemittance: payout.grossRemittance.toNumber(),
+        taxWithheld: payout.taxWithheld.toNumber(),
+      })),
+      withholdings.map((withholding) => ({
+        platform: withholding.platform,
+        taxWithheld: withholding.taxWithheld.toNumber(),
+        hasCertificate: !!withholding.certificateKey,
+      })),
+    ),
+  });
+
+  return { shop, worksheet };
+}
+
+export const reportRouter = createTRPCRouter({
+  /**
+   * Export the Summary List of Sales (RELIEF DAT) and sales journal (CSV)
+   * for a quarter, built from the receipts issued in that quarter
+   * Owners and Accountants can export
+   *
+   * Voided receipts are excluded. Receipts missing buyer TIN or address
+   * are listed in `issues` and left out of the DAT.
+   */
+  exportSalesList: accountantOrOwnerProcedure
+    .input(taxQuarterSchema.extend({ shopId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const shop = await ctx.db.shop.findUnique({
+        where: { id: ctx.shopId },
+        include: { taxProfile: true },
+      });
+
+      if (!shop) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Shop not found",
+        });
+      }
+
+      if (shop.taxProfile && shop.taxProfile.taxType !== "VAT") {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "The Summary List of Sales is only filed by VAT-registered shops",
+        });
+      }
+
+      const { start, end } = getQuarterRange(input);
+      const receipts = await ctx.db.receipt.findMany({
+        where: {
+          shopId: ctx.shopId,
+          status: { not: "VOIDED" },
+          issuedAt: { gte: start, lt: end },
+        },
+        orderBy: { serialNumber: "asc" },
+        include: {
+          order: {
+            select: {
+              orderNumber: true,
+            },
+          },
+        },
+      });
+
+      return buildSalesList(
+        {
+          tinNumber: shop.tinNumber,
+          name: shop.name,
+          businessAddress: shop.businessAddress,
+          rdoCode: shop.taxProfile?.rdoCode ?? null,
+        },
+        { year: input.year, quarter: input.quarter },
+        receipts.map((receipt) => ({
+          receiptNumber: receipt.receiptNumber,
+          issuedAt: receipt.issuedAt,
+          orderNumber: receipt.order.orderNumber,
+          buyerName: receipt.buyerName,
+          buyerTin: receipt.buyerTin,
+          buyerAddress: receipt.buyerAddress,
+          totalAmount: receipt.totalAmount.toNumber(),
+          vatableSales: receipt.vatableSales.toNumber(),
+          vatAmount: receipt.vatAmount.toNumber(),
+          vatExemptSales: receipt.vatExemptSales.toNumber(),
+          zeroRatedSales: receipt.zeroRatedSales.toNumber(),
+        })),
+      );
+    }),
+
+  /**
+   * Get the quarterly 2550Q/2551Q worksheet for a shop
+   * Owners and Accountants can view
+   */
+  getTaxReturnWorksheet: accountantOrOwnerProcedure
+    .input(taxQuarterSchema.extend({ shopId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { worksheet } = await loadTaxReturnWorksheet(ctx.db, ctx.shopId, {
+        year: input.year,
+        quarter: input.quarter,
+      });
+
+      return worksheet;
+    }),
+
+  /**
+   * Render the quarterly worksheet as a PDF (base64-encoded)
+   * Owners and Accountants can download
+   */
+  getTaxReturnPdf: accountantOrOwnerProcedure
+    .input(taxQuarterSchema.extend({ shopId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { shop, worksheet } = await loadTaxReturnWorksheet(ctx.db, ctx.shopId, {
+        year: input.year,
+        quarter: input.quarter,
+      });
+
+      const pdf = await renderTaxReturnPdf({
+        shop: {
+          name: shop.name,
+          tinNumber: shop.tinNumber,
+          businessAddress: shop.businessAddress,
+          rdoCode: shop.taxProfile?.rdoCode ?? null,
+        },
+        worksheet,
+        generatedAt: new Date(),
+      });
+
+      return {
+        fileName: `${worksheet.form ?? "sales"}-worksheet-${input.year}-Q${input.quarter}.pdf`,
+        pdfBase64: pdf.toString("base64"),
+      };
+    }),
+});
@@ -1,7 +1,13 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 
-import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import {
+  createTRPCRouter,
+  protectedProcedure,
+  accountantOrOwnerProcedure,
+  enforceOwner,
+} from "~/server/api/trpc";
+import { DEFAULT_TAX_PROFILE } from "~/lib/tax";
 
 export const shopRouter = createTRPCRouter({
   createShop: protectedProcedure
@@ -105,4 +111,105 @@ export const shopRouter = createTRPCRouter({
         shopId: input.shopId,
       };
     }),
+
+  /**
+   * Get the shop's BIR tax profile
+   * Owners and Accountants can view
+   */
+  getTaxProfile: accountantOrOwnerProcedure
+    .input(z.object({ shopId: z.string() }))
+    .query(async ({ ctx }) => {
+      const shop = await ctx.db.shop.findUnique({
+        where: { id: ctx.shopId },
+        include: {
+          taxProfile: true,
+          receiptSeries: {
+            select: { atpNumber: true, isActive: true },
+            orderBy: { createdAt: "desc" },
+          },
+        },
+      });
+
+      if (!shop) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Shop not found",
+        });
+      }
+
+      const profile = shop.taxProfile;
+
+      return {
+        tinNumber: shop.tinNumber,
+        businessAddress: shop.businessAddress,
+        taxType: profile?.taxType ?? DEFAULT_TAX_PROFILE.taxType,
+        rdoCode: profile?.rdoCode ?? null,
+        registrationDate: profile?.registrationDate ?? null,
+        isVatExempt: profile?.isVatExempt ?? DEFAULT_TAX_PROFILE.isVatExempt,
+        isZeroRated: profile?.isZeroRated ?? DEFAULT_TAX_PROFILE.isZeroRated,
+        eisEnabled: profile?.eisEnabled ?? false,
+        atpNumbers: shop.receiptSeries.map((series) => ({
+          atpNumber: series.atpNumber,
+          isActive: series.isActive,
+        })),
+        isConfigured: !!profile,
+      };
+    }),
+
+  /**
+   * Update the shop's BIR tax profile
+   * Only OWNER can update
+   */
+  updateTaxProfile: protectedProcedure
+    .input(
+      z
+        .object({
+          shopId: z.string(),
+          taxType: z.enum(["VAT", "PERCENTAGE_TAX", "EIGHT_PERCENT"]),
+          rdoCode: z
+            .string()
+            .regex(/^\d{3}[A-Z]?$/, "RDO code must be 3 digits (e.g. 050)")
+            .optional(),
+          registrationDate: z.date().optional(),
+          isVatExempt: z.boolean().default(false),
+          isZeroRated: z.boolean().default(false),
+          eisEnabled: z.boolean().default(false),
+        })
+        .refine((data) => !(data.isVatExempt && data.isZeroRated), {
+          message: "Sales cannot be both VAT-exempt and zero-rated",
+          path: ["isZeroRated"],
+        })
+        .refine(
+          (data) =>
+            data.taxType === "VAT" || (!data.isVatExempt && !data.isZeroRated),
+          {
+            message: "Exempt and zero-rated sales only apply to VAT-registered shops",
+            path: ["taxType"],
+          },
+        ),
+    )
+    .mutation(async ({ ctx, input }) => {
+      // Enforce owner access
+      await enforceOwner(ctx, input.shopId);
+
+      const data = {
+        taxType: input.taxType,
+        rdoCode: input.rdoCode ?? null,
+        registrationDate: input.registrationDate ?? null,
+        isVatExempt: input.isVatExempt,
+        isZeroRated: input.isZeroRated,
+        eisEnabled: input.eisEnabled,
+      };
+
+      await ctx.db.shopTaxProfile.upsert({
+        where: { shopId: input.shopId },
+        create: { shopId: input.shopId, ...data },
+        update: data,
+      });
+
+      return {
+        success: true,
+        message: "Tax profile updated successfully",
+      };
+    }),
 });
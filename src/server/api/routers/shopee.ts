@@ -5,7 +5,13 @@ import {
   protectedProcedure,
   enforceOwner,
 } from "~/server/api/trpc";
-import { getImportJobStatus } from "~/lib/queue";
+import {
+  getBackfillJobStatus,
+  getImportJobStatus,
+  queueOrderBackfill,
+  unscheduleReconciliation,
+} from "~/lib/queue";
+import { Platform } from "../../../../generated/prisma";
 
 export const shopeeRouter = createTRPCRouter({
   /**
@@ -24,6 +30,7 @@ export const shopeeRouter = createTRPCRouter({
           id: true,
           shopeeShopId: true,
           status: true,
+          statusReason: true,
           lastSyncAt: true,
           failureCount: true,
           expiresAt: true,
@@ -46,6 +53,7 @@ export const shopeeRouter = createTRPCRouter({
       return {
         connected: true,
         status: integration.status,
+        statusReason: integration.statusReason,
         lastSyncAt: integration.lastSyncAt,
         failureCount: integration.failureCount,
         expiresAt: integration.expiresAt,
@@ -74,6 +82,105 @@ export const shopeeRouter = createTRPCRouter({
       };
     }),
 
+  /**
+   * Start importing historical orders created in a date range
+   * Only OWNER can start a backfill
+   */
+  startOrderBackfill: protectedProcedure
+    .input(
+      z.object({
+        shopId: z.string(),
+        from: z.date(),
+        to: z.date(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // Enforce owner access
+      await enforceOwner(ctx, input.shopId);
+
+      const to = new Date(Math.min(input.to.getTime(), Date.now()));
+      if (input.from >= to) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Start date must be before the end date (and in the past)",
+        });
+      }
+
+      const integration = await ctx.db.shopeeIntegration.findUnique({
+        where: { shopId: input.shopId },
+        select: { deletedAt: true },
+      });
+
+      if (!integration || integration.deletedAt) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Connect Shopee before importing orders",
+        });
+      }
+
+      const current = await getBackfillJobStatus(input.shopId);
+      if (["active", "waiting", "delayed"].includes(current.status)) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "An order import is already running for this shop",
+        });
+      }
+
+      await queueOrderBackfill({
+        shopId: input.shopId,
+        from: input.from.toISOString(),
+        to: to.toISOString(),
+      });
+
+      return {
+        success: true,
+        message: "Order import started",
+      };
+    }),
+
+  /**
+   * Get order backfill job status
+   * Shows progress of the historical order import
+   */
+  getOrderBackfillStatus: protectedProcedure
+    .input(z.object({ shopId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      // Enforce owner access
+      await enforceOwner(ctx, input.shopId);
+
+      const jobStatus = await getBackfillJobStatus(input.shopId);
+
+      return {
+        status: jobStatus.status,
+        progress: jobStatus.progress,
+        from: jobStatus.from,
+        to: jobStatus.to,
+        failedReason: jobStatus.failedReason,
+      };
+    }),
+
+  /**
+   * Get recent reconciliation reports
+   * Only OWNER can view
+   */
+  getReconciliationRuns: protectedProcedure
+    .input(
+      z.object({
+        shopId: z.string(),
+        limit: z.number().min(1).max(50).default(10),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      // Enforce owner access
+      await enforceOwner(ctx, input.shopId);
+
+      return ctx.db.reconciliationRun.findMany({
+        where: { shopId: input.shopId },
+        orderBy: { startedAt: "desc" },
+        take: input.limit,
+      });
+    }),
+
   /**
    * Disconnect Shopee integration
    * Only OWNER can disconnect
@@ -103,7 +210,7 @@ export const shopeeRouter = createTRPCRouter({
         });
       }
 
-      // Soft delete: clear tokens and set deletedAt
+      // Soft delete: clear tokens (nothing left to encrypt) and set deletedAt
       await ctx.db.shopeeIntegration.update({
         where: { shopId: input.shopId },
         data: {
@@ -114,6 +221,8 @@ export const shopeeRouter = createTRPCRouter({
         },
       });
 
+      await unscheduleReconciliation(input.shopId);
+
       // TODO: Pause webhook processing for this shop
 
       return {
@@ -123,13 +232,14 @@ export const shopeeRouter = createTRPCRouter({
     }),
 
   /**
-   * Get products synced from Shopee
+   * Get the shop's products, on every platform unless one is given
    * All team members can view products
    */
   getProducts: protectedProcedure
     .input(
       z.object({
         shopId: z.string(),
+        platform: z.nativeEnum(Platform).optional(),
         limit: z.number().min(1).max(100).default(50),
         cursor: z.string().optional(),
       })
@@ -153,13 +263,22 @@ export const shopeeRouter = createTRPCRouter({
       const products = await ctx.db.product.findMany({
         where: {
           shopId: input.shopId,
-          platform: "SHOPEE",
+          platform: input.platform,
         },
         take: input.limit + 1,
         cursor: input.cursor ? { id: input.cursor } : undefined,
         orderBy: {
           updatedAt: "desc",
         },
+        include: {
+          masterSku: { select: { id: true, sku: true, name: true, stock: true } },
+          variants: {
+            orderBy: { name: "asc" },
+            include: {
+              masterSku: { select: { id: true, sku: true, name: true, stock: true } },
+            },
+          },
+        },
       });
 
       let nextCursor: string | undefined = undefined;
@@ -220,6 +339,16 @@ export const shopeeRouter = createTRPCRouter({
         orderBy: {
           orderDate: "desc",
         },
+        include: {
+          // Voided receipts are left out: the order needs a new one
+          receipts: {
+            where: { status: { not: "VOIDED" } },
+            select: {
+              id: true,
+              receiptNumber: true,
+            },
+          },
+        },
       });
 
       let nextCursor: string | undefined = undefined;
@@ -229,7 +358,7 @@ export const shopeeRouter = createTRPCRouter({
       }
 
       return {
-        orders,
+        orders: orders.map(({ receipts, ...order }) => ({ ...order, receipt: receipts[0] ?? null })),
         nextCursor,
       };
     }),
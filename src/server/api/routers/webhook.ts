@@ -0,0 +1,308 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import {
+  createTRPCRouter,
+  protectedProcedure,
+  enforceOwner,
+} from "~/server/api/trpc";
+import type { db } from "~/server/db";
+import type { WebhookPayload, WebhookStatus } from "../../../../generated/prisma";
+import { isWebhookJobQueued, queueWebhookProcessing } from "~/lib/queue";
+
+// Statuses shown in the dead-letter view and accepted for replay
+// (PROCESSING is in flight, COMPLETED/STALE were applied or deliberately skipped);
+// a PENDING webhook is only replayed once its job is no longer waiting to run
+const REPLAYABLE_STATUSES: WebhookStatus[] = ["FAILED", "PENDING", "UNHANDLED"];
+
+// Upper bound for one "replay all failed since" action
+const MAX_BULK_REPLAY = 500;
+
+/**
+ * Reset webhooks to PENDING, record who replayed them, and re-queue them
+ * Webhooks whose job is still waiting to run, or that changed status since
+ * they were read, are left alone
+ * Returns the number of webhooks queued
+ */
+async function replayWebhooks(
+  prisma: typeof db,
+  userId: string,
+  webhooks: Pick<WebhookPayload, "id" | "shopId" | "platform" | "eventType" | "status" | "errorMessage">[],
+  bulk: boolean,
+): Promise<number> {
+  const latestReplays = await prisma.webhookReplay.findMany({
+    where: { webhookId: { in: webhooks.map((webhook) => webhook.id) } },
+    orderBy: { createdAt: "desc" },
+    distinct: ["webhookId"],
+    select: { id: true, webhookId: true },
+  });
+  const latestReplayIds = new Map(latestReplays.map((replay) => [replay.webhookId, replay.id]));
+
+  const idle: typeof webhooks = [];
+  for (const webhook of webhooks) {
+    if (!(await isWebhookJobQueued(webhook.id, latestReplayIds.get(webhook.id)))) {
+      idle.push(webhook);
+    }
+  }
+
+  // One short transaction per webhook rather than one for a whole bulk replay
+  let queued = 0;
+  for (const webhook of idle) {
+    const replay = await prisma.$transaction(async (tx) => {
+      // Guard on the status we read so a webhook picked up meanwhile is not replayed
+      const reset = await tx.webhookPayload.updateMany({
+        where: { id: webhook.id, status: webhook.status },
+        data: {
+          status: "PENDING",
+          errorMessage: null,
+          retryCount: 0,
+        },
+      });
+      if (reset.count === 0) {
+        return null;
+      }
+
+      return tx.webhookReplay.create({
+        data: {
+          webhookId: webhook.id,
+          triggeredById: userId,
+          previousStatus: webhook.status,
+          previousError: webhook.errorMessage,
+          bulk,
+        },
+      });
+    });
+    if (!replay) {
+      continue;
+    }
+
+    await queueWebhookProcessing(
+      {
+        webhookId: webhook.id,
+        shopId: webhook.shopId,
+        platform: webhook.platform,
+        eventType: webhook.eventType,
+      },
+      replay.id,
+    );
+    queued++;
+  }
+
+  return queued;
+}
+
+export const webhookRouter = createTRPCRouter({
+  /**
+   * List failed, pending and unhandled webhooks (dead-letter view)
+   * Only OWNER can view
+   */
+  getWebhooks: protectedProcedure
+    .input(
+      z.object({
+        shopId: z.string(),
+        status: z.enum(["FAILED", "PENDING", "UNHANDLED"]).optional(),
+        eventType: z.string().optional(),
+        limit: z.number().min(1).max(100).default(50),
+        cursor: z.string().optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      await enforceOwner(ctx, input.shopId);
+
+      const webhooks = await ctx.db.webhookPayload.findMany({
+        where: {
+          shopId: input.shopId,
+          status: input.status ?? { in: REPLAYABLE_STATUSES },
+          eventType: input.eventType,
+        },
+        take: input.limit + 1,
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        select: {
+          id: true,
+          eventType: true,
+          status: true,
+          errorMessage: true,
+          retryCount: true,
+          duplicateCount: true,
+          createdAt: true,
+          updatedAt: true,
+          _count: { select: { replays: true } },
+        },
+      });
+
+      let nextCursor: string | undefined = undefined;
+      if (webhooks.length > input.limit) {
+        const nextItem = webhooks.pop();
+        nextCursor = nextItem?.id;
+      }
+
+      return {
+        webhooks,
+        nextCursor,
+      };
+    }),
+
+  /**
+   * Event types present in the dead-letter view, with counts
+   * Only OWNER can view
+   */
+  getEventTypes: protectedProcedure
+    .input(z.object({ shopId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await enforceOwner(ctx, input.shopId);
+
+      const groups = await ctx.db.webhookPayload.groupBy({
+        by: ["eventType"],
+        where: {
+          shopId: input.shopId,
+          status: { in: REPLAYABLE_STATUSES },
+        },
+        _count: { _all: true },
+        orderBy: { eventType: "asc" },
+      });
+
+      return groups.map((group) => ({
+        eventType: group.eventType,
+        count: group._count._all,
+      }));
+    }),
+
+  /**
+   * Get one webhook with its raw payload and replay history
+   * Only OWNER can view
+   */
+  getWebhook: protectedProcedure
+    .input(z.object({ shopId: z.string(), webhookId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await enforceOwner(ctx, input.shopId);
+
+      const webhook = await ctx.db.webhookPayload.findUnique({
+        where: { id: input.webhookId },
+        include: {
+          replays: {
+            orderBy: { createdAt: "desc" },
+            include: {
+              triggeredBy: {
+                select: {
+                  name: true,
+                  email: true,
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (webhook?.shopId !== input.shopId) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Webhook not found",
+        });
+      }
+
+      return webhook;
+    }),
+
+  /**
+   * Replay selected webhooks
+   * Only OWNER can replay
+   */
+  replayWebhooks: protectedProcedure
+    .input(
+      z.object({
+        shopId: z.string(),
+        webhookIds: z.array(z.string()).min(1).max(100),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await enforceOwner(ctx, input.shopId);
+
+      const webhooks = await ctx.db.webhookPayload.findMany({
+        where: {
+          id: { in: input.webhookIds },
+          shopId: input.shopId,
+          status: { in: REPLAYABLE_STATUSES },
+        },
+        select: {
+          id: true,
+          shopId: true,
+          platform: true,
+          eventType: true,
+          status: true,
+          errorMessage: true,
+        },
+      });
+
+      if (webhooks.length === 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "None of the selected webhooks can be replayed",
+        });
+      }
+
+      const queued = await replayWebhooks(ctx.db, ctx.session.user.id, webhooks, false);
+      const skipped = webhooks.length - queued;
+
+      return {
+        success: true,
+        message:
+          `${queued} webhook${queued === 1 ? "" : "s"} queued for replay` +
+          (skipped > 0 ? ` (${skipped} already waiting to be processed)` : ""),
+        queued,
+      };
+    }),
+
+  /**
+   * Replay every failed webhook received since a point in time
+   * Only OWNER can replay
+   */
+  replayFailedSince: protectedProcedure
+    .input(
+      z.object({
+        shopId: z.string(),
+        since: z.date(),
+        eventType: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await enforceOwner(ctx, input.shopId);
+
+      const webhooks = await ctx.db.webhookPayload.findMany({
+        where: {
+          shopId: input.shopId,
+          status: "FAILED",
+          eventType: input.eventType,
+          createdAt: { gte: input.since },
+        },
+        orderBy: { createdAt: "asc" },
+        take: MAX_BULK_REPLAY,
+        select: {
+          id: true,
+          shopId: true,
+          platform: true,
+          eventType: true,
+          status: true,
+          errorMessage: true,
+        },
+      });
+
+      if (webhooks.length === 0) {
+        return {
+          success: true,
+          message: "No failed webhooks since that time",
+          queued: 0,
+        };
+      }
+
+      const queued = await replayWebhooks(ctx.db, ctx.session.user.id, webhooks, true);
+      const capped = webhooks.length === MAX_BULK_REPLAY;
+
+      return {
+        success: true,
+        message: capped
+          ? `${queued} webhooks queued for replay (limit reached, run again for the rest)`
+          : `${queued} webhook${queued === 1 ? "" : "s"} queued for replay`,
+        queued,
+      };
+    }),
+});
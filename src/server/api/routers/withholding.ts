@@ -0,0 +1,373 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import {
+  createTRPCRouter,
+  accountantOrOwnerProcedure,
+} from "~/server/api/trpc";
+import {
+  Platform,
+  Prisma,
+  WithholdingTaxKind,
+} from "../../../../generated/prisma";
+import { fileStorage } from "~/lib/fileStorage";
+import {
+  computeMarketplaceWithholding,
+  reconcileMarketplaceWithholding,
+} from "~/lib/marketplace-withholding";
+import { getQuarterRange, taxQuarterSchema } from "~/lib/tax-period";
+
+// Signed download links are short-lived (5 minutes)
+const DOWNLOAD_URL_TTL_SECONDS = 300;
+
+// 2307 scans are small; cap uploads at 5 MB
+const MAX_CERTIFICATE_BYTES = 5 * 1024 * 1024;
+
+export const withholdingRouter = createTRPCRouter({
+  /**
+   * Get creditable withholding (BIR Form 2307) entries for a quarter
+   * Owners and Accountants can view
+   */
+  getWithholdings: accountantOrOwnerProcedure
+    .input(taxQuarterSchema.extend({ shopId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { start, end } = getQuarterRange(input);
+
+      return ctx.db.creditableWithholding.findMany({
+        where: {
+          shopId: ctx.shopId,
+          paymentDate: { gte: start, lt: end },
+        },
+        orderBy: { paymentDate: "asc" },
+      });
+    }),
+
+  /**
+   * Record tax withheld by a customer or platform (from a 2307 received)
+   * Owners and Accountants can record
+   */
+  createWithholding: accountantOrOwnerProcedure
+    .input(
+      z
+        .object({
+          shopId: z.string(),
+          kind: z.nativeEnum(WithholdingTaxKind),
+          agentName: z.string().trim().min(1, "Withholding agent is required"),
+          agentTin: z.string().regex(/^\d{9}(\d{3})?$/, "TIN must be 9 or 12 digits"),
+          atcCode: z.string().trim().max(10).optional(),
+          paymentDate: z.date(),
+          incomeAmount: z.number().positive(),
+          taxWithheld: z.number().positive(),
+          platform: z.nativeEnum(Platform).optional(),
+        })
+        .refine((data) => data.taxWithheld < data.incomeAmount, {
+          message: "Tax withheld must be less than the income payment",
+          path: ["taxWithheld"],
+        }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const withholding = await ctx.db.creditableWithholding.create({
+        data: {
+          shopId: ctx.shopId,
+          kind: input.kind,
+          agentName: input.agentName,
+          agentTin: input.agentTin,
+          atcCode: input.atcCode?.toUpperCase() ?? null,
+          paymentDate: input.paymentDate,
+          incomeAmount: input.incomeAmount,
+          taxWithheld: input.taxWithheld,
+          platform: input.platform ?? null,
+          recordedById: ctx.session.user.id,
+        },
+      });
+
+      return {
+        success: true,
+        message: "Withholding recorded",
+        withholding: {
+          id: withholding.id,
+        },
+      };
+    }),
+
+  /**
+   * Delete a withholding entry
+   * Owners and Accountants can delete
+   */
+  deleteWithholding: accountantOrOwnerProcedure
+    .input(z.object({ shopId: z.string(), withholdingId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const withholding = await ctx.db.creditableWithholding.findUnique({
+        where: { id: input.withholdingId },
+        select: { shopId: true, certificateKey: true },
+      });
+
+      if (withholding?.shopId !== ctx.shopId) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Withholding entry not found",
+        });
+      }
+
+      await ctx.db.creditableWithholding.delete({
+        where: { id: input.withholdingId },
+      });
+
+      if (withholding.certificateKey) {
+        await fileStorage.delete(withholding.certificateKey);
+      }
+
+      return {
+        success: true,
+        message: "Withholding deleted",
+      };
+    }),
+
+  /**
+   * Attach the BIR Form 2307 PDF received for a withholding entry
+   * Owners and Accountants can attach; replaces any previous PDF
+   */
+  attachCertificate: accountantOrOwnerProcedure
+    .input(
+      z.object({
+        shopId: z.string(),
+        withholdingId: z.string(),
+        fileName: z.string().trim().min(1).max(200),
+        contentBase64: z
+          .string()
+          .min(1)
+          .max(Math.ceil(MAX_CERTIFICATE_BYTES / 3) * 4, "Certificate PDF must be 5 MB or smaller"),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const withholding = await ctx.db.creditableWithholding.findUnique({
+        where: { id: input.withholdingId },
+        select: { shopId: true, certificateKey: true },
+      });
+
+      if (withholding?.shopId !== ctx.shopId) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Withholding entry not found",
+        });
+      }
+
+      const file = Buffer.from(input.contentBase64, "base64");
+
+      if (file.length > MAX_CERTIFICATE_BYTES) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Certificate PDF must be 5 MB or smaller",
+        });
+      }
+
+      if (file.subarray(0, 5).toString("latin1") !== "%PDF-") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Certificate must be a PDF file",
+        });
+      }
+
+      const key = await fileStorage.upload(file, {
+        fileName: input.fileName.replace(/[^A-Za-z0-9._-]/g, "_"),
+        mimeType: "application/pdf",
+        size: file.length,
+        uploadedBy: ctx.session.user.id,
+        shopId: ctx.shopId,
+        category: "withholding-certificate",
+      });
+
+      try {
+        await ctx.db.creditableWithholding.update({
+          where: { id: input.withholdingId },
+          data: {
+            certificateKey: key,
+            certificateFileName: input.fileName,
+          },
+        });
+      } catch (error) {
+        await fileStorage.delete(key);
+        throw error;
+      }
+
+      if (withholding.certificateKey) {
+        await fileStorage.delete(withholding.certificateKey);
+      }
+
+      return {
+        success: true,
+        message: "Certificate attached",
+      };
+    }),
+
+  /**
+   * Get a short-lived download URL for an attached 2307 PDF
+   * Owners and Accountants can download
+   */
+  getCertificateUrl: accountantOrOwnerProcedure
+    .input(z.object({ shopId: z.string(), withholdingId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const withholding = await ctx.db.creditableWithholding.findUnique({
+        where: { id: input.withholdingId },
+        select: { shopId: true, certificateKey: true },
+      });
+
+      if (withholding?.shopId !== ctx.shopId) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Withholding entry not found",
+        });
+      }
+
+      if (!withholding.certificateKey) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "No certificate attached",
+        });
+      }
+
+      const url = await fileStorage.getSignedUrl(
+        withholding.certificateKey,
+        DOWNLOAD_URL_TTL_SECONDS,
+      );
+
+      return {
+        url,
+        expiresAt: new Date(Date.now() + DOWNLOAD_URL_TTL_SECONDS * 1000),
+      };
+    }),
+
+  /**
+   * Get marketplace payouts for a quarter
+   * Owners and Accountants can view
+   */
+  getPayouts: accountantOrOwnerProcedure
+    .input(taxQuarterSchema.extend({ shopId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { start, end } = getQuarterRange(input);
+
+      return ctx.db.marketplacePayout.findMany({
+        where: {
+          shopId: ctx.shopId,
+          payoutDate: { gte: start, lt: end },
+        },
+        orderBy: { payoutDate: "asc" },
+      });
+    }),
+
+  /**
+   * Record a marketplace payout and the tax withheld from it
+   * Owners and Accountants can record
+   *
+   * When the withheld amount is omitted it is computed under RR 16-2023
+   * (1% of one-half of the gross remittance).
+   */
+  recordPayout: accountantOrOwnerProcedure
+    .input(
+      z.object({
+        shopId: z.string(),
+        platform: z.nativeEnum(Platform).default("SHOPEE"),
+        payoutReference: z.string().trim().min(1, "Payout reference is required"),
+        payoutDate: z.date(),
+        grossRemittance: z.number().positive(),
+        taxWithheld: z.number().min(0).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const payout = await ctx.db.marketplacePayout.create({
+          data: {
+            shopId: ctx.shopId,
+            platform: input.platform,
+            payoutReference: input.payoutReference,
+            payoutDate: input.payoutDate,
+            grossRemittance: input.grossRemittance,
+            taxWithheld:
+              input.taxWithheld ?? computeMarketplaceWithholding(input.grossRemittance),
+            recordedById: ctx.session.user.id,
+          },
+        });
+
+        return {
+          success: true,
+          message: "Payout recorded",
+          payout: {
+            id: payout.id,
+            taxWithheld: payout.taxWithheld,
+          },
+        };
+      } catch (error) {
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2002"
+        ) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "This payout has already been recorded",
+          });
+        }
+
+        throw error;
+      }
+    }),
+
+  /**
+   * Delete a marketplace payout
+   * Owners and Accountants can delete
+   */
+  deletePayout: accountantOrOwnerProcedure
+    .input(z.object({ shopId: z.string(), payoutId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.db.marketplacePayout.deleteMany({
+        where: { id: input.payoutId, shopId: ctx.shopId },
+      });
+
+      if (result.count === 0) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Payout not found",
+        });
+      }
+
+      return {
+        success: true,
+        message: "Payout deleted",
+      };
+    }),
+
+  /**
+   * Reconcile marketplace withholding against recorded 2307s for a quarter
+   * Owners and Accountants can view
+   */
+  getReconciliation: accountantOrOwnerProcedure
+    .input(taxQuarterSchema.extend({ shopId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { start, end } = getQuarterRange(input);
+
+      const [payouts, certificates] = await Promise.all([
+        ctx.db.marketplacePayout.findMany({
+          where: { shopId: ctx.shopId, payoutDate: { gte: start, lt: end } },
+        }),
+        ctx.db.creditableWithholding.findMany({
+          where: {
+            shopId: ctx.shopId,
+            paymentDate: { gte: start, lt: end },
+            platform: { not: null },
+          },
+        }),
+      ]);
+
+      return reconcileMarketplaceWithholding(
+        payouts.map((payout) => ({
+          platform: payout.platform,
+          payoutReference: payout.payoutReference,
+          grossRemittance: payout.grossRemittance.toNumber(),
+          taxWithheld: payout.taxWithheld.toNumber(),
+        })),
+        certificates.map((certificate) => ({
+          platform: certificate.platform,
+          taxWithheld: certificate.taxWithheld.toNumber(),
+          hasCertificate: !!certificate.certificateKey,
+        })),
+      );
+    }),
+});
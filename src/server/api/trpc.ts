@@ -168,7 +168,8 @@ function getShopIdFromInput(input: unknown): string | null {
  * Adds shopId and role to context.
  */
 export const shopMemberProcedure = protectedProcedure.use(async (opts) => {
-  const shopId = getShopIdFromInput(opts.input);
+  // Middleware runs before input parsing, so read the raw (deserialized) input
+  const shopId = getShopIdFromInput(await opts.getRawInput());
 
   if (!shopId) {
     throw new TRPCError({
@@ -238,7 +239,7 @@ export const ownerProcedure = protectedProcedure;
  */
 export const accountantOrOwnerProcedure = protectedProcedure.use(
   async (opts) => {
-    const shopId = getShopIdFromInput(opts.input);
+    const shopId = getShopIdFromInput(await opts.getRawInput());
 
     if (!shopId) {
       throw new TRPCError({
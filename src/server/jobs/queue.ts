@@ -36,15 +36,23 @@ export interface WebhookJobData {
 }
 
 export interface ReceiptJobData {
+  receiptId: string;
   orderId: string;
   shopId: string;
 }
 
+export interface EisTransmitJobData {
+  shopId: string;
+}
+
+// The worker pushes every PENDING product of the shop, so only the shop is needed
 export interface InventorySyncJobData {
   shopId: string;
-  productIds: string[];
 }
 
+// Wait before pushing so rapid changes to a shop's stock go out in one sync
+export const INVENTORY_SYNC_DELAY_MS = 5000;
+
 // Queue instances (will be used across the application)
 export const webhookQueue = redisConnection
   ? new Queue<WebhookJobData>("webhook", {
@@ -79,6 +87,22 @@ export const receiptQueue = redisConnection
     })
   : null;
 
+export const eisQueue = redisConnection
+  ? new Queue<EisTransmitJobData>("eis-transmit", {
+      connection: redisConnection,
+      defaultJobOptions: {
+        attempts: 5,
+        backoff: {
+          type: "exponential",
+          delay: 30000, // EIS outages tend to last minutes, not seconds
+        },
+        // Removed when done so the per-shop job ID can be reused
+        removeOnComplete: true,
+        removeOnFail: true,
+      },
+    })
+  : null;
+
 export const inventorySyncQueue = redisConnection
   ? new Queue<InventorySyncJobData>("inventory-sync", {
       connection: redisConnection,
@@ -88,6 +112,9 @@ export const inventorySyncQueue = redisConnection
           type: "exponential",
           delay: 1000,
         },
+        // Removed when done so the per-shop job ID can be reused
+        removeOnComplete: true,
+        removeOnFail: true,
       },
     })
   : null;
@@ -102,6 +129,41 @@ export async function addWebhookJob(data: WebhookJobData): Promise<Job<WebhookJo
   return await webhookQueue.add("process", data);
 }
 
+// Helper function to add a job to the receipt queue (PDF rendering)
+export async function addReceiptJob(data: ReceiptJobData): Promise<Job<ReceiptJobData> | null> {
+  if (!receiptQueue) {
+    console.warn("⚠️  Cannot add receipt job (BullMQ unavailable)");
+    return null;
+  }
+
+  return await receiptQueue.add("render", data);
+}
+
+// Helper function to queue EIS transmission of a shop's pending receipts
+// (one job per shop at a time; the worker drains every pending batch)
+export async function addEisTransmitJob(data: EisTransmitJobData): Promise<Job<EisTransmitJobData> | null> {
+  if (!eisQueue) {
+    console.warn("⚠️  Cannot add EIS job (BullMQ unavailable)");
+    return null;
+  }
+
+  return await eisQueue.add("transmit", data, { jobId: `eis-${data.shopId}` });
+}
+
+// Helper function to queue a push of a shop's pending stock changes to Shopee
+// (one job per shop at a time; changes made while it waits are coalesced into it)
+export async function addInventorySyncJob(data: InventorySyncJobData): Promise<Job<InventorySyncJobData> | null> {
+  if (!inventorySyncQueue) {
+    console.warn("⚠️  Cannot add inventory sync job (BullMQ unavailable)");
+    return null;
+  }
+
+  return await inventorySyncQueue.add("push-stock", data, {
+    jobId: `inventory-sync-${data.shopId}`,
+    delay: INVENTORY_SYNC_DELAY_MS,
+  });
+}
+
 // Helper function to get job status
 export async function getJobStatus(queueName: string, jobId: string): Promise<string | null> {
   if (!redisConnection) {
@@ -136,6 +198,7 @@ if (redisConnection) {
   console.log("✅ BullMQ initialized with local Redis");
   console.log("   - Webhook queue ready");
   console.log("   - Receipt queue ready");
+  console.log("   - EIS queue ready");
   console.log("   - Inventory sync queue ready");
 } else {
   console.warn("⚠️  BullMQ unavailable (no Redis connection)");
@@ -0,0 +1,275 @@
+/**
+ * EIS Transmission Worker
+ *
+ * Consumes the eis-transmit queue (one job per shop) and sends the shop's
+ * pending receipts to BIR's Electronic Invoicing System in signed batches
+ * of up to EIS_MAX_BATCH_SIZE, until nothing is left to send.
+ *
+ * Each batch is recorded as an EisBatch before transmission. Receipts move
+ * PENDING/FAILED → SUBMITTED → ACCEPTED/REJECTED; if the endpoint cannot be
+ * reached the batch and its receipts are marked FAILED and the job retries,
+ * picking them up again. Voided receipts are never sent.
+ *
+ * A batch left SUBMITTING for EIS_STALE_SUBMISSION_MS (the worker died before
+ * recording the outcome) is marked FAILED at the start of the next job, so
+ * its receipts are sent again. Receipts issued while a job runs cannot queue
+ * another one (same job ID), so a completed job queues the next one itself
+ * when receipts are still PENDING.
+ */
+
+import { Worker } from "bullmq";
+import { Redis } from "ioredis";
+import { db } from "~/server/db";
+import {
+  buildEisInvoice,
+  EisClient,
+  EisTransmissionError,
+  EIS_MAX_BATCH_SIZE,
+  EIS_STALE_SUBMISSION_MS,
+} from "~/lib/eis";
+import { toOrderLineItems } from "~/lib/order-items";
+import { addEisTransmitJob, type EisTransmitJobData } from "~/server/jobs/queue";
+
+// Redis connection for worker
+const connection = new Redis(process.env.REDIS_URL ?? "redis://localhost:6379", {
+  maxRetriesPerRequest: null,
+});
+
+/**
+ * Transmit one batch of pending receipts
+ * Returns the number of receipts sent (0 when nothing is pending)
+ */
+async function transmitBatch(client: EisClient, shopId: string): Promise<number> {
+  const shop = await db.shop.findUnique({
+    where: { id: shopId },
+    include: { taxProfile: true },
+  });
+
+  if (!shop?.taxProfile?.eisEnabled) {
+    console.log(`⏭️  Shop ${shopId} is not enrolled in EIS, skipping`);
+    return 0;
+  }
+
+  const receipts = await db.receipt.findMany({
+    where: {
+      shopId,
+      eisStatus: { in: ["PENDING", "FAILED"] },
+      status: { not: "VOIDED" },
+    },
+    orderBy: { serialNumber: "asc" },
+    take: EIS_MAX_BATCH_SIZE,
+    include: { lines: { orderBy: { position: "asc" } } },
+  });
+
+  if (receipts.length === 0) {
+    return 0;
+  }
+
+  const seller = {
+    tinNumber: shop.tinNumber,
+    name: shop.name,
+    businessAddress: shop.businessAddress,
+    rdoCode: shop.taxProfile.rdoCode,
+  };
+
+  const signed = client.sign(
+    receipts.map((receipt) =>
+      buildEisInvoice(seller, {
+        id: receipt.id,
+        receiptNumber: receipt.receiptNumber,
+        issuedAt: receipt.issuedAt,
+        taxType: receipt.taxType,
+        buyerName: receipt.buyerName,
+        buyerTin: receipt.buyerTin,
+        buyerAddress: receipt.buyerAddress,
+        lineItems: toOrderLineItems(receipt.lines),
+        vatableSales: receipt.vatableSales.toNumber(),
+        vatAmount: receipt.vatAmount.toNumber(),
+        vatExemptSales: receipt.vatExemptSales.toNumber(),
+        zeroRatedSales: receipt.zeroRatedSales.toNumber(),
+        totalAmount: receipt.totalAmount.toNumber(),
+      }),
+    ),
+  );
+
+  const receiptIds = receipts.map((receipt) => receipt.id);
+
+  // Record the batch and claim its receipts together
+  const batch = await db.$transaction(async (tx) => {
+    const created = await tx.eisBatch.create({
+      data: {
+        shopId,
+        receiptCount: receipts.length,
+        payloadDigest: signed.digest,
+      },
+    });
+
+    const claimed = await tx.receipt.updateMany({
+      where: { id: { in: receiptIds }, eisStatus: { in: ["PENDING", "FAILED"] } },
+      data: { eisStatus: "SUBMITTED", eisBatchId: created.id, eisError: null },
+    });
+
+    if (claimed.count !== receipts.length) {
+      throw new Error(`Receipts for shop ${shopId} changed while batching, retrying`);
+    }
+
+    return created;
+  });
+
+  console.log(`📤 Transmitting EIS batch ${batch.id} (${receipts.length} receipts)`);
+
+  let submission;
+  try {
+    submission = await client.transmit(signed);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    await db.$transaction([
+      db.eisBatch.update({
+        where: { id: batch.id },
+        data: {
+          status: "FAILED",
+          responseCode: error instanceof EisTransmissionError ? error.responseCode : null,
+          error: message,
+          completedAt: new Date(),
+        },
+      }),
+      db.receipt.updateMany({
+        where: { eisBatchId: batch.id, eisStatus: "SUBMITTED" },
+        data: { eisStatus: "FAILED", eisError: message },
+      }),
+    ]);
+
+    throw error;
+  }
+
+  const results = new Map(submission.results.map((result) => [result.invoiceId, result]));
+  const transmittedAt = new Date();
+
+  await db.$transaction([
+    ...receiptIds.map((receiptId) => {
+      const result = results.get(receiptId);
+      return db.receipt.update({
+        where: { id: receiptId },
+        data: result
+          ? {
+              eisStatus: result.status,
+              eisTransmittedAt: transmittedAt,
+              eisError: result.status === "REJECTED" ? (result.message ?? "Rejected by EIS") : null,
+            }
+          : {
+              eisStatus: "FAILED",
+              eisError: "EIS returned no result for this invoice",
+            },
+      });
+    }),
+    db.eisBatch.update({
+      where: { id: batch.id },
+      data: {
+        status: "COMPLETED",
+        submissionId: submission.submissionId,
+        responseCode: submission.responseCode,
+        completedAt: transmittedAt,
+      },
+    }),
+  ]);
+
+  const accepted = submission.results.filter((result) => result.status === "ACCEPTED").length;
+  console.log(`✅ EIS batch ${batch.id}: ${accepted}/${receipts.length} accepted`);
+
+  return receipts.length;
+}
+
+/**
+ * Fail batches that never recorded an outcome so their receipts are sent again
+ */
+async function recoverStaleBatches(shopId: string): Promise<void> {
+  const stale = await db.eisBatch.findMany({
+    where: {
+      shopId,
+      status: "SUBMITTING",
+      submittedAt: { lt: new Date(Date.now() - EIS_STALE_SUBMISSION_MS) },
+    },
+    select: { id: true },
+  });
+
+  const error = "Transmission outcome was never recorded";
+  for (const batch of stale) {
+    await db.$transaction([
+      db.eisBatch.update({
+        where: { id: batch.id },
+        data: { status: "FAILED", error, completedAt: new Date() },
+      }),
+      db.receipt.updateMany({
+        where: { eisBatchId: batch.id, eisStatus: "SUBMITTED" },
+        data: { eisStatus: "FAILED", eisError: error },
+      }),
+    ]);
+    console.log(`♻️  EIS batch ${batch.id} never completed, its receipts will be sent again`);
+  }
+}
+
+/**
+ * Queue another transmission if receipts were issued after the job's last batch
+ */
+async function requeuePendingReceipts(shopId: string): Promise<void> {
+  const pending = await db.receipt.count({
+    where: {
+      shopId,
+      eisStatus: "PENDING",
+      status: { not: "VOIDED" },
+      shop: { taxProfile: { eisEnabled: true } },
+    },
+  });
+
+  if (pending > 0) {
+    await addEisTransmitJob({ shopId });
+  }
+}
+
+/**
+ * Send every pending receipt for a shop, one batch at a time
+ */
+async function transmitPendingReceipts(data: EisTransmitJobData): Promise<void> {
+  const client = new EisClient();
+
+  await recoverStaleBatches(data.shopId);
+
+  let sent: number;
+  do {
+    sent = await transmitBatch(client, data.shopId);
+  } while (sent === EIS_MAX_BATCH_SIZE);
+}
+
+// Create worker
+export const eisTransmitWorker = new Worker<EisTransmitJobData>(
+  "eis-transmit",
+  async (job) => {
+    await transmitPendingReceipts(job.data);
+  },
+  {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
+    connection: connection as any, // Type mismatch with ioredis
+    concurrency: 1, // Batches are sent in serial order
+  }
+);
+
+// Event handlers
+eisTransmitWorker.on("completed", (job) => {
+  console.log(`✅ EIS job ${job.id} completed`);
+
+  // The job is removed by now, so its ID can be reused
+  requeuePendingReceipts(job.data.shopId).catch((error) => {
+    console.error(`❌ Failed to re-queue EIS transmission for shop ${job.data.shopId}:`, error);
+  });
+});
+
+eisTransmitWorker.on("failed", (job, error) => {
+  console.error(`❌ EIS job ${job?.id} failed:`, error);
+});
+
+eisTransmitWorker.on("error", (error) => {
+  console.error("❌ EIS worker error:", error);
+});
+
+console.log("🚀 EIS transmission worker started");
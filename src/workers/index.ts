@@ -6,13 +6,25 @@
  * 
  * Workers included:
  * - Shopee product import worker
- * - Shopee order webhook processor
- * - Shopee inventory webhook processor
+ * - Shopee order backfill worker
+ * - Shopee reconciliation (scheduled per integration)
+ * - Shopee token refresh (scheduled sweep)
+ * - Secret rotation (re-encrypts tokens after a key rotation)
+ * - Shopee webhook dispatcher (order and inventory handlers)
+ * - Receipt PDF renderer
+ * - EIS transmission
+ * - Inventory sync (pushes local stock changes to Shopee)
  */
 
 import "./shopee-import";
-import "./shopee-webhook-order";
-import "./shopee-webhook-inventory";
+import "./shopee-order-backfill";
+import "./shopee-reconcile";
+import "./shopee-token-refresh";
+import "./secret-rotation";
+import "./shopee-webhook-dispatcher";
+import "./receipt-pdf";
+import "./eis-transmit";
+import "./inventory-sync";
 
 console.log("🚀 All workers started");
 
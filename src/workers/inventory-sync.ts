@@ -0,0 +1,200 @@
+/**
+ * Inventory Sync Worker
+ *
+ * Pushes stock changed in kaching (adjustments, sales, returns, stock takes)
+ * to Shopee with update_stock. Changes mark the product or variant PENDING
+ * (see ~/lib/stock) and queue one inventory-sync job per shop; the job waits
+ * INVENTORY_SYNC_DELAY_MS first, so a burst of changes is coalesced and each
+ * item is pushed once with its latest stock.
+ *
+ * Items are pushed one update_stock call per item (all its pending models
+ * together). Each product or variant ends up:
+ * - SYNCED: Shopee accepted the stock
+ * - FAILED: Shopee rejected it, with the reason in stockSyncError (shown on
+ *   the integrations page, where the owner can retry)
+ * - PENDING: its stock changed again while being pushed, or Shopee could not
+ *   be reached; the job pushes it again (retrying with backoff on errors).
+ *   Rows still PENDING once the job gives up are queued again by the next
+ *   reconciliation run, or by a retry from the integrations page
+ */
+
+import { Worker } from "bullmq";
+import { Redis } from "ioredis";
+import { db } from "~/server/db";
+import {
+  ShopeeAPIClient,
+  SHOPEE_UPDATE_STOCK_MAX_MODELS,
+  type ShopeeStockUpdate,
+} from "~/lib/shopee-api";
+import { ShopeeAPIError, ShopeeAuthError } from "~/lib/shopee-errors";
+import type { InventorySyncJobData } from "~/server/jobs/queue";
+
+// Redis connection for worker
+const connection = new Redis(process.env.REDIS_URL ?? "redis://localhost:6379", {
+  maxRetriesPerRequest: null,
+});
+
+// Products loaded per pass
+const INVENTORY_SYNC_BATCH_SIZE = 50;
+
+interface PendingProduct {
+  id: string;
+  shopeeProductId: string | null;
+  stock: number;
+  variants: { id: string; shopeeModelId: string; stock: number; stockSyncStatus: string }[];
+}
+
+// A product or variant whose stock was sent, and the stock sent
+interface PushedStock extends ShopeeStockUpdate {
+  variantId: string | null;
+}
+
+/**
+ * Record the outcome for stock that was pushed
+ * Rows whose stock changed since are left PENDING to be pushed again
+ */
+async function recordOutcome(productId: string, pushed: PushedStock, error: string | null) {
+  const where = { stock: pushed.stock, stockSyncStatus: "PENDING" as const };
+  const data = error
+    ? { stockSyncStatus: "FAILED" as const, stockSyncError: error }
+    : { stockSyncStatus: "SYNCED" as const, stockSyncError: null, stockSyncedAt: new Date() };
+
+  if (pushed.variantId) {
+    await db.productVariant.updateMany({ where: { id: pushed.variantId, ...where }, data });
+  } else {
+    await db.product.updateMany({ where: { id: productId, ...where }, data });
+  }
+}
+
+/**
+ * Push one product's pending stock: its own stock, or its pending variants'
+ */
+async function pushProduct(client: ShopeeAPIClient, shopId: string, product: PendingProduct) {
+  const pushed: PushedStock[] =
+    product.variants.length > 0
+      ? product.variants
+          .filter((variant) => variant.stockSyncStatus === "PENDING")
+          .map((variant) => ({ variantId: variant.id, modelId: variant.shopeeModelId, stock: variant.stock }))
+      : [{ variantId: null, modelId: "0", stock: product.stock }];
+
+  for (let i = 0; i < pushed.length; i += SHOPEE_UPDATE_STOCK_MAX_MODELS) {
+    const chunk = pushed.slice(i, i + SHOPEE_UPDATE_STOCK_MAX_MODELS);
+
+    let failures: Map<string, string>;
+    try {
+      const rejected = await client.updateStock(shopId, product.shopeeProductId!, chunk);
+      failures = new Map(rejected.map((failure) => [failure.modelId, failure.reason]));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      // Shopee unreachable or the shop's access broken: keep PENDING, retry the job
+      if (error instanceof ShopeeAuthError || (error instanceof ShopeeAPIError && error.retryable)) {
+        await db.$transaction(
+          chunk.map((item) =>
+            item.variantId
+              ? db.productVariant.update({ where: { id: item.variantId }, data: { stockSyncError: message } })
+              : db.product.update({ where: { id: product.id }, data: { stockSyncError: message } })
+          )
+        );
+        throw error;
+      }
+
+      failures = new Map(chunk.map((item) => [item.modelId, message]));
+    }
+
+    for (const item of chunk) {
+      await recordOutcome(product.id, item, failures.get(item.modelId) ?? null);
+    }
+  }
+
+  // A product with variants is PENDING only through its rolled-up total
+  if (product.variants.length > 0) {
+    await db.product.updateMany({
+      where: { id: product.id, stockSyncStatus: "PENDING" },
+      data: { stockSyncStatus: "SYNCED", stockSyncError: null, stockSyncedAt: new Date() },
+    });
+  }
+}
+
+/**
+ * Push every pending stock change of a shop
+ */
+async function pushPendingStock(data: InventorySyncJobData): Promise<number> {
+  const { shopId } = data;
+
+  const integration = await db.shopeeIntegration.findUnique({
+    where: { shopId },
+    select: { deletedAt: true },
+  });
+
+  // Changes stay PENDING and are pushed after reconnecting
+  if (!integration || integration.deletedAt) {
+    console.log(`⏭️  Shop ${shopId} is not connected to Shopee, skipping inventory sync`);
+    return 0;
+  }
+
+  const client = new ShopeeAPIClient();
+  let pushed = 0;
+
+  for (;;) {
+    const products = await db.product.findMany({
+      where: {
+        shopId,
+        shopeeProductId: { not: null },
+        OR: [
+          { stockSyncStatus: "PENDING" },
+          { variants: { some: { stockSyncStatus: "PENDING" } } },
+        ],
+      },
+      orderBy: { updatedAt: "asc" },
+      take: INVENTORY_SYNC_BATCH_SIZE,
+      select: {
+        id: true,
+        shopeeProductId: true,
+        stock: true,
+        variants: {
+          select: { id: true, shopeeModelId: true, stock: true, stockSyncStatus: true },
+        },
+      },
+    });
+
+    if (products.length === 0) {
+      return pushed;
+    }
+
+    for (const product of products) {
+      await pushProduct(client, shopId, product);
+      pushed++;
+    }
+  }
+}
+
+// Create worker
+export const inventorySyncWorker = new Worker<InventorySyncJobData>(
+  "inventory-sync",
+  async (job) => {
+    const pushed = await pushPendingStock(job.data);
+    console.log(`📦 Pushed stock of ${pushed} product${pushed === 1 ? "" : "s"} to Shopee for shop ${job.data.shopId}`);
+    return { pushed };
+  },
+  {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
+    connection: connection as any, // Type mismatch with ioredis
+    concurrency: 3, // Different shops in parallel (one job per shop)
+  }
+);
+
+// Event handlers
+inventorySyncWorker.on("completed", (job) => {
+  console.log(`✅ Inventory sync job ${job.id} completed`);
+});
+
+inventorySyncWorker.on("failed", (job, error) => {
+  console.error(`❌ Inventory sync job ${job?.id} failed:`, error);
+});
+
+inventorySyncWorker.on("error", (error) => {
+  console.error("❌ Inventory sync worker error:", error);
+});
+
+console.log("🚀 Inventory sync worker started");
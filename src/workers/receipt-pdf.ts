@@ -0,0 +1,146 @@
+/**
+ * Receipt PDF Worker
+ *
+ * Consumes the receipt queue and renders each issued receipt to a
+ * BIR-layout PDF stored via FileStorage (category "receipt").
+ * Voided receipts are re-queued and re-rendered with a VOID stamp.
+ *
+ * Retries are idempotent: every run re-renders from the database and
+ * swaps Receipt.pdfKey only if nobody else replaced it in the meantime,
+ * deleting whichever file lost so no orphaned PDFs are left behind.
+ */
+
+import { Worker } from "bullmq";
+import { Redis } from "ioredis";
+import { db } from "~/server/db";
+import { fileStorage } from "~/lib/fileStorage";
+import { getReceiptVerificationUrl, renderReceiptPdf } from "~/lib/receipt-pdf";
+import { toOrderLineItems } from "~/lib/order-items";
+import type { ReceiptJobData } from "~/server/jobs/queue";
+
+// Redis connection for worker
+const connection = new Redis(process.env.REDIS_URL ?? "redis://localhost:6379", {
+  maxRetriesPerRequest: null,
+});
+
+/**
+ * Render a receipt PDF and store it
+ */
+async function generateReceiptPdf(data: ReceiptJobData): Promise<void> {
+  console.log(`🔄 Rendering receipt PDF: ${data.receiptId}`);
+
+  const receipt = await db.receipt.findUnique({
+    where: { id: data.receiptId },
+    include: {
+      shop: true,
+      order: true,
+      lines: { orderBy: { position: "asc" } },
+      series: true,
+    },
+  });
+
+  if (!receipt) {
+    throw new Error(`Receipt ${data.receiptId} not found`);
+  }
+
+  const pdf = await renderReceiptPdf({
+    shop: {
+      name: receipt.shop.name,
+      tinNumber: receipt.shop.tinNumber,
+      businessAddress: receipt.shop.businessAddress,
+    },
+    receiptNumber: receipt.receiptNumber,
+    issuedAt: receipt.issuedAt,
+    orderNumber: receipt.order.orderNumber,
+    buyer: {
+      name: receipt.buyerName,
+      tin: receipt.buyerTin,
+      address: receipt.buyerAddress,
+    },
+    vatRegistered: receipt.taxType === "VAT",
+    lineItems: toOrderLineItems(receipt.lines),
+    // Print the breakdown stored at issue time so PDFs match reports
+    tax: {
+      vatableSales: receipt.vatableSales.toNumber(),
+      vatAmount: receipt.vatAmount.toNumber(),
+      vatExemptSales: receipt.vatExemptSales.toNumber(),
+      zeroRatedSales: receipt.zeroRatedSales.toNumber(),
+      totalAmount: receipt.totalAmount.toNumber(),
+    },
+    atp: {
+      number: receipt.series.atpNumber,
+      startSerial: receipt.series.startSerial,
+      endSerial: receipt.series.endSerial,
+    },
+    verificationUrl: getReceiptVerificationUrl(receipt.id),
+    voided:
+      receipt.status === "VOIDED" && receipt.voidedAt
+        ? { at: receipt.voidedAt, reason: receipt.voidReason ?? "" }
+        : undefined,
+  });
+
+  const key = await fileStorage.upload(pdf, {
+    fileName: `${receipt.receiptNumber.replace(/[^A-Za-z0-9_-]/g, "_")}.pdf`,
+    mimeType: "application/pdf",
+    size: pdf.length,
+    shopId: receipt.shopId,
+    category: "receipt",
+  });
+
+  let swapped: number;
+  try {
+    // Only replace the PDF we rendered from; a concurrent run may have won
+    const result = await db.receipt.updateMany({
+      where: { id: receipt.id, pdfKey: receipt.pdfKey },
+      data: {
+        pdfKey: key,
+        pdfGeneratedAt: new Date(),
+      },
+    });
+    swapped = result.count;
+  } catch (error) {
+    await fileStorage.delete(key);
+    throw error;
+  }
+
+  if (swapped === 0) {
+    console.log(`⏭️  Receipt ${receipt.id} PDF was replaced concurrently, discarding render`);
+    await fileStorage.delete(key);
+    return;
+  }
+
+  // Remove the previous render (retry or re-render)
+  if (receipt.pdfKey) {
+    await fileStorage.delete(receipt.pdfKey);
+  }
+
+  console.log(`✅ Receipt PDF stored: ${receipt.receiptNumber}`);
+}
+
+// Create worker
+export const receiptPdfWorker = new Worker<ReceiptJobData>(
+  "receipt",
+  async (job) => {
+    await generateReceiptPdf(job.data);
+  },
+  {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
+    connection: connection as any, // Type mismatch with ioredis
+    concurrency: 2, // PDF rendering is CPU-bound
+  }
+);
+
+// Event handlers
+receiptPdfWorker.on("completed", (job) => {
+  console.log(`✅ Receipt PDF job ${job.id} completed`);
+});
+
+receiptPdfWorker.on("failed", (job, error) => {
+  console.error(`❌ Receipt PDF job ${job?.id} failed:`, error);
+});
+
+receiptPdfWorker.on("error", (error) => {
+  console.error("❌ Receipt PDF worker error:", error);
+});
+
+console.log("🚀 Receipt PDF worker started");
@@ -0,0 +1,123 @@
+/**
+ * Secret Rotation Worker
+ *
+ * Re-encrypts stored marketplace OAuth tokens that are not using the current
+ * encryption key: values encrypted with a key that has been rotated out, and
+ * legacy base64 values from before tokens were encrypted (see
+ * src/lib/secrets.ts). A pass is queued every time the workers start, so
+ * deploying a new first key in TOKEN_ENCRYPTION_KEYS is enough to rotate.
+ *
+ * Rows are written only if their tokens are unchanged since they were read;
+ * a token refresh in between already stored values under the current key.
+ */
+
+import { Worker } from "bullmq";
+import { Redis } from "ioredis";
+import { db } from "~/server/db";
+import { currentSecretKeyId, needsReencryption } from "~/lib/secrets";
+import { decryptShopeeToken, encryptShopeeTokens } from "~/lib/shopee-api";
+import { queueSecretRotation } from "~/lib/queue";
+
+// Redis connection for worker
+const connection = new Redis(process.env.REDIS_URL ?? "redis://localhost:6379", {
+  maxRetriesPerRequest: null,
+});
+
+// Integrations read per batch
+const ROTATION_BATCH_SIZE = 100;
+
+/**
+ * Re-encrypt Shopee integration tokens with the current key
+ * An integration that cannot be re-encrypted (e.g. its key was removed too
+ * early) is logged and skipped so the others are still rotated
+ * Returns the number of integrations re-encrypted and skipped
+ */
+async function rotateShopeeTokens(): Promise<{ rotated: number; failed: number }> {
+  let rotated = 0;
+  let failed = 0;
+  let cursor: string | undefined = undefined;
+
+  for (;;) {
+    const integrations: { id: string; shopId: string; accessToken: string; refreshToken: string }[] =
+      await db.shopeeIntegration.findMany({
+        take: ROTATION_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        orderBy: { id: "asc" },
+        select: { id: true, shopId: true, accessToken: true, refreshToken: true },
+      });
+
+    for (const integration of integrations) {
+      const { shopId, accessToken, refreshToken } = integration;
+
+      // Disconnected integrations have empty tokens
+      if (!accessToken || !refreshToken) {
+        continue;
+      }
+      if (!needsReencryption(accessToken) && !needsReencryption(refreshToken)) {
+        continue;
+      }
+
+      try {
+        const tokens = encryptShopeeTokens(shopId, {
+          accessToken: decryptShopeeToken(shopId, "accessToken", accessToken),
+          refreshToken: decryptShopeeToken(shopId, "refreshToken", refreshToken),
+        });
+
+        const updated = await db.shopeeIntegration.updateMany({
+          where: { id: integration.id, accessToken, refreshToken },
+          data: tokens,
+        });
+        rotated += updated.count;
+      } catch (error) {
+        failed++;
+        console.error(`❌ Could not re-encrypt Shopee tokens of shop ${shopId}:`, error);
+      }
+    }
+
+    if (integrations.length < ROTATION_BATCH_SIZE) {
+      return { rotated, failed };
+    }
+    cursor = integrations[integrations.length - 1]!.id;
+  }
+}
+
+// Create worker
+export const secretRotationWorker = new Worker(
+  "secret-rotation",
+  async () => {
+    const keyId = currentSecretKeyId();
+    console.log(`🔄 Re-encrypting stored secrets with key "${keyId}"`);
+
+    const { rotated, failed } = await rotateShopeeTokens();
+
+    console.log(`✅ Re-encrypted ${rotated} Shopee integration${rotated === 1 ? "" : "s"} with key "${keyId}"`);
+    if (failed > 0) {
+      console.warn(`⚠️  ${failed} Shopee integration${failed === 1 ? "" : "s"} could not be re-encrypted, keep the old keys until they are fixed`);
+    }
+    return { keyId, rotated, failed };
+  },
+  {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
+    connection: connection as any, // Type mismatch with ioredis
+    concurrency: 1, // One pass at a time
+  }
+);
+
+// Event handlers
+secretRotationWorker.on("completed", (job) => {
+  console.log(`✅ Secret rotation job ${job.id} completed`);
+});
+
+secretRotationWorker.on("failed", (job, error) => {
+  console.error(`❌ Secret rotation job ${job?.id} failed:`, error);
+});
+
+secretRotationWorker.on("error", (error) => {
+  console.error("❌ Secret rotation worker error:", error);
+});
+
+queueSecretRotation().catch((error) => {
+  console.error("❌ Failed to queue secret rotation:", error);
+});
+
+console.log("🚀 Secret rotation worker started");
@@ -1,6 +1,8 @@
 import { Worker } from "bullmq";
 import { Redis } from "ioredis";
 import { ShopeeAPIClient } from "~/lib/shopee-api";
+import { importShopeeProduct } from "~/lib/shopee-products";
+import type { StockMovementInput } from "~/lib/stock";
 import { db } from "~/server/db";
 import type { ImportProductsJobData } from "~/lib/queue";
 
@@ -29,33 +31,10 @@ export const shopeeImportWorker = new Worker(
       );
 
       // Import products into database
+      const movement: StockMovementInput = { source: "SHOPEE_IMPORT", reference: `import-${shopId}` };
       let imported = 0;
       for (const shopeeProduct of result.products) {
-        await db.product.upsert({
-          where: {
-            shopId_shopeeProductId: {
-              shopId: shopId,
-              shopeeProductId: shopeeProduct.item_id.toString(),
-            },
-          },
-          create: {
-            shopId: shopId,
-            platform: "SHOPEE",
-            shopeeProductId: shopeeProduct.item_id.toString(),
-            name: shopeeProduct.item_name,
-            sku: shopeeProduct.item_sku || null,
-            stock: shopeeProduct.stock,
-            price: shopeeProduct.price,
-            imageUrl: shopeeProduct.images?.[0] ?? null,
-          },
-          update: {
-            name: shopeeProduct.item_name,
-            sku: shopeeProduct.item_sku || null,
-            stock: shopeeProduct.stock,
-            price: shopeeProduct.price,
-            imageUrl: shopeeProduct.images?.[0] ?? null,
-          },
-        });
+        await importShopeeProduct(shopeeClient, shopId, shopeeProduct, movement);
         imported++;
       }
 
@@ -103,27 +82,8 @@ export const shopeeImportWorker = new Worker(
     } catch (error) {
       console.error(`[Shopee Import] Error importing products for shop ${shopId}:`, error);
 
-      // Check if it's a token expiration error
-      if (error instanceof Error && error.message.includes("token")) {
-        try {
-          console.log(`[Shopee Import] Attempting to refresh token for shop ${shopId}`);
-          await shopeeClient.refreshAccessToken(shopId);
-          // Retry the job
-          throw new Error("Token refreshed, retrying import");
-        } catch (refreshError) {
-          console.error(`[Shopee Import] Failed to refresh token:`, refreshError);
-          // Mark integration as unhealthy
-          await db.shopeeIntegration.update({
-            where: { shopId },
-            data: {
-              status: "UNHEALTHY",
-              failureCount: { increment: 1 },
-            },
-          });
-          throw refreshError;
-        }
-      }
-
+      // Auth errors were already retried after a token refresh by ShopeeAPIClient,
+      // which marks the integration UNHEALTHY if the refresh failed
       throw error;
     }
   },
@@ -0,0 +1,427 @@
+/**
+ * Shopee Reconciliation Worker
+ *
+ * Heals drift that webhooks missed. Every connected integration has a
+ * repeatable job on the shopee-reconcile queue (see scheduleReconciliation);
+ * each run:
+ * - Compares orders updated on Shopee in the last RECONCILE_LOOKBACK_MS with
+ *   our Order rows and re-applies missing or mismatched ones (status, total).
+ *   A cancellation held back while its receipt is under voiding review is
+ *   not a difference: it is applied when the receipt is voided
+ * - Compares the Shopee product list with our Product rows, creating missing
+ *   products (with their variants, as the import does) and correcting stock,
+ *   variant by variant for products with variants. Products with stock
+ *   changes not yet pushed to Shopee (PENDING or FAILED) or linked to a master
+ *   SKU are left alone: our stock is the one to keep. Changes still PENDING are queued for pushing
+ *   again, in case the inventory-sync job gave up on them
+ * - Records a ReconciliationRun with what it checked, found and fixed
+ *
+ * A clean run sets lastSyncAt and marks the integration HEALTHY. Finding
+ * RECONCILE_DRIFT_THRESHOLD or more differences means webhooks are not
+ * arriving, so the integration is marked UNHEALTHY with the reason (until a
+ * later clean run). Runs failing RECONCILE_FAILURE_THRESHOLD times in a row
+ * also mark it UNHEALTHY.
+ */
+
+import { Worker } from "bullmq";
+import { Redis } from "ioredis";
+import { db } from "~/server/db";
+import {
+  ShopeeAPIClient,
+  SHOPEE_ORDER_DETAIL_MAX_BATCH,
+  type ShopeeProductModel,
+} from "~/lib/shopee-api";
+import { applyShopeeOrder, toShopeeOrderSnapshot } from "~/lib/shopee-orders";
+import { importShopeeProduct, syncProductVariants } from "~/lib/shopee-products";
+import { setStock, type StockMovementInput } from "~/lib/stock";
+import { addInventorySyncJob } from "~/server/jobs/queue";
+import {
+  scheduleReconciliation,
+  shopeeReconcileQueue,
+  unscheduleReconciliation,
+  type ReconcileJobData,
+} from "~/lib/queue";
+
+// Redis connection for worker
+const connection = new Redis(process.env.REDIS_URL ?? "redis://localhost:6379", {
+  maxRetriesPerRequest: null,
+});
+
+// Orders updated on Shopee within this window are compared (covers missed runs)
+const RECONCILE_LOOKBACK_MS = 48 * 60 * 60 * 1000;
+
+// Differences in one run that mark the integration UNHEALTHY
+const RECONCILE_DRIFT_THRESHOLD = 5;
+
+// Consecutive failed runs that mark the integration UNHEALTHY
+const RECONCILE_FAILURE_THRESHOLD = 3;
+
+interface OrderCounts {
+  ordersChecked: number;
+  ordersMissing: number;
+  ordersMismatched: number;
+  ordersFixed: number;
+}
+
+interface ProductCounts {
+  productsChecked: number;
+  productsMissing: number;
+  stockMismatches: number;
+  productsFixed: number;
+}
+
+/**
+ * Compare recently updated Shopee orders with our Order rows
+ */
+async function reconcileOrders(
+  client: ShopeeAPIClient,
+  shopId: string,
+  windowStart: Date,
+  windowEnd: Date,
+): Promise<OrderCounts> {
+  const counts: OrderCounts = {
+    ordersChecked: 0,
+    ordersMissing: 0,
+    ordersMismatched: 0,
+    ordersFixed: 0,
+  };
+
+  let cursor = "";
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const page = await client.getOrderList(shopId, windowStart, windowEnd, cursor, 100, "update_time");
+
+    for (let i = 0; i < page.orderNumbers.length; i += SHOPEE_ORDER_DETAIL_MAX_BATCH) {
+      const orderNumbers = page.orderNumbers.slice(i, i + SHOPEE_ORDER_DETAIL_MAX_BATCH);
+      const [remoteOrders, localOrders] = await Promise.all([
+        client.getOrderDetails(shopId, orderNumbers),
+        db.order.findMany({
+          where: {
+            shopId,
+            OR: [
+              { orderNumber: { in: orderNumbers } },
+              { shopeeOrderId: { in: orderNumbers } },
+            ],
+          },
+          select: {
+            orderNumber: true,
+            status: true,
+            totalAmount: true,
+            receipts: { where: { status: "VOID_REVIEW" }, select: { id: true } },
+          },
+        }),
+      ]);
+      const localByNumber = new Map(localOrders.map((order) => [order.orderNumber, order]));
+
+      for (const remote of remoteOrders) {
+        counts.ordersChecked++;
+
+        const local = localByNumber.get(remote.order_sn);
+        if (local && remote.order_status === "CANCELLED" && local.receipts.length > 0) {
+          continue; // Waiting for the receipt to be voided
+        }
+
+        if (!local) {
+          counts.ordersMissing++;
+        } else if (
+          local.status !== remote.order_status ||
+          Math.abs(local.totalAmount.toNumber() - remote.total_amount) >= 0.01
+        ) {
+          counts.ordersMismatched++;
+        } else {
+          continue;
+        }
+
+        const outcome = await applyShopeeOrder(shopId, "SHOPEE", toShopeeOrderSnapshot(remote));
+        if (outcome !== "STALE") {
+          counts.ordersFixed++;
+        }
+      }
+    }
+
+    hasNextPage = page.hasNextPage;
+    cursor = page.nextCursor;
+  }
+
+  return counts;
+}
+
+/**
+ * Whether our stock of a product wins over Shopee's: it has changes not yet
+ * pushed, or a master SKU supplies it
+ */
+function ownsStock(product: {
+  stockSyncStatus: string;
+  masterSkuId: string | null;
+  variants: { stockSyncStatus: string; masterSkuId: string | null }[];
+}): boolean {
+  return [product, ...product.variants].some(
+    (listing) => listing.stockSyncStatus !== "SYNCED" || listing.masterSkuId !== null,
+  );
+}
+
+/**
+ * Whether a product's variants differ from its Shopee models in set or stock
+ */
+function variantsDiffer(
+  variants: { shopeeModelId: string; stock: number }[],
+  models: ShopeeProductModel[],
+): boolean {
+  const stockByModel = new Map(variants.map((variant) => [variant.shopeeModelId, variant.stock]));
+  return (
+    variants.length !== models.length ||
+    models.some((model) => stockByModel.get(model.modelId) !== model.stock)
+  );
+}
+
+/**
+ * Queue a push of stock changes still waiting to be sent to Shopee
+ */
+async function requeuePendingStock(shopId: string): Promise<void> {
+  const pending = await db.product.count({
+    where: {
+      shopId,
+      shopeeProductId: { not: null },
+      OR: [
+        { stockSyncStatus: "PENDING" },
+        { variants: { some: { stockSyncStatus: "PENDING" } } },
+      ],
+    },
+  });
+
+  if (pending > 0) {
+    await addInventorySyncJob({ shopId });
+  }
+}
+
+/**
+ * Compare the Shopee product list with our Product rows
+ */
+async function reconcileProducts(
+  client: ShopeeAPIClient,
+  shopId: string,
+  runId: string,
+): Promise<ProductCounts> {
+  const movement: StockMovementInput = { source: "RECONCILIATION", reference: runId };
+  const counts: ProductCounts = {
+    productsChecked: 0,
+    productsMissing: 0,
+    stockMismatches: 0,
+    productsFixed: 0,
+  };
+
+  let offset = 0;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const page = await client.getProductList(shopId, offset, 50);
+    const localProducts = await db.product.findMany({
+      where: {
+        shopId,
+        shopeeProductId: { in: page.products.map((product) => product.item_id.toString()) },
+      },
+      select: {
+        id: true,
+        shopeeProductId: true,
+        stock: true,
+        stockSyncStatus: true,
+        masterSkuId: true,
+        variants: {
+          select: { shopeeModelId: true, stock: true, stockSyncStatus: true, masterSkuId: true },
+        },
+      },
+    });
+    const localById = new Map(localProducts.map((product) => [product.shopeeProductId, product]));
+
+    for (const remote of page.products) {
+      counts.productsChecked++;
+
+      const local = localById.get(remote.item_id.toString());
+      if (!local) {
+        counts.productsMissing++;
+        await importShopeeProduct(client, shopId, remote, movement);
+        counts.productsFixed++;
+        continue;
+      }
+      if (ownsStock(local)) {
+        continue;
+      }
+
+      // A product with variants has their total as its stock: compare the variants
+      const models = remote.has_model === false ? [] : await client.getModelList(shopId, remote.item_id);
+      if (models.length > 0 || local.variants.length > 0) {
+        if (variantsDiffer(local.variants, models)) {
+          counts.stockMismatches++;
+          await syncProductVariants(local.id, models, movement);
+          counts.productsFixed++;
+        }
+        if (models.length > 0) {
+          continue;
+        }
+      }
+
+      if (local.stock !== remote.stock) {
+        counts.stockMismatches++;
+        await db.$transaction((tx) =>
+          setStock(tx, { productId: local.id }, remote.stock, movement)
+        );
+        counts.productsFixed++;
+      }
+    }
+
+    hasNextPage = page.hasNextPage;
+    offset = page.nextOffset;
+  }
+
+  return counts;
+}
+
+/**
+ * Run one reconciliation for a shop and update its integration health
+ */
+async function reconcileShop(data: ReconcileJobData): Promise<void> {
+  const { shopId } = data;
+
+  const integration = await db.shopeeIntegration.findUnique({
+    where: { shopId },
+    select: { deletedAt: true },
+  });
+
+  // Disconnected since the job was scheduled
+  if (!integration || integration.deletedAt) {
+    console.log(`⏭️  Shop ${shopId} is not connected to Shopee, removing reconciliation schedule`);
+    await unscheduleReconciliation(shopId);
+    return;
+  }
+
+  const windowEnd = new Date();
+  const windowStart = new Date(windowEnd.getTime() - RECONCILE_LOOKBACK_MS);
+  const run = await db.reconciliationRun.create({
+    data: { shopId, windowStart, windowEnd },
+  });
+
+  console.log(`🔄 Reconciling shop ${shopId} with Shopee`);
+
+  try {
+    const client = new ShopeeAPIClient();
+    const orderCounts = await reconcileOrders(client, shopId, windowStart, windowEnd);
+    const productCounts = await reconcileProducts(client, shopId, run.id);
+    await requeuePendingStock(shopId);
+
+    const drift =
+      orderCounts.ordersMissing +
+      orderCounts.ordersMismatched +
+      productCounts.productsMissing +
+      productCounts.stockMismatches;
+    const completedAt = new Date();
+
+    await db.$transaction([
+      db.reconciliationRun.update({
+        where: { id: run.id },
+        data: {
+          ...orderCounts,
+          ...productCounts,
+          status: "COMPLETED",
+          completedAt,
+        },
+      }),
+      db.shopeeIntegration.update({
+        where: { shopId },
+        data: {
+          lastSyncAt: completedAt,
+          failureCount: 0,
+          ...(drift >= RECONCILE_DRIFT_THRESHOLD
+            ? {
+                status: "UNHEALTHY",
+                statusReason: `Reconciliation repaired ${drift} orders or products that webhooks missed. Check that Shopee webhooks are reaching Kaching.`,
+              }
+            : { status: "HEALTHY", statusReason: null }),
+        },
+      }),
+    ]);
+
+    console.log(`✅ Reconciled shop ${shopId}: ${drift} difference${drift === 1 ? "" : "s"} repaired`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    await db.reconciliationRun.update({
+      where: { id: run.id },
+      data: { status: "FAILED", error: message, completedAt: new Date() },
+    });
+
+    const updated = await db.shopeeIntegration.update({
+      where: { shopId },
+      data: { failureCount: { increment: 1 } },
+    });
+
+    if (updated.failureCount >= RECONCILE_FAILURE_THRESHOLD) {
+      await db.shopeeIntegration.update({
+        where: { shopId },
+        data: {
+          status: "UNHEALTHY",
+          statusReason: `Reconciliation failed ${updated.failureCount} times in a row: ${message}`,
+        },
+      });
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Make the schedules match the connected integrations
+ * Covers shops connected before reconciliation existed
+ */
+async function syncReconciliationSchedules(): Promise<void> {
+  const integrations = await db.shopeeIntegration.findMany({
+    where: { deletedAt: null },
+    select: { shopId: true },
+  });
+  const connected = new Set(integrations.map((integration) => integration.shopId));
+
+  for (const shopId of connected) {
+    await scheduleReconciliation(shopId);
+  }
+
+  for (const scheduler of await shopeeReconcileQueue.getJobSchedulers()) {
+    const shopId = scheduler.key.replace(/^reconcile-/, "");
+    if (!connected.has(shopId)) {
+      await unscheduleReconciliation(shopId);
+    }
+  }
+
+  console.log(`🗓️  Reconciliation scheduled for ${connected.size} shop${connected.size === 1 ? "" : "s"}`);
+}
+
+// Create worker
+export const reconcileWorker = new Worker<ReconcileJobData>(
+  "shopee-reconcile",
+  async (job) => {
+    await reconcileShop(job.data);
+  },
+  {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
+    connection: connection as any, // Type mismatch with ioredis
+    concurrency: 1, // Reconciliation is API-heavy, one shop at a time
+  }
+);
+
+// Event handlers
+reconcileWorker.on("completed", (job) => {
+  console.log(`✅ Reconciliation job ${job.id} completed`);
+});
+
+reconcileWorker.on("failed", (job, error) => {
+  console.error(`❌ Reconciliation job ${job?.id} failed:`, error);
+});
+
+reconcileWorker.on("error", (error) => {
+  console.error("❌ Reconciliation worker error:", error);
+});
+
+syncReconciliationSchedules().catch((error) => {
+  console.error("❌ Failed to sync reconciliation schedules:", error);
+});
+
+console.log("🚀 Reconciliation worker started");
@@ -0,0 +1,110 @@
+/**
+ * Shopee Token Refresh Worker
+ *
+ * Keeps every connected integration's tokens valid without waiting for an API
+ * call to fail. Shopee access tokens last 4 hours; refresh tokens last 30 days
+ * and are replaced on every refresh. A repeatable sweep (every
+ * TOKEN_REFRESH_INTERVAL_MS, see scheduleTokenRefresh) refreshes each
+ * integration whose access token expires within TOKEN_REFRESH_AHEAD_MS.
+ *
+ * ShopeeAPIClient.refreshAccessToken holds a per-shop Redis lock, so this
+ * sweep and the client's refresh on auth errors never spend the same
+ * refresh token twice. A failed refresh marks the integration UNHEALTHY with
+ * the reason. Integrations whose refresh token has already expired cannot be
+ * refreshed and are marked UNHEALTHY without calling Shopee.
+ */
+
+import { Worker } from "bullmq";
+import { Redis } from "ioredis";
+import { db } from "~/server/db";
+import { ShopeeAPIClient } from "~/lib/shopee-api";
+import { scheduleTokenRefresh, TOKEN_REFRESH_INTERVAL_MS } from "~/lib/queue";
+
+// Redis connection for worker
+const connection = new Redis(process.env.REDIS_URL ?? "redis://localhost:6379", {
+  maxRetriesPerRequest: null,
+});
+
+// Refresh tokens expiring this soon; longer than the interval so every token
+// gets more than one attempt before it expires
+const TOKEN_REFRESH_AHEAD_MS = 3 * TOKEN_REFRESH_INTERVAL_MS;
+
+/**
+ * Refresh every integration whose access token is about to expire
+ */
+async function refreshExpiringTokens(): Promise<{ refreshed: number; failed: number }> {
+  const now = new Date();
+  const integrations = await db.shopeeIntegration.findMany({
+    where: {
+      deletedAt: null,
+      expiresAt: { lte: new Date(now.getTime() + TOKEN_REFRESH_AHEAD_MS) },
+    },
+    select: { shopId: true, refreshExpiresAt: true, statusReason: true },
+  });
+
+  const client = new ShopeeAPIClient();
+  let refreshed = 0;
+  let failed = 0;
+
+  for (const integration of integrations) {
+    const { shopId } = integration;
+
+    if (integration.refreshExpiresAt && integration.refreshExpiresAt <= now) {
+      const statusReason = "Shopee authorization has expired. Reconnect Shopee to resume syncing.";
+      if (integration.statusReason !== statusReason) {
+        console.warn(`⚠️  Refresh token for shop ${shopId} has expired`);
+        await db.shopeeIntegration.update({
+          where: { shopId },
+          data: { status: "UNHEALTHY", statusReason },
+        });
+      }
+      failed++;
+      continue;
+    }
+
+    try {
+      await client.refreshAccessToken(shopId);
+      refreshed++;
+    } catch (error) {
+      // One shop failing must not stop the others
+      console.error(`❌ Failed to refresh Shopee token for shop ${shopId}:`, error);
+      failed++;
+    }
+  }
+
+  return { refreshed, failed };
+}
+
+// Create worker
+export const tokenRefreshWorker = new Worker(
+  "shopee-token-refresh",
+  async () => {
+    const result = await refreshExpiringTokens();
+    console.log(`🔄 Refreshed ${result.refreshed} Shopee token${result.refreshed === 1 ? "" : "s"}, ${result.failed} failed`);
+    return result;
+  },
+  {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
+    connection: connection as any, // Type mismatch with ioredis
+    concurrency: 1, // One sweep at a time
+  }
+);
+
+// Event handlers
+tokenRefreshWorker.on("completed", (job) => {
+  console.log(`✅ Token refresh job ${job.id} completed`);
+});
+
+tokenRefreshWorker.on("failed", (job, error) => {
+  console.error(`❌ Token refresh job ${job?.id} failed:`, error);
+});
+
+tokenRefreshWorker.on("error", (error) => {
+  console.error("❌ Token refresh worker error:", error);
+});
+
+scheduleTokenRefresh().catch((error) => {
+  console.error("❌ Failed to schedule token refresh:", error);
+});
+
+console.log("🚀 Token refresh worker started");
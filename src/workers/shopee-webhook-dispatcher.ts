@@ -0,0 +1,150 @@
+/**
+ * Shopee Webhook Dispatcher
+ *
+ * The only consumer of the shopee-webhook-process queue. Each job is routed
+ * by its eventType to the first registered handler that matches it:
+ * - order.*: order handler (shopee-webhook-order.ts)
+ * - product.* / inventory.*: inventory handler (shopee-webhook-inventory.ts)
+ *
+ * New event families are supported by adding a handler to WEBHOOK_HANDLERS.
+ *
+ * The dispatcher owns WebhookPayload.status: PROCESSING while a handler
+ * runs, COMPLETED once it applies the event, STALE when the handler ignored
+ * it as older than the entity's last applied update_time, FAILED (with the
+ * error and retry count) when it throws. Event types nobody handles are
+ * marked UNHANDLED instead of being reported as processed.
+ */
+
+import { Worker } from "bullmq";
+import { Redis } from "ioredis";
+import { db } from "~/server/db";
+import type { WebhookProcessJobData } from "~/lib/queue";
+import type { WebhookPayload } from "../../generated/prisma";
+import { orderWebhookHandler } from "./shopee-webhook-order";
+import { inventoryWebhookHandler } from "./shopee-webhook-inventory";
+
+// Redis connection for worker
+const connection = new Redis(process.env.REDIS_URL ?? "redis://localhost:6379", {
+  maxRetriesPerRequest: null,
+});
+
+// APPLIED: entity updated; STALE: ignored, older than the last applied update
+export type WebhookOutcome = "APPLIED" | "STALE";
+
+export interface WebhookHandler {
+  name: string;
+  matches: (eventType: string) => boolean;
+  handle: (webhook: WebhookPayload, data: WebhookProcessJobData) => Promise<WebhookOutcome>;
+}
+
+// Registered handlers, checked in order
+const WEBHOOK_HANDLERS: WebhookHandler[] = [orderWebhookHandler, inventoryWebhookHandler];
+
+// Retries configured on the webhook queue
+const MAX_WEBHOOK_ATTEMPTS = 5;
+
+/**
+ * Find the handler for an event type
+ */
+export function findWebhookHandler(eventType: string): WebhookHandler | undefined {
+  return WEBHOOK_HANDLERS.find((handler) => handler.matches(eventType));
+}
+
+/**
+ * Route a webhook to its handler and record the outcome
+ */
+async function dispatchWebhook(data: WebhookProcessJobData): Promise<void> {
+  const webhook = await db.webhookPayload.findUnique({
+    where: { id: data.webhookId },
+  });
+
+  if (!webhook) {
+    throw new Error(`Webhook ${data.webhookId} not found`);
+  }
+
+  const handler = findWebhookHandler(webhook.eventType);
+
+  if (!handler) {
+    console.warn(`⚠️  No handler for webhook event ${webhook.eventType} (${webhook.id})`);
+    await db.webhookPayload.update({
+      where: { id: webhook.id },
+      data: {
+        status: "UNHANDLED",
+        processedAt: new Date(),
+        errorMessage: `No handler registered for event type "${webhook.eventType}"`,
+      },
+    });
+    return;
+  }
+
+  console.log(`🔄 Processing ${handler.name} webhook: ${webhook.id} (${webhook.eventType})`);
+
+  await db.webhookPayload.update({
+    where: { id: webhook.id },
+    data: { status: "PROCESSING" },
+  });
+
+  try {
+    const outcome = await handler.handle(webhook, data);
+
+    await db.webhookPayload.update({
+      where: { id: webhook.id },
+      data: {
+        status: outcome === "STALE" ? "STALE" : "COMPLETED",
+        processedAt: new Date(),
+        errorMessage: null,
+      },
+    });
+  } catch (error) {
+    console.error(`❌ Failed to process ${handler.name} webhook ${webhook.id}:`, error);
+
+    const updatedWebhook = await db.webhookPayload.update({
+      where: { id: webhook.id },
+      data: {
+        status: "FAILED",
+        errorMessage: error instanceof Error ? error.message : String(error),
+        retryCount: { increment: 1 },
+      },
+    });
+
+    if (updatedWebhook.retryCount >= MAX_WEBHOOK_ATTEMPTS) {
+      console.error(
+        `❌ Webhook ${webhook.id} permanently failed after ${MAX_WEBHOOK_ATTEMPTS} attempts`,
+      );
+    }
+
+    throw error; // Re-throw to trigger BullMQ retry
+  }
+}
+
+// Create worker
+export const webhookDispatcherWorker = new Worker<WebhookProcessJobData>(
+  "shopee-webhook-process",
+  async (job) => {
+    await dispatchWebhook(job.data);
+  },
+  {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
+    connection: connection as any, // Type mismatch with ioredis
+    concurrency: 10, // Process 10 webhooks concurrently
+    limiter: {
+      max: 50, // Max 50 jobs
+      duration: 1000, // Per second
+    },
+  }
+);
+
+// Event handlers
+webhookDispatcherWorker.on("completed", (job) => {
+  console.log(`✅ Webhook job ${job.id} completed`);
+});
+
+webhookDispatcherWorker.on("failed", (job, error) => {
+  console.error(`❌ Webhook job ${job?.id} failed:`, error);
+});
+
+webhookDispatcherWorker.on("error", (error) => {
+  console.error("❌ Webhook dispatcher error:", error);
+});
+
+console.log("🚀 Webhook dispatcher started");
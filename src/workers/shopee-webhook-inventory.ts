@@ -1,28 +1,40 @@
 /**
  * Shopee Inventory Webhook Processor
  * 
- * Processes inventory-related webhooks from Shopee:
+ * Handles inventory-related webhooks from Shopee (routed here by the webhook
+ * dispatcher, which owns the WebhookPayload status):
  * - product.stock_updated: Stock quantity changed
  * - product.price_updated: Price changed
  * - product.updated: Product details changed
  * - product.deleted: Product removed from shop
+ *
+ * Events carrying a model_id apply to that variant (see shopee-products.ts):
+ * the variant's stock/price is updated (or the variant created or deleted)
+ * and the parent product's totals are rolled up again. Item-level events
+ * leave stock and price of products with variants to the rollup.
+ *
+ * Events older than the product's (or variant's) last applied update_time
+ * are ignored, so out-of-order deliveries cannot regress stock or price.
+ * Stock changes are recorded as SHOPEE_WEBHOOK movements referencing the
+ * webhook (see ~/lib/stock); deleted products and variants get a closing
+ * REMOVED movement so their stock history is kept.
  */
 
-import { Worker } from "bullmq";
-import { Redis } from "ioredis";
 import { db } from "~/server/db";
 import type { WebhookProcessJobData } from "~/lib/queue";
-
-// Redis connection for worker
-const connection = new Redis(process.env.REDIS_URL ?? "redis://localhost:6379", {
-  maxRetriesPerRequest: null,
-});
+import { isStaleUpdate, parseWebhookUpdateTime } from "~/lib/shopee-webhook";
+import { rollUpVariants } from "~/lib/shopee-products";
+import { closeStock, lockStock, setStock, type StockMovementInput } from "~/lib/stock";
+import type { WebhookPayload } from "../../generated/prisma";
+import type { WebhookHandler, WebhookOutcome } from "./shopee-webhook-dispatcher";
 
 // Type definitions for Shopee inventory webhook payloads
 interface ShopeeInventoryWebhook {
   event_type: string;
   shop_id: number;
   item_id: string;
+  model_id?: number | string; // Variant the event applies to (absent or 0 for the item)
+  model_name?: string;
   model_sku?: string;
   stock?: number;
   price?: number;
@@ -31,188 +43,298 @@ interface ShopeeInventoryWebhook {
   update_time: number;
 }
 
+// Shopee prices have 5 implied decimal places
+const toPesos = (price: number) => price / 100000;
+
+// Writes are re-checked: a newer delivery may have been applied meanwhile
+function notNewerThan(updateTime: Date | null) {
+  return updateTime
+    ? { OR: [{ platformUpdatedAt: null }, { platformUpdatedAt: { lte: updateTime } }] }
+    : {};
+}
+
 /**
- * Process inventory webhook
+ * Apply an inventory webhook for one variant and roll up the product totals
  */
-async function processInventoryWebhook(data: WebhookProcessJobData): Promise<void> {
-  console.log(`🔄 Processing inventory webhook: ${data.webhookId}`);
-  
-  // Fetch webhook record
-  const webhook = await db.webhookPayload.findUnique({
-    where: { id: data.webhookId },
-  });
-  
-  if (!webhook) {
-    throw new Error(`Webhook ${data.webhookId} not found`);
-  }
-  
-  // Update status to PROCESSING
-  await db.webhookPayload.update({
-    where: { id: data.webhookId },
-    data: { status: "PROCESSING" },
+async function handleVariantWebhook(
+  payload: ShopeeInventoryWebhook,
+  data: WebhookProcessJobData,
+  modelId: string,
+  updateTime: Date | null,
+): Promise<WebhookOutcome> {
+  const eventType = payload.event_type;
+
+  let product = await db.product.findFirst({
+    where: {
+      shopId: data.shopId,
+      shopeeProductId: String(payload.item_id),
+    },
   });
-  
-  try {
-    const payload = webhook.rawPayload as unknown as ShopeeInventoryWebhook;
-    const eventType = payload.event_type;
-    
-    // Find existing product
-    const existingProduct = await db.product.findFirst({
-      where: {
+
+  if (!product) {
+    if (eventType === "product.deleted") {
+      return "APPLIED"; // Nothing to delete
+    }
+    // Parent not imported yet; its totals come from the variant rollup
+    product = await db.product.create({
+      data: {
         shopId: data.shopId,
+        platform: data.platform,
         shopeeProductId: String(payload.item_id),
+        name: payload.item_name ?? "Unknown Product",
+        price: 0,
+        imageUrl: payload.images?.[0] ?? null,
       },
     });
-    
-    if (!existingProduct && eventType !== "product.deleted") {
-      // Product doesn't exist yet, create it
-      const newProduct = await db.product.create({
+  }
+
+  const variant = await db.productVariant.findUnique({
+    where: {
+      productId_shopeeModelId: { productId: product.id, shopeeModelId: modelId },
+    },
+  });
+
+  if (isStaleUpdate(variant?.platformUpdatedAt ?? null, updateTime)) {
+    console.log(`⏭️  Stale ${eventType} for item ${payload.item_id} model ${modelId}, ignoring`);
+    return "STALE";
+  }
+
+  const productId = product.id;
+  const movement: StockMovementInput = { source: "SHOPEE_WEBHOOK", reference: data.webhookId };
+  const applied = await db.$transaction(async (tx) => {
+    if (eventType === "product.deleted") {
+      if (variant) {
+        // Re-check under the lock so the closing movement and delete go together
+        const target = { productId, variantId: variant.id };
+        await lockStock(tx, target);
+        const current = await tx.productVariant.count({
+          where: { id: variant.id, ...notNewerThan(updateTime) },
+        });
+        if (current === 0) {
+          return false;
+        }
+        await closeStock(tx, target, { reference: data.webhookId, reason: "Deleted on Shopee" });
+        await tx.productVariant.delete({ where: { id: variant.id } });
+      }
+    } else if (!variant) {
+      const created = await tx.productVariant.create({
         data: {
-          shopId: data.shopId,
-          platform: data.platform,
-          shopeeProductId: String(payload.item_id),
-          name: payload.item_name ?? "Unknown Product",
+          productId,
+          shopeeModelId: modelId,
+          name: payload.model_name ?? payload.model_sku ?? `Model ${modelId}`,
           sku: payload.model_sku ?? null,
-          stock: payload.stock ?? 0,
-          price: payload.price ? payload.price / 100000 : 0, // Shopee uses 5 decimal places
-          imageUrl: payload.images?.[0] ?? null,
+          price: payload.price ? toPesos(payload.price) : 0,
+          platformUpdatedAt: updateTime,
         },
       });
-      
-      console.log(`✅ Created product: ${newProduct.name}`);
-      
-      // TODO: Emit Socket.IO event (Epic 3 integration)
-      // io?.to(`shop:${data.shopId}`).emit("shop:inventory:updated", {
-      //   productId: newProduct.id,
-      //   shopId: data.shopId,
-      //   stock: newProduct.stock,
-      // });
-      
-    } else if (existingProduct && eventType === "product.deleted") {
-      // Delete product
-      await db.product.delete({
-        where: { id: existingProduct.id },
-      });
-      
-      console.log(`✅ Deleted product: ${existingProduct.name}`);
-      
-      // TODO: Emit Socket.IO event (Epic 3 integration)
-      // io?.to(`shop:${data.shopId}`).emit("shop:inventory:updated", {
-      //   productId: existingProduct.id,
-      //   shopId: data.shopId,
-      //   stock: 0,
-      // });
-      
-    } else if (existingProduct) {
-      // Update existing product
+      await setStock(tx, { productId, variantId: created.id }, payload.stock ?? 0, movement);
+    } else {
       const updateData: {
-        stock?: number;
         price?: number;
         name?: string;
         sku?: string;
-        imageUrl?: string;
+        platformUpdatedAt?: Date;
       } = {};
-      
-      if (eventType === "product.stock_updated" && payload.stock !== undefined) {
-        updateData.stock = payload.stock;
-      }
-      
-      if (eventType === "product.price_updated" && payload.price !== undefined) {
-        updateData.price = payload.price / 100000;
+
+      if ((eventType === "product.price_updated" || eventType === "product.updated") && payload.price !== undefined) {
+        updateData.price = toPesos(payload.price);
       }
-      
       if (eventType === "product.updated") {
-        if (payload.stock !== undefined) updateData.stock = payload.stock;
-        if (payload.price !== undefined) updateData.price = payload.price / 100000;
-        if (payload.item_name) updateData.name = payload.item_name;
+        if (payload.model_name) updateData.name = payload.model_name;
         if (payload.model_sku) updateData.sku = payload.model_sku;
-        if (payload.images?.[0]) updateData.imageUrl = payload.images[0];
       }
-      
-      const updatedProduct = await db.product.update({
-        where: { id: existingProduct.id },
+      if (updateTime) {
+        updateData.platformUpdatedAt = updateTime;
+      }
+
+      const updated = await tx.productVariant.updateMany({
+        where: { id: variant.id, ...notNewerThan(updateTime) },
         data: updateData,
       });
-      
-      console.log(`✅ Updated product: ${updatedProduct.name}`);
-      
-      // TODO: Emit Socket.IO event for stock changes (Epic 3 integration)
-      // if (updateData.stock !== undefined) {
-      //   io?.to(`shop:${data.shopId}`).emit("shop:inventory:updated", {
-      //     productId: updatedProduct.id,
-      //     shopId: data.shopId,
-      //     stock: updatedProduct.stock,
-      //   });
-      // }
+      if (updated.count === 0) {
+        return false;
+      }
+
+      if ((eventType === "product.stock_updated" || eventType === "product.updated") && payload.stock !== undefined) {
+        await setStock(tx, { productId, variantId: variant.id }, payload.stock, movement);
+      }
     }
-    
-    // Mark webhook as COMPLETED
-    await db.webhookPayload.update({
-      where: { id: data.webhookId },
-      data: {
-        status: "COMPLETED",
-        processedAt: new Date(),
-      },
+
+    await rollUpVariants(tx, productId, movement);
+    return true;
+  });
+
+  if (!applied) {
+    return "STALE";
+  }
+
+  console.log(`✅ Applied ${eventType} to ${product.name} (model ${modelId})`);
+  return "APPLIED";
+}
+
+/**
+ * Apply an inventory webhook
+ */
+async function handleInventoryWebhook(
+  webhook: WebhookPayload,
+  data: WebhookProcessJobData,
+): Promise<WebhookOutcome> {
+  const payload = webhook.rawPayload as unknown as ShopeeInventoryWebhook;
+  const eventType = payload.event_type;
+  const updateTime = parseWebhookUpdateTime(payload.update_time);
+
+  // Variant-level event
+  if (payload.model_id && String(payload.model_id) !== "0") {
+    return handleVariantWebhook(payload, data, String(payload.model_id), updateTime);
+  }
+  
+  // Find existing product
+  const existingProduct = await db.product.findFirst({
+    where: {
+      shopId: data.shopId,
+      shopeeProductId: String(payload.item_id),
+    },
+  });
+  
+  // Out-of-order delivery: never regress stock or price to an older value
+  if (isStaleUpdate(existingProduct?.platformUpdatedAt ?? null, updateTime)) {
+    console.log(`⏭️  Stale ${eventType} for item ${payload.item_id}, ignoring`);
+    return "STALE";
+  }
+  
+  const notNewer = notNewerThan(updateTime);
+  const movement: StockMovementInput = { source: "SHOPEE_WEBHOOK", reference: data.webhookId };
+  
+  if (!existingProduct && eventType !== "product.deleted") {
+    // Product doesn't exist yet, create it
+    const newProduct = await db.$transaction(async (tx) => {
+      const created = await tx.product.create({
+        data: {
+          shopId: data.shopId,
+          platform: data.platform,
+          shopeeProductId: String(payload.item_id),
+          name: payload.item_name ?? "Unknown Product",
+          sku: payload.model_sku ?? null,
+          price: payload.price ? toPesos(payload.price) : 0,
+          imageUrl: payload.images?.[0] ?? null,
+          platformUpdatedAt: updateTime,
+        },
+      });
+      await setStock(tx, { productId: created.id }, payload.stock ?? 0, movement);
+      return created;
     });
     
-  } catch (error) {
-    console.error(`❌ Failed to process inventory webhook ${data.webhookId}:`, error);
+    console.log(`✅ Created product: ${newProduct.name}`);
     
-    // Update retry count
-    const updatedWebhook = await db.webhookPayload.update({
-      where: { id: data.webhookId },
-      data: {
-        status: "FAILED",
-        errorMessage: error instanceof Error ? error.message : String(error),
-        retryCount: { increment: 1 },
-      },
+    // TODO: Emit Socket.IO event (Epic 3 integration)
+    // io?.to(`shop:${data.shopId}`).emit("shop:inventory:updated", {
+    //   productId: newProduct.id,
+    //   shopId: data.shopId,
+    //   stock: newProduct.stock,
+    // });
+    
+  } else if (existingProduct && eventType === "product.deleted") {
+    // Delete product, closing its and its variants' stock first
+    const deleted = await db.$transaction(async (tx) => {
+      const productId = existingProduct.id;
+      await lockStock(tx, { productId });
+      const current = await tx.product.findFirst({
+        where: { id: productId, ...notNewer },
+        select: { variants: { select: { id: true } } },
+      });
+      if (!current) {
+        return false;
+      }
+
+      const closing = { reference: data.webhookId, reason: "Deleted on Shopee" };
+      for (const variant of current.variants) {
+        await closeStock(tx, { productId, variantId: variant.id }, closing);
+      }
+      await closeStock(tx, { productId }, closing);
+      await tx.product.delete({ where: { id: productId } });
+      return true;
     });
+    if (!deleted) {
+      return "STALE";
+    }
+    
+    console.log(`✅ Deleted product: ${existingProduct.name}`);
+    
+    // TODO: Emit Socket.IO event (Epic 3 integration)
+    // io?.to(`shop:${data.shopId}`).emit("shop:inventory:updated", {
+    //   productId: existingProduct.id,
+    //   shopId: data.shopId,
+    //   stock: 0,
+    // });
+    
+  } else if (existingProduct) {
+    // Update existing product
+    const updateData: {
+      price?: number;
+      name?: string;
+      sku?: string;
+      imageUrl?: string;
+      platformUpdatedAt?: Date;
+    } = {};
     
-    // If retry count exceeds limit, mark as permanently failed
-    if (updatedWebhook.retryCount >= 5) {
-      console.error(`❌ Webhook ${data.webhookId} permanently failed after 5 retries`);
+    // Stock and price of a product with variants are rolled up from them
+    const hasVariants = (await db.productVariant.count({ where: { productId: existingProduct.id } })) > 0;
+    
+    let stock: number | undefined;
+    if (eventType === "product.stock_updated" && payload.stock !== undefined && !hasVariants) {
+      stock = payload.stock;
     }
     
-    throw error; // Re-throw to trigger BullMQ retry
-  }
-}
-
-// Create worker
-export const inventoryWebhookWorker = new Worker<WebhookProcessJobData>(
-  "shopee-webhook-process",
-  async (job) => {
-    const { data } = job;
+    if (eventType === "product.price_updated" && payload.price !== undefined && !hasVariants) {
+      updateData.price = toPesos(payload.price);
+    }
     
-    // Only process inventory/product events
-    if (!data.eventType.startsWith("product") && !data.eventType.startsWith("inventory")) {
-      console.log(`⏭️  Skipping non-inventory event: ${data.eventType}`);
-      return;
+    if (eventType === "product.updated") {
+      if (payload.stock !== undefined && !hasVariants) stock = payload.stock;
+      if (payload.price !== undefined && !hasVariants) updateData.price = toPesos(payload.price);
+      if (payload.item_name) updateData.name = payload.item_name;
+      if (payload.model_sku) updateData.sku = payload.model_sku;
+      if (payload.images?.[0]) updateData.imageUrl = payload.images[0];
     }
     
-    await processInventoryWebhook(data);
-  },
-  {
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
-    connection: connection as any, // Type mismatch with ioredis
-    concurrency: 10, // Process 10 inventory webhooks concurrently
-    limiter: {
-      max: 50, // Max 50 jobs
-      duration: 1000, // Per second
-    },
+    if (updateTime) {
+      updateData.platformUpdatedAt = updateTime;
+    }
+    
+    const applied = await db.$transaction(async (tx) => {
+      const updated = await tx.product.updateMany({
+        where: { id: existingProduct.id, ...notNewer },
+        data: updateData,
+      });
+      if (updated.count === 0) {
+        return false;
+      }
+      if (stock !== undefined) {
+        await setStock(tx, { productId: existingProduct.id }, stock, movement);
+      }
+      return true;
+    });
+    if (!applied) {
+      return "STALE";
+    }
+    
+    console.log(`✅ Updated product: ${updateData.name ?? existingProduct.name}`);
+    
+    // TODO: Emit Socket.IO event for stock changes (Epic 3 integration)
+    // if (stock !== undefined) {
+    //   io?.to(`shop:${data.shopId}`).emit("shop:inventory:updated", {
+    //     productId: existingProduct.id,
+    //     shopId: data.shopId,
+    //     stock,
+    //   });
+    // }
   }
-);
-
-// Event handlers
-inventoryWebhookWorker.on("completed", (job) => {
-  console.log(`✅ Inventory webhook job ${job.id} completed`);
-});
-
-inventoryWebhookWorker.on("failed", (job, error) => {
-  console.error(`❌ Inventory webhook job ${job?.id} failed:`, error);
-});
-
-inventoryWebhookWorker.on("error", (error) => {
-  console.error("❌ Inventory webhook worker error:", error);
-});
+  
+  return "APPLIED";
+}
 
-console.log("🚀 Inventory webhook worker started");
+export const inventoryWebhookHandler: WebhookHandler = {
+  name: "inventory",
+  matches: (eventType) => eventType.startsWith("product.") || eventType.startsWith("inventory."),
+  handle: handleInventoryWebhook,
+};
@@ -1,22 +1,26 @@
 /**
  * Shopee Order Webhook Processor
  * 
- * Processes order-related webhooks from Shopee:
+ * Handles order-related webhooks from Shopee (routed here by the webhook
+ * dispatcher, which owns the WebhookPayload status):
  * - order.created: New order placed
  * - order.status_updated: Order status changed
  * - order.cancelled: Order cancelled by buyer/seller
  * - order.payment_completed: Payment confirmed
+ *
+ * The payload is applied with applyShopeeOrder (see ~/lib/shopee-orders):
+ * line items (when the push carries them) are replaced and linked to imported
+ * products, events older than
+ * the order's last applied update_time are ignored, and cancelling an order
+ * that already has a receipt flags the receipt for voiding review instead.
  */
 
-import { Worker } from "bullmq";
-import { Redis } from "ioredis";
-import { db } from "~/server/db";
+import { parseShopeeOrderItems, type ShopeeOrderItem } from "~/lib/order-items";
 import type { WebhookProcessJobData } from "~/lib/queue";
-
-// Redis connection for worker
-const connection = new Redis(process.env.REDIS_URL ?? "redis://localhost:6379", {
-  maxRetriesPerRequest: null,
-});
+import { applyShopeeOrder } from "~/lib/shopee-orders";
+import { parseWebhookUpdateTime } from "~/lib/shopee-webhook";
+import type { WebhookPayload } from "../../generated/prisma";
+import type { WebhookHandler, WebhookOutcome } from "./shopee-webhook-dispatcher";
 
 // Type definitions for Shopee order webhook payloads
 interface ShopeeOrderWebhook {
@@ -32,151 +36,58 @@ interface ShopeeOrderWebhook {
   buyer_phone?: string;
   shipping_address?: string;
   total_amount: number;
-  items: Array<{
-    item_id: string;
-    item_name: string;
-    model_sku?: string;
-    quantity: number;
-    item_price: number;
-  }>;
+  items?: ShopeeOrderItem[]; // Absent on status-only pushes
+}
+
+function isCancellation(eventType: string, orderStatus: string): boolean {
+  return eventType === "order.cancelled" || orderStatus === "CANCELLED";
 }
 
 /**
- * Process order webhook
+ * Apply an order webhook
  */
-async function processOrderWebhook(data: WebhookProcessJobData): Promise<void> {
-  console.log(`🔄 Processing order webhook: ${data.webhookId}`);
-  
-  // Fetch webhook record
-  const webhook = await db.webhookPayload.findUnique({
-    where: { id: data.webhookId },
-  });
-  
-  if (!webhook) {
-    throw new Error(`Webhook ${data.webhookId} not found`);
-  }
-  
-  // Update status to PROCESSING
-  await db.webhookPayload.update({
-    where: { id: data.webhookId },
-    data: { status: "PROCESSING" },
+async function handleOrderWebhook(
+  webhook: WebhookPayload,
+  data: WebhookProcessJobData,
+): Promise<WebhookOutcome> {
+  const payload = webhook.rawPayload as unknown as ShopeeOrderWebhook;
+  const eventType = payload.event_type;
+
+  const outcome = await applyShopeeOrder(data.shopId, data.platform, {
+    shopeeOrderId: payload.order_id,
+    orderNumber: payload.order_sn,
+    status: payload.order_status,
+    cancelled: isCancellation(eventType, payload.order_status),
+    totalAmount: payload.total_amount / 100000, // Shopee uses 5 decimal places
+    customerName: payload.buyer_username ?? "Unknown",
+    customerEmail: payload.buyer_email ?? null,
+    customerPhone: payload.buyer_phone ?? null,
+    shippingAddress: payload.shipping_address ?? null,
+    orderDate: new Date(payload.create_time * 1000),
+    updateTime: parseWebhookUpdateTime(payload.update_time),
+    items: Array.isArray(payload.items) ? parseShopeeOrderItems(payload.items) : undefined,
   });
-  
-  try {
-    const payload = webhook.rawPayload as unknown as ShopeeOrderWebhook;
-    const eventType = payload.event_type;
-    
-    // Parse order data
-    const orderData = {
-      shopId: data.shopId,
-      platform: data.platform,
-      shopeeOrderId: payload.order_id,
-      orderNumber: payload.order_sn,
-      totalAmount: payload.total_amount / 100000, // Shopee uses 5 decimal places
-      customerName: payload.buyer_username ?? "Unknown",
-      customerEmail: payload.buyer_email ?? null,
-      customerPhone: payload.buyer_phone ?? null,
-      shippingAddress: payload.shipping_address ?? null,
-      orderDate: new Date(payload.create_time * 1000),
-      items: payload.items,
-      status: payload.order_status,
-    };
-    
-    // Upsert order (create or update)
-    const order = await db.order.upsert({
-      where: {
-        shopId_shopeeOrderId: {
-          shopId: data.shopId,
-          shopeeOrderId: payload.order_id,
-        },
-      },
-      create: orderData,
-      update: {
-        status: payload.order_status,
-        totalAmount: orderData.totalAmount,
-        items: orderData.items,
-        updatedAt: new Date(),
-      },
-    });
-    
-    console.log(`✅ Order ${eventType}: ${order.orderNumber}`);
-    
-    // TODO: Emit Socket.IO event for real-time updates (Epic 3 integration)
-    // if (eventType === "order.created") {
-    //   io?.to(`shop:${data.shopId}`).emit("shop:order:created", {
-    //     orderId: order.id,
-    //     shopId: data.shopId,
-    //     orderNumber: order.orderNumber,
-    //   });
-    // }
-    
-    // Mark webhook as COMPLETED
-    await db.webhookPayload.update({
-      where: { id: data.webhookId },
-      data: {
-        status: "COMPLETED",
-        processedAt: new Date(),
-      },
-    });
-    
-  } catch (error) {
-    console.error(`❌ Failed to process order webhook ${data.webhookId}:`, error);
-    
-    // Update retry count
-    const updatedWebhook = await db.webhookPayload.update({
-      where: { id: data.webhookId },
-      data: {
-        status: "FAILED",
-        errorMessage: error instanceof Error ? error.message : String(error),
-        retryCount: { increment: 1 },
-      },
-    });
-    
-    // If retry count exceeds limit, mark as permanently failed
-    if (updatedWebhook.retryCount >= 5) {
-      console.error(`❌ Webhook ${data.webhookId} permanently failed after 5 retries`);
-    }
-    
-    throw error; // Re-throw to trigger BullMQ retry
-  }
-}
 
-// Create worker
-export const orderWebhookWorker = new Worker<WebhookProcessJobData>(
-  "shopee-webhook-process",
-  async (job) => {
-    const { data } = job;
-    
-    // Only process order events
-    if (!data.eventType.startsWith("order")) {
-      console.log(`⏭️  Skipping non-order event: ${data.eventType}`);
-      return;
-    }
-    
-    await processOrderWebhook(data);
-  },
-  {
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-explicit-any
-    connection: connection as any, // Type mismatch with ioredis
-    concurrency: 5, // Process 5 order webhooks concurrently
-    limiter: {
-      max: 20, // Max 20 jobs
-      duration: 1000, // Per second
-    },
+  if (outcome === "STALE") {
+    console.log(`⏭️  Stale ${eventType} for order ${payload.order_sn}, ignoring`);
+    return "STALE";
   }
-);
 
-// Event handlers
-orderWebhookWorker.on("completed", (job) => {
-  console.log(`✅ Order webhook job ${job.id} completed`);
-});
+  console.log(`✅ Order ${eventType}: ${payload.order_sn}`);
 
-orderWebhookWorker.on("failed", (job, error) => {
-  console.error(`❌ Order webhook job ${job?.id} failed:`, error);
-});
+  // TODO: Emit Socket.IO event for real-time updates (Epic 3 integration)
+  // if (eventType === "order.created") {
+  //   io?.to(`shop:${data.shopId}`).emit("shop:order:created", {
+  //     shopId: data.shopId,
+  //     orderNumber: payload.order_sn,
+  //   });
+  // }
 
-orderWebhookWorker.on("error", (error) => {
-  console.error("❌ Order webhook worker error:", error);
-});
+  return "APPLIED";
+}
 
-console.log("🚀 Order webhook worker started");
+export const orderWebhookHandler: WebhookHandler = {
+  name: "order",
+  matches: (eventType) => eventType.startsWith("order."),
+  handle: handleOrderWebhook,
+};